@@ -1,23 +1,37 @@
 import { FleetParser } from '../../lib/apply/fleet-parser';
+import { buildFleetValues } from '../../lib/apply/variable-interpolation';
+import { normalizeFleetInputs, describeFleetInputs } from '../../lib/apply/fleet-loader';
 import { LettaClientWrapper } from '../../lib/client/letta-client';
 import { BlockManager } from '../../lib/managers/block-manager';
 import { ArchiveManager } from '../../lib/managers/archive-manager';
 import { AgentManager } from '../../lib/managers/agent-manager';
 import { DiffEngine } from '../../lib/apply/diff-engine';
 import { FileContentTracker } from '../../lib/apply/file-content-tracker';
+import { buildModelSettings } from '../../lib/apply/model-settings';
 import { createSpinner, getSpinnerEnabled } from '../../lib/ux/spinner';
 import { SupabaseStorageBackend, hasSupabaseConfig } from '../../lib/storage/storage-backend';
 import { applyTemplateMode } from './template';
-import { processSharedBlocks, processFolders, updateExistingAgent, createNewAgent } from '../../lib/apply/apply-helpers';
+import { processSharedBlocks, processFolders, updateExistingAgent, createNewAgent, recordGitSources } from '../../lib/apply/apply-helpers';
 import { formatLettaError } from '../../lib/shared/error-handler';
 import { computeDryRunDiffs, displayDryRunResults } from '../../lib/apply/dry-run';
-import { log, warn, output, isQuietMode } from '../../lib/shared/logger';
+import { log, warn, output, isQuietMode, bufferLogs, flushLogs, BufferedLogLine } from '../../lib/shared/logger';
+import { mapWithConcurrency, resolveConcurrency } from '../../lib/shared/concurrency';
 import { FILE_SEARCH_TOOLS } from '../../lib/tools/builtin-tools';
+import { formatToolSourceIssues } from '../../lib/tools/python-tool-check';
 import { displayApplySummary } from '../../lib/ux/display';
 import { buildMcpServerRegistry, expandMcpToolsForAgents } from '../../lib/tools/mcp-tools';
 import { buildAgentManifest, getDefaultManifestPath, writeAgentManifest } from '../../lib/apply/agent-manifest';
 import { ApplyOptions } from './types';
 import * as path from 'path';
+import { GitSourcePin } from '../../lib/storage/git-source';
+
+// Result of applying one agent, recorded in config order once earlier agents finish
+interface AgentApplyOutcome {
+  status: 'succeeded' | 'unchanged' | 'failed';
+  applied?: { id: string; resolvedName: string };
+  gitSources?: GitSourcePin[];
+  err?: string;
+}
 
 export async function applyCommand(options: ApplyOptions, command: any) {
   // Quiet mode overrides verbose
@@ -25,7 +39,10 @@ export async function applyCommand(options: ApplyOptions, command: any) {
   const spinnerEnabled = getSpinnerEnabled(command);
 
   try {
-    const parseSpinner = createSpinner(`Parsing ${options.file}...`, spinnerEnabled).start();
+    const concurrency = resolveConcurrency(options.concurrency);
+    const configFiles = normalizeFleetInputs(options.file);
+    const fleetSource = options.config ? 'fleet config' : describeFleetInputs(configFiles);
+    const parseSpinner = createSpinner(`Parsing ${fleetSource}...`, spinnerEnabled).start();
 
     if (options.dryRun) {
       log('Dry-run mode enabled');
@@ -47,12 +64,19 @@ export async function applyCommand(options: ApplyOptions, command: any) {
       throw new Error(`Supabase configuration err: ${err.message}`);
     }
 
-    const parser = new FleetParser(options.file, {
+    const parser = new FleetParser(configFiles, {
       supabaseBackend,
-      rootPath: options.root
+      rootPath: options.root,
+      values: buildFleetValues({ valuesFiles: options.values, set: options.set }),
+      overlay: options.overlay,
+      secretsFile: options.secretsFile,
+      offline: options.offline
     });
-    const config = await parser.parseFleetConfig(options.file);
-    parseSpinner.succeed(`Parsed ${options.file} (${config.agents.length} agents)`);
+    // The parser fills in resolved content, so an in-memory fleet is copied first
+    const config = options.config
+      ? await parser.resolveConfig(JSON.parse(JSON.stringify(options.config)))
+      : await parser.parseFleetConfig(configFiles);
+    parseSpinner.succeed(`Parsed ${fleetSource} (${config.agents.length} agents)`);
 
     // Validate embedding configuration for self-hosted environments
     const isSelfHosted = !process.env.LETTA_BASE_URL?.includes('letta.com');
@@ -78,6 +102,18 @@ export async function applyCommand(options: ApplyOptions, command: any) {
 
     if (verbose) log(`Found ${config.agents.length} agents in configuration`);
 
+    // Check custom tool source before anything on the server is touched
+    const toolSourceIssues = formatToolSourceIssues(parser.checkToolSources(config));
+    if (toolSourceIssues.length > 0) {
+      throw new Error(
+        `Tool source check failed:\n${toolSourceIssues.map(issue => `  ${issue}`).join('\n')}\n` +
+        'Fix the tool source, or run "lettactl validate" to check it without applying.'
+      );
+    }
+
+    // Resolve secret_ref values now, so a missing secret fails before anything is changed
+    parser.resolveCredentials(config);
+
     // Template mode: apply config to existing agents matching pattern
     if (options.match) {
       await applyTemplateMode({ ...options, match: options.match }, config, parser, command);
@@ -88,7 +124,7 @@ export async function applyCommand(options: ApplyOptions, command: any) {
     const blockManager = new BlockManager(client);
     const agentManager = new AgentManager(client);
     const archiveManager = new ArchiveManager(client);
-    const diffEngine = new DiffEngine(client, blockManager, archiveManager, parser.basePath);
+    const diffEngine = new DiffEngine(client, blockManager, archiveManager, parser.basePath, parser.storageBackend);
     const fileTracker = new FileContentTracker(parser.basePath, parser.storageBackend);
 
     // Load existing resources
@@ -114,7 +150,8 @@ export async function applyCommand(options: ApplyOptions, command: any) {
         fileTracker,
         parser,
         agentFilter: options.agent,
-        verbose
+        verbose,
+        concurrency
       });
       displayDryRunResults(results, verbose);
       return;
@@ -185,9 +222,15 @@ export async function applyCommand(options: ApplyOptions, command: any) {
     const failed: { name: string; err: string }[] = [];
     const skipped: string[] = [];
     const appliedAgents = new Map<string, { id: string; resolvedName: string }>();
+    const agentGitSources = new Map<string, GitSourcePin[]>();
 
-    for (const agent of config.agents) {
-      if (options.agent && !agent.name.includes(options.agent)) continue;
+    // Shared folder contents synced by an earlier agent in this run (folder name -> file hashes)
+    const syncedSharedFolders = new Map<string, Record<string, string>>();
+
+    // Parallel agents print through the log buffer, so live spinners are turned off
+    const agentSpinnerEnabled = concurrency > 1 ? false : spinnerEnabled;
+
+    const applyAgent = async (agent: any): Promise<AgentApplyOutcome> => {
       if (verbose) {
         log(`  Description: ${agent.description}`);
         log(`  Tools: ${agent.tools?.join(', ') || 'none'}`);
@@ -201,6 +244,7 @@ export async function applyCommand(options: ApplyOptions, command: any) {
         const folderContentHashes = await fileTracker.generateFolderFileHashes(agent.folders || []);
         const toolSourceHashes = fileTracker.generateToolSourceHashes(agent.tools || [], parser.toolConfigs);
         const memoryBlockFileHashes = await fileTracker.generateMemoryBlockFileHashes(agent.memory_blocks || []);
+        const gitSources = parser.getAgentGitSources(agent, config);
 
         // Build agent config - auto-manage file search tools based on folder presence
         const hasFolders = (agent.folders || []).length > 0;
@@ -224,10 +268,19 @@ export async function applyCommand(options: ApplyOptions, command: any) {
           description: agent.description || '',
           tools,
           toolSourceHashes,
+          toolApprovals: parser.toolApprovals.get(agent.name) || {},
+          toolRules: agent.tool_rules,
           model: agent.llm_config?.model,
           embedding: agent.embedding,
           embeddingConfig: agent.embedding_config,
           contextWindow: agent.llm_config?.context_window,
+          modelSettings: buildModelSettings(agent.llm_config),
+          tags: agent.tags,
+          timezone: agent.timezone,
+          agentType: agent.agent_type,
+          metadata: agent.metadata,
+          replayInitialMessages: agent.initial_messages?.replay_on_reset ? agent.initial_messages.messages : null,
+          toolEnv: parser.resolveToolEnv(agent),
           reasoning: agent.reasoning,
           memoryBlocks: (agent.memory_blocks || []).map((block: any) => ({
             name: block.name,
@@ -247,6 +300,9 @@ export async function applyCommand(options: ApplyOptions, command: any) {
             } else if (!archive.embedding_config && agent.embedding) {
               resolved.embedding = agent.embedding;
             }
+            if (archive.passages) {
+              resolved.passages = parser.archivePassages.get(archive.name) || [];
+            }
             return resolved;
           }),
           memoryBlockFileHashes,
@@ -269,18 +325,20 @@ export async function applyCommand(options: ApplyOptions, command: any) {
           // Check if changes needed
           const changes = agentManager.getConfigChanges(existingAgent, agentConfig);
           if (!changes.hasChanges) {
-            skipped.push(agent.name);
-            appliedAgents.set(agent.name, {
-              id: existingAgent.id,
-              resolvedName: existingAgent.name
-            });
+            // Content is unchanged, but a ref may now resolve to a different commit
+            if (gitSources.length > 0) {
+              await recordGitSources(client, existingAgent.id, gitSources, verbose);
+            }
             if (verbose) log(`Agent ${agent.name} already up to date`);
-            continue;
+            return { status: 'unchanged', applied: { id: existingAgent.id, resolvedName: existingAgent.name }, gitSources };
           }
 
           // Read previous folder file hashes from agent metadata
           const fullAgent = await client.getAgent(existingAgent.id);
-          const previousFolderFileHashes = (fullAgent as any).metadata?.['lettactl.folderFileHashes'] || {};
+          const previousFolderFileHashes = {
+            ...((fullAgent as any).metadata?.['lettactl.folderFileHashes'] || {}),
+            ...Object.fromEntries(syncedSharedFolders)
+          };
 
           // Update existing agent
           await updateExistingAgent(agent, existingAgent, agentConfig, {
@@ -293,16 +351,16 @@ export async function applyCommand(options: ApplyOptions, command: any) {
             createdFolders,
             sharedBlockIds,
             archiveManager,
-            spinnerEnabled,
+            spinnerEnabled: agentSpinnerEnabled,
             verbose,
             force: options.force || false,
             previousFolderFileHashes
           });
-          succeeded.push(agent.name);
-          appliedAgents.set(agent.name, {
-            id: existingAgent.id,
-            resolvedName: existingAgent.name
-          });
+          await recordGitSources(client, existingAgent.id, gitSources, verbose);
+          for (const folderName of agent.shared_folders || []) {
+            syncedSharedFolders.set(folderName, folderContentHashes.get(folderName) || {});
+          }
+          return { status: 'succeeded', applied: { id: existingAgent.id, resolvedName: existingAgent.name }, gitSources };
         } else {
           // Create new agent
           const createdAgent = await createNewAgent(agent, agentName, {
@@ -314,23 +372,56 @@ export async function applyCommand(options: ApplyOptions, command: any) {
             builtinTools,
             createdFolders,
             sharedBlockIds,
-            spinnerEnabled,
+            spinnerEnabled: agentSpinnerEnabled,
             verbose,
-            folderContentHashes
-          });
-          succeeded.push(agent.name);
-          appliedAgents.set(agent.name, {
-            id: createdAgent.id,
-            resolvedName: createdAgent.name
+            folderContentHashes,
+            toolApprovals: agentConfig.toolApprovals,
+            archivePassages: parser.archivePassages,
+            toolEnv: agentConfig.toolEnv,
+            gitSources
           });
+          return { status: 'succeeded', applied: { id: createdAgent.id, resolvedName: createdAgent.name }, gitSources };
         }
       } catch (err: any) {
         const errorMsg = formatLettaError(err.message);
-        failed.push({ name: agent.name, err: errorMsg });
         warn(`Failed: ${agent.name}: ${errorMsg}`);
         // Continue processing remaining agents (kubectl-style)
+        return { status: 'failed', err: errorMsg };
       }
-    }
+    };
+
+    // Agents syncing the same server folder (shared, or inline folders with the same name)
+    // run in config order, each after the last one that used it, so later agents see the
+    // folder contents the earlier ones uploaded
+    const folderTasks = new Map<string, Promise<unknown>>();
+    const agentsToApply = config.agents.filter((agent: any) => !options.agent || agent.name.includes(options.agent));
+
+    await mapWithConcurrency(
+      agentsToApply,
+      concurrency,
+      async (agent: any) => {
+        const lines: BufferedLogLine[] = [];
+        const run = () => concurrency > 1 ? bufferLogs(lines, () => applyAgent(agent)) : applyAgent(agent);
+        const folderNames: string[] = [...(agent.shared_folders || []), ...(agent.folders || []).map((folder: any) => folder.name)];
+        const folderIds = [...new Set(folderNames.map(name => createdFolders.get(name)).filter((id): id is string => !!id))];
+        const task = Promise.all(folderIds.map(folderId => folderTasks.get(folderId))).then(run);
+        for (const folderId of folderIds) {
+          folderTasks.set(folderId, task);
+        }
+        return { outcome: await task, lines };
+      },
+      ({ outcome, lines }, index) => {
+        const name = agentsToApply[index].name;
+        flushLogs(lines);
+        if (outcome.status === 'failed') {
+          failed.push({ name, err: outcome.err! });
+          return;
+        }
+        (outcome.status === 'unchanged' ? skipped : succeeded).push(name);
+        appliedAgents.set(name, outcome.applied!);
+        agentGitSources.set(name, outcome.gitSources!);
+      }
+    );
 
     // Display summary
     const summaryData = { succeeded, failed, unchanged: skipped };
@@ -347,10 +438,10 @@ export async function applyCommand(options: ApplyOptions, command: any) {
       // --manifest without path gives true, --manifest <path> gives the path string
       const manifestPath = typeof options.manifest === 'string'
         ? path.resolve(options.manifest)
-        : getDefaultManifestPath(options.file);
+        : getDefaultManifestPath(configFiles[0]);
       const manifest = buildAgentManifest({
         config,
-        configPath: options.file,
+        configPath: configFiles[0],
         basePath: parser.basePath,
         appliedAgents,
         agentManager,
@@ -359,7 +450,8 @@ export async function applyCommand(options: ApplyOptions, command: any) {
         sharedBlockIds,
         toolNameToId,
         folderNameToId: createdFolders,
-        mcpServerNameToId
+        mcpServerNameToId,
+        gitSources: agentGitSources
       });
       writeAgentManifest(manifest, manifestPath);
       log(`Agent manifest written to ${manifestPath}`);
@@ -7,8 +7,9 @@ import { FileContentTracker } from '../../lib/apply/file-content-tracker';
 import { OutputFormatter } from '../../lib/ux/output-formatter';
 import { createSpinner, getSpinnerEnabled } from '../../lib/ux/spinner';
 import { minimatch } from 'minimatch';
-import { readLastApplied, applyThreeWayMerge, hashCurrentTools, hashCurrentBlocks, METADATA_KEY } from '../../lib/apply/last-applied-config';
+import { readLastApplied, applyThreeWayMerge, hashCurrentTools, hashCurrentBlocks, resolveTemplateToolApprovals, METADATA_KEY } from '../../lib/apply/last-applied-config';
 import { normalizeResponse } from '../../lib/shared/response-normalizer';
+import { buildModelSettings } from '../../lib/apply/model-settings';
 import { log, output } from '../../lib/shared/logger';
 import { buildMcpServerRegistry, expandMcpToolsForAgents } from '../../lib/tools/mcp-tools';
 
@@ -18,7 +19,7 @@ import { buildMcpServerRegistry, expandMcpToolsForAgents } from '../../lib/tools
  * applied via template (preserves user-added resources).
  */
 export async function applyTemplateMode(
-  options: { file: string; match: string; dryRun?: boolean; root?: string; manifest?: string },
+  options: { file: string | string[]; match: string; dryRun?: boolean; root?: string; manifest?: string },
   config: any,
   parser: FleetParser,
   command: any
@@ -71,7 +72,7 @@ export async function applyTemplateMode(
   // Initialize managers
   const blockManager = new BlockManager(client);
   const archiveManager = new ArchiveManager(client);
-  const diffEngine = new DiffEngine(client, blockManager, archiveManager, parser.basePath);
+  const diffEngine = new DiffEngine(client, blockManager, archiveManager, parser.basePath, parser.storageBackend);
   const fileTracker = new FileContentTracker(parser.basePath, parser.storageBackend);
   const createdFolders = new Map<string, string>();
 
@@ -103,6 +104,7 @@ export async function applyTemplateMode(
   const templateAgent = config.agents?.[0];
   const templateTools = templateAgent?.tools || [];
   const templateSharedBlocks = templateAgent?.shared_blocks || [];
+  const templateToolApprovals = (templateAgent && parser.toolApprovals.get(templateAgent.name)) || {};
 
   // Generate tool source hashes and register tools
   const toolSourceHashes = fileTracker.generateToolSourceHashes(templateTools, parser.toolConfigs);
@@ -130,11 +132,18 @@ export async function applyTemplateMode(
         systemPrompt: templateAgent?.system_prompt?.value || '',
         tools: templateTools,
         toolSourceHashes,
+        toolApprovals: resolveTemplateToolApprovals(lastApplied, templateToolApprovals),
+        toolRules: templateAgent?.tool_rules,
         sharedBlocks: templateSharedBlocks,
         embedding: templateAgent?.embedding,
         embeddingConfig: templateAgent?.embedding_config,
         model: templateAgent?.llm_config?.model,
         contextWindow: templateAgent?.llm_config?.context_window,
+        modelSettings: buildModelSettings(templateAgent?.llm_config),
+        tags: templateAgent?.tags,
+        timezone: templateAgent?.timezone,
+        metadata: templateAgent?.metadata,
+        toolEnv: templateAgent && parser.resolveToolEnv(templateAgent),
       };
 
       // Create minimal AgentVersion for diff engine
@@ -142,7 +151,7 @@ export async function applyTemplateMode(
         id: existingAgent.id,
         name: existingAgent.name,
         baseName: existingAgent.name,
-        configHashes: { overall: '', systemPrompt: '', tools: '', model: '', memoryBlocks: '', folders: '', sharedBlocks: '', archives: '' },
+        configHashes: { overall: '', systemPrompt: '', tools: '', toolRules: '', model: '', memoryBlocks: '', folders: '', sharedBlocks: '', archives: '' },
         version: 'latest',
         lastUpdated: existingAgent.updated_at || new Date().toISOString()
       };
@@ -168,6 +177,7 @@ export async function applyTemplateMode(
           folders: [],
           toolHashes: toolSourceHashes,
           blockHashes: templateBlockHashes,
+          toolApprovals: templateToolApprovals,
         },
         currentHashes,
         verbose
@@ -190,9 +200,12 @@ export async function applyTemplateMode(
       const updateSpinner = createSpinner(`Applying updates to ${existingAgent.name}...`, spinnerEnabled).start();
       await diffEngine.applyUpdateOperations(existingAgent.id, ops, verbose);
 
-      // Store lastApplied config in agent metadata
+      // Store lastApplied config in agent metadata (re-read, user metadata may have just changed)
+      const updatedMetadata = ops.updateFields?.metadata
+        ? (await client.getAgent(existingAgent.id)).metadata
+        : fullAgent.metadata;
       await client.updateAgentMetadata(existingAgent.id, {
-        metadata: { ...fullAgent.metadata, [METADATA_KEY]: configToStore }
+        metadata: { ...updatedMetadata, [METADATA_KEY]: configToStore }
       });
 
       updateSpinner.succeed(`${existingAgent.name}: updated successfully`);
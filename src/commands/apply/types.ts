@@ -1,9 +1,18 @@
+import { FleetConfig } from '../../types/fleet-config';
+
 export interface ApplyOptions {
-  file: string;
+  file: string | string[];
+  config?: FleetConfig; // In-memory fleet (SDK); used instead of reading file, which still names the fleet
   agent?: string;
   match?: string;
   dryRun?: boolean;
   force?: boolean;
   root?: string;
   manifest?: string;
+  values?: string[];
+  set?: string[];
+  overlay?: string;
+  secretsFile?: string;
+  offline?: boolean;
+  concurrency?: number; // Agents diffed and applied in parallel (default 1)
 }
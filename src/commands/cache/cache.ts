@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import { ContentCache, ContentCacheEntry, parseByteSize, parseDuration } from '../../lib/storage/content-cache';
+import { parseBucketFileId } from '../../lib/storage/storage-backend';
+import { listGitMirrors } from '../../lib/storage/git-source';
+import { OutputFormatter } from '../../lib/ux/output-formatter';
+import { formatBytes } from '../../lib/ux/display';
+import { output, error } from '../../lib/shared/logger';
+
+export interface CacheOptions {
+  maxSize?: string;
+  olderThan?: string;
+  all?: boolean;
+  output?: string;
+}
+
+/**
+ * Source kind and readable name of a cache entry: provider://bucket/path, or the URL
+ */
+function describeEntry(entry: ContentCacheEntry): { source: string; name: string } {
+  if (entry.key.startsWith('bucket:')) {
+    const config = parseBucketFileId(entry.key);
+    return { source: 'bucket', name: `${config.provider}://${config.bucket}/${config.path}` };
+  }
+  if (entry.key.startsWith('url:')) {
+    return { source: 'url', name: entry.key.substring('url:'.length) };
+  }
+  return { source: 'other', name: entry.key };
+}
+
+function formatTime(date: Date): string {
+  return date.toISOString().replace('T', ' ').substring(0, 16);
+}
+
+function listCache(options: CacheOptions): void {
+  const cache = new ContentCache();
+  const entries = cache.list();
+  const mirrors = listGitMirrors();
+
+  if (OutputFormatter.handleJsonOutput({
+    root: cache.root,
+    max_size: cache.maxSize,
+    total_size: cache.totalSize,
+    entries: entries.map(entry => ({
+      ...describeEntry(entry),
+      size: entry.size,
+      version: entry.version || null,
+      stored_at: entry.storedAt,
+      used_at: entry.usedAt
+    })),
+    git_mirrors: mirrors.map(mirror => ({
+      repo: mirror.repo,
+      size: mirror.size,
+      used_at: mirror.usedAt.toISOString()
+    }))
+  }, options.output)) {
+    return;
+  }
+
+  const rows = [
+    ...entries.map(entry => ({ ...describeEntry(entry), size: entry.size, usedAt: new Date(entry.usedAt) })),
+    ...mirrors.map(mirror => ({ source: 'git', name: mirror.repo, size: mirror.size, usedAt: mirror.usedAt }))
+  ];
+
+  if (rows.length === 0) {
+    output(`Cache is empty (${cache.root})`);
+    return;
+  }
+
+  output(`${'SOURCE'.padEnd(8)}${'SIZE'.padStart(10)}  ${'LAST USED'.padEnd(18)}NAME`);
+  for (const row of rows) {
+    output(`${row.source.padEnd(8)}${formatBytes(row.size).padStart(10)}  ${formatTime(row.usedAt).padEnd(18)}${row.name}`);
+  }
+
+  const gitSize = mirrors.reduce((total, mirror) => total + mirror.size, 0);
+  output('');
+  output(`Content: ${entries.length} entries, ${formatBytes(cache.totalSize)} of ${formatBytes(cache.maxSize)} limit`);
+  if (mirrors.length > 0) {
+    output(`Git mirrors: ${mirrors.length}, ${formatBytes(gitSize)}`);
+  }
+  output(`Location: ${cache.root}`);
+}
+
+function pruneCache(options: CacheOptions): void {
+  const cache = new ContentCache();
+  const olderThan = options.olderThan !== undefined ? parseDuration(options.olderThan) : undefined;
+  // Without options, shrink the cache to its configured limit
+  const maxSize = options.maxSize !== undefined
+    ? parseByteSize(options.maxSize)
+    : (olderThan === undefined && !options.all ? cache.maxSize : undefined);
+
+  const result = cache.prune({ all: options.all, maxSize, olderThan });
+
+  // Git mirrors are whole repositories, so they are only removed by age or with --all
+  let mirrorsRemoved = 0;
+  let freed = result.freed;
+  for (const mirror of listGitMirrors()) {
+    if (options.all || (olderThan !== undefined && Date.now() - mirror.usedAt.getTime() >= olderThan)) {
+      fs.rmSync(mirror.path, { recursive: true, force: true });
+      mirrorsRemoved++;
+      freed += mirror.size;
+    }
+  }
+
+  if (OutputFormatter.handleJsonOutput({
+    removed: result.removed,
+    git_mirrors_removed: mirrorsRemoved,
+    freed
+  }, options.output)) {
+    return;
+  }
+
+  output(
+    `Removed ${result.removed} cached ${result.removed === 1 ? 'entry' : 'entries'}` +
+    (mirrorsRemoved > 0 ? ` and ${mirrorsRemoved} git mirror${mirrorsRemoved === 1 ? '' : 's'}` : '') +
+    `, freed ${formatBytes(freed)}`
+  );
+}
+
+/**
+ * Lists or prunes the local content cache (bucket objects, URL responses, git mirrors)
+ */
+export async function cacheCommand(action: string, options: CacheOptions) {
+  try {
+    if (action === 'ls') {
+      listCache(options);
+    } else if (action === 'prune') {
+      pruneCache(options);
+    } else {
+      throw new Error(`Unknown cache action "${action}". Use ls or prune.`);
+    }
+  } catch (err: any) {
+    error(`Cache ${action} failed:`, err.message);
+    process.exit(1);
+  }
+}
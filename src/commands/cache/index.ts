@@ -0,0 +1 @@
+export { cacheCommand } from './cache';
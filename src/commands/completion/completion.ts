@@ -15,6 +15,11 @@ const COMMANDS = [
   'export',
   'import',
   'validate',
+  'test',
+  'render',
+  'schema',
+  'explain',
+  'cache',
   'messages',
   'send',
   'reset-messages',
@@ -55,6 +60,14 @@ _lettactl_completions() {
             COMPREPLY=( $(compgen -W "blocks folders archives all" -- "\${cur}") )
             return 0
             ;;
+        test)
+            COMPREPLY=( $(compgen -W "tool" -- "\${cur}") )
+            return 0
+            ;;
+        cache)
+            COMPREPLY=( $(compgen -W "ls prune" -- "\${cur}") )
+            return 0
+            ;;
         completion)
             COMPREPLY=( $(compgen -W "bash zsh fish" -- "\${cur}") )
             return 0
@@ -91,11 +104,16 @@ _lettactl() {
         'delete:Delete a resource'
         'delete-all:Delete multiple agents'
         'cleanup:Delete orphaned resources'
-        'create:Create a new agent'
+        'create:Create a new agent or tool'
         'update:Update an existing agent'
         'export:Export an agent to a file'
         'import:Import an agent from a file'
         'validate:Validate agent configuration'
+        'test:Run a tool locally'
+        'render:Print the fully resolved fleet configuration'
+        'schema:Print the JSON Schema for fleet configs'
+        'explain:Show documentation for a config field'
+        'cache:List or prune the local content cache'
         'messages:List agent conversation messages'
         'send:Send a message to an agent'
         'reset-messages:Reset conversation history'
@@ -148,6 +166,12 @@ _lettactl() {
                 cleanup)
                     _values 'resource' 'blocks' 'folders' 'archives' 'all'
                     ;;
+                test)
+                    _values 'resource' 'tool'
+                    ;;
+                cache)
+                    _values 'action' 'ls' 'prune'
+                    ;;
                 completion)
                     _values 'shell' 'bash' 'zsh' 'fish'
                     ;;
@@ -172,11 +196,16 @@ complete -c lettactl -n __fish_use_subcommand -a describe -d 'Show detailed info
 complete -c lettactl -n __fish_use_subcommand -a delete -d 'Delete a resource'
 complete -c lettactl -n __fish_use_subcommand -a delete-all -d 'Delete multiple agents'
 complete -c lettactl -n __fish_use_subcommand -a cleanup -d 'Delete orphaned resources'
-complete -c lettactl -n __fish_use_subcommand -a create -d 'Create a new agent'
+complete -c lettactl -n __fish_use_subcommand -a create -d 'Create a new agent or tool'
 complete -c lettactl -n __fish_use_subcommand -a update -d 'Update an existing agent'
 complete -c lettactl -n __fish_use_subcommand -a export -d 'Export an agent to a file'
 complete -c lettactl -n __fish_use_subcommand -a import -d 'Import an agent from a file'
 complete -c lettactl -n __fish_use_subcommand -a validate -d 'Validate agent configuration'
+complete -c lettactl -n __fish_use_subcommand -a test -d 'Run a tool locally'
+complete -c lettactl -n __fish_use_subcommand -a render -d 'Print resolved fleet configuration'
+complete -c lettactl -n __fish_use_subcommand -a schema -d 'Print fleet config JSON Schema'
+complete -c lettactl -n __fish_use_subcommand -a explain -d 'Document a config field'
+complete -c lettactl -n __fish_use_subcommand -a cache -d 'List or prune the content cache'
 complete -c lettactl -n __fish_use_subcommand -a messages -d 'List agent messages'
 complete -c lettactl -n __fish_use_subcommand -a send -d 'Send a message to an agent'
 complete -c lettactl -n __fish_use_subcommand -a reset-messages -d 'Reset conversation history'
@@ -196,6 +225,12 @@ complete -c lettactl -n '__fish_seen_subcommand_from get describe delete create
 # Cleanup resources
 complete -c lettactl -n '__fish_seen_subcommand_from cleanup' -a 'blocks folders archives all' -d 'Resource type'
 
+# Test resources
+complete -c lettactl -n '__fish_seen_subcommand_from test' -a 'tool' -d 'Resource type'
+
+# Cache actions
+complete -c lettactl -n '__fish_seen_subcommand_from cache' -a 'ls prune' -d 'Cache action'
+
 # Completion shells
 complete -c lettactl -n '__fish_seen_subcommand_from completion' -a 'bash zsh fish' -d 'Shell type'
 
@@ -2,6 +2,7 @@ import { LettaClientWrapper } from '../../lib/client/letta-client';
 import { createSpinner, getSpinnerEnabled } from '../../lib/ux/spinner';
 import { log, output, error } from '../../lib/shared/logger';
 import { DEFAULT_MODEL, DEFAULT_EMBEDDING } from '../../lib/shared/constants';
+import { createToolScaffold } from './tool';
 
 export default async function createCommand(
   resource: string,
@@ -17,14 +18,27 @@ export default async function createCommand(
     agentType?: string;
     tools?: string;
     memoryBlocks?: string;
+    params?: string;
+    root?: string;
+    force?: boolean;
   },
   command: any
 ) {
   const verbose = command.parent?.opts().verbose || false;
 
+  if (resource === 'tool') {
+    try {
+      await createToolScaffold(name, options);
+      return;
+    } catch (err: any) {
+      error(`Failed to create tool ${name}:`, err.message);
+      throw err;
+    }
+  }
+
   try {
     if (resource !== 'agent') {
-      throw new Error('Only "agent" resource is currently supported for creation');
+      throw new Error('Only "agent" and "tool" resources are currently supported for creation');
     }
 
     const client = new LettaClientWrapper();
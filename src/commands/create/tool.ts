@@ -0,0 +1,29 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { localToolPath, parseToolParameters, renderToolScaffold } from '../../lib/tools/local-tools';
+import { output } from '../../lib/shared/logger';
+
+/**
+ * Scaffolds tools/<name>.py with a typed signature and Google-style docstring
+ */
+export async function createToolScaffold(
+  name: string,
+  options: { description?: string; params?: string; root?: string; force?: boolean }
+) {
+  const basePath = path.resolve(options.root || process.cwd());
+  const params = parseToolParameters(options.params);
+  const source = renderToolScaffold(name, params, options.description);
+  const filePath = localToolPath(basePath, name);
+  const relativePath = path.relative(process.cwd(), filePath);
+
+  if (fs.existsSync(filePath) && !options.force) {
+    throw new Error(`${relativePath} already exists. Use --force to overwrite it.`);
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, source);
+
+  const exampleArgs = JSON.stringify(Object.fromEntries(params.map(param => [param.name, '...'])));
+  output(`Created ${relativePath}`);
+  output(`Run it locally: lettactl test tool ${name} --args '${exampleArgs}'`);
+}
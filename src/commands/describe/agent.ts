@@ -5,6 +5,7 @@ import { createSpinner } from '../../lib/ux/spinner';
 import { normalizeToArray } from '../../lib/resources/resource-usage';
 import { displayAgentDetails, AgentDetailsData } from '../../lib/ux/display';
 import { output } from '../../lib/shared/logger';
+import { maskAgentSecrets } from '../../lib/apply/secret-refs';
 import { DescribeOptions } from './types';
 
 export async function describeAgent(
@@ -85,7 +86,7 @@ export async function describeAgent(
 
     spinner.stop();
 
-    if (OutputFormatter.handleJsonOutput(agentDetails, options?.output)) {
+    if (OutputFormatter.handleJsonOutput(maskAgentSecrets(agentDetails), options?.output)) {
       return;
     }
 
@@ -3,6 +3,7 @@ import { OutputFormatter } from '../../lib/ux/output-formatter';
 import { createSpinner } from '../../lib/ux/spinner';
 import { displayMcpServerDetails, McpServerDetailsData } from '../../lib/ux/display';
 import { output } from '../../lib/shared/logger';
+import { maskMcpServerSecrets } from '../../lib/apply/secret-refs';
 import { DescribeOptions } from './types';
 
 export async function describeMcpServer(
@@ -41,7 +42,7 @@ export async function describeMcpServer(
     // Cast to any for flexible property access
     const s: any = server;
 
-    if (OutputFormatter.handleJsonOutput({ ...s, tools }, options?.output)) {
+    if (OutputFormatter.handleJsonOutput({ ...maskMcpServerSecrets(s), tools }, options?.output)) {
       return;
     }
 
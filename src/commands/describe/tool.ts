@@ -44,6 +44,11 @@ export async function describeTool(
       created: tool.created_at,
       attachedAgents: attachedAgents.map((a: any) => ({ name: a.name, id: a.id })),
       sourceCode: tool.source_code,
+      pipRequirements: (tool.pip_requirements || []).map((req: any) =>
+        req.version ? `${req.name}==${req.version}` : req.name
+      ),
+      tags: tool.tags,
+      argsSchema: tool.args_json_schema || undefined,
     };
 
     output(displayToolDetails(displayData));
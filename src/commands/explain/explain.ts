@@ -0,0 +1,24 @@
+import { explainFleetPath } from '../../lib/validation/schema-explainer';
+import { displayFieldExplanation } from '../../lib/ux/display';
+import { output, error } from '../../lib/shared/logger';
+
+/**
+ * Shows the type, default, allowed values and description of a fleet config field
+ */
+export async function explainCommand(fieldPath: string | undefined, options: { output?: string }) {
+  try {
+    const explanation = explainFleetPath(fieldPath || '');
+
+    if (options.output === 'json') {
+      output(JSON.stringify(explanation, null, 2));
+    } else if (options.output) {
+      error(`Unsupported output format: ${options.output}. Use json.`);
+      process.exit(1);
+    } else {
+      output(displayFieldExplanation(explanation));
+    }
+  } catch (err: any) {
+    error(err.message);
+    process.exit(1);
+  }
+}
@@ -0,0 +1 @@
+export { explainCommand } from './explain';
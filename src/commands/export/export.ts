@@ -1,6 +1,9 @@
 import { LettaClientWrapper } from '../../lib/client/letta-client';
 import { AgentResolver } from '../../lib/client/agent-resolver';
 import { normalizeResponse } from '../../lib/shared/response-normalizer';
+import { getToolsRequiringApproval } from '../../lib/apply/diff-analyzers';
+import { fromApiToolRule } from '../../lib/tools/tool-rules';
+import { getUserMetadata } from '../../lib/apply/agent-metadata';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
@@ -106,6 +109,19 @@ async function exportAsYaml(
     },
   };
 
+  // Add model settings lettactl can express in llm_config
+  const modelSettings = (fullAgent as any).model_settings || {};
+  const reasoningEffort = modelSettings.reasoning?.reasoning_effort ??
+    (modelSettings.provider_type === 'anthropic' ? modelSettings.effort : undefined);
+  for (const [field, value] of Object.entries({
+    temperature: modelSettings.temperature,
+    max_output_tokens: modelSettings.max_output_tokens,
+    parallel_tool_calls: modelSettings.parallel_tool_calls,
+    reasoning_effort: reasoningEffort ?? undefined,
+  })) {
+    if (value !== undefined && value !== null) agentConfig.llm_config[field] = value;
+  }
+
   // Add embedding if not default
   if (fullAgent.embedding) {
     agentConfig.embedding = fullAgent.embedding;
@@ -114,11 +130,37 @@ async function exportAsYaml(
     agentConfig.embedding_config = (fullAgent as any).embedding_config;
   }
 
+  if ((fullAgent as any).agent_type) {
+    agentConfig.agent_type = (fullAgent as any).agent_type;
+  }
+  if (fullAgent.tags?.length) {
+    agentConfig.tags = fullAgent.tags;
+  }
+  if ((fullAgent as any).timezone) {
+    agentConfig.timezone = (fullAgent as any).timezone;
+  }
+  // lettactl.* keys are apply bookkeeping, not user config
+  const userMetadata = getUserMetadata(fullAgent.metadata);
+  if (Object.keys(userMetadata).length > 0) {
+    agentConfig.metadata = userMetadata;
+  }
+
   // Add tools (exclude built-in memory tools)
   const builtInTools = ['send_message', 'conversation_search', 'archival_memory_insert', 'archival_memory_search'];
   const customTools = tools.filter((t: any) => !builtInTools.includes(t.name));
   if (customTools.length > 0) {
-    agentConfig.tools = customTools.map((t: any) => t.name);
+    const approvalTools = getToolsRequiringApproval(fullAgent);
+    agentConfig.tools = customTools.map((t: any) =>
+      approvalTools.has(t.name) ? { name: t.name, requires_approval: true } : t.name
+    );
+  }
+
+  // Add tool rules lettactl can manage (approval rules are exported on the tools above)
+  const toolRules = ((fullAgent as any).tool_rules || [])
+    .map(fromApiToolRule)
+    .filter((rule: any) => rule !== null);
+  if (toolRules.length > 0) {
+    agentConfig.tool_rules = toolRules;
   }
 
   // Add memory blocks (exclude built-in persona/human blocks unless customized)
@@ -3,6 +3,7 @@ import { AgentResolver } from '../../lib/client/agent-resolver';
 import { OutputFormatter } from '../../lib/ux/output-formatter';
 import { createSpinner } from '../../lib/ux/spinner';
 import { output } from '../../lib/shared/logger';
+import { maskAgentSecrets } from '../../lib/apply/secret-refs';
 import { AgentDataFetcher, DetailLevel } from '../../lib/client/agent-data-fetcher';
 import { GetOptions } from './types';
 
@@ -31,13 +32,13 @@ export async function getAgents(
 
     // For JSON output, return the raw data
     if (options?.output === 'json') {
-      const rawData = agents.map(a => a.raw);
+      const rawData = agents.map(a => maskAgentSecrets(a.raw));
       OutputFormatter.handleJsonOutput(rawData, 'json');
       return;
     }
 
     if (options?.output === 'yaml') {
-      const rawData = agents.map(a => a.raw);
+      const rawData = agents.map(a => maskAgentSecrets(a.raw));
       output(OutputFormatter.formatOutput(rawData, 'yaml'));
       return;
     }
@@ -2,6 +2,7 @@ import { LettaClientWrapper } from '../../lib/client/letta-client';
 import { OutputFormatter } from '../../lib/ux/output-formatter';
 import { createSpinner } from '../../lib/ux/spinner';
 import { output } from '../../lib/shared/logger';
+import { maskMcpServerSecrets } from '../../lib/apply/secret-refs';
 import { GetOptions } from './types';
 
 export async function getMcpServers(
@@ -17,7 +18,7 @@ export async function getMcpServers(
 
     spinner.stop();
 
-    if (OutputFormatter.handleJsonOutput(servers, options?.output)) {
+    if (OutputFormatter.handleJsonOutput(servers.map(maskMcpServerSecrets), options?.output)) {
       return;
     }
 
@@ -1,5 +1,6 @@
 import { LettaClientWrapper } from '../../lib/client/letta-client';
 import { AgentResolver } from '../../lib/client/agent-resolver';
+import { readReplayableInitialMessages, sendInitialMessages } from '../../lib/messaging/initial-messages';
 import { output, error } from '../../lib/shared/logger';
 import { ResetOptions } from './types';
 
@@ -30,6 +31,14 @@ export async function resetMessagesCommand(
       output('Agent state after reset:', JSON.stringify(response, null, 2));
     }
 
+    // Replay the scripted conversation apply stored for agents with replay_on_reset
+    const initialMessages = readReplayableInitialMessages(agent.metadata);
+    if (initialMessages && options.replay !== false) {
+      output(`Replaying ${initialMessages.length} initial messages...`);
+      const steps = await sendInitialMessages(client, agent.id, initialMessages, { verbose });
+      output(`Initial messages replayed for agent ${agent.name} (${steps} steps)`);
+    }
+
   } catch (err: any) {
     error(`Failed to reset messages for agent ${agentName}:`, err.message);
     throw err;
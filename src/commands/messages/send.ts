@@ -4,6 +4,7 @@ import { normalizeResponse, sleep } from '../../lib/shared/response-normalizer';
 import { createSpinner, getSpinnerEnabled } from '../../lib/ux/spinner';
 import { sendMessageToAgent } from '../../lib/messaging/message-sender';
 import { bulkSendMessage } from '../../lib/messaging/bulk-messenger';
+import { buildFleetValues } from '../../lib/apply/variable-interpolation';
 import { log, output, error } from '../../lib/shared/logger';
 import { Run } from '../../types/run';
 import { SendOptions } from './types';
@@ -30,6 +31,7 @@ export async function sendMessageCommand(
       await bulkSendMessage(message, {
         pattern: options.all,
         configFile: options.file,
+        values: buildFleetValues({ valuesFiles: options.values, set: options.set }),
         confirm: options.confirm,
         timeout: options.timeout,
         verbose,
@@ -15,7 +15,9 @@ export interface SendOptions {
   maxSteps?: number;
   enableThinking?: boolean;
   all?: string;
-  file?: string;
+  file?: string | string[];
+  values?: string[];
+  set?: string[];
   confirm?: boolean;
   timeout?: number;
   output?: string;
@@ -23,6 +25,7 @@ export interface SendOptions {
 
 export interface ResetOptions {
   addDefault?: boolean;
+  replay?: boolean; // false with --no-replay
 }
 
 export interface CompactOptions {}
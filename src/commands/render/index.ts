@@ -0,0 +1 @@
+export { renderCommand } from './render';
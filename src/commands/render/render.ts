@@ -0,0 +1,57 @@
+import * as yaml from 'js-yaml';
+import { FleetParser } from '../../lib/apply/fleet-parser';
+import { buildFleetValues } from '../../lib/apply/variable-interpolation';
+import { normalizeFleetInputs } from '../../lib/apply/fleet-loader';
+import { SupabaseStorageBackend, hasSupabaseConfig } from '../../lib/storage/storage-backend';
+import { output, error, isQuietMode, setQuietMode } from '../../lib/shared/logger';
+
+export interface RenderOptions {
+  file: string | string[];
+  overlay?: string;
+  values?: string[];
+  set?: string[];
+  root?: string;
+  output?: string;
+  offline?: boolean;
+}
+
+/**
+ * Prints the fully resolved fleet configuration (includes, templates, overlay,
+ * variables and file content applied) exactly as apply would deploy it
+ */
+export async function renderCommand(options: RenderOptions) {
+  const format = options.output || 'yaml';
+  if (!['yaml', 'json'].includes(format)) {
+    error(`Unsupported output format: ${format}. Use yaml or json.`);
+    process.exit(1);
+  }
+
+  // Keep progress logs out of the rendered document
+  const wasQuiet = isQuietMode();
+  setQuietMode(true);
+
+  try {
+    const supabaseBackend = hasSupabaseConfig() ? new SupabaseStorageBackend() : undefined;
+    const configFiles = normalizeFleetInputs(options.file);
+    const parser = new FleetParser(configFiles, {
+      supabaseBackend,
+      rootPath: options.root,
+      values: buildFleetValues({ valuesFiles: options.values, set: options.set }),
+      overlay: options.overlay,
+      offline: options.offline
+    });
+    const config = await parser.parseFleetConfig(configFiles);
+
+    if (format === 'json') {
+      output(JSON.stringify(config, null, 2));
+    } else {
+      output(yaml.dump(config, { lineWidth: -1, noRefs: true }).trimEnd());
+    }
+  } catch (err: any) {
+    error('Render failed:');
+    error(err.message);
+    process.exit(1);
+  } finally {
+    setQuietMode(wasQuiet);
+  }
+}
@@ -0,0 +1 @@
+export { schemaCommand } from './schema';
@@ -0,0 +1,20 @@
+import * as yaml from 'js-yaml';
+import { buildFleetConfigSchema } from '../../lib/validation/fleet-schema';
+import { output, error } from '../../lib/shared/logger';
+
+/**
+ * Prints the JSON Schema for fleet configuration files
+ */
+export async function schemaCommand(options: { output?: string }) {
+  const format = options.output || 'json';
+  const schema = buildFleetConfigSchema();
+
+  if (format === 'json') {
+    output(JSON.stringify(schema, null, 2));
+  } else if (format === 'yaml') {
+    output(yaml.dump(schema, { lineWidth: -1, noRefs: true }).trimEnd());
+  } else {
+    error(`Unsupported output format: ${format}. Use json or yaml.`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1 @@
+export { testCommand } from './tool';
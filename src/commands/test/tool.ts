@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { discoverLocalTools, localToolPath, runLocalTool, TOOLS_DIR } from '../../lib/tools/local-tools';
+import { checkPythonToolSource, formatToolSourceIssues } from '../../lib/tools/python-tool-check';
+import { OutputFormatter } from '../../lib/ux/output-formatter';
+import { output, error, warn } from '../../lib/shared/logger';
+
+export interface TestToolOptions {
+  args?: string;
+  argsFile?: string;
+  root?: string;
+  python?: string;
+  timeout?: number;
+  output?: string;
+}
+
+function parseToolArgs(options: TestToolOptions): Record<string, any> {
+  if (options.args && options.argsFile) {
+    throw new Error('Use either --args or --args-file, not both.');
+  }
+
+  const source = options.argsFile ? options.argsFile : '--args';
+  const text = options.argsFile ? fs.readFileSync(path.resolve(options.argsFile), 'utf8') : options.args;
+  if (text === undefined || !text.trim()) {
+    return {};
+  }
+
+  let args: any;
+  try {
+    args = JSON.parse(text);
+  } catch (err: any) {
+    throw new Error(`${source} is not valid JSON: ${err.message}`);
+  }
+  if (!args || typeof args !== 'object' || Array.isArray(args)) {
+    throw new Error(
+      `${source} must be a JSON object of keyword arguments.\n` +
+      'Example:\n' +
+      `  lettactl test tool get_weather --args '{"city": "Paris"}'`
+    );
+  }
+  return args;
+}
+
+/**
+ * Runs a tool from tools/<name>.py in a local Python subprocess and prints its result
+ */
+export async function testCommand(resource: string, name: string, options: TestToolOptions) {
+  try {
+    if (resource !== 'tool') {
+      throw new Error('Only "tool" resource is currently supported for testing');
+    }
+
+    const basePath = path.resolve(options.root || process.cwd());
+    const available = discoverLocalTools(basePath);
+    if (!available.includes(name)) {
+      throw new Error(
+        `Tool "${name}" not found: no ${TOOLS_DIR}/${name}.py under ${basePath}.` +
+        (available.length > 0 ? ` Available tools: ${available.join(', ')}` : ` Scaffold one with: lettactl create tool ${name}`)
+      );
+    }
+
+    const args = parseToolArgs(options);
+    const file = localToolPath(basePath, name);
+
+    // Same checks apply runs; reported but not fatal so half-finished tools can still be tried
+    const issues = formatToolSourceIssues([{
+      tool: name,
+      file: path.relative(basePath, file),
+      issues: checkPythonToolSource(fs.readFileSync(file, 'utf8'), name, { python: options.python })
+    }]);
+    issues.forEach(issue => warn(`Warning: ${issue}`));
+
+    const result = await runLocalTool({
+      file,
+      toolName: name,
+      args,
+      python: options.python,
+      timeoutSeconds: options.timeout
+    });
+
+    if (OutputFormatter.handleJsonOutput({
+      tool: name,
+      status: result.status,
+      return_value: result.returnValue,
+      error: result.error,
+      stdout: result.stdout,
+      stderr: result.stderr
+    }, options.output)) {
+      if (result.status === 'error') process.exit(1);
+      return;
+    }
+
+    if (result.status === 'success') {
+      output('Return value:');
+      output(typeof result.returnValue === 'string' ? result.returnValue : JSON.stringify(result.returnValue, null, 2));
+    } else {
+      output('Tool raised an exception:');
+      output(result.error?.trimEnd() || '');
+    }
+    if (result.stdout) {
+      output('\nStdout:');
+      output(result.stdout.trimEnd());
+    }
+    if (result.stderr) {
+      output('\nStderr:');
+      output(result.stderr.trimEnd());
+    }
+
+    if (result.status === 'error') {
+      process.exit(1);
+    }
+  } catch (err: any) {
+    error(`Failed to test tool ${name}:`, err.message);
+    process.exit(1);
+  }
+}
@@ -1,10 +1,13 @@
 import { FleetParser } from '../../lib/apply/fleet-parser';
+import { buildFleetValues } from '../../lib/apply/variable-interpolation';
+import { describeFleetInputs } from '../../lib/apply/fleet-loader';
 import { SupabaseStorageBackend } from '../../lib/storage/storage-backend';
+import { formatToolSourceIssues } from '../../lib/tools/python-tool-check';
 import { output, error } from '../../lib/shared/logger';
 
-export async function validateCommand(options: { file: string }) {
+export async function validateCommand(options: { file: string | string[]; values?: string[]; set?: string[]; overlay?: string }) {
   try {
-    output(`Validating configuration: ${options.file}`);
+    output(`Validating configuration: ${describeFleetInputs(options.file)}`);
 
     // Initialize Supabase backend if environment variables are available
     let supabaseBackend: SupabaseStorageBackend | undefined;
@@ -19,8 +22,23 @@ export async function validateCommand(options: { file: string }) {
       process.exit(1);
     }
 
-    const parser = new FleetParser(options.file, { supabaseBackend });
-    await parser.parseFleetConfig(options.file);
+    const parser = new FleetParser(options.file, {
+      supabaseBackend,
+      values: buildFleetValues({ valuesFiles: options.values, set: options.set }),
+      overlay: options.overlay
+    });
+    const config = await parser.parseFleetConfig(options.file);
+
+    const toolReports = parser.checkToolSources(config);
+    const toolSourceIssues = formatToolSourceIssues(toolReports);
+    if (toolSourceIssues.length > 0) {
+      error('Tool source check failed:');
+      toolSourceIssues.forEach(issue => error(`  ${issue}`));
+      process.exit(1);
+    }
+    if (toolReports.length > 0) {
+      output(`Checked source of ${toolReports.length} custom tool${toolReports.length === 1 ? '' : 's'}.`);
+    }
 
     output('Configuration is valid.');
   } catch (err: any) {
@@ -19,6 +19,11 @@ import {
   cancelMessagesCommand 
 } from './commands/messages';
 import { validateCommand } from './commands/validate';
+import { testCommand } from './commands/test';
+import { renderCommand } from './commands/render';
+import { schemaCommand } from './commands/schema';
+import { explainCommand } from './commands/explain';
+import { cacheCommand } from './commands/cache';
 import { healthCommand } from './commands/health';
 import { filesCommand } from './commands/files';
 import { contextCommand } from './commands/context';
@@ -40,8 +45,13 @@ function validateEnvironment(thisCommand: any, actionCommand: any) {
   // Set quiet mode globally
   setQuietMode(thisCommand.opts().quiet || false);
 
-  // Skip validation for completion command (doesn't need API access)
-  if (actionCommand.name() === 'completion') {
+  // Skip validation for commands that don't need API access
+  if (['completion', 'render', 'schema', 'explain', 'test', 'cache'].includes(actionCommand.name())) {
+    return;
+  }
+
+  // Scaffolding a tool only writes local files
+  if (actionCommand.name() === 'create' && actionCommand.args[0] === 'tool') {
     return;
   }
 
@@ -67,6 +77,12 @@ function validateEnvironment(thisCommand: any, actionCommand: any) {
   }
 }
 
+// Collect repeatable options (e.g. --set a=1 --set b=2) into an array.
+// A non-array default (e.g. -f agents.yml) is replaced by the first value given.
+function collect(value: string, previous?: string | string[]): string[] {
+  return Array.isArray(previous) ? [...previous, value] : [value];
+}
+
 const program = new Command();
 
 program
@@ -98,13 +114,19 @@ program.helpInformation = function() {
 program
   .command('apply')
   .description('Deploy agents from configuration')
-  .option('-f, --file <path>', 'agent YAML configuration file', 'agents.yml')
+  .option('-f, --file <path>', 'agent YAML configuration file or directory (repeatable)', collect, 'agents.yml')
   .option('--agent <pattern>', 'deploy only agents matching pattern')
   .option('--match <pattern>', 'apply template config to all existing agents matching glob pattern')
   .option('--dry-run', 'show what would be created without making changes')
   .option('--force', 'remove resources not in config (strict reconciliation)')
   .option('--root <path>', 'root directory for resolving file paths')
   .option('--manifest [path]', 'write agent manifest (default: <config>.manifest.json)')
+  .option('--values <path>', 'values file for ${var} interpolation (repeatable)', collect)
+  .option('--set <key=value>', 'set a ${var} value, overrides values files (repeatable)', collect)
+  .option('--overlay <env>', 'apply environment overlay (overlays/<env>) on top of the base config')
+  .option('--secrets-file <path>', 'secrets file for secret_ref values (default: <root>/.lettactl/secrets.yml)')
+  .option('--offline', 'read bucket, git and URL content from the local cache only')
+  .option('--concurrency <number>', 'number of agents to diff and apply in parallel (default: 1)', parseInt)
   .action(applyCommand);
 
 // Get command - list resources
@@ -158,13 +180,13 @@ program
   .option('--dry-run', 'show what would be deleted without deleting')
   .action(cleanupCommand);
 
-// Create command - create new agents
+// Create command - create new agents, scaffold tools
 program
   .command('create')
-  .description('Create a new agent')
-  .argument('<resource>', 'resource type (agent)')
-  .argument('<name>', 'agent name')
-  .option('-d, --description <text>', 'agent description')
+  .description('Create a new agent, or scaffold a tool in tools/')
+  .argument('<resource>', 'resource type (agent|tool)')
+  .argument('<name>', 'agent or tool name')
+  .option('-d, --description <text>', 'agent or tool description')
   .option('-m, --model <model>', 'LLM model (e.g., google_ai/gemini-2.5-pro)')
   .option('-s, --system <text>', 'system prompt')
   .option('-c, --context-window <number>', 'context window size', parseInt)
@@ -174,6 +196,9 @@ program
   .option('--agent-type <type>', 'agent type')
   .option('--tools <tools>', 'comma-separated tool IDs')
   .option('--memory-blocks <blocks>', 'comma-separated memory block IDs')
+  .option('--params <params>', 'tool parameters as name:type, comma-separated (tool only)')
+  .option('--root <path>', 'fleet root directory containing tools/ (tool only)')
+  .option('--force', 'overwrite an existing tool file (tool only)')
   .action(createCommand);
 
 // Update command - modify existing agents
@@ -224,9 +249,65 @@ program
 program
   .command('validate')
   .description('Validate agent configuration')
-  .option('-f, --file <path>', 'agent YAML configuration file', 'agents.yml')
+  .option('-f, --file <path>', 'agent YAML configuration file or directory (repeatable)', collect, 'agents.yml')
+  .option('--values <path>', 'values file for ${var} interpolation (repeatable)', collect)
+  .option('--set <key=value>', 'set a ${var} value, overrides values files (repeatable)', collect)
+  .option('--overlay <env>', 'apply environment overlay (overlays/<env>) on top of the base config')
   .action(validateCommand);
 
+// Test command - run a tool locally
+program
+  .command('test')
+  .description('Run a tool from tools/ locally in a Python subprocess')
+  .argument('<resource>', 'resource type (tool)')
+  .argument('<name>', 'tool name')
+  .option('--args <json>', 'JSON object of keyword arguments')
+  .option('--args-file <path>', 'file containing the JSON arguments')
+  .option('--root <path>', 'fleet root directory containing tools/')
+  .option('--python <path>', 'Python interpreter (default: $LETTACTL_PYTHON or python3)')
+  .option('--timeout <seconds>', 'kill the tool after this many seconds (default: 60)', parseInt)
+  .option('-o, --output <format>', 'output format (text|json)', 'text')
+  .action(testCommand);
+
+// Render command - print fully resolved config
+program
+  .command('render')
+  .description('Print the fully resolved fleet configuration')
+  .option('-f, --file <path>', 'agent YAML configuration file or directory (repeatable)', collect, 'agents.yml')
+  .option('--overlay <env>', 'apply environment overlay (overlays/<env>) on top of the base config')
+  .option('--values <path>', 'values file for ${var} interpolation (repeatable)', collect)
+  .option('--set <key=value>', 'set a ${var} value, overrides values files (repeatable)', collect)
+  .option('--root <path>', 'root directory for resolving file paths')
+  .option('-o, --output <format>', 'output format (yaml|json)', 'yaml')
+  .option('--offline', 'read bucket, git and URL content from the local cache only')
+  .action(renderCommand);
+
+// Schema command - JSON Schema for fleet configs
+program
+  .command('schema')
+  .description('Print the JSON Schema for fleet configuration files')
+  .option('-o, --output <format>', 'output format (json|yaml)', 'json')
+  .action(schemaCommand);
+
+// Explain command - document fleet config fields
+program
+  .command('explain')
+  .description('Show documentation for a fleet config field (e.g. agents.memory_blocks.mutable)')
+  .argument('[path]', 'dotted field path, omit for the top-level fleet fields')
+  .option('-o, --output <format>', 'output format (json)')
+  .action(explainCommand);
+
+// Cache command - inspect the local content cache
+program
+  .command('cache')
+  .description('List or prune the local cache of bucket, URL and git content')
+  .argument('<action>', 'action (ls|prune)')
+  .option('--max-size <size>', 'prune least recently used content down to this size (e.g. 500MB)')
+  .option('--older-than <duration>', 'prune content not used for this long (e.g. 7d), including git mirrors')
+  .option('--all', 'remove everything in the cache')
+  .option('-o, --output <format>', 'output format (table|json)', 'table')
+  .action(cacheCommand);
+
 // Message commands
 // List messages (replaces old logs command)
 program
@@ -254,7 +335,9 @@ program
   .option('--max-steps <number>', 'maximum processing steps', parseInt)
   .option('--enable-thinking', 'enable agent reasoning')
   .option('--all <pattern>', 'send to all agents matching glob pattern')
-  .option('-f, --file <path>', 'target agents from fleet config file')
+  .option('-f, --file <path>', 'target agents from fleet config file or directory (repeatable)', collect)
+  .option('--values <path>', 'values file for ${var} interpolation in -f configs (repeatable)', collect)
+  .option('--set <key=value>', 'set a ${var} value for -f configs, overrides values files (repeatable)', collect)
   .option('--confirm', 'skip confirmation prompt for bulk operations')
   .option('--timeout <seconds>', 'timeout per agent in seconds for bulk operations', parseInt)
   .option('-o, --output <format>', 'output format (table|json)', 'table')
@@ -266,6 +349,7 @@ program
   .description('Reset an agent\'s conversation history')
   .argument('<agent>', 'agent name')
   .option('--add-default', 'add default initial messages after reset')
+  .option('--no-replay', 'skip replaying initial_messages marked replay_on_reset')
   .action(resetMessagesCommand);
 
 // Compact agent messages
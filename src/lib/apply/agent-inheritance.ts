@@ -0,0 +1,210 @@
+import { FleetConfig, AgentConfig, AgentTemplate, FleetDefaults } from '../../types/fleet-config';
+import { isPlainObject } from '../shared/object-utils';
+
+/**
+ * Agent inheritance for fleet configs.
+ * Agents are resolved as: fleet `defaults` <- `extends` template chain <- agent fields,
+ * using a deep merge where later layers win. Lists are combined, so a layer removes
+ * inherited entries with the same directives as overlay patches.
+ */
+
+const DEFAULTS_FIELDS = ['llm_config', 'embedding', 'tools', 'shared_blocks', 'shared_folders'];
+const PATCH_DIRECTIVE = '$patch';
+const DELETE_FROM_LIST_PREFIX = '$deleteFromPrimitiveList/';
+
+/**
+ * Identity used to merge list entries: strings by value, objects by their name
+ */
+function listEntryKey(entry: any): string | undefined {
+  if (typeof entry === 'string') return entry;
+  if (isPlainObject(entry) && typeof entry.name === 'string') return entry.name;
+  return undefined;
+}
+
+/**
+ * Merges two lists. Named entries (tool names, block names, objects with `name`) are
+ * combined with the override replacing entries of the same name, and an override entry
+ * with `$patch: delete` removes the entry of that name; other lists are replaced.
+ */
+function mergeLists(base: any[], override: any[]): any[] {
+  const keyed = [...base, ...override].every(entry => listEntryKey(entry) !== undefined);
+  if (!keyed) {
+    return override.map(entry => cloneValue(entry));
+  }
+
+  const merged = new Map<string, any>();
+  for (const entry of base) {
+    merged.set(listEntryKey(entry)!, cloneValue(entry));
+  }
+  for (const entry of override) {
+    const key = listEntryKey(entry)!;
+    if (isPlainObject(entry) && entry[PATCH_DIRECTIVE] === 'delete') {
+      merged.delete(key);
+      continue;
+    }
+    const existing = merged.get(key);
+    merged.set(key, isPlainObject(existing) && isPlainObject(entry) ? deepMerge(existing, entry) : cloneValue(entry));
+  }
+  return Array.from(merged.values());
+}
+
+function cloneValue(value: any): any {
+  if (Array.isArray(value)) return value.map(entry => cloneValue(entry));
+  if (isPlainObject(value)) return deepMerge({}, value);
+  return value;
+}
+
+/**
+ * Deep merges override into base without mutating either.
+ * `$deleteFromPrimitiveList/<field>: [...]` in override removes values from the merged list.
+ */
+export function deepMerge<T extends Record<string, any>>(base: T, override: Record<string, any>): T {
+  const result: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(base)) {
+    result[key] = cloneValue(value);
+  }
+
+  const removals: Array<[string, any[]]> = [];
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    if (key.startsWith(DELETE_FROM_LIST_PREFIX)) {
+      removals.push([key.substring(DELETE_FROM_LIST_PREFIX.length), Array.isArray(value) ? value : [value]]);
+      continue;
+    }
+    const existing = result[key];
+    if (isPlainObject(existing) && isPlainObject(value)) {
+      result[key] = deepMerge(existing, value);
+    } else if (Array.isArray(value)) {
+      result[key] = mergeLists(Array.isArray(existing) ? existing : [], value);
+    } else {
+      result[key] = cloneValue(value);
+    }
+  }
+
+  // Removals run after the merge so they do not depend on key order
+  for (const [field, values] of removals) {
+    if (Array.isArray(result[field])) {
+      result[field] = result[field].filter((entry: any) => !values.includes(entry));
+    }
+  }
+
+  return result as T;
+}
+
+function validateDefaults(defaults: any): void {
+  if (!isPlainObject(defaults)) {
+    throw new Error(
+      'Fleet defaults must be an object.\n' +
+      'Example:\n' +
+      'defaults:\n' +
+      '  llm_config:\n' +
+      '    model: "google_ai/gemini-2.5-pro"\n' +
+      '    context_window: 32000\n' +
+      '  tools:\n' +
+      '    - archival_memory_search'
+    );
+  }
+
+  const unknownFields = Object.keys(defaults).filter(field => !DEFAULTS_FIELDS.includes(field));
+  if (unknownFields.length > 0) {
+    throw new Error(
+      `Unknown fields in defaults: ${unknownFields.join(', ')}\n` +
+      `Allowed fields: ${DEFAULTS_FIELDS.join(', ')}\n` +
+      'Use agent_templates with extends for other shared fields.'
+    );
+  }
+}
+
+function indexTemplates(templates: any): Map<string, AgentTemplate> {
+  if (!Array.isArray(templates)) {
+    throw new Error(
+      'agent_templates must be an array.\n' +
+      'Example:\n' +
+      'agent_templates:\n' +
+      '  - name: support-base\n' +
+      '    llm_config:\n' +
+      '      model: "google_ai/gemini-2.5-pro"\n' +
+      '      context_window: 32000'
+    );
+  }
+
+  const index = new Map<string, AgentTemplate>();
+  templates.forEach((template, i) => {
+    if (!isPlainObject(template) || typeof template.name !== 'string' || template.name.trim() === '') {
+      throw new Error(`Agent template ${i + 1}: must be an object with a non-empty name.`);
+    }
+    if (index.has(template.name)) {
+      throw new Error(`Duplicate agent template name "${template.name}". Template names must be unique.`);
+    }
+    index.set(template.name, template as AgentTemplate);
+  });
+  return index;
+}
+
+/**
+ * Resolves a template and its `extends` chain into a single set of agent fields
+ */
+function resolveTemplate(
+  name: string,
+  templates: Map<string, AgentTemplate>,
+  chain: string[] = []
+): Partial<AgentConfig> {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new Error('extends must be the name of an agent template.');
+  }
+  if (chain.includes(name)) {
+    throw new Error(`Circular agent template inheritance: ${[...chain, name].join(' -> ')}`);
+  }
+
+  const template = templates.get(name);
+  if (!template) {
+    const available = Array.from(templates.keys());
+    throw new Error(
+      `Unknown agent template "${name}".` +
+      (available.length > 0 ? ` Available templates: ${available.join(', ')}` : ' No agent_templates are defined.')
+    );
+  }
+
+  const { name: _name, extends: parent, ...fields } = template;
+  if (parent === undefined) {
+    return fields;
+  }
+  return deepMerge(resolveTemplate(parent, templates, [...chain, name]), fields);
+}
+
+function hasExtends(config: FleetConfig): boolean {
+  return Array.isArray(config.agents) && config.agents.some(agent => isPlainObject(agent) && 'extends' in agent);
+}
+
+/**
+ * Expands `defaults`, `agent_templates` and `extends` into fully specified agents.
+ * Returns a new config without the inheritance sections; the input is not modified.
+ */
+export function resolveAgentInheritance(config: FleetConfig): FleetConfig {
+  if (!isPlainObject(config) || (!config.defaults && !config.agent_templates && !hasExtends(config))) {
+    return config;
+  }
+
+  const { defaults, agent_templates, ...rest } = config;
+  const fleetDefaults: FleetDefaults = defaults || {};
+  validateDefaults(fleetDefaults);
+  const templates = indexTemplates(agent_templates || []);
+
+  const agents = Array.isArray(rest.agents)
+    ? rest.agents.map((agent, index) => {
+        if (!isPlainObject(agent)) return agent;
+        try {
+          const { extends: parent, ...fields } = agent;
+          const inherited = parent !== undefined
+            ? deepMerge(fleetDefaults as Partial<AgentConfig>, resolveTemplate(parent, templates))
+            : fleetDefaults as Partial<AgentConfig>;
+          return deepMerge(inherited, fields) as AgentConfig;
+        } catch (err: any) {
+          throw new Error(`Agent ${index + 1}: ${err.message}`);
+        }
+      })
+    : rest.agents;
+
+  return { ...rest, agents };
+}
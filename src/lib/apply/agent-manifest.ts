@@ -6,6 +6,7 @@ import { BlockManager } from '../managers/block-manager';
 import { ArchiveManager } from '../managers/archive-manager';
 import { AgentManager } from '../managers/agent-manager';
 import { FILE_SEARCH_TOOLS } from '../tools/builtin-tools';
+import type { GitSourcePin } from '../storage/git-source';
 
 export interface ManifestItem {
   name: string;
@@ -25,6 +26,7 @@ export interface ManifestAgentEntry {
   blocks: ManifestBlockItem[];
   archives: ManifestItem[];
   folders: ManifestItem[];
+  git_sources?: GitSourcePin[]; // Commits the agent's from_git sources were read at
 }
 
 export interface AgentManifest {
@@ -54,6 +56,7 @@ export interface BuildAgentManifestOptions {
   toolNameToId: Map<string, string>;
   folderNameToId: Map<string, string>;
   mcpServerNameToId: Map<string, string>;
+  gitSources?: Map<string, GitSourcePin[]>; // Agent name -> pinned git sources
 }
 
 function sortByName<T extends { name: string }>(items: T[]): T[] {
@@ -103,7 +106,8 @@ export function buildAgentManifest(options: BuildAgentManifestOptions): AgentMan
     sharedBlockIds,
     toolNameToId,
     folderNameToId,
-    mcpServerNameToId
+    mcpServerNameToId,
+    gitSources
   } = options;
 
   const toolsMap = new Map<string, ManifestItem>();
@@ -166,6 +170,11 @@ export function buildAgentManifest(options: BuildAgentManifestOptions): AgentMan
       entry.resolved_name = resolvedName;
     }
 
+    const agentGitSources = gitSources?.get(agent.name);
+    if (agentGitSources?.length) {
+      entry.git_sources = agentGitSources;
+    }
+
     for (const toolName of resolveAgentTools(agent)) {
       const toolEntry: ManifestItem = {
         name: toolName,
@@ -0,0 +1,55 @@
+/**
+ * Agent metadata is shared between user-declared keys (agent.metadata in YAML)
+ * and bookkeeping keys lettactl writes for itself (lettactl.lastApplied,
+ * lettactl.folderFileHashes, ...). These helpers keep the two apart.
+ */
+
+import type { GitSourcePin } from '../storage/git-source';
+
+export const LETTACTL_METADATA_PREFIX = 'lettactl.';
+export const GIT_SOURCES_METADATA_KEY = 'lettactl.gitSources';
+
+export function isLettactlMetadataKey(key: string): boolean {
+  return key.startsWith(LETTACTL_METADATA_PREFIX);
+}
+
+/**
+ * Returns only the user-owned keys of an agent's metadata
+ */
+export function getUserMetadata(metadata: Record<string, any> | null | undefined): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(metadata || {})) {
+    if (!isLettactlMetadataKey(key)) result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * Replaces the user-owned keys of an agent's metadata, keeping lettactl's own keys
+ */
+export function mergeUserMetadata(
+  current: Record<string, any> | null | undefined,
+  userMetadata: Record<string, any>
+): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(current || {})) {
+    if (isLettactlMetadataKey(key)) result[key] = value;
+  }
+  return { ...result, ...userMetadata };
+}
+
+/**
+ * Records the pinned commits of an agent's from_git sources, or drops the key when it has none
+ */
+export function withGitSources(
+  metadata: Record<string, any> | null | undefined,
+  pins: GitSourcePin[]
+): Record<string, any> {
+  const result = { ...(metadata || {}) };
+  if (pins.length > 0) {
+    result[GIT_SOURCES_METADATA_KEY] = pins;
+  } else {
+    delete result[GIT_SOURCES_METADATA_KEY];
+  }
+  return result;
+}
@@ -1,6 +1,5 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import { LettaClientWrapper } from '../client/letta-client';
 import { BlockManager } from '../managers/block-manager';
 import { ArchiveManager } from '../managers/archive-manager';
@@ -10,13 +9,21 @@ import { FileContentTracker } from './file-content-tracker';
 import { OutputFormatter } from '../ux/output-formatter';
 import { createSpinner } from '../ux/spinner';
 import { FleetParser } from './fleet-parser';
-import { StorageBackendManager, SupabaseStorageBackend, hasSupabaseConfig } from '../storage/storage-backend';
-import { FolderFileConfig } from '../../types/fleet-config';
+import { GIT_SOURCES_METADATA_KEY, withGitSources } from './agent-metadata';
+import { GitSourcePin } from '../storage/git-source';
+import { urlFileName } from '../storage/url-source';
+import { FolderFileConfig, FromBucketConfig, FromGitConfig, FromUrlConfig } from '../../types/fleet-config';
 import { isBuiltinTool } from '../tools/builtin-tools';
+import { toApiToolRule } from '../tools/tool-rules';
+import { buildModelSettings } from './model-settings';
+import { ArchivePassageChunk, syncArchivePassages } from './archive-passages';
+import { uploadBufferToFolder } from './folder-upload';
+import { SHARED_FOLDER_METADATA_KEY, isSharedFolderMetadata } from '../resources/resource-classifier';
 import { AgentResolver } from '../client/agent-resolver';
 import { log, error } from '../shared/logger';
 import { DEFAULT_CONTEXT_WINDOW, DEFAULT_MODEL, DEFAULT_EMBEDDING, DEFAULT_REASONING } from '../shared/constants';
 import { isRunTerminal, getEffectiveRunStatus } from '../messaging/run-utils';
+import { sendInitialMessages, withReplayableInitialMessages } from '../messaging/initial-messages';
 import { Run } from '../../types/run';
 
 export async function processSharedBlocks(
@@ -36,41 +43,25 @@ export async function processSharedBlocks(
 }
 
 // Helper to check if a file config is a from_bucket config
-function isFromBucketConfig(fileConfig: FolderFileConfig): fileConfig is { from_bucket: { provider: 'supabase'; bucket: string; path: string } } {
+function isFromBucketConfig(fileConfig: FolderFileConfig): fileConfig is { from_bucket: FromBucketConfig } {
   return typeof fileConfig === 'object' && 'from_bucket' in fileConfig;
 }
 
-// Create storage backend manager lazily (only when needed)
-let storageManager: StorageBackendManager | null = null;
-let supabaseBackendInstance: SupabaseStorageBackend | undefined = undefined;
-
-function getStorageManager(): StorageBackendManager {
-  if (!storageManager) {
-    supabaseBackendInstance = hasSupabaseConfig() ? new SupabaseStorageBackend() : undefined;
-    storageManager = new StorageBackendManager({ supabaseBackend: supabaseBackendInstance });
-  }
-  return storageManager;
-}
-
 // Helper to upload bucket files with glob expansion support
 async function uploadBucketFilesToFolder(
-  bucketConfig: { provider: 'supabase'; bucket: string; path: string },
+  bucketConfig: FromBucketConfig,
   folderId: string,
   client: LettaClientWrapper,
+  parser: FleetParser,
   verbose: boolean
 ): Promise<void> {
-  const storage = getStorageManager();
+  const storage = parser.storageBackend;
   const filePath = bucketConfig.path;
 
   if (filePath.includes('*')) {
     // Glob pattern - list and download all matching files
     const prefix = filePath.split('*')[0];
-
-    if (!supabaseBackendInstance) {
-      throw new Error('Supabase backend not configured for bucket file download');
-    }
-
-    const files = await supabaseBackendInstance.listFiles(bucketConfig.bucket, prefix);
+    const files = await storage.listBucketFiles(bucketConfig, prefix);
 
     if (verbose) log(`  Found ${files.length} files matching ${bucketConfig.bucket}/${filePath}`);
 
@@ -84,15 +75,8 @@ async function uploadBucketFilesToFolder(
         path: file
       });
 
-      const tempDir = os.tmpdir();
-      const tempPath = path.join(tempDir, fileName);
-      fs.writeFileSync(tempPath, fileBuffer);
-
       if (verbose) log(`  Uploading ${fileName} to folder...`);
-      const fileStream = fs.createReadStream(tempPath);
-      await client.uploadFileToFolder(fileStream, folderId, fileName);
-
-      fs.unlinkSync(tempPath);
+      await uploadBufferToFolder(client, folderId, fileName, fileBuffer);
 
       if (verbose) log(`  Uploaded: ${fileName} (from bucket)`);
     }
@@ -104,20 +88,60 @@ async function uploadBucketFilesToFolder(
 
     const fileBuffer = await storage.downloadBinaryFromBucket(bucketConfig);
 
-    const tempDir = os.tmpdir();
-    const tempPath = path.join(tempDir, fileName);
-    fs.writeFileSync(tempPath, fileBuffer);
-
     if (verbose) log(`  Uploading ${fileName} to folder...`);
-    const fileStream = fs.createReadStream(tempPath);
-    await client.uploadFileToFolder(fileStream, folderId, fileName);
-
-    fs.unlinkSync(tempPath);
+    await uploadBufferToFolder(client, folderId, fileName, fileBuffer);
 
     if (verbose) log(`  Uploaded: ${fileName} (from bucket)`);
   }
 }
 
+// Helper to upload files from a git source (single path or glob) at its pinned commit
+async function uploadGitFilesToFolder(
+  gitConfig: FromGitConfig,
+  folderId: string,
+  client: LettaClientWrapper,
+  parser: FleetParser,
+  verbose: boolean
+): Promise<void> {
+  const gitSources = parser.storageBackend.gitSources;
+  const files = gitConfig.path.includes('*')
+    ? await gitSources.listFiles(gitConfig, gitConfig.path.split('*')[0])
+    : [gitConfig.path];
+
+  if (verbose && gitConfig.path.includes('*')) log(`  Found ${files.length} files matching ${gitConfig.repo}:${gitConfig.path}`);
+
+  for (const file of files) {
+    const fileName = path.basename(file);
+
+    if (verbose) log(`  Reading ${file} from ${gitConfig.repo}...`);
+    const fileBuffer = await gitSources.readBinary({ ...gitConfig, path: file });
+
+    if (verbose) log(`  Uploading ${fileName} to folder...`);
+    await uploadBufferToFolder(client, folderId, fileName, fileBuffer);
+
+    if (verbose) log(`  Uploaded: ${fileName} (from git)`);
+  }
+}
+
+// Helper to upload a file downloaded from an HTTP(S) URL, checked against its pinned sha256
+async function uploadUrlFileToFolder(
+  urlConfig: FromUrlConfig,
+  folderId: string,
+  client: LettaClientWrapper,
+  parser: FleetParser,
+  verbose: boolean
+): Promise<void> {
+  const fileName = urlFileName(urlConfig.url);
+
+  if (verbose) log(`  Downloading ${urlConfig.url}...`);
+  const fileBuffer = await parser.storageBackend.downloadBinaryFromUrl(urlConfig);
+
+  if (verbose) log(`  Uploading ${fileName} to folder...`);
+  await uploadBufferToFolder(client, folderId, fileName, fileBuffer);
+
+  if (verbose) log(`  Uploaded: ${fileName} (from url)`);
+}
+
 export async function processFolders(
   config: any,
   client: LettaClientWrapper,
@@ -139,10 +163,18 @@ export async function processFolders(
   if (verbose) log('Processing folders...');
   const foldersResponse = await client.listFolders();
   const existingFolders = Array.isArray(foldersResponse) ? foldersResponse : (foldersResponse as any).items || [];
+  const selectedAgents = config.agents.filter((agent: any) => !options.agent || agent.name.includes(options.agent));
+
+  // Shared folders first: uploaded once, marked as shared so deleting an agent never removes them
+  for (const folderConfig of config.shared_folders || []) {
+    const referencingAgent = selectedAgents.find((agent: any) => agent.shared_folders?.includes(folderConfig.name));
+    if (!referencingAgent) continue;
 
-  for (const agent of config.agents) {
-    if (options.agent && !agent.name.includes(options.agent)) continue;
+    const folderId = await getOrCreateFolder(folderConfig, referencingAgent.embedding, existingFolders, client, parser, verbose, true);
+    createdFolders.set(folderConfig.name, folderId);
+  }
 
+  for (const agent of selectedAgents) {
     if (agent.folders) {
       for (const folderConfig of agent.folders) {
         if (createdFolders.has(folderConfig.name)) {
@@ -150,59 +182,86 @@ export async function processFolders(
           continue;
         }
 
-        let folder = existingFolders.find((f: any) => f.name === folderConfig.name);
+        const folderId = await getOrCreateFolder(folderConfig, agent.embedding, existingFolders, client, parser, verbose, false);
+        createdFolders.set(folderConfig.name, folderId);
+      }
+    }
+  }
+
+  return createdFolders;
+}
 
-        if (!folder) {
-          if (verbose) log(`Creating folder: ${folderConfig.name}`);
-          if (!agent.embedding) {
-            throw new Error(`Folder "${folderConfig.name}" requires an embedding handle. Set agent.embedding to a valid model handle.`);
-          }
-          folder = await client.createFolder({
-            name: folderConfig.name,
-            embedding: agent.embedding || DEFAULT_EMBEDDING
-          });
-          log(`Created folder: ${folderConfig.name}`);
-          createdFolders.set(folderConfig.name, folder.id);
-
-          if (verbose) log(`Uploading ${folderConfig.files.length} files...`);
-          for (const fileConfig of folderConfig.files) {
-            try {
-              if (isFromBucketConfig(fileConfig)) {
-                await uploadBucketFilesToFolder(fileConfig.from_bucket, folder.id, client, verbose);
-              } else {
-                // Handle local file path (existing behavior)
-                const filePath = fileConfig;
-                const resolvedPath = path.resolve(parser.basePath, filePath);
-
-                if (!fs.existsSync(resolvedPath)) {
-                  throw new Error(`File not found: ${filePath}`);
-                }
-
-                if (verbose) log(`  Uploading ${filePath}...`);
-                const fileStream = fs.createReadStream(resolvedPath);
-
-                await client.uploadFileToFolder(fileStream, folder.id, path.basename(filePath));
-
-                if (verbose) log(`  Uploaded: ${filePath}`);
-              }
-            } catch (err: any) {
-              const fileDesc = isFromBucketConfig(fileConfig)
-                ? `${fileConfig.from_bucket.bucket}/${fileConfig.from_bucket.path}`
-                : fileConfig;
-              error(`  Failed to upload ${fileDesc}:`, err.message);
-            }
-          }
-        } else {
-          if (verbose) log(`Using existing folder: ${folderConfig.name}`);
-          createdFolders.set(folderConfig.name, folder.id);
-          // File uploads for existing folders are handled by the diff engine
-          // during agent update - this avoids creating duplicate files
+async function getOrCreateFolder(
+  folderConfig: { name: string; files: FolderFileConfig[] },
+  embedding: string | undefined,
+  existingFolders: any[],
+  client: LettaClientWrapper,
+  parser: FleetParser,
+  verbose: boolean,
+  shared: boolean
+): Promise<string> {
+  const folder = existingFolders.find((f: any) => f.name === folderConfig.name);
+
+  if (folder) {
+    if (verbose) log(`Using existing folder: ${folderConfig.name}`);
+    if (shared && !isSharedFolderMetadata(folder.metadata)) {
+      if (verbose) log(`  Marking folder ${folderConfig.name} as shared`);
+      await client.updateFolder(folder.id, { metadata: { ...folder.metadata, [SHARED_FOLDER_METADATA_KEY]: true } });
+    }
+    // File uploads for existing folders are handled by the diff engine
+    // during agent update - this avoids creating duplicate files
+    return folder.id;
+  }
+
+  if (verbose) log(`Creating ${shared ? 'shared ' : ''}folder: ${folderConfig.name}`);
+  if (!embedding) {
+    throw new Error(`Folder "${folderConfig.name}" requires an embedding handle. Set agent.embedding to a valid model handle.`);
+  }
+  const createdFolder = await client.createFolder({
+    name: folderConfig.name,
+    embedding: embedding || DEFAULT_EMBEDDING,
+    ...(shared ? { metadata: { [SHARED_FOLDER_METADATA_KEY]: true } } : {})
+  });
+  log(`Created ${shared ? 'shared ' : ''}folder: ${folderConfig.name}`);
+
+  if (verbose) log(`Uploading ${folderConfig.files.length} files...`);
+  for (const fileConfig of folderConfig.files) {
+    try {
+      if (isFromBucketConfig(fileConfig)) {
+        await uploadBucketFilesToFolder(fileConfig.from_bucket, createdFolder.id, client, parser, verbose);
+      } else if (typeof fileConfig === 'object' && 'from_url' in fileConfig) {
+        await uploadUrlFileToFolder(fileConfig.from_url, createdFolder.id, client, parser, verbose);
+      } else if (typeof fileConfig === 'object') {
+        await uploadGitFilesToFolder(fileConfig.from_git, createdFolder.id, client, parser, verbose);
+      } else {
+        // Handle local file path (existing behavior)
+        const filePath = fileConfig;
+        const resolvedPath = path.resolve(parser.basePath, filePath);
+
+        if (!fs.existsSync(resolvedPath)) {
+          throw new Error(`File not found: ${filePath}`);
         }
+
+        if (verbose) log(`  Uploading ${filePath}...`);
+        const fileStream = fs.createReadStream(resolvedPath);
+
+        await client.uploadFileToFolder(fileStream, createdFolder.id, path.basename(filePath));
+
+        if (verbose) log(`  Uploaded: ${filePath}`);
       }
+    } catch (err: any) {
+      const fileDesc = isFromBucketConfig(fileConfig)
+        ? `${fileConfig.from_bucket.bucket}/${fileConfig.from_bucket.path}`
+        : typeof fileConfig === 'object'
+          ? 'from_url' in fileConfig
+            ? fileConfig.from_url.url
+            : `${fileConfig.from_git.repo}:${fileConfig.from_git.path}`
+          : fileConfig;
+      error(`  Failed to upload ${fileDesc}:`, err.message);
     }
   }
 
-  return createdFolders;
+  return createdFolder.id;
 }
 
 export async function updateExistingAgent(
@@ -277,6 +336,24 @@ export async function updateExistingAgent(
   }
 }
 
+/**
+ * Records the agent's pinned git sources in its metadata when they differ from what is stored
+ */
+export async function recordGitSources(
+  client: LettaClientWrapper,
+  agentId: string,
+  gitSources: GitSourcePin[],
+  verbose: boolean
+): Promise<void> {
+  const current = await client.getAgent(agentId);
+  const metadata = (current as any).metadata || {};
+  const recorded = metadata[GIT_SOURCES_METADATA_KEY];
+  if (JSON.stringify(recorded || []) === JSON.stringify(gitSources)) return;
+
+  if (verbose) log(`  Recording git sources: ${gitSources.map(pin => `${pin.repo}@${pin.ref} (${pin.commit.substring(0, 12)})`).join(', ') || 'none'}`);
+  await client.updateAgent(agentId, { metadata: withGitSources(metadata, gitSources) });
+}
+
 export async function createNewAgent(
   agent: any,
   agentName: string,
@@ -292,9 +369,14 @@ export async function createNewAgent(
     spinnerEnabled: boolean;
     verbose: boolean;
     folderContentHashes?: Map<string, Record<string, string>>;
+    toolApprovals?: Record<string, boolean>;
+    archivePassages?: Map<string, ArchivePassageChunk[]>;
+    toolEnv?: Record<string, string>; // Resolved tool_env values
+    gitSources?: GitSourcePin[]; // Pinned commits of the agent's from_git sources
   }
 ): Promise<{ id: string; name: string }> {
   const { client, blockManager, archiveManager, agentManager, toolNameToId, builtinTools, createdFolders, sharedBlockIds, spinnerEnabled, verbose, folderContentHashes } = context;
+  const toolApprovals = context.toolApprovals || {};
 
   const blockIds: string[] = [];
 
@@ -323,7 +405,7 @@ export async function createNewAgent(
   const archiveEmbeddingDefault = agent.embedding;
 
   // Create or resolve archives
-  const archiveIds: string[] = [];
+  const archiveIds = new Map<string, string>();
   if (agent.archives) {
     for (const archive of agent.archives) {
       const archivePayload: {
@@ -346,11 +428,12 @@ export async function createNewAgent(
       }
 
       const archiveId = await archiveManager.getOrCreateArchive(archivePayload);
-      archiveIds.push(archiveId);
+      archiveIds.set(archive.name, archiveId);
     }
   }
 
   const creationSpinner = createSpinner(`Creating agent ${agentName}...`, spinnerEnabled).start();
+  let created: { id: string; name: string };
 
   try {
     // Resolve tool names to IDs
@@ -376,6 +459,18 @@ export async function createNewAgent(
       reasoning: agent.reasoning ?? DEFAULT_REASONING
     };
 
+    const modelSettings = buildModelSettings(agent.llm_config);
+    if (modelSettings) createPayload.model_settings = modelSettings;
+    if (agent.tags) createPayload.tags = agent.tags;
+    if (agent.timezone) createPayload.timezone = agent.timezone;
+    if (agent.agent_type) createPayload.agent_type = agent.agent_type;
+    let metadata = agent.initial_messages?.replay_on_reset
+      ? withReplayableInitialMessages(agent.metadata, agent.initial_messages.messages)
+      : agent.metadata;
+    if (context.gitSources?.length) metadata = withGitSources(metadata, context.gitSources);
+    if (metadata) createPayload.metadata = metadata;
+    if (context.toolEnv) createPayload.secrets = context.toolEnv;
+
     // Handle embedding vs embedding_config (mutually exclusive)
     if (agent.embedding_config) {
       createPayload.embedding_config = agent.embedding_config;
@@ -395,20 +490,41 @@ export async function createNewAgent(
       }
     }
 
-    // Attach archives
-    for (const archiveId of archiveIds) {
+    // Tool rules reference tools by name, so set them once tools are attached
+    if (agent.tool_rules?.length) {
+      if (verbose) log(`  Setting ${agent.tool_rules.length} tool rules`);
+      await client.updateAgent(createdAgent.id, { tool_rules: agent.tool_rules.map(toApiToolRule) });
+    }
+
+    for (const toolName of agent.tools || []) {
+      if (toolApprovals[toolName] && toolNameToId.has(toolName)) {
+        if (verbose) log(`  Requiring approval for tool: ${toolName}`);
+        await client.updateToolApproval(createdAgent.id, toolName, true);
+      }
+    }
+
+    // Attach archives, then seed their declared passages
+    for (const [archiveName, archiveId] of archiveIds) {
       if (verbose) log(`  Attaching archive: ${archiveId}`);
       await client.attachArchiveToAgent(createdAgent.id, archiveId);
+
+      const passages = context.archivePassages?.get(archiveName);
+      if (passages) {
+        await syncArchivePassages(client, createdAgent.id, { name: archiveName, id: archiveId }, passages, { verbose });
+      }
     }
 
     // Update registry
     agentManager.updateRegistry(agentName, {
       systemPrompt: agent.system_prompt.value || '',
       tools: agent.tools || [],
+      toolApprovals,
+      toolRules: agent.tool_rules,
       model: agent.llm_config?.model,
       embedding: agent.embedding,
       embeddingConfig: agent.embedding_config,
       contextWindow: agent.llm_config?.context_window,
+      modelSettings,
       memoryBlocks: (agent.memory_blocks || []).map((block: any) => ({
         name: block.name,
         description: block.description,
@@ -444,6 +560,7 @@ export async function createNewAgent(
       }
       await client.updateAgent(createdAgent.id, {
         metadata: {
+          ...metadata,
           'lettactl.folderFileHashes': newFolderFileHashes
         }
       });
@@ -496,9 +613,23 @@ export async function createNewAgent(
       }
     }
 
-    return { id: createdAgent.id, name: createdAgent.name };
+    created = { id: createdAgent.id, name: createdAgent.name };
   } catch (err) {
     creationSpinner.fail(`Failed to create agent ${agentName}`);
     throw err;
   }
+
+  // The agent exists at this point, so a failed script fails the apply without undoing the create
+  if (agent.initial_messages) {
+    const initialSpinner = spinnerEnabled ? createSpinner(`Sending initial messages to ${agentName}...`).start() : null;
+    try {
+      const steps = await sendInitialMessages(client, created.id, agent.initial_messages.messages, { verbose });
+      if (initialSpinner) initialSpinner.succeed(`Initial messages completed for ${agentName} (${steps} steps)`);
+    } catch (err: any) {
+      if (initialSpinner) initialSpinner.fail(`Initial messages failed for ${agentName}`);
+      throw new Error(`Agent ${agentName} was created, but its initial messages failed: ${err.message}`);
+    }
+  }
+
+  return created;
 }
@@ -0,0 +1,149 @@
+/**
+ * Seeds archival memory from the sources declared under archive.passages
+ *
+ * Sources are split into overlapping chunks and each chunk is inserted with lettactl
+ * metadata (its source and content hash). Re-applying only inserts chunks whose hash
+ * is missing; with --force, managed chunks no longer produced by the config are removed.
+ * Passages the agent inserted itself carry no such metadata and are never touched.
+ */
+
+import { LettaClientWrapper } from '../client/letta-client';
+import { generateContentHash } from '../../utils/hash-utils';
+import { log } from '../shared/logger';
+
+export const DEFAULT_CHUNK_SIZE = 1000;
+export const DEFAULT_CHUNK_OVERLAP = 100;
+
+export const PASSAGE_SOURCE_METADATA_KEY = 'lettactl.source';
+export const PASSAGE_HASH_METADATA_KEY = 'lettactl.chunkHash';
+
+export interface ArchivePassageChunk {
+  source: string; // Local path or bucket:<bucket>/<path>
+  text: string;
+  hash: string;
+}
+
+export interface ArchivePassageChanges {
+  toInsert: ArchivePassageChunk[];
+  toRemove: Array<{ id: string; source: string }>;
+  unchanged: number;
+}
+
+/**
+ * Splits text into chunks of at most chunkSize characters, repeating the last
+ * `overlap` characters of each chunk at the start of the next. Breaks on paragraph
+ * or word boundaries when one falls in the second half of the window.
+ */
+export function chunkText(
+  text: string,
+  chunkSize: number = DEFAULT_CHUNK_SIZE,
+  overlap: number = DEFAULT_CHUNK_OVERLAP
+): string[] {
+  const normalized = text.replace(/\r\n/g, '\n').trim();
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    // Don't spend the window on whitespace left over from the previous break
+    while (/\s/.test(normalized[start])) start++;
+
+    let end = Math.min(start + chunkSize, normalized.length);
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end);
+      const paragraphBreak = window.lastIndexOf('\n\n');
+      const wordBreak = Math.max(window.lastIndexOf('\n'), window.lastIndexOf(' '));
+      const breakAt = paragraphBreak > chunkSize / 2 ? paragraphBreak : wordBreak;
+      if (breakAt > chunkSize / 2) end = start + breakAt;
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= normalized.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunks one source document; identical chunks within a source are kept once
+ */
+export function buildPassageChunks(
+  source: string,
+  content: string,
+  chunkSize: number = DEFAULT_CHUNK_SIZE,
+  overlap: number = DEFAULT_CHUNK_OVERLAP
+): ArchivePassageChunk[] {
+  const seen = new Set<string>();
+  const result: ArchivePassageChunk[] = [];
+  for (const text of chunkText(content, chunkSize, overlap)) {
+    const hash = generateContentHash(`${source}\n${text}`);
+    if (seen.has(hash)) continue;
+    seen.add(hash);
+    result.push({ source, text, hash });
+  }
+  return result;
+}
+
+/**
+ * Compares the archive's lettactl-managed passages with the desired chunks.
+ * Pass a null archiveId when the archive is not attached yet (nothing is visible).
+ */
+export function diffArchivePassages(
+  currentPassages: any[],
+  archiveId: string | null,
+  desired: ArchivePassageChunk[]
+): ArchivePassageChanges {
+  const managed = archiveId
+    ? currentPassages.filter(p => p.archive_id === archiveId && p.metadata?.[PASSAGE_HASH_METADATA_KEY])
+    : [];
+  const currentHashes = new Set(managed.map(p => p.metadata[PASSAGE_HASH_METADATA_KEY]));
+  const desiredHashes = new Set(desired.map(chunk => chunk.hash));
+  const toInsert = desired.filter(chunk => !currentHashes.has(chunk.hash));
+
+  return {
+    toInsert,
+    toRemove: managed
+      .filter(p => !desiredHashes.has(p.metadata[PASSAGE_HASH_METADATA_KEY]))
+      .map(p => ({ id: p.id, source: p.metadata[PASSAGE_SOURCE_METADATA_KEY] || '(unknown)' })),
+    unchanged: desired.length - toInsert.length
+  };
+}
+
+/**
+ * Inserts missing chunks into an attached archive and, with force, removes stale ones
+ */
+export async function syncArchivePassages(
+  client: LettaClientWrapper,
+  agentId: string,
+  archive: { name: string; id: string },
+  desired: ArchivePassageChunk[],
+  options: { force?: boolean; verbose?: boolean } = {}
+): Promise<ArchivePassageChanges> {
+  const currentPassages = await client.listAllAgentPassages(agentId);
+  const changes = diffArchivePassages(currentPassages, archive.id, desired);
+
+  if (options.verbose && changes.toInsert.length > 0) {
+    log(`  Inserting ${changes.toInsert.length} passages into archive: ${archive.name}`);
+  }
+  for (const chunk of changes.toInsert) {
+    await client.createArchivePassage(archive.id, {
+      text: chunk.text,
+      metadata: {
+        [PASSAGE_SOURCE_METADATA_KEY]: chunk.source,
+        [PASSAGE_HASH_METADATA_KEY]: chunk.hash
+      }
+    });
+  }
+
+  if (options.force) {
+    if (options.verbose && changes.toRemove.length > 0) {
+      log(`  Removing ${changes.toRemove.length} stale passages from archive: ${archive.name}`);
+    }
+    for (const passage of changes.toRemove) {
+      await client.deleteArchivePassage(archive.id, passage.id);
+    }
+  }
+
+  return changes;
+}
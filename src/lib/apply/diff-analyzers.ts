@@ -1,19 +1,32 @@
 import { LettaClientWrapper } from '../client/letta-client';
 import { BlockManager } from '../managers/block-manager';
 import { normalizeResponse } from '../shared/response-normalizer';
-import { ToolDiff, BlockDiff, FolderDiff, ArchiveDiff } from './diff-engine';
-import { FolderFileConfig } from '../../types/fleet-config';
+import { ToolDiff, ToolRuleDiff, BlockDiff, FolderDiff, ArchiveDiff } from './diff-engine';
+import { FolderFileConfig, FromUrlConfig, ToolRuleConfig } from '../../types/fleet-config';
 import { warn } from '../shared/logger';
 import { PROTECTED_MEMORY_TOOLS } from '../tools/builtin-tools';
+import { fromApiToolRule, isManagedToolRule, toApiToolRule, toolRuleKey } from '../tools/tool-rules';
 import { ArchiveManager } from '../managers/archive-manager';
+import { ArchivePassageChunk, diffArchivePassages } from './archive-passages';
+import { formatBucketFileId } from '../storage/storage-backend';
+import { formatGitFileId } from '../storage/git-source';
+import { formatUrlFileId, urlFileName } from '../storage/url-source';
 
-// Helper to extract file name from FolderFileConfig (string or from_bucket object)
+// Helper to extract file name from FolderFileConfig (string, from_bucket, from_git or from_url object)
 function getFileName(fileConfig: FolderFileConfig): string {
   if (typeof fileConfig === 'string') {
     return fileConfig.split('/').pop() || fileConfig;
   }
-  // from_bucket object
-  return fileConfig.from_bucket.path.split('/').pop() || fileConfig.from_bucket.path;
+  if ('from_url' in fileConfig) {
+    return urlFileName(fileConfig.from_url.url);
+  }
+  const filePath = getRemoteFilePath(fileConfig);
+  return filePath.split('/').pop() || filePath;
+}
+
+// Path of a from_bucket or from_git file inside its bucket or repository
+function getRemoteFilePath(fileConfig: Exclude<FolderFileConfig, string | { from_url: FromUrlConfig }>): string {
+  return 'from_git' in fileConfig ? fileConfig.from_git.path : fileConfig.from_bucket.path;
 }
 
 /**
@@ -29,19 +42,68 @@ function getFileIdentifier(fileConfig: FolderFileConfig): string {
   if (typeof fileConfig === 'string') {
     return fileConfig;
   }
-  return `bucket:${fileConfig.from_bucket.bucket}/${fileConfig.from_bucket.path}`;
+  if ('from_git' in fileConfig) {
+    return formatGitFileId(fileConfig.from_git);
+  }
+  if ('from_url' in fileConfig) {
+    return formatUrlFileId(fileConfig.from_url);
+  }
+  return formatBucketFileId(fileConfig.from_bucket);
 }
 
 function hasSourceContent(itemName: string, sourceHashes: Record<string, string>): boolean {
   return !!sourceHashes[itemName];
 }
 
+/**
+ * Names of tools the agent currently pauses on for human approval (from its tool rules)
+ */
+export function getToolsRequiringApproval(agent: any): Set<string> {
+  const rules: any[] = agent?.tool_rules || [];
+  return new Set(
+    rules
+      .filter(rule => rule?.type === 'requires_approval' && rule.tool_name)
+      .map(rule => rule.tool_name)
+  );
+}
+
+/**
+ * Compares the agent's current tool rules with the desired ones. Rule types lettactl
+ * does not manage (approval, continue_loop, ...) are carried over untouched.
+ * When desiredRules is undefined the agent's rules are left alone.
+ */
+export function analyzeToolRuleChanges(
+  currentRules: any[],
+  desiredRules: ToolRuleConfig[] | undefined
+): ToolRuleDiff {
+  const unmanaged = currentRules.filter(rule => !isManagedToolRule(rule));
+  const current = currentRules
+    .map(fromApiToolRule)
+    .filter((rule): rule is ToolRuleConfig => rule !== null);
+
+  if (desiredRules === undefined) {
+    return { toAdd: [], toRemove: [], unchanged: current, rules: currentRules };
+  }
+
+  const currentKeys = new Set(current.map(toolRuleKey));
+  const desiredKeys = new Set(desiredRules.map(toolRuleKey));
+
+  return {
+    toAdd: desiredRules.filter(rule => !currentKeys.has(toolRuleKey(rule))),
+    toRemove: current.filter(rule => !desiredKeys.has(toolRuleKey(rule))),
+    unchanged: desiredRules.filter(rule => currentKeys.has(toolRuleKey(rule))),
+    rules: [...unmanaged, ...desiredRules.map(toApiToolRule)]
+  };
+}
+
 export async function analyzeToolChanges(
   currentTools: any[],
   desiredToolNames: string[],
   toolRegistry: Map<string, string>,
   _toolSourceHashes?: Record<string, string>,
-  updatedTools?: Set<string>
+  updatedTools?: Set<string>,
+  toolApprovals: Record<string, boolean> = {},
+  currentApprovals: Set<string> = new Set()
 ): Promise<ToolDiff> {
   const currentToolNames = new Set(currentTools.map(t => t.name));
   const desiredToolSet = new Set(desiredToolNames);
@@ -50,6 +112,7 @@ export async function analyzeToolChanges(
   const toRemove: Array<{ name: string; id: string }> = [];
   const toUpdate: Array<{ name: string; currentId: string; newId: string; reason: string }> = [];
   const unchanged: Array<{ name: string; id: string }> = [];
+  const toUpdateApproval: Array<{ name: string; requiresApproval: boolean }> = [];
 
   // Find tools to add
   for (const toolName of desiredToolNames) {
@@ -89,7 +152,17 @@ export async function analyzeToolChanges(
     }
   }
 
-  return { toAdd, toRemove, toUpdate, unchanged };
+  // Reconcile approval only for desired tools that declare requires_approval
+  const attachable = new Set([...currentToolNames, ...toAdd.map(tool => tool.name)]);
+  for (const toolName of desiredToolNames) {
+    const requiresApproval = toolApprovals[toolName];
+    if (requiresApproval === undefined || !attachable.has(toolName)) continue;
+    if (currentApprovals.has(toolName) !== requiresApproval) {
+      toUpdateApproval.push({ name: toolName, requiresApproval });
+    }
+  }
+
+  return { toAdd, toRemove, toUpdate, unchanged, toUpdateApproval };
 }
 
 export async function analyzeBlockChanges(
@@ -233,23 +306,23 @@ export async function analyzeFolderChanges(
           // Helper to get the identifier for a file - for bucket globs, construct full path
           const getFileId = (fileName: string): string => {
             const config = desiredFolder.files.find(f => {
-              if (typeof f === 'string') {
-                return f.split('/').pop() === fileName;
+              if (typeof f === 'string' || 'from_url' in f) {
+                return getFileName(f) === fileName;
               }
-              if (f.from_bucket) {
-                if (f.from_bucket.path.includes('*')) {
-                  return true; // Glob could match any expanded file
-                }
-                return f.from_bucket.path.split('/').pop() === fileName;
+              const remotePath = getRemoteFilePath(f);
+              if (remotePath.includes('*')) {
+                return true; // Glob could match any expanded file
               }
-              return false;
+              return remotePath.split('/').pop() === fileName;
             });
-            // For bucket globs, construct the full bucket path for the individual file
-            if (config && typeof config !== 'string' && config.from_bucket?.path.includes('*')) {
-              const { bucket, path: globPath } = config.from_bucket;
+            // For bucket and git globs, construct the full path for the individual file
+            if (config && typeof config !== 'string' && !('from_url' in config) && getRemoteFilePath(config).includes('*')) {
+              const globPath = getRemoteFilePath(config);
               // Replace glob pattern with the actual filename
               const dir = globPath.substring(0, globPath.lastIndexOf('/') + 1);
-              return `bucket:${bucket}/${dir}${fileName}`;
+              return 'from_git' in config
+                ? formatGitFileId({ ...config.from_git, path: `${dir}${fileName}` })
+                : formatBucketFileId({ ...config.from_bucket, path: `${dir}${fileName}` });
             }
             return config ? getFileIdentifier(config) : fileName;
           };
@@ -325,9 +398,10 @@ export async function analyzeFolderChanges(
 
 export async function analyzeArchiveChanges(
   currentArchives: any[],
-  desiredArchives: Array<{ name: string; description?: string; embedding?: string; embedding_config?: Record<string, any> }>,
+  desiredArchives: Array<{ name: string; description?: string; embedding?: string; embedding_config?: Record<string, any>; passages?: ArchivePassageChunk[] }>,
   archiveManager: ArchiveManager,
-  dryRun: boolean = false
+  dryRun: boolean = false,
+  currentPassages: any[] = []
 ): Promise<ArchiveDiff> {
   const currentArchiveNames = new Set<string>();
   const currentByName = new Map<string, any>();
@@ -392,5 +466,18 @@ export async function analyzeArchiveChanges(
     }
   }
 
-  return { toAttach, toDetach, toUpdate, unchanged };
+  const diff: ArchiveDiff = { toAttach, toDetach, toUpdate, unchanged };
+
+  // Seeded passages (one archive per agent); an archive that is not attached yet shows nothing
+  const seeded = desiredArchives.find(a => a.passages);
+  if (seeded) {
+    const attached = currentByName.get(seeded.name);
+    const archiveId = attached?.id || toAttach.find(a => a.name === seeded.name)?.id || '(new)';
+    const changes = diffArchivePassages(currentPassages, attached?.id || null, seeded.passages!);
+    if (changes.toInsert.length > 0 || changes.toRemove.length > 0) {
+      diff.passages = { name: seeded.name, id: archiveId, chunks: seeded.passages!, ...changes };
+    }
+  }
+
+  return diff;
 }
@@ -1,10 +1,15 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import { LettaClientWrapper } from '../client/letta-client';
 import { AgentUpdateOperations } from './diff-engine';
-import { StorageBackendManager, SupabaseStorageBackend, hasSupabaseConfig } from '../storage/storage-backend';
+import { StorageBackendManager, parseBucketFileId } from '../storage/storage-backend';
+import { GitSourceManager, parseGitFileId } from '../storage/git-source';
+import { parseUrlFileId, urlFileName } from '../storage/url-source';
 import { isBuiltinTool } from '../tools/builtin-tools';
+import { mergeUserMetadata } from './agent-metadata';
+import { syncArchivePassages } from './archive-passages';
+import { uploadBufferToFolder } from './folder-upload';
+import { withReplayableInitialMessages } from '../messaging/initial-messages';
 import { log, error } from '../shared/logger';
 
 /**
@@ -13,10 +18,13 @@ import { log, error } from '../shared/logger';
 export class DiffApplier {
   private client: LettaClientWrapper;
   private basePath: string;
+  private storageManager: StorageBackendManager;
 
-  constructor(client: LettaClientWrapper, basePath: string = '') {
+  // Pass the fleet parser's storage manager so custom bucket providers and pinned git commits carry over
+  constructor(client: LettaClientWrapper, basePath: string = '', storageManager?: StorageBackendManager) {
     this.client = client;
     this.basePath = basePath;
+    this.storageManager = storageManager || new StorageBackendManager({ gitSources: new GitSourceManager({ basePath }) });
   }
 
   /**
@@ -63,8 +71,37 @@ export class DiffApplier {
       if (fields.reasoning !== undefined) {
         apiFields.reasoning = fields.reasoning.to;
       }
+      if (fields.tags !== undefined) {
+        apiFields.tags = fields.tags.to;
+      }
+      if (fields.timezone !== undefined) {
+        apiFields.timezone = fields.timezone.to;
+      }
+      if (fields.metadata !== undefined || fields.initialMessages !== undefined) {
+        // Keep lettactl's own keys (lastApplied, folder hashes) alongside the user's
+        const currentAgent = await this.client.getAgent(agentId);
+        let metadata = (currentAgent as any).metadata || {};
+        if (fields.metadata !== undefined) {
+          metadata = mergeUserMetadata(metadata, fields.metadata.to);
+        }
+        if (fields.initialMessages !== undefined) {
+          metadata = withReplayableInitialMessages(metadata, fields.initialMessages.to);
+        }
+        apiFields.metadata = metadata;
+      }
+      if (fields.toolEnv !== undefined) {
+        apiFields.secrets = fields.toolEnv.to;
+      }
+
+      if (Object.keys(apiFields).length > 0) {
+        await this.client.updateAgent(agentId, apiFields);
+      }
 
-      await this.client.updateAgent(agentId, apiFields);
+      // Model settings go through their own call, after any model change above
+      if (fields.modelSettings !== undefined) {
+        if (verbose) log(`  Updating model settings: ${fields.modelSettings.changedPaths.join(', ')}`);
+        await this.client.updateAgentModelSettings(agentId, fields.modelSettings.to);
+      }
     }
 
     // Apply tool changes
@@ -92,6 +129,20 @@ export class DiffApplier {
       }
     }
 
+    // Tool rules reference tools by name, so replace them once tools are attached
+    if (operations.toolRules) {
+      if (verbose) log(`  Updating tool rules (${operations.toolRules.toAdd.length} added, ${operations.toolRules.toRemove.length} removed)`);
+      await this.client.updateAgent(agentId, { tool_rules: operations.toolRules.rules });
+    }
+
+    if (operations.tools) {
+      // Approval rules are keyed by tool name, so set them after (re)attaching
+      for (const tool of operations.tools.toUpdateApproval) {
+        if (verbose) log(`  Setting requires_approval=${tool.requiresApproval} on tool: ${tool.name}`);
+        await this.client.updateToolApproval(agentId, tool.name, tool.requiresApproval);
+      }
+    }
+
     // Apply block changes
     if (operations.blocks) {
       for (const block of operations.blocks.toAdd) {
@@ -196,6 +247,12 @@ export class DiffApplier {
           await this.client.detachArchiveFromAgent(agentId, archive.id);
         }
       }
+
+      // Re-sync against the archive now that it is attached (it may already hold passages)
+      const passages = operations.archives.passages;
+      if (passages) {
+        await syncArchivePassages(this.client, agentId, passages, passages.chunks, { force, verbose });
+      }
     }
 
     if (verbose) log('  Updates completed successfully');
@@ -203,23 +260,39 @@ export class DiffApplier {
 
   /**
    * Helper method to add a file to an existing folder
-   * Handles both local files and bucket files (bucket:bucket-name/path format)
+   * Handles local files, bucket files (formatBucketFileId) and git files (formatGitFileId)
    */
   private async addFileToFolder(folderId: string, fileIdentifier: string): Promise<void> {
-    // Check if this is a bucket file
-    if (fileIdentifier.startsWith('bucket:')) {
-      const bucketPath = fileIdentifier.substring(7); // Remove 'bucket:' prefix
-      const [bucket, ...pathParts] = bucketPath.split('/');
-      const filePath = pathParts.join('/');
-
-      // Initialize storage backend
-      const supabaseBackend = hasSupabaseConfig() ? new SupabaseStorageBackend() : undefined;
-
-      if (!supabaseBackend) {
-        throw new Error('Supabase credentials not configured for bucket file download');
+    // Git file at a pinned commit (git:repo#commit:path), possibly a glob
+    if (fileIdentifier.startsWith('git:')) {
+      const gitConfig = parseGitFileId(fileIdentifier);
+      const gitSources = this.storageManager.gitSources;
+      const files = gitConfig.path.includes('*')
+        ? await gitSources.listFiles(gitConfig, gitConfig.path.split('*')[0])
+        : [gitConfig.path];
+
+      for (const file of files) {
+        const fileName = path.basename(file);
+        const fileBuffer = await gitSources.readBinary({ ...gitConfig, path: file });
+        await uploadBufferToFolder(this.client, folderId, fileName, fileBuffer);
       }
+      return;
+    }
 
-      const storageManager = new StorageBackendManager({ supabaseBackend });
+    // File from an HTTP(S) URL (url:<url>, with #sha256=<hex> when pinned)
+    if (fileIdentifier.startsWith('url:')) {
+      const urlConfig = parseUrlFileId(fileIdentifier);
+      const fileName = urlFileName(urlConfig.url);
+      const fileBuffer = await this.storageManager.downloadBinaryFromUrl(urlConfig);
+      await uploadBufferToFolder(this.client, folderId, fileName, fileBuffer);
+      return;
+    }
+
+    // Check if this is a bucket file
+    if (fileIdentifier.startsWith('bucket:')) {
+      const bucketConfig = parseBucketFileId(fileIdentifier);
+      const filePath = bucketConfig.path;
+      const storageManager = this.storageManager;
 
       // Check if path contains glob pattern
       if (filePath.includes('*')) {
@@ -227,37 +300,22 @@ export class DiffApplier {
         const prefix = filePath.split('*')[0];
 
         // List all files matching the prefix
-        const files = await supabaseBackend.listFiles(bucket, prefix);
+        const files = await storageManager.listBucketFiles(bucketConfig, prefix);
 
         // Download and upload each file
         for (const file of files) {
           const fileName = path.basename(file);
           const fileBuffer = await storageManager.downloadBinaryFromBucket({
-            provider: 'supabase',
-            bucket,
+            ...bucketConfig,
             path: file
           });
-
-          const tempPath = path.join(os.tmpdir(), fileName);
-          fs.writeFileSync(tempPath, fileBuffer);
-          const fileStream = fs.createReadStream(tempPath);
-          await this.client.uploadFileToFolder(fileStream, folderId, fileName);
-          fs.unlinkSync(tempPath);
+          await uploadBufferToFolder(this.client, folderId, fileName, fileBuffer);
         }
       } else {
         // Single file download
-        const fileName = pathParts[pathParts.length - 1];
-        const fileBuffer = await storageManager.downloadBinaryFromBucket({
-          provider: 'supabase',
-          bucket,
-          path: filePath
-        });
-
-        const tempPath = path.join(os.tmpdir(), fileName);
-        fs.writeFileSync(tempPath, fileBuffer);
-        const fileStream = fs.createReadStream(tempPath);
-        await this.client.uploadFileToFolder(fileStream, folderId, fileName);
-        fs.unlinkSync(tempPath);
+        const fileName = path.basename(filePath);
+        const fileBuffer = await storageManager.downloadBinaryFromBucket(bucketConfig);
+        await uploadBufferToFolder(this.client, folderId, fileName, fileBuffer);
       }
     } else {
       // Local file
@@ -4,13 +4,20 @@ import { BlockManager } from '../managers/block-manager';
 import { ArchiveManager } from '../managers/archive-manager';
 import { normalizeResponse } from '../shared/response-normalizer';
 import { DiffApplier } from './diff-applier';
-import { analyzeToolChanges, analyzeBlockChanges, analyzeFolderChanges, analyzeArchiveChanges } from './diff-analyzers';
+import type { StorageBackendManager } from '../storage/storage-backend';
+import { analyzeToolChanges, analyzeToolRuleChanges, analyzeBlockChanges, analyzeFolderChanges, analyzeArchiveChanges, getToolsRequiringApproval } from './diff-analyzers';
 import type { AgentUpdateOperations } from '../../types/diff';
-import { log } from '../shared/logger';
+import type { InitialMessageConfig, ToolRuleConfig } from '../../types/fleet-config';
+import { log, warn } from '../shared/logger';
+import { getUserMetadata } from './agent-metadata';
+import { readAgentToolEnv, diffToolEnv } from './tool-env';
+import { readReplayableInitialMessages } from '../messaging/initial-messages';
+import { diffModelSettings, mergeModelSettings } from './model-settings';
+import type { ArchivePassageChunk } from './archive-passages';
 import { DEFAULT_CONTEXT_WINDOW, DEFAULT_REASONING, DEFAULT_EMBEDDING } from '../shared/constants';
 
 // Re-export types for backwards compatibility
-export type { ToolDiff, BlockDiff, FolderDiff, ArchiveDiff, FieldChange, AgentUpdateOperations } from '../../types/diff';
+export type { ToolDiff, ToolRuleDiff, BlockDiff, FolderDiff, ArchiveDiff, FieldChange, AgentUpdateOperations } from '../../types/diff';
 
 /**
  * DiffEngine determines what specific operations are needed to update an agent
@@ -21,12 +28,20 @@ export class DiffEngine {
   private blockManager: BlockManager;
   private archiveManager: ArchiveManager;
   private basePath: string;
+  private storageManager?: StorageBackendManager;
 
-  constructor(client: LettaClientWrapper, blockManager: BlockManager, archiveManager: ArchiveManager, basePath: string = '') {
+  constructor(
+    client: LettaClientWrapper,
+    blockManager: BlockManager,
+    archiveManager: ArchiveManager,
+    basePath: string = '',
+    storageManager?: StorageBackendManager
+  ) {
     this.client = client;
     this.blockManager = blockManager;
     this.archiveManager = archiveManager;
     this.basePath = basePath;
+    this.storageManager = storageManager;
   }
 
   /**
@@ -40,15 +55,24 @@ export class DiffEngine {
       description?: string;
       tools: string[];
       toolSourceHashes?: Record<string, string>;
+      toolApprovals?: Record<string, boolean>;
+      toolRules?: ToolRuleConfig[];
       model?: string;
       embedding?: string;
       embeddingConfig?: Record<string, any>;
       contextWindow?: number;
       reasoning?: boolean;
+      modelSettings?: Record<string, any>;
+      tags?: string[];
+      timezone?: string;
+      agentType?: string;
+      metadata?: Record<string, any>;
+      replayInitialMessages?: InitialMessageConfig[] | null; // Script to replay after reset-messages, null for none
+      toolEnv?: Record<string, string>; // Resolved tool_env values
       memoryBlocks?: Array<{name: string; description: string; limit: number; value: string}>;
       memoryBlockFileHashes?: Record<string, string>;
       folders?: Array<{name: string; files: string[]; fileContentHashes?: Record<string, string>}>;
-      archives?: Array<{name: string; description?: string; embedding?: string; embedding_config?: Record<string, any>}>;
+      archives?: Array<{name: string; description?: string; embedding?: string; embedding_config?: Record<string, any>; passages?: ArchivePassageChunk[]}>;
       sharedBlocks?: string[];
     },
     toolRegistry: Map<string, string>,
@@ -150,6 +174,69 @@ export class DiffEngine {
       operations.operationCount++;
     }
 
+    // Model settings (temperature, max_output_tokens, ...) - only the declared ones are compared
+    if (desiredConfig.modelSettings) {
+      const currentSettings = (currentAgent as any).model_settings || {};
+      const changedPaths = diffModelSettings(currentSettings, desiredConfig.modelSettings);
+      if (changedPaths.length > 0) {
+        fieldUpdates.modelSettings = {
+          from: currentSettings,
+          to: mergeModelSettings(currentSettings, desiredConfig.modelSettings),
+          changedPaths
+        };
+        operations.operationCount += changedPaths.length;
+      }
+    }
+
+    // Tags, timezone and metadata are only managed when declared in the config
+    if (desiredConfig.tags !== undefined) {
+      const currentTags: string[] = (currentAgent as any).tags || [];
+      if (JSON.stringify([...currentTags].sort()) !== JSON.stringify([...desiredConfig.tags].sort())) {
+        fieldUpdates.tags = { from: currentTags, to: desiredConfig.tags };
+        operations.operationCount++;
+      }
+    }
+
+    if (desiredConfig.timezone !== undefined) {
+      const currentTimezone = (currentAgent as any).timezone ?? null;
+      if (currentTimezone !== desiredConfig.timezone) {
+        fieldUpdates.timezone = { from: currentTimezone, to: desiredConfig.timezone };
+        operations.operationCount++;
+      }
+    }
+
+    if (desiredConfig.metadata !== undefined) {
+      const currentMetadata = getUserMetadata((currentAgent as any).metadata);
+      if (JSON.stringify(normalizeConfig(currentMetadata)) !== JSON.stringify(normalizeConfig(desiredConfig.metadata))) {
+        fieldUpdates.metadata = { from: currentMetadata, to: desiredConfig.metadata };
+        operations.operationCount++;
+      }
+    }
+
+    // The stored replay script is lettactl bookkeeping, kept in sync whenever apply sets it
+    if (desiredConfig.replayInitialMessages !== undefined) {
+      const currentScript = readReplayableInitialMessages((currentAgent as any).metadata);
+      if (JSON.stringify(currentScript) !== JSON.stringify(desiredConfig.replayInitialMessages)) {
+        fieldUpdates.initialMessages = { from: currentScript, to: desiredConfig.replayInitialMessages };
+        operations.operationCount++;
+      }
+    }
+
+    // Tool environment variables are only returned on request, so they are fetched when declared
+    if (desiredConfig.toolEnv !== undefined) {
+      const currentToolEnv = readAgentToolEnv(await this.client.getAgentWithSecrets(existingAgent.id));
+      const toolEnvChange = diffToolEnv(currentToolEnv, desiredConfig.toolEnv);
+      if (toolEnvChange) {
+        fieldUpdates.toolEnv = toolEnvChange;
+        operations.operationCount += toolEnvChange.added.length + toolEnvChange.changed.length + toolEnvChange.removed.length;
+      }
+    }
+
+    const currentAgentType = (currentAgent as any).agent_type;
+    if (desiredConfig.agentType && currentAgentType && currentAgentType !== desiredConfig.agentType) {
+      warn(`Agent ${existingAgent.name} is a ${currentAgentType}; agent_type ${desiredConfig.agentType} only applies at creation. Delete and re-apply the agent to change it.`);
+    }
+
     if (Object.keys(fieldUpdates).length > 0) {
       operations.updateFields = fieldUpdates;
     }
@@ -160,9 +247,19 @@ export class DiffEngine {
       desiredConfig.tools || [],
       toolRegistry,
       desiredConfig.toolSourceHashes || {},
-      updatedTools
+      updatedTools,
+      desiredConfig.toolApprovals,
+      getToolsRequiringApproval(currentAgent)
     );
-    operations.operationCount += operations.tools.toAdd.length + operations.tools.toRemove.length + operations.tools.toUpdate.length;
+    operations.operationCount += operations.tools.toAdd.length + operations.tools.toRemove.length + operations.tools.toUpdate.length +
+      operations.tools.toUpdateApproval.length;
+
+    // Analyze tool rule changes
+    const toolRuleOps = analyzeToolRuleChanges((currentAgent as any).tool_rules || [], desiredConfig.toolRules);
+    if (toolRuleOps.toAdd.length > 0 || toolRuleOps.toRemove.length > 0) {
+      operations.toolRules = toolRuleOps;
+      operations.operationCount += toolRuleOps.toAdd.length + toolRuleOps.toRemove.length;
+    }
 
     // Analyze memory block changes
     operations.blocks = await analyzeBlockChanges(
@@ -189,15 +286,20 @@ export class DiffEngine {
     operations.operationCount += operations.folders.toAttach.length + operations.folders.toDetach.length +
       operations.folders.toUpdate.reduce((sum, folder) => sum + folder.filesToAdd.length + folder.filesToRemove.length + folder.filesToUpdate.length, 0);
 
-    // Analyze archive changes
+    // Analyze archive changes (passages are only listed when the config seeds some)
+    const currentPassages = desiredConfig.archives?.some(archive => archive.passages)
+      ? await this.client.listAllAgentPassages(existingAgent.id)
+      : [];
     const archiveOps = await analyzeArchiveChanges(
       currentArchives,
       desiredConfig.archives || [],
       this.archiveManager,
-      dryRun
+      dryRun,
+      currentPassages
     );
     operations.archives = archiveOps;
-    operations.operationCount += archiveOps.toAttach.length + archiveOps.toDetach.length + archiveOps.toUpdate.length;
+    operations.operationCount += archiveOps.toAttach.length + archiveOps.toDetach.length + archiveOps.toUpdate.length +
+      (archiveOps.passages ? archiveOps.passages.toInsert.length + archiveOps.passages.toRemove.length : 0);
 
     return operations;
   }
@@ -211,7 +313,7 @@ export class DiffEngine {
     verbose: boolean = false,
     force: boolean = false
   ): Promise<void> {
-    const applier = new DiffApplier(this.client, this.basePath);
+    const applier = new DiffApplier(this.client, this.basePath, this.storageManager);
     return applier.applyUpdateOperations(agentId, operations, verbose, force);
   }
 }
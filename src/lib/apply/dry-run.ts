@@ -6,11 +6,15 @@ import { AgentManager } from '../managers/agent-manager';
 import { DiffEngine, AgentUpdateOperations } from './diff-engine';
 import { FileContentTracker } from './file-content-tracker';
 import { FleetParser } from './fleet-parser';
-import { output } from '../shared/logger';
+import { buildModelSettings, getModelSetting } from './model-settings';
+import { maskToolEnv } from './tool-env';
+import { output, bufferLogs, flushLogs, BufferedLogLine } from '../shared/logger';
+import { mapWithConcurrency } from '../shared/concurrency';
 import { displayDryRunHeader, displayDryRunSummary, displayDryRunAction } from '../ux/display';
 import { shouldUseFancyUx, truncate } from '../ux/box';
 import { purple } from '../ux/constants';
 import { buildMcpServerRegistry, expandMcpToolsForAgents } from '../tools/mcp-tools';
+import { describeToolRule } from '../tools/tool-rules';
 
 export interface DryRunResult {
   name: string;
@@ -29,6 +33,7 @@ interface DryRunContext {
   parser: FleetParser;
   agentFilter?: string;
   verbose: boolean;
+  concurrency?: number; // Agents diffed in parallel (default 1)
 }
 
 /**
@@ -47,26 +52,32 @@ export async function computeDryRunDiffs(
   const mcpServerNameToId = await buildMcpServerRegistry(client);
   await expandMcpToolsForAgents(config, client, mcpServerNameToId, ctx.verbose);
 
-  const results: DryRunResult[] = [];
+  const agents = config.agents.filter((agent: any) => !agentFilter || agent.name.includes(agentFilter));
 
-  for (const agent of config.agents) {
-    if (agentFilter && !agent.name.includes(agentFilter)) continue;
-
-    const result = await computeAgentDiff(agent, {
-      client,
-      agentManager,
-      diffEngine,
-      fileTracker,
-      parser,
-      toolNameToId,
-      folderNameToId,
-      sharedBlockIds
-    });
-
-    results.push(result);
-  }
-
-  return results;
+  const concurrency = ctx.concurrency || 1;
+  const diffAgent = (agent: any) => computeAgentDiff(agent, {
+    client,
+    agentManager,
+    diffEngine,
+    fileTracker,
+    parser,
+    toolNameToId,
+    folderNameToId,
+    sharedBlockIds
+  });
+
+  // Parallel diffs buffer their warnings and print them in config order
+  const diffs = await mapWithConcurrency(
+    agents,
+    concurrency,
+    async (agent: any) => {
+      const lines: BufferedLogLine[] = [];
+      const result = await (concurrency > 1 ? bufferLogs(lines, () => diffAgent(agent)) : diffAgent(agent));
+      return { result, lines };
+    },
+    ({ lines }) => flushLogs(lines)
+  );
+  return diffs.map(diff => diff.result);
 }
 
 async function buildToolRegistry(client: LettaClientWrapper): Promise<Map<string, string>> {
@@ -125,10 +136,19 @@ async function computeAgentDiff(
     description: agent.description || '',
     tools: agent.tools || [],
     toolSourceHashes,
+    toolApprovals: parser.toolApprovals.get(agent.name) || {},
+    toolRules: agent.tool_rules,
     model: agent.llm_config?.model,
     embedding: agent.embedding,
     embeddingConfig: agent.embedding_config,
     contextWindow: agent.llm_config?.context_window,
+    modelSettings: buildModelSettings(agent.llm_config),
+    tags: agent.tags,
+    timezone: agent.timezone,
+    agentType: agent.agent_type,
+    metadata: agent.metadata,
+    replayInitialMessages: agent.initial_messages?.replay_on_reset ? agent.initial_messages.messages : null,
+    toolEnv: parser.resolveToolEnv(agent),
     memoryBlocks: (agent.memory_blocks || []).map((b: any) => ({
       name: b.name,
       description: b.description,
@@ -147,6 +167,9 @@ async function computeAgentDiff(
       } else if (!a.embedding_config && agent.embedding) {
         resolved.embedding = agent.embedding;
       }
+      if (a.passages) {
+        resolved.passages = parser.archivePassages.get(a.name) || [];
+      }
       return resolved;
     }),
     memoryBlockFileHashes,
@@ -166,7 +189,9 @@ async function computeAgentDiff(
   );
 
   if (shouldCreate) {
-    return { name: agent.name, action: 'create', config: agentConfig };
+    // Resolved tool_env values never leave this function; the result only carries their digests
+    const toolEnv = agentConfig.toolEnv && maskToolEnv(agentConfig.toolEnv);
+    return { name: agent.name, action: 'create', config: { ...agentConfig, toolEnv, initialMessages: agent.initial_messages } };
   }
 
   if (!existingAgent) {
@@ -256,14 +281,35 @@ function formatCreateDetails(result: DryRunResult, fancy: boolean): void {
   const indent = '    ';
   output(`${indent}${dim('Model:')} ${result.config.model || 'default'}`);
   output(`${indent}${dim('Embedding:')} ${result.config.embedding || 'default'}`);
+  if (result.config.agentType) {
+    output(`${indent}${dim('Agent type:')} ${result.config.agentType}`);
+  }
+  if (result.config.tags?.length) {
+    output(`${indent}${dim('Tags:')} ${result.config.tags.join(', ')}`);
+  }
   if (result.config.tools?.length) {
-    output(`${indent}${dim('Tools:')} ${result.config.tools.length}`);
+    const approvalCount = Object.values(result.config.toolApprovals || {}).filter(Boolean).length;
+    const approvalNote = approvalCount > 0 ? ` (${approvalCount} require approval)` : '';
+    output(`${indent}${dim('Tools:')} ${result.config.tools.length}${approvalNote}`);
+  }
+  if (result.config.toolRules?.length) {
+    output(`${indent}${dim('Tool rules:')} ${result.config.toolRules.length}`);
+  }
+  if (result.config.toolEnv && Object.keys(result.config.toolEnv).length > 0) {
+    const variables = Object.entries(result.config.toolEnv).map(([key, digest]) => `${key}=${digest}`);
+    output(`${indent}${dim('Tool env:')} ${variables.join(', ')}`);
+  }
+  if (result.config.initialMessages) {
+    const replayNote = result.config.initialMessages.replay_on_reset ? ', replayed after reset-messages' : '';
+    output(`${indent}${dim('Initial messages:')} ${result.config.initialMessages.messages.length}${replayNote}`);
   }
   if (result.config.memoryBlocks?.length) {
     output(`${indent}${dim('Memory blocks:')} ${result.config.memoryBlocks.length}`);
   }
   if (result.config.archives?.length) {
-    output(`${indent}${dim('Archives:')} ${result.config.archives.length}`);
+    const passageCount = result.config.archives.reduce((sum: number, a: any) => sum + (a.passages?.length || 0), 0);
+    const passageNote = passageCount > 0 ? ` (${passageCount} passages)` : '';
+    output(`${indent}${dim('Archives:')} ${result.config.archives.length}${passageNote}`);
   }
   if (result.config.folders?.length) {
     const fileCount = result.config.folders.reduce((sum: number, f: any) => sum + f.files.length, 0);
@@ -308,6 +354,39 @@ function formatUpdateDetails(ops: AgentUpdateOperations, verbose: boolean, fancy
     if (ops.updateFields.contextWindow) {
       output(`    ${dim('context_window:')} ${ops.updateFields.contextWindow.from} ${dim('->')} ${ops.updateFields.contextWindow.to}`);
     }
+    if (ops.updateFields.modelSettings) {
+      const { from, to, changedPaths } = ops.updateFields.modelSettings;
+      for (const settingPath of changedPaths) {
+        const previous = getModelSetting(from, settingPath);
+        output(`    ${dim(`model_settings.${settingPath}:`)} ${previous === undefined ? 'unset' : JSON.stringify(previous)} ${dim('->')} ${JSON.stringify(getModelSetting(to, settingPath))}`);
+      }
+    }
+    if (ops.updateFields.tags) {
+      output(`    ${dim('tags:')} [${ops.updateFields.tags.from.join(', ')}] ${dim('->')} [${ops.updateFields.tags.to.join(', ')}]`);
+    }
+    if (ops.updateFields.timezone) {
+      output(`    ${dim('timezone:')} ${ops.updateFields.timezone.from ?? 'none'} ${dim('->')} ${ops.updateFields.timezone.to}`);
+    }
+    if (ops.updateFields.metadata) {
+      const { from, to } = ops.updateFields.metadata;
+      for (const key of [...new Set([...Object.keys(from), ...Object.keys(to)])]) {
+        if (!(key in to)) output(`    ${red('Metadata [-]:')} ${key}`);
+        else if (!(key in from)) output(`    ${green('Metadata [+]:')} ${key} = ${JSON.stringify(to[key])}`);
+        else if (JSON.stringify(from[key]) !== JSON.stringify(to[key])) {
+          output(`    ${colorPurple('Metadata [~]:')} ${key} ${JSON.stringify(from[key])} ${dim('->')} ${JSON.stringify(to[key])}`);
+        }
+      }
+    }
+    if (ops.updateFields.initialMessages) {
+      const { to } = ops.updateFields.initialMessages;
+      output(`    ${dim('initial_messages replay:')} ${to ? `${to.length} messages after reset-messages` : 'removed'}`);
+    }
+    if (ops.updateFields.toolEnv) {
+      const { added, changed, removed, digests } = ops.updateFields.toolEnv;
+      for (const key of added) output(`    ${green('Tool env [+]:')} ${key} = ${digests.to[key]}`);
+      for (const key of changed) output(`    ${colorPurple('Tool env [~]:')} ${key} ${digests.from[key]} ${dim('->')} ${digests.to[key]}`);
+      for (const key of removed) output(`    ${red('Tool env [-]:')} ${key}`);
+    }
   }
 
   // Tool changes
@@ -315,11 +394,20 @@ function formatUpdateDetails(ops: AgentUpdateOperations, verbose: boolean, fancy
     for (const t of ops.tools.toAdd) output(`    ${green('Tool [+]:')} ${t.name}`);
     for (const t of ops.tools.toRemove) output(`    ${red('Tool [-]:')} ${t.name} ${dim('(requires --force)')}`);
     for (const t of ops.tools.toUpdate) output(`    ${colorPurple('Tool [~]:')} ${t.name} ${dim(`(${t.reason})`)}`);
+    for (const t of ops.tools.toUpdateApproval) {
+      output(`    ${colorPurple('Tool [~]:')} ${t.name} ${dim(`(requires_approval: ${!t.requiresApproval} -> ${t.requiresApproval})`)}`);
+    }
     if (verbose && ops.tools.unchanged.length > 0) {
       output(`    ${dim(`Tools unchanged: ${ops.tools.unchanged.length}`)}`);
     }
   }
 
+  // Tool rule changes
+  if (ops.toolRules) {
+    for (const r of ops.toolRules.toAdd) output(`    ${green('Tool rule [+]:')} ${describeToolRule(r)}`);
+    for (const r of ops.toolRules.toRemove) output(`    ${red('Tool rule [-]:')} ${describeToolRule(r)}`);
+  }
+
   // Block changes
   if (ops.blocks) {
     for (const b of ops.blocks.toAdd) output(`    ${green('Block [+]:')} ${b.name}`);
@@ -356,6 +444,18 @@ function formatUpdateDetails(ops: AgentUpdateOperations, verbose: boolean, fancy
     for (const a of ops.archives.toAttach) output(`    Archive [+]: ${a.name}`);
     for (const a of ops.archives.toDetach) output(`    Archive [-]: ${a.name} (requires --force)`);
     for (const a of ops.archives.toUpdate) output(`    Archive [~]: ${a.name}`);
+    const passages = ops.archives.passages;
+    if (passages) {
+      if (passages.toInsert.length > 0) {
+        output(`    Passages [+]: ${passages.toInsert.length} into ${passages.name}`);
+      }
+      if (passages.toRemove.length > 0) {
+        output(`    Passages [-]: ${passages.toRemove.length} from ${passages.name} (requires --force)`);
+      }
+      if (verbose && passages.unchanged > 0) {
+        output(`    Passages unchanged: ${passages.unchanged}`);
+      }
+    }
     if (verbose && ops.archives.unchanged.length > 0) {
       output(`    Archives unchanged: ${ops.archives.unchanged.length}`);
     }
@@ -2,8 +2,11 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import { StorageBackendManager, BucketConfig } from '../storage/storage-backend';
+import { formatGitFileId } from '../storage/git-source';
+import { formatUrlFileId, urlFileName } from '../storage/url-source';
 import { FolderConfig, FolderFileConfig } from '../../types/fleet-config';
 import { isBuiltinTool } from '../tools/builtin-tools';
+import { toolDefinitionFingerprint } from './tool-definitions';
 import { warn } from '../shared/logger';
 
 export interface FileContentMap {
@@ -63,13 +66,19 @@ export class FileContentTracker {
 
       const toolConfig = toolConfigs?.get(toolName);
 
-      // Priority: 1. inline source_code, 2. from_file, 3. default path
+      // Priority: 1. inline source_code, 2. from_file, 3. from_git, 4. from_url, 5. default path
       if (toolConfig && typeof toolConfig === 'object' && toolConfig.source_code) {
         // Inline source code - hash it directly
         toolHashes[toolName] = crypto.createHash('sha256').update(toolConfig.source_code).digest('hex').substring(0, 16);
       } else if (toolConfig && typeof toolConfig === 'object' && toolConfig.from_file) {
         // File-based source code
         toolHashes[toolName] = this.generateFileContentHash(toolConfig.from_file);
+      } else if (toolConfig && typeof toolConfig === 'object' && toolConfig.from_git) {
+        // Git source - content is fixed by the pinned commit and path
+        toolHashes[toolName] = crypto.createHash('sha256').update(formatGitFileId(toolConfig.from_git)).digest('hex').substring(0, 16);
+      } else if (toolConfig && typeof toolConfig === 'object' && toolConfig.from_url) {
+        // URL source - content is fixed by the pinned sha256, when there is one
+        toolHashes[toolName] = crypto.createHash('sha256').update(formatUrlFileId(toolConfig.from_url)).digest('hex').substring(0, 16);
       } else {
         // Default to tools/ directory
         const toolPath = path.join('tools', `${toolName}.py`);
@@ -80,11 +89,29 @@ export class FileContentTracker {
         }
         toolHashes[toolName] = this.generateFileContentHash(toolPath);
       }
+
+      // Requirements, args schema and tags are part of the tool's definition
+      const fingerprint = this.readToolDefinitionFingerprint(toolName, toolConfig);
+      if (fingerprint) {
+        toolHashes[toolName] = crypto.createHash('sha256')
+          .update(`${toolHashes[toolName]}:${fingerprint}`)
+          .digest('hex').substring(0, 16);
+      }
     }
 
     return toolHashes;
   }
 
+  private readToolDefinitionFingerprint(toolName: string, toolConfig: any): string {
+    if (!toolConfig || typeof toolConfig !== 'object') return '';
+    try {
+      return toolDefinitionFingerprint(toolConfig, this.basePath);
+    } catch (error) {
+      warn(`Warning: Could not read requirements for tool ${toolName}:`, (error as Error).message);
+      return `unreadable:${toolConfig.pip_requirements}`;
+    }
+  }
+
   /**
    * Generates content hashes for memory block files
    */
@@ -138,22 +165,45 @@ export class FileContentTracker {
           // Local file
           const fileName = fileConfig.split('/').pop() || fileConfig;
           fileHashes[fileName] = this.generateFileContentHash(fileConfig);
-        } else if (fileConfig.from_bucket && this.storageManager) {
+        } else if ('from_git' in fileConfig && this.storageManager) {
+          // Git file - may be a glob pattern; content comes from the pinned commit
+          const gitConfig = fileConfig.from_git;
+          try {
+            const files = gitConfig.path.includes('*')
+              ? await this.storageManager.gitSources.listFiles(gitConfig, gitConfig.path.split('*')[0])
+              : [gitConfig.path];
+            for (const file of files) {
+              const content = await this.storageManager.gitSources.readBinary({ ...gitConfig, path: file });
+              fileHashes[file.split('/').pop() || file] = crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+            }
+          } catch (error) {
+            warn(`Could not hash git file ${gitConfig.path}:`, (error as Error).message);
+          }
+        } else if ('from_url' in fileConfig && this.storageManager) {
+          // URL file - downloaded once per run and checked against its pinned sha256
+          const urlConfig = fileConfig.from_url;
+          try {
+            const content = await this.storageManager.downloadBinaryFromUrl(urlConfig);
+            fileHashes[urlFileName(urlConfig.url)] = crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+          } catch (error) {
+            warn(`Could not hash url file ${urlConfig.url}:`, (error as Error).message);
+          }
+        } else if ('from_bucket' in fileConfig && this.storageManager) {
           // Bucket file - may be a glob pattern
-          const { bucket, path: filePath } = fileConfig.from_bucket;
+          const { path: filePath } = fileConfig.from_bucket;
 
           if (filePath.includes('*')) {
             // Glob pattern - expand and hash each file
             try {
               const prefix = filePath.split('*')[0];
-              const files = await this.storageManager.listBucketFiles(bucket, prefix);
+              const files = await this.storageManager.listBucketFiles(fileConfig.from_bucket, prefix);
 
               for (const file of files) {
                 const fileName = file.split('/').pop() || file;
                 try {
                   const content = await this.storageManager.downloadFromBucket({
+                    ...fileConfig.from_bucket,
                     provider: fileConfig.from_bucket.provider || 'supabase',
-                    bucket,
                     path: file
                   });
                   fileHashes[fileName] = crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
@@ -169,9 +219,8 @@ export class FileContentTracker {
             const fileName = filePath.split('/').pop() || filePath;
             try {
               const content = await this.storageManager.downloadFromBucket({
-                provider: fileConfig.from_bucket.provider || 'supabase',
-                bucket,
-                path: filePath
+                ...fileConfig.from_bucket,
+                provider: fileConfig.from_bucket.provider || 'supabase'
               });
               fileHashes[fileName] = crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
             } catch (error) {
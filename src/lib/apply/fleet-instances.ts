@@ -0,0 +1,283 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentConfig, FleetConfig, InstanceSetConfig } from '../../types/fleet-config';
+import { isPlainObject } from '../shared/object-utils';
+
+/**
+ * Per-tenant agent instantiation.
+ * An instance set expands one agent template over a list of records (inline, or
+ * read from a CSV / JSONL file). Each record becomes a regular agent that extends the
+ * template, with its name, description, tags and block values rendered from
+ * {{field}} placeholders, so every instance is tracked and diffed on its own.
+ */
+
+const FIELD_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*(\.[A-Za-z0-9_-]+)*$/;
+const INSTANCE_FILE_FORMATS: Record<string, 'csv' | 'jsonl'> = {
+  '.csv': 'csv',
+  '.jsonl': 'jsonl',
+  '.ndjson': 'jsonl'
+};
+
+/**
+ * Parses CSV text with a header row into records.
+ * Supports quoted fields, "" escapes and line breaks inside quotes; blank lines are skipped.
+ */
+export function parseCsvRecords(content: string, source: string = 'CSV'): Record<string, string>[] {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error(`${source}: unterminated quoted field starting on line ${rowLine}`);
+  }
+  if (cell !== '' || cells.length > 0) {
+    endRow();
+  }
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const header = rows[0].cells.map(name => name.trim());
+  const duplicate = header.find((name, index) => header.indexOf(name) !== index);
+  if (header.some(name => !name) || duplicate) {
+    throw new Error(
+      `${source}: the header row must name every column once` +
+      (duplicate ? ` (duplicate column "${duplicate}")` : '') + '\n' +
+      'Example:\n' +
+      'id,company,plan\n' +
+      'acme,Acme Corp,enterprise'
+    );
+  }
+
+  return rows.slice(1).map(row => {
+    if (row.cells.length !== header.length) {
+      throw new Error(`${source} line ${row.line}: expected ${header.length} columns, found ${row.cells.length}`);
+    }
+    const record: Record<string, string> = {};
+    header.forEach((name, index) => { record[name] = row.cells[index]; });
+    return record;
+  });
+}
+
+/**
+ * Parses JSON Lines (one JSON object per line) into records; blank lines are skipped
+ */
+export function parseJsonlRecords(content: string, source: string = 'JSONL'): Record<string, any>[] {
+  const records: Record<string, any>[] = [];
+  content.split(/\r?\n/).forEach((text, index) => {
+    if (!text.trim()) return;
+    let record: any;
+    try {
+      record = JSON.parse(text);
+    } catch (err: any) {
+      throw new Error(`${source} line ${index + 1}: invalid JSON (${err.message})`);
+    }
+    if (!isPlainObject(record)) {
+      throw new Error(`${source} line ${index + 1}: each line must be a JSON object`);
+    }
+    records.push(record);
+  });
+  return records;
+}
+
+/**
+ * Reads instance records from a .csv, .jsonl or .ndjson file
+ */
+export function loadInstanceRecords(filePath: string, basePath: string = process.cwd()): Record<string, any>[] {
+  const format = INSTANCE_FILE_FORMATS[path.extname(filePath).toLowerCase()];
+  if (!format) {
+    throw new Error(
+      `Unsupported instance file "${filePath}". Use a .csv file with a header row, or a .jsonl / .ndjson file.`
+    );
+  }
+
+  const resolvedPath = path.resolve(basePath, filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Instance file not found: ${filePath} (resolved to ${resolvedPath})`);
+  }
+
+  const content = fs.readFileSync(resolvedPath, 'utf8');
+  return format === 'csv' ? parseCsvRecords(content, filePath) : parseJsonlRecords(content, filePath);
+}
+
+/**
+ * Replaces {{field}} placeholders with record values. Dotted names read nested
+ * JSONL fields; a placeholder naming a field the record lacks is an error.
+ */
+export function renderInstanceValue(pattern: string, record: Record<string, any>): string {
+  return pattern.replace(FIELD_PATTERN, (placeholder, field: string) => {
+    if (!FIELD_NAME_PATTERN.test(field)) {
+      throw new Error(`Invalid placeholder "${placeholder}". Use {{field}} with a record field name.`);
+    }
+    const value = field.split('.').reduce((current: any, key) => (isPlainObject(current) ? current[key] : undefined), record);
+    if (value === undefined || value === null) {
+      throw new Error(`missing field "${field}" (used in "${pattern}")`);
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+function validateInstanceSet(set: any, index: number, templateNames: Set<string>): void {
+  const label = isPlainObject(set) && typeof set.name === 'string' ? `Instance set "${set.name}"` : `Instance set ${index + 1}`;
+
+  if (!isPlainObject(set) || typeof set.name !== 'string' || !set.name.trim()) {
+    throw new Error(
+      `${label} must have a name pattern.\n` +
+      'Example:\n' +
+      'instances:\n' +
+      '  - name: "support-{{id}}"\n' +
+      '    template: support-agent\n' +
+      '    from_file: tenants.csv'
+    );
+  }
+  if (!set.name.includes('{{')) {
+    throw new Error(`${label}: the name must contain a {{field}} placeholder so every instance gets its own name.`);
+  }
+
+  if (typeof set.template !== 'string' || !templateNames.has(set.template)) {
+    const available = Array.from(templateNames);
+    throw new Error(
+      `${label}: template must name an entry in agent_templates.` +
+      (available.length > 0 ? ` Available templates: ${available.join(', ')}` : ' No agent_templates are defined.')
+    );
+  }
+
+  const hasRecords = set.records !== undefined;
+  const hasFile = set.from_file !== undefined;
+  if (hasRecords === hasFile) {
+    throw new Error(
+      `${label} must use exactly one of records or from_file.\n` +
+      'Example:\n' +
+      '    records:\n' +
+      '      - id: acme\n' +
+      '        company: Acme Corp'
+    );
+  }
+  if (hasRecords && (!Array.isArray(set.records) || !set.records.every(isPlainObject))) {
+    throw new Error(`${label}: records must be a list of objects.`);
+  }
+  if (hasFile && (typeof set.from_file !== 'string' || !set.from_file.trim())) {
+    throw new Error(`${label}: from_file must be a path to a .csv, .jsonl or .ndjson file.`);
+  }
+
+  if (set.description !== undefined && typeof set.description !== 'string') {
+    throw new Error(`${label}: description must be a string.`);
+  }
+  if (set.tags !== undefined && (!Array.isArray(set.tags) || !set.tags.every((tag: any) => typeof tag === 'string'))) {
+    throw new Error(`${label}: tags must be a list of strings.`);
+  }
+  if (set.block_values !== undefined &&
+      (!isPlainObject(set.block_values) || !Object.values(set.block_values).every(value => typeof value === 'string'))) {
+    throw new Error(
+      `${label}: block_values must map memory block names to string values.\n` +
+      'Example:\n' +
+      '    block_values:\n' +
+      '      customer: "Company: {{company}}, plan: {{plan}}"'
+    );
+  }
+}
+
+function buildInstanceAgent(set: InstanceSetConfig, record: Record<string, any>): AgentConfig {
+  const agent: Record<string, any> = {
+    name: renderInstanceValue(set.name, record),
+    extends: set.template
+  };
+  if (set.description !== undefined) {
+    agent.description = renderInstanceValue(set.description, record);
+  }
+  if (set.tags) {
+    agent.tags = set.tags.map(tag => renderInstanceValue(tag, record));
+  }
+  if (set.block_values) {
+    // Merged by name onto the template's blocks, replacing only their value
+    agent.memory_blocks = Object.entries(set.block_values).map(([name, pattern]) => ({
+      name,
+      value: renderInstanceValue(pattern, record)
+    }));
+  }
+  return agent as AgentConfig;
+}
+
+/**
+ * Expands `instances` into agents appended to the fleet's agent list.
+ * Returns a new config without the instances section; the input is not modified.
+ */
+export function expandInstances(config: FleetConfig, basePath: string = process.cwd()): FleetConfig {
+  if (!isPlainObject(config) || config.instances === undefined) {
+    return config;
+  }
+
+  const { instances, ...rest } = config;
+  if (!Array.isArray(instances)) {
+    throw new Error(
+      'instances must be an array.\n' +
+      'Example:\n' +
+      'instances:\n' +
+      '  - name: "support-{{id}}"\n' +
+      '    template: support-agent\n' +
+      '    from_file: tenants.csv'
+    );
+  }
+
+  const templateNames = new Set(
+    (Array.isArray(config.agent_templates) ? config.agent_templates : [])
+      .filter(template => isPlainObject(template) && typeof template.name === 'string')
+      .map(template => template.name)
+  );
+
+  const agents: AgentConfig[] = Array.isArray(rest.agents) ? [...rest.agents] : [];
+  instances.forEach((set, index) => {
+    validateInstanceSet(set, index, templateNames);
+    const records = set.records || loadInstanceRecords(set.from_file!, basePath);
+    records.forEach((record, recordIndex) => {
+      try {
+        agents.push(buildInstanceAgent(set, record));
+      } catch (err: any) {
+        throw new Error(`Instance set "${set.name}" record ${recordIndex + 1}: ${err.message}`);
+      }
+    });
+  });
+
+  return { ...rest, agents };
+}
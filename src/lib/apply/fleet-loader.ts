@@ -0,0 +1,232 @@
+import * as yaml from 'js-yaml';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FleetConfig } from '../../types/fleet-config';
+import { interpolateVariables } from './variable-interpolation';
+import { deepMerge } from './agent-inheritance';
+
+/**
+ * Multi-file fleet loading.
+ * A fleet can be spread across several -f inputs, directories of YAML files,
+ * and `include:` directives. Named sections are merged and duplicates are reported
+ * together with the file that first defined them.
+ */
+
+// Sections merged by concatenation, keyed by entry name for duplicate detection
+const NAMED_SECTIONS: Array<{
+  key: 'agents' | 'shared_blocks' | 'shared_folders' | 'mcp_servers' | 'storage_providers' | 'agent_templates' | 'instances';
+  label: string;
+}> = [
+  { key: 'agents', label: 'agent' },
+  { key: 'shared_blocks', label: 'shared block' },
+  { key: 'shared_folders', label: 'shared folder' },
+  { key: 'mcp_servers', label: 'MCP server' },
+  { key: 'storage_providers', label: 'storage provider' },
+  { key: 'agent_templates', label: 'agent template' },
+  { key: 'instances', label: 'instance set' }
+];
+
+// Other top-level fields: the first root_path wins, include is followed, defaults deep-merge
+const OTHER_FIELDS = ['root_path', 'include', 'defaults'];
+
+const FLEET_FILE_EXTENSIONS = ['.yml', '.yaml'];
+
+export interface LoadedFleet {
+  config: FleetConfig;
+  files: string[]; // Every file that contributed to the config, in load order
+}
+
+/**
+ * Normalizes a -f option value (single path or repeated flags) into a list of inputs
+ */
+export function normalizeFleetInputs(file: string | string[] | undefined, fallback: string = 'agents.yml'): string[] {
+  if (Array.isArray(file)) {
+    return file.length > 0 ? file : [fallback];
+  }
+  return [file || fallback];
+}
+
+/**
+ * Describes fleet inputs for log messages
+ */
+export function describeFleetInputs(inputs: string | string[]): string {
+  return (Array.isArray(inputs) ? inputs : [inputs]).join(', ');
+}
+
+/**
+ * Directory used to resolve relative paths for a set of inputs:
+ * the directory itself for directory inputs, otherwise the first file's directory
+ */
+export function getFleetBaseDir(inputs: string | string[]): string {
+  const first = Array.isArray(inputs) ? inputs[0] : inputs;
+  return isDirectory(first) ? first : path.dirname(first);
+}
+
+function isDirectory(inputPath: string): boolean {
+  try {
+    return fs.statSync(inputPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function isFleetFile(fileName: string): boolean {
+  return FLEET_FILE_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+}
+
+/**
+ * Expands a path into fleet files. Directories contribute their *.yml / *.yaml files
+ * (non-recursive, sorted by name).
+ */
+function expandFleetPath(inputPath: string, referencedFrom?: string): string[] {
+  if (!fs.existsSync(inputPath)) {
+    throw new Error(
+      referencedFrom
+        ? `Included file not found: ${inputPath} (included from ${referencedFrom})`
+        : `Configuration file not found: ${inputPath}`
+    );
+  }
+
+  if (isDirectory(inputPath)) {
+    const files = fs.readdirSync(inputPath)
+      .filter(isFleetFile)
+      .sort()
+      .map(fileName => path.join(inputPath, fileName));
+    if (files.length === 0) {
+      throw new Error(`No fleet configuration files (*.yml, *.yaml) found in directory: ${inputPath}`);
+    }
+    return files;
+  }
+
+  return [inputPath];
+}
+
+function readFleetDocument(filePath: string, values: Record<string, any>): any {
+  const content = fs.readFileSync(filePath, 'utf8');
+  let document: any;
+  try {
+    document = yaml.load(content);
+  } catch (err: any) {
+    throw new Error(`Invalid YAML in ${filePath}: ${err.message}`);
+  }
+
+  if (document === undefined || document === null) {
+    return {};
+  }
+  if (typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error(`Fleet configuration ${filePath} must be a YAML object.`);
+  }
+
+  try {
+    return interpolateVariables(document, values);
+  } catch (err: any) {
+    throw new Error(`${filePath}: ${err.message}`);
+  }
+}
+
+/**
+ * Rejects fields the loader would not merge, so a misspelled section is not silently dropped
+ */
+function checkTopLevelFields(document: any, filePath: string): void {
+  const allowedFields = [...OTHER_FIELDS, ...NAMED_SECTIONS.map(section => section.key)];
+  const unknownFields = Object.keys(document).filter(field => !allowedFields.includes(field));
+  if (unknownFields.length > 0) {
+    throw new Error(
+      `Unknown top-level field${unknownFields.length === 1 ? '' : 's'} in ${filePath}: ${unknownFields.join(', ')}\n` +
+      `Allowed fields: ${allowedFields.join(', ')}`
+    );
+  }
+}
+
+function getIncludes(document: any, filePath: string): string[] {
+  if (document.include === undefined) return [];
+
+  const includes = typeof document.include === 'string' ? [document.include] : document.include;
+  if (!Array.isArray(includes) || includes.some((entry: any) => typeof entry !== 'string' || entry.trim() === '')) {
+    throw new Error(
+      `Invalid include in ${filePath}. Expected a path or list of paths.\n` +
+      'Example:\n' +
+      'include:\n' +
+      '  - shared/blocks.yml\n' +
+      '  - teams/support/'
+    );
+  }
+
+  // Include paths are relative to the including file
+  return includes.map((entry: string) => path.resolve(path.dirname(filePath), entry));
+}
+
+/**
+ * Loads one or more fleet inputs (files or directories), follows include directives,
+ * and merges everything into a single fleet configuration.
+ */
+export function loadFleetConfig(inputs: string | string[], values: Record<string, any> = {}): LoadedFleet {
+  const config: any = {};
+  const files: string[] = [];
+  const loaded = new Set<string>();
+  const sources = new Map<string, Map<string, string>>(
+    NAMED_SECTIONS.map(section => [section.key, new Map<string, string>()])
+  );
+
+  const loadFile = (filePath: string, stack: string[]): void => {
+    const resolvedPath = path.resolve(filePath);
+    if (stack.includes(resolvedPath)) {
+      throw new Error(`Circular include: ${[...stack, resolvedPath].map(p => path.relative(process.cwd(), p) || p).join(' -> ')}`);
+    }
+    if (loaded.has(resolvedPath)) {
+      // Already merged (e.g. included by another file in the same directory)
+      return;
+    }
+    loaded.add(resolvedPath);
+    files.push(filePath);
+
+    const document = readFleetDocument(filePath, values);
+    checkTopLevelFields(document, filePath);
+
+    // The first root_path wins (entry files before their includes), resolved relative to its file
+    if (document.root_path !== undefined && config.root_path === undefined) {
+      config.root_path = path.resolve(path.dirname(filePath), document.root_path);
+    }
+
+    for (const include of getIncludes(document, filePath)) {
+      for (const includedFile of expandFleetPath(include, filePath)) {
+        loadFile(includedFile, [...stack, resolvedPath]);
+      }
+    }
+    mergeDocument(document, filePath);
+  };
+
+  const mergeDocument = (document: any, filePath: string): void => {
+    for (const { key, label } of NAMED_SECTIONS) {
+      if (document[key] === undefined) continue;
+      if (!Array.isArray(document[key])) {
+        throw new Error(`"${key}" in ${filePath} must be an array.`);
+      }
+
+      const seen = sources.get(key)!;
+      for (const entry of document[key]) {
+        const name = entry && typeof entry === 'object' ? entry.name : undefined;
+        if (typeof name === 'string') {
+          const previous = seen.get(name);
+          if (previous) {
+            throw new Error(`Duplicate ${label} "${name}" in ${filePath} (already defined in ${previous}).`);
+          }
+          seen.set(name, filePath);
+        }
+      }
+      config[key] = [...(config[key] || []), ...document[key]];
+    }
+
+    if (document.defaults !== undefined) {
+      config.defaults = config.defaults ? deepMerge(config.defaults, document.defaults) : document.defaults;
+    }
+  };
+
+  for (const input of Array.isArray(inputs) ? inputs : [inputs]) {
+    for (const filePath of expandFleetPath(input)) {
+      loadFile(filePath, []);
+    }
+  }
+
+  return { config: config as FleetConfig, files };
+}
@@ -0,0 +1,369 @@
+import * as yaml from 'js-yaml';
+import * as fs from 'fs';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import { FleetConfig, FleetOverlay, OverlayPatch, JsonPatchOperation } from '../../types/fleet-config';
+import { interpolateVariables, InterpolationFields, FLEET_FIELDS } from './variable-interpolation';
+import { getFleetBaseDir } from './fleet-loader';
+import { isPlainObject } from '../shared/object-utils';
+
+/**
+ * Kustomize-style environment overlays.
+ * An overlay (overlays/<env>/*.yml) patches base agents by name, either with a
+ * strategic merge patch or an RFC 6902 JSON Patch.
+ */
+
+const PATCH_DIRECTIVE = '$patch';
+const DELETE_FROM_LIST_PREFIX = '$deleteFromPrimitiveList/';
+const JSON_PATCH_OPS = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+/**
+ * Overlay fields by their fleet config equivalent: strategic merge patches hold agent fields
+ */
+function agentFieldPath(fieldPath: string): string | undefined {
+  const match = fieldPath.match(/^patches\[\d+\]\.patch\.(.+)$/);
+  return match ? `agents.${match[1]}` : undefined;
+}
+
+const OVERLAY_FIELDS: InterpolationFields = {
+  type: fieldPath => {
+    const agentPath = agentFieldPath(fieldPath);
+    return agentPath ? FLEET_FIELDS.type(agentPath) : undefined;
+  },
+  credential: fieldPath => {
+    const agentPath = agentFieldPath(fieldPath);
+    return agentPath ? FLEET_FIELDS.credential(agentPath) : false;
+  }
+};
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Finds the overlay directory or file for an environment name or explicit path.
+ * Names are looked up as overlays/<name> next to the fleet input, then one level up
+ * (for base/ + overlays/ layouts).
+ */
+export function resolveOverlayPath(overlay: string, inputs: string | string[]): string {
+  if (fs.existsSync(overlay)) {
+    return overlay;
+  }
+
+  const baseDir = path.resolve(getFleetBaseDir(inputs));
+  const candidates = [
+    path.join(baseDir, 'overlays', overlay),
+    path.join(path.dirname(baseDir), 'overlays', overlay)
+  ];
+
+  const found = candidates.find(candidate => fs.existsSync(candidate));
+  if (!found) {
+    throw new Error(
+      `Overlay "${overlay}" not found. Looked in:\n` +
+      candidates.map(candidate => `  - ${candidate}`).join('\n') + '\n' +
+      'Expected layout:\n' +
+      '  base/agents.yml\n' +
+      `  overlays/${overlay}/overlay.yml`
+    );
+  }
+  return found;
+}
+
+function validatePatch(patch: any, source: string, index: number): OverlayPatch {
+  const label = `Patch ${index + 1} in ${source}`;
+
+  if (!isPlainObject(patch) || typeof patch.agent !== 'string' || patch.agent.trim() === '') {
+    throw new Error(
+      `${label}: must have an "agent" name or glob pattern.\n` +
+      'Example:\n' +
+      'patches:\n' +
+      '  - agent: support-agent\n' +
+      '    patch:\n' +
+      '      llm_config:\n' +
+      '        model: "openai/gpt-4o"'
+    );
+  }
+
+  if (patch.patch === undefined && patch.json_patch === undefined) {
+    throw new Error(`${label}: must define "patch" (strategic merge) or "json_patch" (JSON Patch operations).`);
+  }
+
+  if (patch.patch !== undefined && !isPlainObject(patch.patch)) {
+    throw new Error(`${label}: "patch" must be an object of agent fields.`);
+  }
+
+  if (patch.json_patch !== undefined) {
+    if (!Array.isArray(patch.json_patch)) {
+      throw new Error(`${label}: "json_patch" must be an array of operations.`);
+    }
+    patch.json_patch.forEach((operation: any, opIndex: number) => {
+      if (!isPlainObject(operation) || !JSON_PATCH_OPS.includes(operation.op) || typeof operation.path !== 'string') {
+        throw new Error(
+          `${label}: json_patch operation ${opIndex + 1} must have an op (${JSON_PATCH_OPS.join(', ')}) and a path.`
+        );
+      }
+      if ((operation.op === 'move' || operation.op === 'copy') && typeof operation.from !== 'string') {
+        throw new Error(`${label}: json_patch ${operation.op} operation ${opIndex + 1} requires "from".`);
+      }
+    });
+  }
+
+  return patch as OverlayPatch;
+}
+
+/**
+ * Loads an overlay file or every *.yml / *.yaml file in an overlay directory
+ */
+export function loadOverlay(overlayPath: string, values: Record<string, any> = {}): FleetOverlay {
+  const files = fs.statSync(overlayPath).isDirectory()
+    ? fs.readdirSync(overlayPath)
+        .filter(fileName => ['.yml', '.yaml'].includes(path.extname(fileName).toLowerCase()))
+        .sort()
+        .map(fileName => path.join(overlayPath, fileName))
+    : [overlayPath];
+
+  if (files.length === 0) {
+    throw new Error(`No overlay files (*.yml, *.yaml) found in ${overlayPath}`);
+  }
+
+  const patches: OverlayPatch[] = [];
+  for (const file of files) {
+    const document = interpolateVariables(yaml.load(fs.readFileSync(file, 'utf8')) as any, values, OVERLAY_FIELDS);
+    if (!isPlainObject(document) || !Array.isArray(document.patches)) {
+      throw new Error(`Overlay ${file} must contain a "patches" array.`);
+    }
+    document.patches.forEach((patch: any, index: number) => patches.push(validatePatch(patch, file, index)));
+  }
+
+  return { patches };
+}
+
+function listEntryKey(entry: any): string | undefined {
+  if (typeof entry === 'string') return entry;
+  if (isPlainObject(entry) && typeof entry.name === 'string') return entry.name;
+  return undefined;
+}
+
+function mergeList(target: any[], patch: any[]): any[] {
+  const keyed = patch.every(entry => listEntryKey(entry) !== undefined)
+    && target.every(entry => listEntryKey(entry) !== undefined);
+  if (!keyed) {
+    return clone(patch);
+  }
+
+  const result = target.map(entry => clone(entry));
+  for (const entry of patch) {
+    const key = listEntryKey(entry)!;
+    const index = result.findIndex(existing => listEntryKey(existing) === key);
+
+    if (isPlainObject(entry) && entry[PATCH_DIRECTIVE] === 'delete') {
+      if (index >= 0) result.splice(index, 1);
+    } else if (index < 0) {
+      result.push(stripDirectives(entry));
+    } else if (isPlainObject(entry) && isPlainObject(result[index])) {
+      result[index] = strategicMerge(result[index], entry);
+    } else {
+      result[index] = clone(entry);
+    }
+  }
+  return result;
+}
+
+function stripDirectives(value: any): any {
+  if (!isPlainObject(value)) return clone(value);
+  const result: Record<string, any> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (key === PATCH_DIRECTIVE || key.startsWith(DELETE_FROM_LIST_PREFIX)) continue;
+    result[key] = stripDirectives(entry);
+  }
+  return result;
+}
+
+/**
+ * Applies a strategic merge patch. Objects merge recursively, named lists merge by name,
+ * and `null` removes a field. Directives:
+ *   $patch: replace                      - replace the object instead of merging
+ *   $patch: delete                       - remove a named list entry
+ *   $deleteFromPrimitiveList/<field>: [] - remove values from a string list
+ */
+export function strategicMerge(target: Record<string, any>, patch: Record<string, any>): Record<string, any> {
+  if (patch[PATCH_DIRECTIVE] === 'replace') {
+    return stripDirectives(patch);
+  }
+
+  const result: Record<string, any> = clone(target) || {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (key === PATCH_DIRECTIVE) continue;
+
+    if (key.startsWith(DELETE_FROM_LIST_PREFIX)) {
+      const field = key.substring(DELETE_FROM_LIST_PREFIX.length);
+      const removals = Array.isArray(value) ? value : [value];
+      if (Array.isArray(result[field])) {
+        result[field] = result[field].filter((entry: any) => !removals.includes(entry));
+      }
+      continue;
+    }
+
+    if (value === null) {
+      delete result[key];
+    } else if (isPlainObject(value) && isPlainObject(result[key])) {
+      result[key] = strategicMerge(result[key], value);
+    } else if (Array.isArray(value) && Array.isArray(result[key])) {
+      result[key] = mergeList(result[key], value);
+    } else {
+      result[key] = stripDirectives(value);
+    }
+  }
+
+  return result;
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Patch path "${pointer}". Paths must start with "/".`);
+  }
+  return pointer.substring(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function resolveParent(document: any, pointer: string): { parent: any; key: string } {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    throw new Error('JSON Patch operations on the whole agent are not supported. Target a field path instead.');
+  }
+
+  let parent = document;
+  for (const token of tokens.slice(0, -1)) {
+    const next = Array.isArray(parent) ? parent[Number(token)] : parent?.[token];
+    if (next === undefined || next === null || typeof next !== 'object') {
+      throw new Error(`JSON Patch path "${pointer}" does not exist.`);
+    }
+    parent = next;
+  }
+  return { parent, key: tokens[tokens.length - 1] };
+}
+
+function arrayIndex(array: any[], key: string, pointer: string, allowEnd: boolean): number {
+  if (key === '-' && allowEnd) return array.length;
+  const index = Number(key);
+  const max = allowEnd ? array.length : array.length - 1;
+  if (!/^\d+$/.test(key) || index > max) {
+    throw new Error(`JSON Patch path "${pointer}" has an invalid array index.`);
+  }
+  return index;
+}
+
+function getValue(document: any, pointer: string): any {
+  const { parent, key } = resolveParent(document, pointer);
+  const value = Array.isArray(parent) ? parent[arrayIndex(parent, key, pointer, false)] : parent[key];
+  if (value === undefined) {
+    throw new Error(`JSON Patch path "${pointer}" does not exist.`);
+  }
+  return value;
+}
+
+function addValue(document: any, pointer: string, value: any): void {
+  const { parent, key } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, pointer, true), 0, clone(value));
+  } else {
+    parent[key] = clone(value);
+  }
+}
+
+function removeValue(document: any, pointer: string): any {
+  const value = getValue(document, pointer);
+  const { parent, key } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete parent[key];
+  }
+  return value;
+}
+
+/**
+ * Applies RFC 6902 JSON Patch operations to a copy of the target
+ */
+export function applyJsonPatch<T>(target: T, operations: JsonPatchOperation[]): T {
+  const document: any = clone(target);
+
+  operations.forEach((operation, index) => {
+    try {
+      switch (operation.op) {
+        case 'add':
+          addValue(document, operation.path, operation.value);
+          break;
+        case 'remove':
+          removeValue(document, operation.path);
+          break;
+        case 'replace':
+          getValue(document, operation.path);
+          removeValue(document, operation.path);
+          addValue(document, operation.path, operation.value);
+          break;
+        case 'move':
+          addValue(document, operation.path, removeValue(document, operation.from!));
+          break;
+        case 'copy':
+          addValue(document, operation.path, getValue(document, operation.from!));
+          break;
+        case 'test':
+          if (JSON.stringify(getValue(document, operation.path)) !== JSON.stringify(operation.value)) {
+            throw new Error(`test failed: value at "${operation.path}" does not match.`);
+          }
+          break;
+        default:
+          throw new Error(`unsupported op "${(operation as any).op}".`);
+      }
+    } catch (err: any) {
+      throw new Error(`JSON Patch operation ${index + 1} (${operation.op} ${operation.path}): ${err.message}`);
+    }
+  });
+
+  return document;
+}
+
+/**
+ * Applies overlay patches to the agents they target. Every patch must match at least one agent.
+ * Returns a new config; the input is not modified.
+ */
+export function applyOverlay(config: FleetConfig, overlay: FleetOverlay): FleetConfig {
+  if (!Array.isArray(config.agents)) {
+    return config;
+  }
+
+  let agents = config.agents.map(agent => clone(agent));
+
+  for (const patch of overlay.patches) {
+    let matched = false;
+
+    agents = agents.map(agent => {
+      if (agent.name !== patch.agent && !minimatch(agent.name, patch.agent)) {
+        return agent;
+      }
+      matched = true;
+
+      try {
+        let patched: any = agent;
+        if (patch.patch) {
+          patched = strategicMerge(patched, patch.patch);
+        }
+        if (patch.json_patch) {
+          patched = applyJsonPatch(patched, patch.json_patch);
+        }
+        return patched;
+      } catch (err: any) {
+        throw new Error(`Overlay patch for agent "${agent.name}": ${err.message}`);
+      }
+    });
+
+    if (!matched) {
+      const available = config.agents.map(agent => agent.name).join(', ');
+      throw new Error(`Overlay patch targets agent "${patch.agent}", which is not in the base config. Agents: ${available}`);
+    }
+  }
+
+  return { ...config, agents };
+}
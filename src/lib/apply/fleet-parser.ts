@@ -1,27 +1,63 @@
-import * as yaml from 'js-yaml';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as crypto from 'crypto';
-import { FleetConfig, FolderConfig, FolderFileConfig } from '../../types/fleet-config';
+import { globSync } from 'glob';
+import { AgentConfig, ArchiveConfig, ArchivePassageConfig, FleetConfig, FleetOverlay, FolderConfig, FolderFileConfig, FromGitConfig, FromUrlConfig, McpServerConfig } from '../../types/fleet-config';
 import { StorageBackendManager, SupabaseStorageBackend, BucketConfig } from '../storage/storage-backend';
+import { GitSourceManager, GitSourcePin, DEFAULT_GIT_REF } from '../storage/git-source';
+import { loadStorageProvider } from '../storage/storage-provider';
 import { FleetConfigValidator } from '../validation/config-validators';
+import { loadFleetConfig, getFleetBaseDir } from './fleet-loader';
+import { resolveAgentInheritance } from './agent-inheritance';
+import { expandInstances } from './fleet-instances';
+import { resolveOverlayPath, loadOverlay, applyOverlay } from './fleet-overlay';
 import { isBuiltinTool, formatBuiltinToolWarning, CORE_MEMORY_TOOLS } from '../tools/builtin-tools';
+import { checkPythonToolSource, ToolSourceReport } from '../tools/python-tool-check';
+import { discoverLocalTools, TOOLS_DIR } from '../tools/local-tools';
+import { SecretStore, MCP_SECRET_FIELDS, secretDigest } from './secret-refs';
+import { buildToolDefinition, diffToolDefinition } from './tool-definitions';
+import { ArchivePassageChunk, buildPassageChunks, DEFAULT_CHUNK_SIZE, DEFAULT_CHUNK_OVERLAP } from './archive-passages';
 import { log, warn } from '../shared/logger';
 
 export interface FleetParserOptions {
   supabaseBackend?: SupabaseStorageBackend;
   rootPath?: string;
+  values?: Record<string, any>; // Variables for ${var} interpolation (from --values / --set)
+  overlay?: string; // Environment overlay name (overlays/<name>) or path
+  secretsFile?: string; // Secrets file for secret_ref values (default: <root>/.lettactl/secrets.yml)
+  offline?: boolean; // Read bucket, git and URL content from the local cache only
 }
 
+// Content sources fetched from outside the fleet directory, by config key
+type RemoteSources = { from_git: FromGitConfig; from_url: FromUrlConfig };
+
 export class FleetParser {
   public basePath: string;
   private storageManager: StorageBackendManager;
+  private gitSources: GitSourceManager;
+  private values: Record<string, any>;
+  private overlayName?: string;
+  private overlay?: FleetOverlay;
+  private secretsFile?: string;
+  private secretStore?: SecretStore;
+  // Config objects with secret_ref and environment values -> their resolved copies
+  private resolvedCredentials: WeakMap<object, any> = new WeakMap();
   public toolConfigs: Map<string, any> = new Map();
-
-  constructor(configPath: string, options: FleetParserOptions = {}) {
-    this.basePath = options.rootPath || path.dirname(configPath);
+  // Agent name -> tool name -> requires_approval, for tools that declare it
+  public toolApprovals: Map<string, Record<string, boolean>> = new Map();
+  // Archive name -> chunks from its passage sources, for archives that declare them
+  public archivePassages: Map<string, ArchivePassageChunk[]> = new Map();
+  private archivePassageSources: Map<string, string> = new Map();
+
+  constructor(configPath: string | string[], options: FleetParserOptions = {}) {
+    this.basePath = options.rootPath || getFleetBaseDir(configPath);
+    this.values = options.values || {};
+    this.overlayName = options.overlay;
+    this.secretsFile = options.secretsFile;
+    this.gitSources = new GitSourceManager({ basePath: this.basePath, offline: options.offline });
     this.storageManager = new StorageBackendManager({ 
-      supabaseBackend: options.supabaseBackend 
+      supabaseBackend: options.supabaseBackend,
+      gitSources: this.gitSources,
+      offline: options.offline
     });
   }
 
@@ -29,31 +65,54 @@ export class FleetParser {
     return this.storageManager;
   }
 
-  async parseFleetConfig(configPath: string): Promise<FleetConfig> {
-    if (!fs.existsSync(configPath)) {
-      throw new Error(`Configuration file not found: ${configPath}`);
-    }
+  /**
+   * Parses a fleet from one or more files or directories, following include directives
+   */
+  async parseFleetConfig(configPath: string | string[]): Promise<FleetConfig> {
+    const { config } = loadFleetConfig(configPath, this.values);
 
-    const configContent = fs.readFileSync(configPath, 'utf8');
-    const config = yaml.load(configContent) as FleetConfig;
+    if (this.overlayName) {
+      this.overlay = loadOverlay(resolveOverlayPath(this.overlayName, configPath), this.values);
+    }
     
-    // If config specifies root_path, update our basePath
+    // If config specifies root_path, update our basePath (already resolved against its file)
     if (config.root_path) {
-      this.basePath = path.resolve(path.dirname(configPath), config.root_path);
+      this.basePath = config.root_path;
+      this.gitSources.basePath = config.root_path;
     }
     
     return await this.resolveConfig(config);
   }
 
-  async resolveConfig(config: FleetConfig): Promise<FleetConfig> {
+  async resolveConfig(fleetConfig: FleetConfig): Promise<FleetConfig> {
+    // Expand instance sets, defaults and agent templates into concrete agents, then patch with the overlay
+    let config = resolveAgentInheritance(expandInstances(fleetConfig, this.basePath));
+    if (this.overlay) {
+      config = applyOverlay(config, this.overlay);
+    }
+
     // Validate configuration before processing
     FleetConfigValidator.validate(config);
 
+    // Make custom from_bucket providers available to every read below
+    for (const provider of config.storage_providers || []) {
+      this.storageManager.providers.register(provider.name, loadStorageProvider(provider, this.basePath));
+    }
+
     // Auto-expand folders that reference "files" directory
     this.expandFileFolders(config);
+
+    // Attach referenced shared folders to each agent's folder list
+    this.expandSharedFolderReferences(config);
     
     // Auto-discover tools from tools directory
     this.expandToolReferences(config);
+
+    // Resolve every from_git ref to a commit, so all reads in this run use the same one
+    await this.pinGitSources(config);
+
+    // Fail early when a document pinned by sha256 has changed
+    await this.verifyUrlSources(config);
     
     // Resolve file references
     if (config.shared_blocks) {
@@ -72,17 +131,24 @@ export class FleetParser {
           await this.resolveBlockContent(block);
         }
       }
+
+      // Chunk archive passage sources
+      for (const archive of agent.archives || []) {
+        await this.resolveArchivePassages(archive);
+      }
     }
 
     return config;
   }
 
   /**
-   * Generic content resolver for any resource with from_file, from_bucket, value, or source_code
+   * Generic content resolver for any resource with from_file, from_bucket, from_git, from_url, value, or source_code
    */
   private async resolveContent(config: {
     from_file?: string;
     from_bucket?: any;
+    from_git?: any;
+    from_url?: any;
     value?: string;
     source_code?: string;
   }, defaultPath?: string, resourceName?: string): Promise<string> {
@@ -94,6 +160,10 @@ export class FleetParser {
       // Read from cloud bucket
       const bucketConfig: BucketConfig = config.from_bucket;
       return await this.storageManager.readFromBucket(bucketConfig);
+    } else if (config.from_git) {
+      return await this.gitSources.readFile(config.from_git);
+    } else if (config.from_url) {
+      return await this.storageManager.readFromUrl(config.from_url);
     } else if (config.source_code) {
       // Inline source code (for tools)
       return config.source_code;
@@ -107,7 +177,7 @@ export class FleetParser {
       }
       return content;
     } else {
-      throw new Error(`Resource has no value, from_file, or from_bucket specified${defaultPath ? `, and default file ${path.relative(this.basePath, defaultPath)} not found` : ''}`);
+      throw new Error(`Resource has no value, from_file, from_bucket, from_git, or from_url specified${defaultPath ? `, and default file ${path.relative(this.basePath, defaultPath)} not found` : ''}`);
     }
   }
 
@@ -116,6 +186,59 @@ export class FleetParser {
     block.value = await this.resolveContent(block, defaultPath, `memory block: ${block.name}`);
   }
 
+  private async resolveArchivePassages(archive: ArchiveConfig): Promise<void> {
+    if (!archive.passages) return;
+
+    // Agents sharing an archive must agree on its contents, or each apply would undo the other
+    const sources = JSON.stringify(archive.passages);
+    const previous = this.archivePassageSources.get(archive.name);
+    if (previous !== undefined) {
+      if (previous !== sources) {
+        throw new Error(`Archive "${archive.name}" declares different passages on different agents. Declare them identically, or on one agent only.`);
+      }
+      return;
+    }
+    this.archivePassageSources.set(archive.name, sources);
+
+    const chunks = new Map<string, ArchivePassageChunk>();
+    for (const passage of archive.passages) {
+      const chunkSize = passage.chunk_size ?? DEFAULT_CHUNK_SIZE;
+      const overlap = passage.chunk_overlap ?? DEFAULT_CHUNK_OVERLAP;
+      for (const { source, content } of await this.readPassageSources(passage)) {
+        for (const chunk of buildPassageChunks(source, content, chunkSize, overlap)) {
+          chunks.set(chunk.hash, chunk);
+        }
+      }
+    }
+    this.archivePassages.set(archive.name, [...chunks.values()]);
+  }
+
+  private async readPassageSources(passage: ArchivePassageConfig): Promise<Array<{ source: string; content: string }>> {
+    if (passage.from_file) {
+      const files = globSync(passage.from_file, { cwd: this.basePath, nodir: true }).sort();
+      if (files.length === 0) {
+        throw new Error(`No files match passages from_file "${passage.from_file}"`);
+      }
+      return files.map(file => ({
+        source: file,
+        content: fs.readFileSync(path.resolve(this.basePath, file), 'utf8')
+      }));
+    }
+
+    const bucketConfig = passage.from_bucket as BucketConfig;
+    const paths = bucketConfig.path.includes('*')
+      ? (await this.storageManager.listBucketFiles(bucketConfig, bucketConfig.path.split('*')[0])).sort()
+      : [bucketConfig.path];
+    const result: Array<{ source: string; content: string }> = [];
+    for (const objectPath of paths) {
+      result.push({
+        source: `bucket:${bucketConfig.bucket}/${objectPath}`,
+        content: await this.storageManager.readFromBucket({ ...bucketConfig, path: objectPath })
+      });
+    }
+    return result;
+  }
+
   private async resolvePromptContent(prompt: any): Promise<void> {
     // Use generic content resolver
     let userPrompt = (await this.resolveContent(prompt, undefined, 'system prompt')).trim();
@@ -147,6 +270,10 @@ export class FleetParser {
   }
 
   private expandFileFolders(config: FleetConfig): void {
+    for (const folder of config.shared_folders || []) {
+      this.expandFolderFiles(folder);
+    }
+
     if (!config.agents) return;
 
     for (const agent of config.agents) {
@@ -158,13 +285,25 @@ export class FleetParser {
     }
   }
 
+  private expandSharedFolderReferences(config: FleetConfig): void {
+    const sharedFolders = new Map((config.shared_folders || []).map(folder => [folder.name, folder]));
+
+    for (const agent of config.agents) {
+      for (const folderName of agent.shared_folders || []) {
+        const folder = sharedFolders.get(folderName)!;
+        if (agent.folders?.some(existing => existing.name === folderName)) continue;
+        agent.folders = [...(agent.folders || []), { name: folder.name, files: [...folder.files] }];
+      }
+    }
+  }
+
   private expandFolderFiles(folder: FolderConfig): void {
     const expandedFiles: FolderFileConfig[] = [];
     const filesDir = path.resolve(this.basePath, 'files');
 
     for (const file of folder.files) {
-      // Pass through from_bucket configs unchanged
-      if (typeof file === 'object' && 'from_bucket' in file) {
+      // Pass through from_bucket, from_git and from_url configs unchanged
+      if (typeof file === 'object') {
         expandedFiles.push(file);
         continue;
       }
@@ -192,7 +331,7 @@ export class FleetParser {
     // Remove duplicates (only for string paths)
     const seen = new Set<string>();
     folder.files = expandedFiles.filter(f => {
-      if (typeof f === 'object') return true; // Keep all from_bucket configs
+      if (typeof f === 'object') return true; // Keep all from_bucket, from_git and from_url configs
       if (seen.has(f)) return false;
       seen.add(f);
       return true;
@@ -229,16 +368,14 @@ export class FleetParser {
         // Cast to any[] to handle YAML parsing that can contain objects
         const rawTools = agent.tools as any[];
         const expandedTools: string[] = [];
+        const approvals: Record<string, boolean> = {};
 
         for (const tool of rawTools) {
           if (typeof tool === 'string') {
             if (tool === 'tools/*') {
               // User explicitly requested auto-discovery of all tools
-              const toolsDir = path.resolve(this.basePath, 'tools');
-              if (fs.existsSync(toolsDir)) {
-                const toolFiles = fs.readdirSync(toolsDir)
-                  .filter(file => file.endsWith('.py') && file !== '__init__.py' && !file.startsWith('_'))
-                  .map(file => path.basename(file, '.py'));
+              if (fs.existsSync(path.resolve(this.basePath, TOOLS_DIR))) {
+                const toolFiles = discoverLocalTools(this.basePath);
                 expandedTools.push(...toolFiles);
                 log(`Auto-discovered ${toolFiles.length} tools: ${toolFiles.join(', ')}`);
               }
@@ -247,9 +384,15 @@ export class FleetParser {
               expandedTools.push(tool);
             }
           } else if (typeof tool === 'object' && tool.name) {
-            // Tool configuration object with bucket source
-            // Store the full config for later retrieval in registerRequiredTools
-            this.toolConfigs.set(tool.name, tool);
+            // Tool configuration object with a source, definition fields and/or approval setting
+            // Store source and definition configs for later retrieval in registerRequiredTools
+            if (tool.from_file || tool.from_bucket || tool.from_git || tool.from_url || tool.source_code ||
+                tool.pip_requirements !== undefined || tool.args_json_schema !== undefined || tool.tags !== undefined) {
+              this.toolConfigs.set(tool.name, tool);
+            }
+            if (typeof tool.requires_approval === 'boolean') {
+              approvals[tool.name] = tool.requires_approval;
+            }
             expandedTools.push(tool.name);
           } else {
             // Regular tool name specified explicitly (backward compatibility)
@@ -259,6 +402,9 @@ export class FleetParser {
         
         // Set normalized tool names
         agent.tools = [...new Set(expandedTools)];
+        if (Object.keys(approvals).length > 0) {
+          this.toolApprovals.set(agent.name, approvals);
+        }
       }
     }
   }
@@ -327,7 +473,7 @@ export class FleetParser {
             `tool: ${toolName}`
           );
 
-          tool = await client.createTool({ source_code: sourceCode });
+          tool = await client.createTool(buildToolDefinition(toolConfig, sourceCode, this.basePath));
           if (verbose) log(`Tool ${toolName} registered`);
         } catch (err: any) {
           warn(`Failed to register tool ${toolName}: ${err.message}`);
@@ -340,7 +486,7 @@ export class FleetParser {
           builtinTools.add(toolName);
           if (verbose) log(`Using built-in tool: ${toolName}`);
         } else {
-          // Custom tool exists - check if source code has actually changed
+          // Custom tool exists - check if source code or declared definition fields have changed
           const defaultPath = path.join(this.basePath, 'tools', `${toolName}.py`);
 
           try {
@@ -349,17 +495,13 @@ export class FleetParser {
               defaultPath,
               `tool: ${toolName}`
             );
+            const definition = buildToolDefinition(toolConfig, newSourceCode, this.basePath);
+            const changedFields = diffToolDefinition(tool, definition);
 
-            // Hash both old and new source code for comparison
-            const newHash = crypto.createHash('md5').update(newSourceCode).digest('hex').substring(0, 12);
-            const existingHash = tool.source_code
-              ? crypto.createHash('md5').update(tool.source_code).digest('hex').substring(0, 12)
-              : '';
-
-            if (newHash !== existingHash) {
-              // Source code actually changed - re-register
-              if (verbose) log(`Tool ${toolName} source changed (${existingHash} -> ${newHash}), re-registering`);
-              tool = await client.createTool({ source_code: newSourceCode });
+            if (changedFields.length > 0) {
+              // Source code or requirements/schema/tags actually changed - re-register
+              if (verbose) log(`Tool ${toolName} changed (${changedFields.join(', ')}), re-registering`);
+              tool = await client.createTool(definition);
               updatedTools.add(toolName);
             } else {
               if (verbose) log(`Tool ${toolName} unchanged, reusing existing`);
@@ -382,6 +524,164 @@ export class FleetParser {
     return { toolNameToId, updatedTools, builtinTools };
   }
 
+  /**
+   * Every from_git or from_url source in the fleet: prompts, shared and agent blocks, folder files and tools
+   */
+  private collectSources<K extends keyof RemoteSources>(
+    config: FleetConfig,
+    key: K,
+    toolNames?: Set<string>
+  ): RemoteSources[K][] {
+    const sources: RemoteSources[K][] = [];
+    const add = (holder?: Partial<RemoteSources>) => {
+      const source = holder?.[key];
+      if (source) sources.push(source);
+    };
+
+    for (const block of config.shared_blocks || []) {
+      add(block);
+    }
+    const folders = [...(config.shared_folders || []), ...(config.agents || []).flatMap(agent => agent.folders || [])];
+    for (const folder of folders) {
+      for (const file of folder.files) {
+        if (typeof file === 'object') add(file as Partial<RemoteSources>);
+      }
+    }
+    for (const agent of config.agents || []) {
+      add(agent.system_prompt);
+      for (const block of agent.memory_blocks || []) {
+        add(block);
+      }
+    }
+    for (const [toolName, toolConfig] of this.toolConfigs) {
+      if (!toolNames || toolNames.has(toolName)) add(toolConfig);
+    }
+    return sources;
+  }
+
+  private async pinGitSources(config: FleetConfig): Promise<void> {
+    for (const source of this.collectSources(config, 'from_git')) {
+      source.commit = await this.gitSources.resolveCommit(source);
+    }
+  }
+
+  /**
+   * Downloads every from_url source with a pinned sha256, so a changed document fails
+   * the apply before anything is created. Downloads are reused by the later reads.
+   */
+  private async verifyUrlSources(config: FleetConfig): Promise<void> {
+    for (const source of this.collectSources(config, 'from_url')) {
+      if (source.sha256) await this.storageManager.downloadBinaryFromUrl(source);
+    }
+  }
+
+  /**
+   * Pinned commits of the git sources an agent uses, one entry per repo + ref
+   */
+  getAgentGitSources(agent: AgentConfig, config: FleetConfig): GitSourcePin[] {
+    const sharedBlockNames = new Set(agent.shared_blocks || []);
+    const agentConfig: FleetConfig = {
+      ...config,
+      shared_blocks: (config.shared_blocks || []).filter(block => sharedBlockNames.has(block.name)),
+      shared_folders: [],
+      agents: [agent]
+    };
+
+    const pins = new Map<string, GitSourcePin>();
+    for (const source of this.collectSources(agentConfig, 'from_git', new Set(agent.tools || []))) {
+      if (!source.commit) continue;
+      const ref = source.ref || DEFAULT_GIT_REF;
+      pins.set(`${source.repo}#${ref}`, { repo: source.repo, ref, commit: source.commit });
+    }
+    return [...pins.values()].sort((a, b) => a.repo.localeCompare(b.repo) || a.ref.localeCompare(b.ref));
+  }
+
+  /**
+   * Statically checks the local Python source of every custom tool the fleet uses.
+   * Tools without local source (bucket, git and URL sources, or tools that only exist on the server) are skipped.
+   */
+  checkToolSources(config: FleetConfig): ToolSourceReport[] {
+    const toolNames = new Set<string>();
+    for (const agent of config.agents || []) {
+      (agent.tools || []).forEach(toolName => toolNames.add(toolName));
+    }
+
+    const reports: ToolSourceReport[] = [];
+    for (const toolName of toolNames) {
+      if (isBuiltinTool(toolName)) continue;
+
+      const toolConfig = this.toolConfigs.get(toolName);
+      let source: string;
+      let file: string;
+      if (toolConfig?.source_code) {
+        source = toolConfig.source_code;
+        file = `${toolName} (inline source_code)`;
+      } else if (toolConfig?.from_bucket || toolConfig?.from_git || toolConfig?.from_url) {
+        continue;
+      } else {
+        const sourcePath = path.resolve(this.basePath, toolConfig?.from_file || path.join('tools', `${toolName}.py`));
+        if (!fs.existsSync(sourcePath)) continue;
+        source = fs.readFileSync(sourcePath, 'utf8');
+        file = path.relative(this.basePath, sourcePath);
+      }
+
+      reports.push({ tool: toolName, file, issues: checkPythonToolSource(source, toolName) });
+    }
+    return reports;
+  }
+
+  /**
+   * Replaces secret_ref values (deeply) with secrets from the fleet's secret sources
+   */
+  resolveSecrets<T>(value: T): T {
+    if (!this.secretStore) {
+      this.secretStore = new SecretStore({ basePath: this.basePath, secretsFile: this.secretsFile });
+    }
+    return this.secretStore.resolveAll(value);
+  }
+
+  /**
+   * Resolves the credentials of every MCP server and agent tool_env, so a missing secret
+   * fails before anything on the server is touched. Later lookups reuse the resolved values.
+   */
+  resolveCredentials(config: FleetConfig): void {
+    (config.mcp_servers || []).forEach(serverConfig => this.resolveMcpServerCredentials(serverConfig));
+    for (const agent of config.agents || []) {
+      try {
+        this.resolveToolEnv(agent);
+      } catch (err: any) {
+        throw new Error(`Agent ${agent.name}: ${err.message}`);
+      }
+    }
+  }
+
+  private resolveMcpServerCredentials(serverConfig: McpServerConfig): McpServerConfig {
+    try {
+      return this.resolveOnce(serverConfig);
+    } catch (err: any) {
+      throw new Error(`MCP server ${serverConfig.name}: ${err.message}`);
+    }
+  }
+
+  private resolveOnce<T extends object>(value: T): T {
+    if (!this.resolvedCredentials.has(value)) {
+      this.resolvedCredentials.set(value, this.resolveSecrets(this.expandEnvVars(value)));
+    }
+    return this.resolvedCredentials.get(value);
+  }
+
+  /**
+   * Resolved tool_env values for an agent, or undefined when it declares none
+   */
+  resolveToolEnv(agent: AgentConfig): Record<string, string> | undefined {
+    if (!agent.tool_env) return undefined;
+    try {
+      return this.resolveOnce(agent.tool_env) as Record<string, string>;
+    } catch (err: any) {
+      throw new Error(`tool_env: ${err.message}`);
+    }
+  }
+
   async registerMcpServers(
     config: FleetConfig,
     client: any,
@@ -403,6 +703,9 @@ export class FleetParser {
       return { mcpServerNameToId, created, updated, unchanged, failed };
     }
 
+    // Resolve every server before registering any, in case resolveCredentials was not called
+    const serverConfigs = config.mcp_servers.map(serverConfig => this.resolveMcpServerCredentials(serverConfig));
+
     // Get existing MCP servers
     const existingServers = await client.listMcpServers();
     const existingServersArray = Array.isArray(existingServers) ? existingServers : [];
@@ -412,8 +715,7 @@ export class FleetParser {
     }
 
     // Register/update MCP servers
-    for (const serverConfig of config.mcp_servers) {
-      const resolvedConfig = this.expandEnvVars(serverConfig);
+    for (const resolvedConfig of serverConfigs) {
       const serverName = resolvedConfig.name;
       let server = existingServerMap.get(serverName);
 
@@ -503,6 +805,11 @@ export class FleetParser {
       const desiredArgs = desired.args || [];
       if (JSON.stringify(existingArgs) !== JSON.stringify(desiredArgs)) return true;
     }
+    // Credentials are compared by digest, and only when the config declares them
+    for (const field of MCP_SECRET_FIELDS) {
+      if (desired[field] === undefined) continue;
+      if (secretDigest(existing[field]) !== secretDigest(desired[field])) return true;
+    }
     return false;
   }
 
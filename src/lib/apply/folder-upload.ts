@@ -0,0 +1,28 @@
+/**
+ * Uploads of folder files read into memory (bucket, git and URL sources)
+ *
+ * The upload API takes a file stream, so content is written to a temp file first.
+ * Each upload gets its own temp directory: agents applied in parallel may upload
+ * files with the same name at the same time.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LettaClientWrapper } from '../client/letta-client';
+
+export async function uploadBufferToFolder(
+  client: LettaClientWrapper,
+  folderId: string,
+  fileName: string,
+  fileBuffer: Buffer
+): Promise<void> {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lettactl-'));
+  try {
+    const tempPath = path.join(tempDir, fileName);
+    fs.writeFileSync(tempPath, fileBuffer);
+    await client.uploadFileToFolder(fs.createReadStream(tempPath), folderId, fileName);
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
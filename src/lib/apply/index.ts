@@ -1,4 +1,8 @@
 export * from './fleet-parser';
+export * from './variable-interpolation';
+export * from './agent-inheritance';
+export * from './fleet-loader';
+export * from './fleet-overlay';
 export * from './diff-engine';
 export * from './diff-analyzers';
 export * from './diff-applier';
@@ -18,6 +18,7 @@ export interface LastAppliedConfig {
   toolHashes?: Record<string, string>;
   blockHashes?: Record<string, string>;
   folderFileHashes?: Record<string, Record<string, string>>; // folderName -> { fileName -> hash }
+  toolApprovals?: Record<string, boolean>; // toolName -> requires_approval declared by the template
 }
 
 export const METADATA_KEY = 'lettactl.lastApplied';
@@ -66,7 +67,7 @@ export function hashCurrentBlocks(blocks: Array<{ label: string; value?: string
  */
 export function applyThreeWayMerge(
   ops: {
-    tools?: { toRemove: Array<{ name: string; id: string }>; toAdd: any[]; toUpdate: any[] };
+    tools?: { toRemove: Array<{ name: string; id: string }>; toAdd: any[]; toUpdate: any[]; toUpdateApproval?: any[] };
     blocks?: { toRemove: Array<{ name: string; id: string }>; toAdd: any[]; toUpdate: any[]; toUpdateValue?: any[] };
     folders?: { toDetach: Array<{ name: string; id: string }>; toAttach: any[]; toUpdate: any[] };
     operationCount: number;
@@ -80,6 +81,7 @@ export function applyThreeWayMerge(
     toolHashes?: Record<string, string>;
     blockHashes?: Record<string, string>;
     folderFileHashes?: Record<string, Record<string, string>>;
+    toolApprovals?: Record<string, boolean>;
   },
   currentHashes: {
     toolHashes: Record<string, string>;
@@ -157,7 +159,7 @@ export function applyThreeWayMerge(
   // Recalculate operation count
   ops.operationCount = 0;
   if (ops.updateFields) ops.operationCount += Object.keys(ops.updateFields).length;
-  if (ops.tools) ops.operationCount += ops.tools.toAdd.length + ops.tools.toRemove.length + ops.tools.toUpdate.length;
+  if (ops.tools) ops.operationCount += ops.tools.toAdd.length + ops.tools.toRemove.length + ops.tools.toUpdate.length + (ops.tools.toUpdateApproval?.length || 0);
   if (ops.blocks) ops.operationCount += ops.blocks.toAdd.length + ops.blocks.toRemove.length + ops.blocks.toUpdate.length + (ops.blocks.toUpdateValue?.length || 0);
   if (ops.folders) {
     ops.operationCount += ops.folders.toAttach.length + ops.folders.toDetach.length;
@@ -174,5 +176,23 @@ export function applyThreeWayMerge(
     toolHashes: desiredConfig.toolHashes,
     blockHashes: desiredConfig.blockHashes,
     folderFileHashes: desiredConfig.folderFileHashes,
+    toolApprovals: desiredConfig.toolApprovals,
   };
 }
+
+/**
+ * Approvals to reconcile in template mode: the template's declarations, plus a reset to
+ * false for tools whose approval was previously set by the template but is no longer declared
+ */
+export function resolveTemplateToolApprovals(
+  lastApplied: LastAppliedConfig | null,
+  templateApprovals: Record<string, boolean>
+): Record<string, boolean> {
+  const approvals: Record<string, boolean> = {};
+  for (const [toolName, requiresApproval] of Object.entries(lastApplied?.toolApprovals || {})) {
+    if (requiresApproval && templateApprovals[toolName] === undefined) {
+      approvals[toolName] = false;
+    }
+  }
+  return { ...approvals, ...templateApprovals };
+}
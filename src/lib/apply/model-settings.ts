@@ -0,0 +1,96 @@
+/**
+ * Maps llm_config tuning fields onto Letta's provider-specific model_settings
+ *
+ * Only the settings declared in YAML are managed; anything else already on the
+ * agent (set through the UI or API) is preserved when settings are updated.
+ */
+
+import { LLMConfig } from '../../types/fleet-config';
+import { isPlainObject } from '../shared/object-utils';
+
+export const PROVIDER_TYPES = [
+  'openai', 'anthropic', 'google_ai', 'google_vertex', 'azure', 'xai', 'zai',
+  'groq', 'deepseek', 'together', 'bedrock'
+];
+
+export const REASONING_EFFORTS = ['none', 'minimal', 'low', 'medium', 'high', 'xhigh'];
+export const ANTHROPIC_REASONING_EFFORTS = ['low', 'medium', 'high'];
+
+/**
+ * Provider type from a model handle ("anthropic/claude-sonnet-4" -> "anthropic")
+ */
+export function getProviderType(model: string | undefined): string | undefined {
+  const prefix = (model || '').split('/')[0];
+  return PROVIDER_TYPES.includes(prefix) ? prefix : undefined;
+}
+
+/**
+ * Builds the model_settings declared by an llm_config, or undefined when it declares none
+ */
+export function buildModelSettings(llmConfig: Partial<LLMConfig> | undefined): Record<string, any> | undefined {
+  if (!llmConfig) return undefined;
+
+  const providerType = getProviderType(llmConfig.model);
+  const settings: Record<string, any> = { ...(llmConfig.provider_options || {}) };
+
+  if (llmConfig.temperature !== undefined) settings.temperature = llmConfig.temperature;
+  if (llmConfig.max_output_tokens !== undefined) settings.max_output_tokens = llmConfig.max_output_tokens;
+  if (llmConfig.parallel_tool_calls !== undefined) settings.parallel_tool_calls = llmConfig.parallel_tool_calls;
+  if (llmConfig.reasoning_effort !== undefined) {
+    if (providerType === 'anthropic') {
+      settings.effort = llmConfig.reasoning_effort;
+    } else {
+      settings.reasoning = { ...settings.reasoning, reasoning_effort: llmConfig.reasoning_effort };
+    }
+  }
+
+  if (Object.keys(settings).length === 0) return undefined;
+  if (providerType) settings.provider_type = providerType;
+  return settings;
+}
+
+/**
+ * Dotted paths of declared settings whose value differs from the agent's current settings
+ * (provider_type is derived from the model, so it is never reported on its own)
+ */
+export function diffModelSettings(current: Record<string, any> | null | undefined, desired: Record<string, any>): string[] {
+  const changed: string[] = [];
+  const walk = (currentValue: any, desiredValue: any, path: string) => {
+    if (isPlainObject(desiredValue)) {
+      for (const key of Object.keys(desiredValue)) {
+        if (!path && key === 'provider_type') continue;
+        walk(isPlainObject(currentValue) ? currentValue[key] : undefined, desiredValue[key], path ? `${path}.${key}` : key);
+      }
+      return;
+    }
+    if (JSON.stringify(currentValue ?? null) !== JSON.stringify(desiredValue ?? null)) {
+      changed.push(path);
+    }
+  };
+  walk(current || {}, desired, '');
+  return changed;
+}
+
+/**
+ * Overlays the declared settings on top of the agent's current settings
+ */
+export function mergeModelSettings(current: Record<string, any> | null | undefined, desired: Record<string, any>): Record<string, any> {
+  // Settings from another provider don't carry over when the model changes provider
+  if (desired.provider_type && current?.provider_type && current.provider_type !== desired.provider_type) {
+    return { ...desired };
+  }
+  const result: Record<string, any> = { ...(current || {}) };
+  for (const [key, value] of Object.entries(desired)) {
+    result[key] = isPlainObject(value) && isPlainObject(result[key])
+      ? mergeModelSettings(result[key], value)
+      : value;
+  }
+  return result;
+}
+
+/**
+ * Reads a dotted path from model_settings, e.g. "reasoning.reasoning_effort"
+ */
+export function getModelSetting(settings: Record<string, any> | null | undefined, path: string): any {
+  return path.split('.').reduce((value: any, key) => (isPlainObject(value) ? value[key] : undefined), settings);
+}
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { SecretRef } from '../../types/fleet-config';
+import { generateContentHash } from '../../utils/hash-utils';
+import { isPlainObject, canonicalJson } from '../shared/object-utils';
+
+/**
+ * Secret references for credentials in fleet configs.
+ * A `{ secret_ref: name }` value stays a reference in the parsed config (so it never
+ * reaches render output, manifests or .lettactl/fleet.yaml) and is only resolved right
+ * before it is sent to Letta. Sources, in lookup order:
+ *   secrets  - YAML mapping in .lettactl/secrets.yml under the fleet root (or --secrets-file)
+ *   dotenv   - KEY=VALUE lines in .env under the fleet root
+ *   keyring  - per-user store at ~/.lettactl/keyring.json (LETTACTL_KEYRING_FILE), a stand-in for an OS keyring
+ * Prefix a name with its source ("keyring:github-token") to skip the others.
+ */
+
+export const SECRET_SOURCES = ['secrets', 'dotenv', 'keyring'] as const;
+export type SecretSource = typeof SECRET_SOURCES[number];
+
+export const SECRET_MASK = '********';
+
+// MCP server fields that may carry credentials
+export const MCP_SECRET_FIELDS = ['auth_header', 'auth_token', 'custom_headers', 'env'] as const;
+
+export interface SecretStoreOptions {
+  basePath?: string;
+  secretsFile?: string;
+  envFile?: string;
+  keyringFile?: string;
+}
+
+export function isSecretRef(value: any): value is SecretRef {
+  return isPlainObject(value) && 'secret_ref' in value;
+}
+
+/**
+ * Parses .env content: KEY=VALUE lines, optional `export`, quotes and # comments
+ */
+export function parseDotenv(content: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/);
+    if (!match) continue;
+
+    let value = match[2];
+    const quote = value[0];
+    if ((quote === '"' || quote === "'") && value.lastIndexOf(quote) > 0) {
+      value = value.slice(1, value.lastIndexOf(quote));
+      if (quote === '"') value = value.replace(/\\n/g, '\n').replace(/\\"/g, '"');
+    } else {
+      value = value.replace(/\s+#.*$/, '').trim();
+    }
+    values[match[1]] = value;
+  }
+  return values;
+}
+
+/**
+ * Stable digest of a (possibly structured) secret value, for change detection
+ */
+export function secretDigest(value: any): string {
+  return generateContentHash(canonicalJson(value));
+}
+
+/**
+ * Masks credential fields of an MCP server (as returned by Letta) for display
+ */
+export function maskMcpServerSecrets<T extends Record<string, any>>(server: T): T {
+  const masked: Record<string, any> = { ...server };
+  if (masked.auth_token) masked.auth_token = SECRET_MASK;
+  for (const field of ['custom_headers', 'env']) {
+    if (isPlainObject(masked[field])) {
+      masked[field] = Object.fromEntries(Object.keys(masked[field]).map(key => [key, SECRET_MASK]));
+    }
+  }
+  return masked as T;
+}
+
+/**
+ * Masks an agent's secrets (tool execution environment variables) for display
+ */
+export function maskAgentSecrets<T extends Record<string, any>>(agent: T): T {
+  const masked: Record<string, any> = { ...agent };
+  for (const field of ['secrets', 'tool_exec_environment_variables']) {
+    if (Array.isArray(masked[field])) {
+      masked[field] = masked[field].map((variable: any) =>
+        isPlainObject(variable) && 'value' in variable ? { ...variable, value: SECRET_MASK } : variable
+      );
+    }
+  }
+  return masked as T;
+}
+
+/**
+ * Looks up secret references in the configured sources. Files are read once, on first use.
+ */
+export class SecretStore {
+  private readonly files: Record<SecretSource, string>;
+  private readonly loaded = new Map<SecretSource, Record<string, string>>();
+
+  constructor(options: SecretStoreOptions = {}) {
+    const basePath = options.basePath || process.cwd();
+    this.files = {
+      secrets: options.secretsFile
+        ? path.resolve(options.secretsFile)
+        : process.env.LETTACTL_SECRETS_FILE || path.join(basePath, '.lettactl', 'secrets.yml'),
+      dotenv: options.envFile ? path.resolve(options.envFile) : path.join(basePath, '.env'),
+      keyring: options.keyringFile
+        || process.env.LETTACTL_KEYRING_FILE
+        || path.join(os.homedir(), '.lettactl', 'keyring.json')
+    };
+  }
+
+  /**
+   * Returns the value of a secret reference, or throws naming every place it looked
+   */
+  resolve(ref: SecretRef): string {
+    if (typeof ref.secret_ref !== 'string' || !ref.secret_ref.trim() || Object.keys(ref).length !== 1) {
+      throw new Error(
+        'Invalid secret reference. Expected an object with a single secret_ref name.\n' +
+        'Example:\n' +
+        '    auth_token:\n' +
+        '      secret_ref: github-token'
+      );
+    }
+
+    const { source, name } = this.parseRef(ref.secret_ref);
+    const sources = source ? [source] : [...SECRET_SOURCES];
+    for (const candidate of sources) {
+      const value = this.load(candidate)[name];
+      if (value !== undefined && value !== null) {
+        return String(value);
+      }
+    }
+
+    throw new Error(
+      `Secret "${ref.secret_ref}" not found. Looked in: ` +
+      sources.map(candidate => `${this.files[candidate]} (${candidate})`).join(', ')
+    );
+  }
+
+  /**
+   * Replaces every secret reference in a value (deeply) with its resolved value
+   */
+  resolveAll<T>(value: T): T {
+    if (isSecretRef(value)) return this.resolve(value) as any;
+    if (Array.isArray(value)) return value.map(entry => this.resolveAll(entry)) as any;
+    if (isPlainObject(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, this.resolveAll(entry)])) as any;
+    }
+    return value;
+  }
+
+  private parseRef(ref: string): { source?: SecretSource; name: string } {
+    const separator = ref.indexOf(':');
+    const prefix = separator > 0 ? ref.slice(0, separator) : '';
+    if ((SECRET_SOURCES as readonly string[]).includes(prefix)) {
+      return { source: prefix as SecretSource, name: ref.slice(separator + 1) };
+    }
+    return { name: ref };
+  }
+
+  private load(source: SecretSource): Record<string, string> {
+    const cached = this.loaded.get(source);
+    if (cached) return cached;
+
+    const filePath = this.files[source];
+    let values: Record<string, string> = {};
+    if (fs.existsSync(filePath)) {
+      const content = fs.readFileSync(filePath, 'utf8');
+      if (source === 'dotenv') {
+        values = parseDotenv(content);
+      } else {
+        let parsed: any;
+        try {
+          parsed = source === 'keyring' ? JSON.parse(content) : yaml.load(content);
+        } catch (err: any) {
+          throw new Error(`Could not read secrets from ${filePath}: ${err.message}`);
+        }
+        if (parsed !== undefined && parsed !== null && !isPlainObject(parsed)) {
+          throw new Error(`Secrets file ${filePath} must contain a mapping of secret names to values.`);
+        }
+        values = parsed || {};
+      }
+    }
+
+    this.loaded.set(source, values);
+    return values;
+  }
+}
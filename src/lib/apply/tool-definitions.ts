@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PipRequirementConfig, ToolConfig } from '../../types/fleet-config';
+import { isPlainObject, canonicalJson } from '../shared/object-utils';
+
+/**
+ * Tool definition fields registered alongside a custom tool's source code:
+ * pip requirements (inline, or a requirements.txt next to the tool), an args
+ * JSON schema override and tags. Only fields a tool declares are sent to Letta
+ * and compared against the registered tool.
+ */
+
+export interface PipRequirement {
+  name: string;
+  version?: string;
+}
+
+export interface ToolDefinition {
+  source_code: string;
+  pip_requirements?: PipRequirement[];
+  args_json_schema?: Record<string, any>;
+  tags?: string[];
+}
+
+export const TOOL_DEFINITION_FIELDS = ['source_code', 'pip_requirements', 'args_json_schema', 'tags'] as const;
+export type ToolDefinitionField = typeof TOOL_DEFINITION_FIELDS[number];
+
+const REQUIREMENT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*(\[[A-Za-z0-9._,\s-]+\])?/;
+
+/**
+ * Parses a pip requirement specifier. Exact pins ("requests==2.31.0") map to
+ * name + version; any other specifier is passed through whole as the name, which
+ * pip accepts as-is ("requests>=2.31", "pandas; python_version >= '3.10'").
+ */
+export function parsePipRequirement(spec: string): PipRequirement {
+  const text = spec.trim();
+  const nameMatch = text.match(REQUIREMENT_NAME_PATTERN);
+  if (!nameMatch) {
+    throw new Error(`Invalid pip requirement "${spec}". Expected a package name, optionally with a version specifier.`);
+  }
+
+  const pinned = text.match(/^([^=<>!~;\s]+)\s*==\s*([^=<>!~;,\s*]+)$/);
+  if (pinned) {
+    return { name: pinned[1], version: pinned[2] };
+  }
+  return { name: text };
+}
+
+/**
+ * Parses requirements.txt content: one specifier per line, # comments and blank
+ * lines skipped. pip options (-r, -e, --index-url, ...) are not supported.
+ */
+export function parseRequirementsFile(content: string, source: string = 'requirements.txt'): PipRequirement[] {
+  const requirements: PipRequirement[] = [];
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) return;
+    if (line.startsWith('-')) {
+      throw new Error(`${source} line ${index + 1}: pip options like "${line.split(/\s+/)[0]}" are not supported; list packages only.`);
+    }
+    try {
+      requirements.push(parsePipRequirement(line));
+    } catch (err: any) {
+      throw new Error(`${source} line ${index + 1}: ${err.message}`);
+    }
+  });
+  return requirements;
+}
+
+/**
+ * Directory a tool's requirements file is resolved against: the directory of its
+ * source file (tools/ by default), or the fleet root for inline, bucket, git and URL sources
+ */
+export function toolSourceDir(toolConfig: ToolConfig | undefined, basePath: string): string {
+  if (toolConfig?.from_file) {
+    return path.dirname(path.resolve(basePath, toolConfig.from_file));
+  }
+  if (toolConfig?.source_code || toolConfig?.from_bucket || toolConfig?.from_git || toolConfig?.from_url) {
+    return basePath;
+  }
+  return path.resolve(basePath, 'tools');
+}
+
+/**
+ * Resolves a tool's declared pip requirements; undefined when it declares none
+ */
+export function resolvePipRequirements(toolConfig: ToolConfig | undefined, basePath: string): PipRequirement[] | undefined {
+  const declared = toolConfig?.pip_requirements;
+  if (declared === undefined) {
+    return undefined;
+  }
+
+  if (typeof declared === 'string') {
+    const filePath = path.resolve(toolSourceDir(toolConfig, basePath), declared);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Requirements file ${declared} does not exist (resolved to ${filePath})`);
+    }
+    return parseRequirementsFile(fs.readFileSync(filePath, 'utf8'), path.relative(basePath, filePath));
+  }
+
+  return declared.map((entry: PipRequirementConfig) =>
+    typeof entry === 'string'
+      ? parsePipRequirement(entry)
+      : { name: entry.name, ...(entry.version ? { version: entry.version } : {}) }
+  );
+}
+
+/**
+ * Builds the payload registered with Letta for a custom tool
+ */
+export function buildToolDefinition(
+  toolConfig: ToolConfig | undefined,
+  sourceCode: string,
+  basePath: string
+): ToolDefinition {
+  const definition: ToolDefinition = { source_code: sourceCode };
+  const pipRequirements = resolvePipRequirements(toolConfig, basePath);
+  if (pipRequirements !== undefined) definition.pip_requirements = pipRequirements;
+  if (toolConfig?.args_json_schema !== undefined) definition.args_json_schema = toolConfig.args_json_schema;
+  if (toolConfig?.tags !== undefined) definition.tags = toolConfig.tags;
+  return definition;
+}
+
+function requirementKeys(requirements: any): string[] {
+  return (Array.isArray(requirements) ? requirements : [])
+    .map((req: any) => (req?.version ? `${req.name}==${req.version}` : String(req?.name ?? '')))
+    .sort();
+}
+
+/**
+ * Fields of a desired definition that differ from the registered tool.
+ * Requirements and tags compare order-insensitively.
+ */
+export function diffToolDefinition(existing: any, desired: ToolDefinition): ToolDefinitionField[] {
+  const changed: ToolDefinitionField[] = [];
+  if ((existing?.source_code || '') !== desired.source_code) {
+    changed.push('source_code');
+  }
+  if (desired.pip_requirements !== undefined &&
+      canonicalJson(requirementKeys(existing?.pip_requirements)) !== canonicalJson(requirementKeys(desired.pip_requirements))) {
+    changed.push('pip_requirements');
+  }
+  if (desired.args_json_schema !== undefined &&
+      canonicalJson(existing?.args_json_schema) !== canonicalJson(desired.args_json_schema)) {
+    changed.push('args_json_schema');
+  }
+  if (desired.tags !== undefined &&
+      canonicalJson([...(existing?.tags || [])].sort()) !== canonicalJson([...desired.tags].sort())) {
+    changed.push('tags');
+  }
+  return changed;
+}
+
+/**
+ * Stable string for the declared non-source fields, folded into the tool's
+ * content hash so a requirements or schema change counts as a tool change
+ */
+export function toolDefinitionFingerprint(toolConfig: ToolConfig | undefined, basePath: string): string {
+  const fields: Record<string, any> = {};
+  const pipRequirements = resolvePipRequirements(toolConfig, basePath);
+  if (pipRequirements !== undefined) fields.pip_requirements = requirementKeys(pipRequirements);
+  if (toolConfig?.args_json_schema !== undefined) fields.args_json_schema = toolConfig.args_json_schema;
+  if (toolConfig?.tags !== undefined) fields.tags = [...toolConfig.tags].sort();
+  return Object.keys(fields).length > 0 ? canonicalJson(fields) : '';
+}
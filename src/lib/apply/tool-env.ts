@@ -0,0 +1,63 @@
+/**
+ * Per-agent tool execution environment (tool_env in YAML, `secrets` in Letta)
+ *
+ * Values may be secret references, so everything shown to the user is a masked
+ * digest of the value; the resolved values only travel in the update sent to Letta.
+ * When tool_env is declared it owns the agent's variables: keys missing from the
+ * config are removed.
+ */
+
+import { secretDigest } from './secret-refs';
+
+export const TOOL_ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface ToolEnvChange {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  digests: { from: Record<string, string>; to: Record<string, string> }; // Masked, for display
+  to: Record<string, string>; // Resolved values sent to Letta, never displayed
+}
+
+/**
+ * Short digest shown in place of an environment value, e.g. "sha256:1a2b3c4d"
+ */
+export function maskedDigest(value: string): string {
+  return `sha256:${secretDigest(value).substring(0, 8)}`;
+}
+
+export function maskToolEnv(env: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(env).map(([key, value]) => [key, maskedDigest(value)]));
+}
+
+/**
+ * Reads an agent's tool environment variables as a key -> value map
+ */
+export function readAgentToolEnv(agent: any): Record<string, string> {
+  const variables = agent?.secrets ?? agent?.tool_exec_environment_variables ?? [];
+  const env: Record<string, string> = {};
+  for (const variable of Array.isArray(variables) ? variables : []) {
+    if (variable && typeof variable.key === 'string') env[variable.key] = variable.value ?? '';
+  }
+  return env;
+}
+
+/**
+ * Compares the agent's variables with the desired ones key by key; null when they match
+ */
+export function diffToolEnv(current: Record<string, string>, desired: Record<string, string>): ToolEnvChange | null {
+  const added = Object.keys(desired).filter(key => !(key in current));
+  const changed = Object.keys(desired).filter(key => key in current && current[key] !== desired[key]);
+  const removed = Object.keys(current).filter(key => !(key in desired));
+
+  if (added.length + changed.length + removed.length === 0) {
+    return null;
+  }
+  return {
+    added,
+    changed,
+    removed,
+    digests: { from: maskToolEnv(current), to: maskToolEnv(desired) },
+    to: desired
+  };
+}
@@ -0,0 +1,277 @@
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { buildFleetConfigSchema } from '../validation/fleet-schema';
+import { explainFleetPath } from '../validation/schema-explainer';
+
+/**
+ * Variable interpolation for fleet configs.
+ * Resolves ${var} placeholders from --set flags, values files, and environment variables
+ * (in that order of precedence). Use $${var} to keep a literal ${var} in the config.
+ */
+
+export interface FleetValuesOptions {
+  valuesFiles?: string[];
+  set?: string[];
+}
+
+// What interpolation knows about the fields of a document, by field path
+export interface InterpolationFields {
+  type(fieldPath: string): string | undefined; // Schema type, e.g. "integer" or "string | null"
+  credential(fieldPath: string): boolean; // Credential fields keep ${VAR} from the environment
+}
+
+// Names expanded from the environment when MCP servers and tool_env are sent to Letta
+const ENV_VARIABLE_NAME_PATTERN = /^[A-Z0-9_]+$/;
+
+const PLACEHOLDER_PATTERN = /\$\$\{[^}]*\}|\$\{([^}]*)\}/g;
+const FULL_PLACEHOLDER_PATTERN = /^\$\{([^}]+)\}$/;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+/**
+ * Loads a values file (YAML mapping of variable names to values)
+ */
+export function loadValuesFile(filePath: string): Record<string, any> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Values file not found: ${filePath}`);
+  }
+
+  const values = yaml.load(fs.readFileSync(filePath, 'utf8'));
+  if (values === undefined || values === null) {
+    return {};
+  }
+  if (typeof values !== 'object' || Array.isArray(values)) {
+    throw new Error(`Values file ${filePath} must contain a YAML mapping of variable names to values.`);
+  }
+  return values as Record<string, any>;
+}
+
+/**
+ * Parses repeated --set key=value flags into a values map
+ */
+export function parseSetValues(entries: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const entry of entries) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid --set value "${entry}". Expected format: key=value`);
+    }
+
+    const key = entry.substring(0, separator).trim();
+    if (!VARIABLE_NAME_PATTERN.test(key)) {
+      throw new Error(`Invalid --set variable name "${key}". Use letters, numbers, underscores, dots, and hyphens.`);
+    }
+    values[key] = entry.substring(separator + 1);
+  }
+
+  return values;
+}
+
+/**
+ * Merges values files (later files win) with --set flags (highest precedence)
+ */
+export function buildFleetValues(options: FleetValuesOptions = {}): Record<string, any> {
+  const values: Record<string, any> = {};
+
+  for (const filePath of options.valuesFiles || []) {
+    Object.assign(values, loadValuesFile(filePath));
+  }
+
+  return { ...values, ...parseSetValues(options.set || []) };
+}
+
+/**
+ * Looks up a variable by exact key, then by dotted path into nested values, then in the environment
+ */
+function lookupVariable(name: string, values: Record<string, any>): { found: boolean; value?: any; fromEnv?: boolean } {
+  if (Object.prototype.hasOwnProperty.call(values, name)) {
+    return { found: true, value: values[name] };
+  }
+
+  if (name.includes('.')) {
+    let current: any = values;
+    for (const part of name.split('.')) {
+      if (!current || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, part)) {
+        current = undefined;
+        break;
+      }
+      current = current[part];
+    }
+    if (current !== undefined) {
+      return { found: true, value: current };
+    }
+  }
+
+  if (process.env[name] !== undefined) {
+    return { found: true, value: process.env[name], fromEnv: true };
+  }
+
+  return { found: false };
+}
+
+let fleetSchema: Record<string, any> | undefined;
+const fleetFieldTypes = new Map<string, string | undefined>();
+
+/**
+ * Schema type of a fleet config field; undefined for free-form fields such as metadata
+ */
+export function fleetFieldType(fieldPath: string): string | undefined {
+  const key = fieldPath.replace(/\[\d+\]/g, '');
+  if (!fleetFieldTypes.has(key)) {
+    let type: string | undefined;
+    try {
+      fleetSchema = fleetSchema || buildFleetConfigSchema();
+      type = explainFleetPath(key, fleetSchema).type;
+    } catch {
+      type = undefined;
+    }
+    fleetFieldTypes.set(key, type);
+  }
+  return fleetFieldTypes.get(key);
+}
+
+/**
+ * Credential fields of a fleet config: MCP server auth and tool_env. Environment
+ * variables in them are expanded when they are sent to Letta, so their values never
+ * reach render output or files written from the parsed config.
+ */
+export function isFleetCredentialField(fieldPath: string): boolean {
+  const key = fieldPath.replace(/\[\d+\]/g, '');
+  return /^mcp_servers\.(auth_header|auth_token|custom_headers|env)(\.|$)/.test(key) ||
+    /^(agents|defaults|agent_templates)\.tool_env(\.|$)/.test(key);
+}
+
+export const FLEET_FIELDS: InterpolationFields = {
+  type: fleetFieldType,
+  credential: isFleetCredentialField
+};
+
+/**
+ * Fits a value that replaces an entire field to the field's schema type. Strings from
+ * --set or the environment become numbers or booleans only in numeric or boolean fields,
+ * so `context_window: ${ctx}` stays an integer while `name: ${tenant}` stays "1234".
+ * Numbers and booleans from values files become strings in string fields.
+ */
+function fitScalar(value: any, fieldType: string | undefined): any {
+  if (!fieldType || value === null || typeof value === 'object') return value;
+  const types = fieldType.split(' | ');
+
+  if (typeof value === 'string') {
+    if (types.includes('string')) return value;
+    try {
+      const parsed = yaml.load(value);
+      if ((typeof parsed === 'number' && (types.includes('integer') || types.includes('number'))) ||
+          (typeof parsed === 'boolean' && types.includes('boolean'))) {
+        return parsed;
+      }
+    } catch {
+      // Not a valid scalar - keep the raw string
+    }
+    return value;
+  }
+
+  const matchesType = typeof value === 'boolean'
+    ? types.includes('boolean')
+    : types.includes('number') || (types.includes('integer') && Number.isInteger(value));
+  return !matchesType && types.includes('string') ? String(value) : value;
+}
+
+function formatPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+function interpolateString(
+  value: string,
+  fieldPath: string,
+  values: Record<string, any>,
+  unresolved: string[],
+  fields: InterpolationFields
+): any {
+  const credential = fields.credential(fieldPath);
+  const fullMatch = value.match(FULL_PLACEHOLDER_PATTERN);
+  if (fullMatch) {
+    const name = fullMatch[1].trim();
+    const result = lookupVariable(name, values);
+    if (!result.found) {
+      unresolved.push(`\${${name}} at ${fieldPath}`);
+      return value;
+    }
+    if (credential && result.fromEnv && ENV_VARIABLE_NAME_PATTERN.test(name)) {
+      return value;
+    }
+    return fitScalar(result.value, fields.type(fieldPath));
+  }
+
+  return value.replace(PLACEHOLDER_PATTERN, (match, rawName) => {
+    if (rawName === undefined) {
+      // Escaped $${var} -> literal ${var}
+      return match.substring(1);
+    }
+
+    const name = rawName.trim();
+    const result = lookupVariable(name, values);
+    if (!result.found) {
+      unresolved.push(`\${${name}} at ${fieldPath}`);
+      return match;
+    }
+    if (credential && result.fromEnv && ENV_VARIABLE_NAME_PATTERN.test(name)) {
+      return match;
+    }
+    if (result.value !== null && typeof result.value === 'object') {
+      unresolved.push(`\${${name}} at ${fieldPath} (value is not a scalar)`);
+      return match;
+    }
+    return String(result.value ?? '');
+  });
+}
+
+function interpolateValue(
+  value: any,
+  fieldPath: string,
+  values: Record<string, any>,
+  unresolved: string[],
+  fields: InterpolationFields
+): any {
+  if (typeof value === 'string') {
+    return interpolateString(value, fieldPath, values, unresolved, fields);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((entry, index) => interpolateValue(entry, formatPath(fieldPath, index), values, unresolved, fields));
+  }
+
+  if (value && typeof value === 'object') {
+    const result: any = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = interpolateValue(entry, formatPath(fieldPath, key), values, unresolved, fields);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Replaces ${var} placeholders anywhere in the config.
+ * Throws a single error listing every unresolved variable with the path of its field.
+ * fields describes the document's fields (a fleet config by default).
+ */
+export function interpolateVariables<T>(
+  config: T,
+  values: Record<string, any> = {},
+  fields: InterpolationFields = FLEET_FIELDS
+): T {
+  const unresolved: string[] = [];
+  const result = interpolateValue(config, '', values, unresolved, fields);
+
+  if (unresolved.length > 0) {
+    throw new Error(
+      `Unresolved variables in fleet configuration:\n` +
+      unresolved.map(entry => `  - ${entry}`).join('\n') + '\n' +
+      'Provide them with --values <file>, --set key=value, or environment variables.'
+    );
+  }
+
+  return result;
+}
@@ -26,6 +26,10 @@ export class LettaClientWrapper {
     return await this.client.agents.retrieve(agentId);
   }
 
+  async getAgentWithSecrets(agentId: string) {
+    return await this.client.agents.retrieve(agentId, { include: ['agent.secrets'] });
+  }
+
   async createAgent(agentData: any) {
     return await this.client.agents.create(agentData);
   }
@@ -104,6 +108,14 @@ export class LettaClientWrapper {
     return await this.client.archives.delete(archiveId);
   }
 
+  async createArchivePassage(archiveId: string, passage: { text: string; metadata?: Record<string, any>; tags?: string[] }) {
+    return await this.client.archives.passages.create(archiveId, passage);
+  }
+
+  async deleteArchivePassage(archiveId: string, passageId: string) {
+    return await this.client.archives.passages.delete(passageId, { archive_id: archiveId });
+  }
+
   async listFolders(options?: { limit?: number }) {
     const allFolders: any[] = [];
     for await (const folder of this.client.folders.list({ limit: options?.limit || 1000 })) {
@@ -116,6 +128,10 @@ export class LettaClientWrapper {
     return await this.client.folders.create(folderData);
   }
 
+  async updateFolder(folderId: string, folderData: any) {
+    return await this.client.folders.update(folderId, folderData);
+  }
+
   async uploadFileToFolder(fileStream: any, folderId: string, fileName: string) {
     return await this.client.folders.files.upload(folderId, {
       file: fileStream,
@@ -447,6 +463,19 @@ export class LettaClientWrapper {
     return await this.client.agents.passages.list(agentId, { limit: limit || 100, ascending: false });
   }
 
+  async listAllAgentPassages(agentId: string) {
+    const allPassages: any[] = [];
+    const limit = 100;
+    let after: string | undefined;
+    while (true) {
+      const page = await this.client.agents.passages.list(agentId, { limit, after, ascending: true });
+      allPassages.push(...page);
+      if (page.length < limit || !page[page.length - 1].id) break;
+      after = page[page.length - 1].id;
+    }
+    return allPassages;
+  }
+
   async searchAgentArchival(agentId: string, query: string, limit?: number) {
     return await this.client.agents.passages.search(agentId, { query, top_k: limit || 50 });
   }
@@ -2,8 +2,10 @@ import { LettaClientWrapper } from '../client/letta-client';
 import { normalizeResponse } from '../shared/response-normalizer';
 import { generateContentHash, generateTimestampVersion } from '../../utils/hash-utils';
 import type { AgentConfigHashes, AgentVersion } from '../../types/agent';
+import type { ToolRuleConfig } from '../../types/fleet-config';
 import { log } from '../shared/logger';
 import { DEFAULT_CONTEXT_WINDOW, DEFAULT_EMBEDDING } from '../shared/constants';
+import { toolRuleKey } from '../tools/tool-rules';
 
 // Re-export types for backwards compatibility
 export type { AgentConfigHashes, AgentVersion } from '../../types/agent';
@@ -45,6 +47,7 @@ export class AgentManager {
           overall: '',              // Will be populated during comparison
           systemPrompt: generateContentHash(agent.system),
           tools: '',
+          toolRules: '',
           model: '', 
           memoryBlocks: '',
           folders: '',
@@ -78,33 +81,41 @@ export class AgentManager {
     systemPrompt: string;
     tools: string[];
     toolSourceHashes?: Record<string, string>;
+    toolApprovals?: Record<string, boolean>;
+    toolRules?: ToolRuleConfig[];
     model?: string;
     embedding?: string;
     embeddingConfig?: Record<string, any>;
     contextWindow?: number;
+    modelSettings?: Record<string, any>;
     memoryBlocks?: Array<{name: string; description: string; limit: number; value: string}>;
     memoryBlockFileHashes?: Record<string, string>;
     folders?: Array<{name: string; files: string[]; fileContentHashes?: Record<string, string>}>;
-    archives?: Array<{name: string; description?: string; embedding?: string}>;
+    archives?: Array<{name: string; description?: string; embedding?: string; passages?: Array<{hash: string}>}>;
     sharedBlocks?: string[];
   }): AgentConfigHashes {
     
     // System prompt hash
     const systemPromptHash = generateContentHash(config.systemPrompt);
     
-    // Tools hash - includes tool names and source code content when available
+    // Tools hash - includes tool names, source code content and declared approval when available
     const toolsWithContent = (config.tools || []).map(toolName => ({
       name: toolName,
-      sourceHash: config.toolSourceHashes?.[toolName] || ''
+      sourceHash: config.toolSourceHashes?.[toolName] || '',
+      requiresApproval: config.toolApprovals?.[toolName]
     })).sort((a, b) => a.name.localeCompare(b.name));
     const toolsHash = generateContentHash(JSON.stringify(toolsWithContent));
+
+    // Tool rules hash - order-insensitive
+    const toolRulesHash = generateContentHash(JSON.stringify((config.toolRules || []).map(toolRuleKey).sort()));
     
-    // Model configuration hash (model + embedding + context window)
+    // Model configuration hash (model + embedding + context window + model settings)
     const modelConfig = {
       model: config.model || "google_ai/gemini-2.5-pro",
       embedding: config.embedding || DEFAULT_EMBEDDING,
       embeddingConfig: config.embeddingConfig || null,
-      contextWindow: config.contextWindow || DEFAULT_CONTEXT_WINDOW
+      contextWindow: config.contextWindow || DEFAULT_CONTEXT_WINDOW,
+      modelSettings: config.modelSettings || null
     };
     const modelHash = generateContentHash(JSON.stringify(modelConfig));
     
@@ -140,7 +151,8 @@ export class AgentManager {
     const normalizedArchives = (config.archives || [])
       .map(archive => ({
         name: archive.name,
-        description: archive.description
+        description: archive.description,
+        passages: archive.passages?.map(chunk => chunk.hash).sort()
       }))
       .sort((a, b) => a.name.localeCompare(b.name));
     const archivesHash = generateContentHash(JSON.stringify(normalizedArchives));
@@ -149,6 +161,7 @@ export class AgentManager {
     const overallHash = generateContentHash(JSON.stringify({
       systemPrompt: systemPromptHash,
       tools: toolsHash,
+      toolRules: toolRulesHash,
       model: modelHash,
       memoryBlocks: memoryBlocksHash,
       folders: foldersHash,
@@ -160,6 +173,7 @@ export class AgentManager {
       overall: overallHash,
       systemPrompt: systemPromptHash,
       tools: toolsHash,
+      toolRules: toolRulesHash,
       model: modelHash,
       memoryBlocks: memoryBlocksHash,
       folders: foldersHash,
@@ -177,10 +191,13 @@ export class AgentManager {
       systemPrompt: string;
       tools: string[];
       toolSourceHashes?: Record<string, string>;
+      toolApprovals?: Record<string, boolean>;
+      toolRules?: ToolRuleConfig[];
       model?: string;
       embedding?: string;
       embeddingConfig?: Record<string, any>;
       contextWindow?: number;
+      modelSettings?: Record<string, any>;
       memoryBlocks?: Array<{name: string; description: string; limit: number; value: string}>;
       memoryBlockFileHashes?: Record<string, string>;
       folders?: Array<{name: string; files: string[]}>;
@@ -222,10 +239,13 @@ export class AgentManager {
     systemPrompt: string;
     tools: string[];
     toolSourceHashes?: Record<string, string>;
+    toolApprovals?: Record<string, boolean>;
+    toolRules?: ToolRuleConfig[];
     model?: string;
     embedding?: string;
     embeddingConfig?: Record<string, any>;
     contextWindow?: number;
+    modelSettings?: Record<string, any>;
     memoryBlocks?: Array<{name: string; description: string; limit: number; value: string}>;
     memoryBlockFileHashes?: Record<string, string>;
     folders?: Array<{name: string; files: string[]}>;
@@ -246,6 +266,9 @@ export class AgentManager {
     if (existing.configHashes.tools !== newHashes.tools) {
       changedComponents.push('tools');
     }
+    if (existing.configHashes.toolRules !== newHashes.toolRules) {
+      changedComponents.push('toolRules');
+    }
     if (existing.configHashes.model !== newHashes.model) {
       changedComponents.push('model');
     }
@@ -275,10 +298,13 @@ export class AgentManager {
   updateRegistry(agentName: string, agentConfig: {
     systemPrompt: string;
     tools: string[];
+    toolApprovals?: Record<string, boolean>;
+    toolRules?: ToolRuleConfig[];
     model?: string;
     embedding?: string;
     embeddingConfig?: Record<string, any>;
     contextWindow?: number;
+    modelSettings?: Record<string, any>;
     memoryBlocks?: Array<{name: string; description: string; limit: number; value: string}>;
     folders?: Array<{name: string; files: string[]}>;
     archives?: Array<{name: string; description?: string; embedding?: string}>;
@@ -13,6 +13,7 @@ export interface ArchiveInfo {
 export class ArchiveManager {
   private client: LettaClientWrapper;
   private archiveRegistry = new Map<string, ArchiveInfo>();
+  private pendingArchives = new Map<string, Promise<string>>(); // Creations in flight, for agents applied in parallel
 
   constructor(client: LettaClientWrapper) {
     this.client = client;
@@ -56,6 +57,20 @@ export class ArchiveManager {
       return existing.id;
     }
 
+    let pending = this.pendingArchives.get(config.name);
+    if (!pending) {
+      pending = this.createArchive(config).finally(() => this.pendingArchives.delete(config.name));
+      this.pendingArchives.set(config.name, pending);
+    }
+    return pending;
+  }
+
+  private async createArchive(config: {
+    name: string;
+    description?: string;
+    embedding?: string;
+    embedding_config?: Record<string, any>;
+  }): Promise<string> {
     log(`Creating archive: ${config.name}`);
     const newArchive = await this.client.createArchive({
       name: config.name,
@@ -1,16 +1,17 @@
 import { minimatch } from 'minimatch';
-import * as fs from 'fs';
-import * as yaml from 'js-yaml';
 import * as readline from 'readline';
 
 import { LettaClientWrapper } from '../client/letta-client';
 import { AgentResolver } from '../client/agent-resolver';
 import { isRunTerminal, getEffectiveRunStatus } from './run-utils';
 import { Run } from '../../types/run';
+import { loadFleetConfig, describeFleetInputs, getFleetBaseDir } from '../apply/fleet-loader';
+import { expandInstances } from '../apply/fleet-instances';
 
 export interface BulkMessageOptions {
   pattern?: string;       // glob pattern for agent names
-  configFile?: string;    // fleet config path
+  configFile?: string | string[];    // fleet config path(s) or directories
+  values?: Record<string, any>; // ${var} values for the fleet config (--values / --set)
   confirm?: boolean;      // skip confirmation prompt
   timeout?: number;       // per-agent timeout in seconds (undefined = no timeout)
   verbose?: boolean;
@@ -46,7 +47,7 @@ export async function bulkSendMessage(
     if (options.pattern) {
       outputFn(`No agents found matching pattern: ${options.pattern}`);
     } else if (options.configFile) {
-      outputFn(`No agents found from config file: ${options.configFile}`);
+      outputFn(`No agents found from config file: ${describeFleetInputs(options.configFile)}`);
     }
     return [];
   }
@@ -185,9 +186,9 @@ async function resolveTargetAgents(
   const allAgents = await resolver.getAllAgents();
 
   if (options.configFile) {
-    // Load agent names from config file
-    const configContent = fs.readFileSync(options.configFile, 'utf8');
-    const config = yaml.load(configContent) as any;
+    // Load agent names from config files (follows include directives), including instance sets
+    const { config: loaded } = loadFleetConfig(options.configFile, options.values);
+    const config: any = expandInstances(loaded, loaded.root_path || getFleetBaseDir(options.configFile));
 
     if (!config.agents || !Array.isArray(config.agents)) {
       throw new Error(`Invalid config file: missing 'agents' array`);
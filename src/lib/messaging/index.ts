@@ -1,3 +1,4 @@
 export * from './message-sender';
 export * from './bulk-messenger';
 export * from './run-utils';
+export * from './initial-messages';
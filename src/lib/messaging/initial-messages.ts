@@ -0,0 +1,102 @@
+/**
+ * Scripted conversation seeding for agent.initial_messages
+ *
+ * Messages are sent in steps: system notes and assistant examples go out together with
+ * the next user turn, so the agent runs once per user message. Each step waits for its
+ * run; a run that fails, is cancelled or times out fails the whole sequence.
+ */
+
+import { LettaClientWrapper } from '../client/letta-client';
+import { InitialMessageConfig } from '../../types/fleet-config';
+import { Run } from '../../types/run';
+import { isRunTerminal, getEffectiveRunStatus } from './run-utils';
+import { sleep } from '../shared/response-normalizer';
+import { log } from '../shared/logger';
+
+export const INITIAL_MESSAGE_ROLES = ['user', 'assistant', 'system'];
+
+// Stored on the agent when replay_on_reset is set, so reset-messages can replay the script
+export const INITIAL_MESSAGES_METADATA_KEY = 'lettactl.initialMessages';
+
+const STEP_TIMEOUT_MS = 120000;
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Groups messages into steps, each ending with a user turn (trailing messages form a last step)
+ */
+export function groupInitialMessageSteps(messages: InitialMessageConfig[]): InitialMessageConfig[][] {
+  const steps: InitialMessageConfig[][] = [];
+  let current: InitialMessageConfig[] = [];
+  for (const message of messages) {
+    current.push(message);
+    if (message.role === 'user') {
+      steps.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) steps.push(current);
+  return steps;
+}
+
+/**
+ * Sends the script step by step, throwing when a step's run does not complete
+ */
+export async function sendInitialMessages(
+  client: LettaClientWrapper,
+  agentId: string,
+  messages: InitialMessageConfig[],
+  options: { verbose?: boolean } = {}
+): Promise<number> {
+  const steps = groupInitialMessageSteps(messages);
+
+  for (const [index, step] of steps.entries()) {
+    const run = await client.createAsyncMessage(agentId, {
+      messages: step.map(message => ({ role: message.role, content: message.content }))
+    });
+    const label = `Initial messages step ${index + 1}/${steps.length}`;
+    const startTime = Date.now();
+
+    while (true) {
+      const runStatus = await client.getRun(run.id) as Run;
+      if (isRunTerminal(runStatus)) {
+        const effectiveStatus = getEffectiveRunStatus(runStatus);
+        if (effectiveStatus !== 'completed') {
+          const reason = runStatus.stop_reason ? `: ${runStatus.stop_reason}` : '';
+          throw new Error(`${label} ${effectiveStatus}${reason} (run: ${run.id})`);
+        }
+        if (options.verbose) log(`  ${label} completed (run: ${run.id})`);
+        break;
+      }
+      if (Date.now() - startTime >= STEP_TIMEOUT_MS) {
+        throw new Error(`${label} timed out after ${STEP_TIMEOUT_MS / 1000}s (run: ${run.id})`);
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  return steps.length;
+}
+
+/**
+ * The replayable script stored on an agent, or null when there is none
+ */
+export function readReplayableInitialMessages(metadata: Record<string, any> | null | undefined): InitialMessageConfig[] | null {
+  const messages = metadata?.[INITIAL_MESSAGES_METADATA_KEY];
+  return Array.isArray(messages) && messages.length > 0 ? messages : null;
+}
+
+/**
+ * Returns agent metadata with the replayable script set, or removed when null
+ */
+export function withReplayableInitialMessages(
+  metadata: Record<string, any> | null | undefined,
+  messages: InitialMessageConfig[] | null
+): Record<string, any> {
+  const result: Record<string, any> = { ...(metadata || {}) };
+  if (messages) {
+    result[INITIAL_MESSAGES_METADATA_KEY] = messages;
+  } else {
+    delete result[INITIAL_MESSAGES_METADATA_KEY];
+  }
+  return result;
+}
@@ -1,6 +1,13 @@
 import { LettaClientWrapper } from '../client/letta-client';
 import { normalizeResponse } from '../shared/response-normalizer';
 
+// Folder metadata flag set on folders declared in the fleet's shared_folders section
+export const SHARED_FOLDER_METADATA_KEY = 'lettactl.shared';
+
+export function isSharedFolderMetadata(metadata: any): boolean {
+  return metadata?.[SHARED_FOLDER_METADATA_KEY] === true;
+}
+
 export class ResourceClassifier {
   private client: LettaClientWrapper;
 
@@ -9,11 +16,13 @@ export class ResourceClassifier {
   }
 
   /**
-   * Determines if a folder is shared based on naming conventions
+   * Determines if a folder was declared in shared_folders (marked in its metadata on apply).
+   * Folders created before the flag existed are shared by naming convention.
    */
   isSharedFolder(folder: any): boolean {
-    if (!folder.name) return false;
-    
+    if (isSharedFolderMetadata(folder?.metadata)) return true;
+    if (!folder?.name) return false;
+
     return folder.name.includes('shared');
   }
 
@@ -34,10 +43,9 @@ export class ResourceClassifier {
     
     for (const otherAgent of otherAgents) {
       try {
-        const otherDetails = await this.client.getAgent(otherAgent.id);
-        const otherFolders = (otherDetails as any).folders;
-        
-        if (otherFolders && otherFolders.find((f: any) => f.id === folderId)) {
+        const otherFolders = normalizeResponse(await this.client.listAgentFolders(otherAgent.id));
+
+        if (otherFolders.find((f: any) => f.id === folderId)) {
           return true;
         }
       } catch (error) {
@@ -0,0 +1,47 @@
+/**
+ * Bounded parallelism for per-agent work
+ */
+
+/**
+ * Maps items with at most `limit` tasks running at once. Tasks start in item order,
+ * and onResult is called in item order as soon as every earlier item has finished,
+ * so callers can print results deterministically while later items still run.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  onResult?: (result: R, index: number) => void
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const finished: boolean[] = new Array(items.length).fill(false);
+  let nextIndex = 0;
+  let reported = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+      finished[index] = true;
+      while (reported < items.length && finished[reported]) {
+        onResult?.(results[reported], reported);
+        reported++;
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Validates a --concurrency value: a whole number of at least 1 (default 1)
+ */
+export function resolveConcurrency(value: number | undefined): number {
+  if (value === undefined) return 1;
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`Invalid concurrency '${value}'. Use a whole number of at least 1, e.g. --concurrency 8.`);
+  }
+  return value;
+}
@@ -3,3 +3,9 @@ export const DEFAULT_CONTEXT_WINDOW = 28000;
 export const DEFAULT_MODEL = 'google_ai/gemini-2.5-pro';
 export const DEFAULT_EMBEDDING = 'openai/text-embedding-3-small';
 export const DEFAULT_REASONING = true;
+
+// Agent types accepted by Letta (agent_type cannot be changed after creation)
+export const AGENT_TYPES = [
+  'memgpt_agent', 'memgpt_v2_agent', 'letta_v1_agent', 'react_agent', 'workflow_agent',
+  'split_thread_agent', 'sleeptime_agent', 'voice_convo_agent', 'voice_sleeptime_agent'
+];
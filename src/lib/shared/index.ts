@@ -2,3 +2,5 @@ export * from './logger';
 export * from './constants';
 export * from './response-normalizer';
 export * from './error-handler';
+export * from './concurrency';
+export * from './object-utils';
@@ -2,9 +2,18 @@
  * Centralized logger that respects quiet mode
  * In quiet mode, only errors are shown
  */
+import { AsyncLocalStorage } from 'async_hooks';
 
 let quietMode = false;
 
+export interface BufferedLogLine {
+  method: 'log' | 'warn' | 'error';
+  args: any[];
+}
+
+// Set while a task runs under bufferLogs; its messages are collected instead of printed
+const logBuffer = new AsyncLocalStorage<BufferedLogLine[]>();
+
 export function setQuietMode(quiet: boolean): void {
   quietMode = quiet;
 }
@@ -18,7 +27,7 @@ export function isQuietMode(): boolean {
  */
 export function log(...args: any[]): void {
   if (!quietMode) {
-    console.log(...args);
+    write('log', args);
   }
 }
 
@@ -26,7 +35,7 @@ export function log(...args: any[]): void {
  * Log errors (always shown)
  */
 export function error(...args: any[]): void {
-  console.error(...args);
+  write('error', args);
 }
 
 /**
@@ -34,7 +43,7 @@ export function error(...args: any[]): void {
  */
 export function warn(...args: any[]): void {
   if (!quietMode) {
-    console.warn(...args);
+    write('warn', args);
   }
 }
 
@@ -43,5 +52,31 @@ export function warn(...args: any[]): void {
  * This is for final output the user requested, not progress info
  */
 export function output(...args: any[]): void {
-  console.log(...args);
+  write('log', args);
+}
+
+/**
+ * Runs a task, collecting everything it logs into lines instead of printing it.
+ * Used to keep output in order when several tasks run at once.
+ */
+export function bufferLogs<T>(lines: BufferedLogLine[], task: () => Promise<T>): Promise<T> {
+  return logBuffer.run(lines, task);
+}
+
+/**
+ * Prints lines collected by bufferLogs
+ */
+export function flushLogs(lines: BufferedLogLine[]): void {
+  for (const line of lines) {
+    console[line.method](...line.args);
+  }
+}
+
+function write(method: BufferedLogLine['method'], args: any[]): void {
+  const buffer = logBuffer.getStore();
+  if (buffer) {
+    buffer.push({ method, args });
+  } else {
+    console[method](...args);
+  }
 }
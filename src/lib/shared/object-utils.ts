@@ -0,0 +1,24 @@
+/**
+ * Helpers for plain YAML/JSON values
+ */
+
+export function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal values always serialize the same
+ */
+export function canonicalJson(value: any): string {
+  const canonical = (entry: any): any => {
+    if (Array.isArray(entry)) return entry.map(canonical);
+    if (isPlainObject(entry)) {
+      return Object.keys(entry).sort().reduce((result: Record<string, any>, key) => {
+        result[key] = canonical(entry[key]);
+        return result;
+      }, {});
+    }
+    return entry;
+  };
+  return JSON.stringify(canonical(value ?? null));
+}
@@ -4,6 +4,9 @@
  */
 
 import { BucketConfig } from './storage-backend';
+import { BUILTIN_STORAGE_PROVIDERS, STORAGE_PROVIDER_NAME_PATTERN } from './storage-provider';
+
+const S3_ONLY_FIELDS = ['endpoint', 'region', 'profile', 'force_path_style'];
 
 export class BucketConfigValidator {
   
@@ -16,6 +19,7 @@ export class BucketConfigValidator {
     this.validateValues(config);
     this.validateDataTypes(config);
     this.validateProvider(config);
+    this.validateConnectionFields(config);
   }
   
   private static validateStructure(config: any): void {
@@ -95,11 +99,70 @@ export class BucketConfigValidator {
   }
   
   /**
-   * Validates provider-specific requirements
+   * Validates the provider name. Names other than the built-ins must be declared under
+   * storage_providers, which FleetConfigValidator checks once the whole fleet is known.
    */
   static validateProvider(config: BucketConfig): void {
-    if (config.provider !== 'supabase') {
-      throw new Error(`Provider '${config.provider}' not supported. Supported: supabase`);
+    if (!BUILTIN_STORAGE_PROVIDERS.includes(config.provider) && !STORAGE_PROVIDER_NAME_PATTERN.test(config.provider)) {
+      throw new Error(
+        `Provider '${config.provider}' not supported. Use ${BUILTIN_STORAGE_PROVIDERS.join(', ')}, ` +
+        'or the name of a custom provider (lowercase letters, digits, - and _).'
+      );
+    }
+  }
+  
+  /**
+   * Validates the optional S3 connection fields (endpoint, region, profile, force_path_style).
+   * Custom providers define their own fields, so only supabase rejects them.
+   */
+  private static validateConnectionFields(config: any): void {
+    const present = S3_ONLY_FIELDS.filter(field => config[field] !== undefined);
+    if (config.provider !== 's3') {
+      if (config.provider === 'supabase' && present.length > 0) {
+        throw new Error(
+          `Fields ${present.join(', ')} are only supported for provider s3 (got provider ${config.provider}).`
+        );
+      }
+      return;
+    }
+    
+    for (const field of ['endpoint', 'region', 'profile']) {
+      const value = config[field];
+      if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+        throw new Error(
+          `from_bucket ${field} must be a non-empty string.\n` +
+          'Example:\n' +
+          'from_bucket:\n' +
+          '  provider: s3\n' +
+          '  bucket: my-bucket\n' +
+          '  path: file.md\n' +
+          '  region: eu-west-1'
+        );
+      }
+    }
+    
+    if (config.endpoint !== undefined) {
+      let protocol: string | undefined;
+      try {
+        protocol = new URL(config.endpoint).protocol;
+      } catch {
+        protocol = undefined;
+      }
+      if (protocol !== 'http:' && protocol !== 'https:') {
+        throw new Error(
+          `Invalid from_bucket endpoint '${config.endpoint}'. Expected an http(s) URL.\n` +
+          'Example:\n' +
+          'from_bucket:\n' +
+          '  provider: s3\n' +
+          '  bucket: my-bucket\n' +
+          '  path: file.md\n' +
+          '  endpoint: http://localhost:9000'
+        );
+      }
+    }
+    
+    if (config.force_path_style !== undefined && typeof config.force_path_style !== 'boolean') {
+      throw new Error(`from_bucket force_path_style must be true or false (got ${typeof config.force_path_style}).`);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,12 @@
+/**
+ * Root of lettactl's local content caches
+ */
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * $LETTACTL_CACHE_DIR, or $XDG_CACHE_HOME/lettactl (~/.cache/lettactl)
+ */
+export function contentCacheRoot(env: NodeJS.ProcessEnv = process.env): string {
+  return env.LETTACTL_CACHE_DIR || path.join(env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'lettactl');
+}
@@ -0,0 +1,251 @@
+/**
+ * On-disk cache for remote content (from_bucket objects and from_url responses)
+ *
+ * Content is stored once per SHA-256 under objects/. Each source has an index entry,
+ * keyed by its file identifier, that records the version the content was downloaded
+ * at (an ETag, or a modification time and size). Reads only reuse content whose
+ * version still matches; offline reads take whatever was cached last. The least
+ * recently used entries are evicted once the cache grows past its size limit.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { contentCacheRoot } from './cache-dir';
+
+export interface ContentCacheEntry {
+  key: string; // File identifier of the source, e.g. bucket:... or url:...
+  version?: string; // ETag or modification time the content was downloaded at
+  sha256: string;
+  size: number; // Bytes
+  storedAt: string; // ISO timestamp
+  usedAt: string; // ISO timestamp of the last read
+}
+
+export interface ContentCachePruneOptions {
+  maxSize?: number; // Evict least recently used entries until the cache fits
+  olderThan?: number; // Milliseconds; evict entries not used for this long
+  all?: boolean;
+}
+
+export interface ContentCachePruneResult {
+  removed: number;
+  freed: number; // Bytes
+}
+
+export const DEFAULT_CACHE_MAX_SIZE = 1024 * 1024 * 1024;
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3, tb: 1024 ** 4 };
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+
+/**
+ * Parses sizes such as 500MB, 2G or 1048576 (bytes)
+ */
+export function parseByteSize(value: string): number {
+  const match = String(value).trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?b?)?$/);
+  const unit = match && (match[2] ? (match[2].endsWith('b') ? match[2] : `${match[2]}b`) : 'b');
+  if (!match || !unit || !SIZE_UNITS[unit]) {
+    throw new Error(`Invalid size '${value}'. Use a number of bytes or a size such as 500MB or 2GB.`);
+  }
+  return Math.floor(parseFloat(match[1]) * SIZE_UNITS[unit]);
+}
+
+/**
+ * Parses durations such as 30m, 12h, 7d or 2w
+ */
+export function parseDuration(value: string): number {
+  const match = String(value).trim().toLowerCase().match(/^(\d+)\s*([smhdw])$/);
+  if (!match) {
+    throw new Error(`Invalid duration '${value}'. Use a number with s, m, h, d or w, e.g. 7d.`);
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Cache size limit: $LETTACTL_CACHE_MAX_SIZE (e.g. 2GB), or 1GB
+ */
+export function contentCacheMaxSize(env: NodeJS.ProcessEnv = process.env): number {
+  return env.LETTACTL_CACHE_MAX_SIZE ? parseByteSize(env.LETTACTL_CACHE_MAX_SIZE) : DEFAULT_CACHE_MAX_SIZE;
+}
+
+export class ContentCache {
+  readonly root: string;
+  readonly maxSize: number;
+  private index?: Map<string, ContentCacheEntry>; // Loaded from disk on first use
+
+  constructor(options: { root?: string; maxSize?: number } = {}) {
+    this.root = options.root || contentCacheRoot();
+    this.maxSize = options.maxSize ?? contentCacheMaxSize();
+  }
+
+  /**
+   * Cached content for a source. With a version, only content downloaded at that
+   * version is returned.
+   */
+  get(key: string, version?: string): Buffer | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || (version !== undefined && entry.version !== version)) {
+      return undefined;
+    }
+
+    let content: Buffer;
+    try {
+      content = fs.readFileSync(this.objectPath(entry.sha256));
+    } catch {
+      this.remove(entry);
+      return undefined;
+    }
+    if (sha256(content) !== entry.sha256) {
+      this.remove(entry);
+      return undefined;
+    }
+
+    this.writeEntry({ ...entry, usedAt: new Date().toISOString() });
+    return content;
+  }
+
+  /**
+   * Index entry for a source, without reading its content
+   */
+  entry(key: string): ContentCacheEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  /**
+   * Stores content for a source, then evicts old entries if the cache is over its limit.
+   * The cache only saves downloads, so a read-only or full disk never fails a read.
+   */
+  put(key: string, content: Buffer, version?: string): void {
+    const now = new Date().toISOString();
+    const entry: ContentCacheEntry = { key, ...(version ? { version } : {}), sha256: sha256(content), size: content.length, storedAt: now, usedAt: now };
+    try {
+      const objectPath = this.objectPath(entry.sha256);
+      if (!fs.existsSync(objectPath)) {
+        fs.mkdirSync(path.dirname(objectPath), { recursive: true });
+        const tempPath = `${objectPath}.${process.pid}.tmp`;
+        fs.writeFileSync(tempPath, content);
+        fs.renameSync(tempPath, objectPath);
+      }
+      const previous = this.entries.get(key);
+      this.writeEntry(entry);
+      if (previous && previous.sha256 !== entry.sha256) {
+        this.removeObjectIfUnused(previous.sha256);
+      }
+    } catch {
+      return;
+    }
+    if (this.totalSize > this.maxSize) {
+      this.prune({ maxSize: this.maxSize });
+    }
+  }
+
+  /**
+   * Entries from most to least recently used
+   */
+  list(): ContentCacheEntry[] {
+    return [...this.entries.values()].sort((a, b) => b.usedAt.localeCompare(a.usedAt));
+  }
+
+  /**
+   * Bytes used by cached content; content shared by several sources counts once
+   */
+  get totalSize(): number {
+    const sizes = new Map<string, number>();
+    for (const entry of this.entries.values()) {
+      sizes.set(entry.sha256, entry.size);
+    }
+    return [...sizes.values()].reduce((total, size) => total + size, 0);
+  }
+
+  prune(options: ContentCachePruneOptions): ContentCachePruneResult {
+    const references = new Map<string, number>();
+    for (const entry of this.entries.values()) {
+      references.set(entry.sha256, (references.get(entry.sha256) || 0) + 1);
+    }
+    const before = this.totalSize;
+    let total = before;
+    let removed = 0;
+
+    for (const entry of this.list().reverse()) {
+      const expired = options.all ||
+        (options.olderThan !== undefined && Date.now() - Date.parse(entry.usedAt) >= options.olderThan);
+      const overLimit = options.maxSize !== undefined && total > options.maxSize;
+      if (!expired && !overLimit) continue;
+
+      const remaining = references.get(entry.sha256)! - 1;
+      references.set(entry.sha256, remaining);
+      this.entries.delete(entry.key);
+      this.deleteFile(this.entryPath(entry.key));
+      if (remaining === 0) {
+        this.deleteFile(this.objectPath(entry.sha256));
+        total -= entry.size;
+      }
+      removed++;
+    }
+
+    return { removed, freed: before - total };
+  }
+
+  private get entries(): Map<string, ContentCacheEntry> {
+    if (!this.index) {
+      this.index = new Map();
+      const indexDir = path.join(this.root, 'index');
+      let files: string[] = [];
+      try {
+        files = fs.readdirSync(indexDir);
+      } catch {
+        // No cache yet
+      }
+      for (const file of files) {
+        try {
+          const entry: ContentCacheEntry = JSON.parse(fs.readFileSync(path.join(indexDir, file), 'utf8'));
+          if (entry.key && entry.sha256) this.index.set(entry.key, entry);
+        } catch {
+          // Skip entries left half-written by an interrupted run
+        }
+      }
+    }
+    return this.index;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.root, 'index', `${sha256(Buffer.from(key)).substring(0, 32)}.json`);
+  }
+
+  private objectPath(hash: string): string {
+    return path.join(this.root, 'objects', hash.substring(0, 2), hash);
+  }
+
+  private writeEntry(entry: ContentCacheEntry): void {
+    try {
+      fs.mkdirSync(path.join(this.root, 'index'), { recursive: true });
+      fs.writeFileSync(this.entryPath(entry.key), JSON.stringify(entry));
+    } catch {
+      // Ignore; the entry is still used for the rest of this run
+    }
+    this.entries.set(entry.key, entry);
+  }
+
+  private remove(entry: ContentCacheEntry): void {
+    this.entries.delete(entry.key);
+    this.deleteFile(this.entryPath(entry.key));
+    this.removeObjectIfUnused(entry.sha256);
+  }
+
+  private removeObjectIfUnused(hash: string): void {
+    if (![...this.entries.values()].some(entry => entry.sha256 === hash)) {
+      this.deleteFile(this.objectPath(hash));
+    }
+  }
+
+  private deleteFile(filePath: string): void {
+    try {
+      fs.rmSync(filePath, { force: true });
+    } catch {
+      // Ignore; a stale file is dropped again on the next prune
+    }
+  }
+}
+
+function sha256(content: Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,42 @@
+/**
+ * Validation for from_git configuration objects
+ */
+
+const GIT_EXAMPLE =
+  'Example:\n' +
+  'from_git:\n' +
+  '  repo: https://github.com/acme/prompts.git\n' +
+  '  ref: v1.2.0\n' +
+  '  path: support/system.md';
+
+export class GitConfigValidator {
+
+  /**
+   * Validates a from_git config object and throws descriptive errors
+   */
+  static validate(config: any): void {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      throw new Error(`Invalid from_git configuration. Expected object with repo and path fields.\n${GIT_EXAMPLE}`);
+    }
+
+    const missing = ['repo', 'path'].filter(field => config[field] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Missing required fields in from_git config: ${missing.join(', ')}\n${GIT_EXAMPLE}`);
+    }
+
+    for (const field of ['repo', 'ref', 'path']) {
+      const value = config[field];
+      if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+        throw new Error(`from_git ${field} must be a non-empty string.\n${GIT_EXAMPLE}`);
+      }
+    }
+
+    if (config.ref !== undefined && /[:\s~^?*\[\\]|\.\./.test(config.ref)) {
+      throw new Error(`Invalid from_git ref '${config.ref}'. Use a branch, tag or commit SHA.`);
+    }
+
+    if (config.commit !== undefined) {
+      throw new Error('from_git commit is set by lettactl when the ref is resolved. Put a commit SHA in ref to pin one.');
+    }
+  }
+}
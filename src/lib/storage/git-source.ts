@@ -0,0 +1,304 @@
+/**
+ * Git repository content source (from_git)
+ *
+ * Repositories are mirrored as bare clones in a local cache and fetched at most once
+ * per run. Each repo + ref is resolved to a commit once, so every file read from it
+ * during a run comes from the same pinned commit.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { contentCacheRoot } from './cache-dir';
+
+export interface GitSourceConfig {
+  repo: string; // Remote URL, or a local repository path relative to the fleet root
+  ref?: string; // Branch, tag or commit SHA; defaults to the repository's HEAD
+  path: string;
+  commit?: string; // Pinned commit, set by the parser once the ref is resolved
+}
+
+export interface GitMirrorInfo {
+  repo: string; // Repository location the mirror was cloned from
+  path: string;
+  size: number; // Bytes
+  usedAt: Date; // Last fetch or read
+}
+
+export interface GitSourcePin {
+  repo: string;
+  ref: string;
+  commit: string;
+}
+
+export const DEFAULT_GIT_REF = 'HEAD';
+
+const FULL_SHA = /^[0-9a-f]{40}$/;
+
+/**
+ * Cache directory for git mirrors: $LETTACTL_CACHE_DIR/git, or ~/.cache/lettactl/git
+ */
+export function gitCacheDir(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(contentCacheRoot(env), 'git');
+}
+
+/**
+ * Repository mirrors in the git cache, most recently used first
+ */
+export function listGitMirrors(cacheDir: string = gitCacheDir()): GitMirrorInfo[] {
+  let names: string[] = [];
+  try {
+    names = fs.readdirSync(cacheDir).filter(name => name.endsWith('.git'));
+  } catch {
+    return [];
+  }
+
+  return names.map(name => {
+    const mirrorDir = path.join(cacheDir, name);
+    let repo = name;
+    try {
+      repo = fs.readFileSync(path.join(mirrorDir, 'config'), 'utf8').match(/^\s*url\s*=\s*(.+)$/m)?.[1].trim() || name;
+    } catch {
+      // Keep the directory name
+    }
+    return { repo, path: mirrorDir, size: directorySize(mirrorDir), usedAt: fs.statSync(mirrorDir).mtime };
+  }).sort((a, b) => b.usedAt.getTime() - a.usedAt.getTime());
+}
+
+function directorySize(dir: string): number {
+  let size = 0;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    size += entry.isDirectory() ? directorySize(entryPath) : fs.statSync(entryPath).size;
+  }
+  return size;
+}
+
+/**
+ * Remote URLs (https://, ssh://, git@host:path, file://) are used as-is; anything
+ * else is a local path resolved against the fleet root
+ */
+export function isRemoteGitUrl(repo: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(repo) || /^[^/\\\s]+@[^/\\\s]+:/.test(repo);
+}
+
+/**
+ * Identifier for a git file in folder diffs: git:<repo>#<commit or ref>:<path>.
+ * Git refs cannot contain ":", so the first ":" after "#" ends the ref.
+ */
+export function formatGitFileId(config: GitSourceConfig): string {
+  return `git:${config.repo}#${config.commit || config.ref || DEFAULT_GIT_REF}:${config.path}`;
+}
+
+export function parseGitFileId(fileId: string): GitSourceConfig {
+  const rest = fileId.replace(/^git:/, '');
+  const hash = rest.indexOf('#');
+  const colon = rest.indexOf(':', hash + 1);
+  if (hash === -1 || colon === -1) {
+    throw new Error(`Invalid git file identifier: ${fileId}`);
+  }
+  const ref = rest.substring(hash + 1, colon);
+  return {
+    repo: rest.substring(0, hash),
+    ref,
+    path: rest.substring(colon + 1),
+    ...(FULL_SHA.test(ref) ? { commit: ref } : {})
+  };
+}
+
+function runGit(args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, {
+      encoding: 'buffer',
+      maxBuffer: 256 * 1024 * 1024,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+    }, (err: any, stdout, stderr) => {
+      if (err) {
+        if (err.code === 'ENOENT') {
+          reject(new Error('git not found. Install git to use from_git sources.'));
+          return;
+        }
+        const detail = stderr.toString('utf8').trim() || err.message;
+        reject(Object.assign(new Error(detail), { gitFailed: true }));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+export class GitSourceManager {
+  public basePath: string; // Local repository paths resolve against this
+  private cacheDir: string;
+  private offline: boolean; // Only use mirrors already in the cache, never fetch
+  private mirrors = new Map<string, Promise<string>>(); // repo -> mirror directory, cloned if missing
+  private fetches = new Map<string, Promise<string>>(); // repo -> mirror directory, fetched this run
+  private commits = new Map<string, Promise<string>>(); // repo + ref -> commit
+  private resolvedPins = new Map<string, GitSourcePin>();
+
+  constructor(options: { basePath?: string; cacheDir?: string; offline?: boolean } = {}) {
+    this.basePath = options.basePath || process.cwd();
+    this.cacheDir = options.cacheDir || gitCacheDir();
+    this.offline = options.offline || false;
+  }
+
+  /**
+   * Resolves the config's ref to a commit, fetching the repository on first use
+   */
+  async resolveCommit(config: GitSourceConfig): Promise<string> {
+    if (config.commit) {
+      return config.commit;
+    }
+    const ref = config.ref || DEFAULT_GIT_REF;
+    const key = `${config.repo}#${ref}`;
+    let commit = this.commits.get(key);
+    if (!commit) {
+      commit = this.lookupCommit(config.repo, ref);
+      this.commits.set(key, commit);
+    }
+    const resolved = await commit;
+    this.resolvedPins.set(key, { repo: config.repo, ref, commit: resolved });
+    return resolved;
+  }
+
+  /**
+   * Every repo + ref resolved so far, with its pinned commit
+   */
+  get pins(): GitSourcePin[] {
+    return [...this.resolvedPins.values()];
+  }
+
+  async readFile(config: GitSourceConfig): Promise<string> {
+    return (await this.readBinary(config)).toString('utf8');
+  }
+
+  async readBinary(config: GitSourceConfig): Promise<Buffer> {
+    const commit = await this.resolveCommit(config);
+    const mirror = await this.mirror(config.repo, commit);
+    const filePath = config.path.replace(/^\.?\/+/, '');
+    try {
+      return await runGit(['--git-dir', mirror, 'show', `${commit}:${filePath}`]);
+    } catch (err: any) {
+      if (!err.gitFailed) throw err;
+      throw new Error(`File ${filePath} does not exist in ${config.repo} at ${config.ref || DEFAULT_GIT_REF} (commit ${commit.substring(0, 12)})`);
+    }
+  }
+
+  /**
+   * Files directly under the directory of a prefix whose path starts with the prefix,
+   * the same listing semantics as bucket globs
+   */
+  async listFiles(config: GitSourceConfig, prefix: string): Promise<string[]> {
+    const commit = await this.resolveCommit(config);
+    const mirror = await this.mirror(config.repo, commit);
+    const cleanPrefix = prefix.replace(/^\.?\/+/, '');
+    const dir = cleanPrefix.substring(0, cleanPrefix.lastIndexOf('/') + 1);
+    const output = (await runGit(['--git-dir', mirror, 'ls-tree', '-z', commit, ...(dir ? ['--', dir] : [])])).toString('utf8');
+
+    return output.split('\0')
+      .filter(entry => entry)
+      .map(entry => {
+        const [info, filePath] = entry.split('\t');
+        return { type: info.split(' ')[1], filePath };
+      })
+      .filter(entry => entry.type === 'blob' && entry.filePath.startsWith(cleanPrefix))
+      .map(entry => entry.filePath)
+      .sort();
+  }
+
+  private repoLocation(repo: string): string {
+    return isRemoteGitUrl(repo) ? repo : path.resolve(this.basePath, repo);
+  }
+
+  private async lookupCommit(repo: string, ref: string): Promise<string> {
+    const mirror = await this.mirror(repo, FULL_SHA.test(ref) ? ref : undefined);
+    try {
+      return (await runGit(['--git-dir', mirror, 'rev-parse', '--verify', '--quiet', `${ref}^{commit}`])).toString('utf8').trim();
+    } catch (err: any) {
+      if (!err.gitFailed) throw err;
+      throw new Error(`Ref "${ref}" does not exist in ${repo}. Use a branch, tag or commit SHA.`);
+    }
+  }
+
+  /**
+   * Bare mirror of the repository in the cache. Fetched once per run, except when a
+   * wanted commit is already in the cache or the run is offline. A lookup that skipped
+   * the fetch does not count, so a later branch or tag still sees the latest commits.
+   */
+  private async mirror(repo: string, wantedCommit?: string): Promise<string> {
+    const fetched = this.fetches.get(repo);
+    if (fetched) return fetched;
+
+    let opened = this.mirrors.get(repo);
+    if (!opened) {
+      opened = this.openMirror(repo);
+      this.mirrors.set(repo, opened);
+    }
+    const mirrorDir = await opened;
+    if (this.offline) return mirrorDir;
+
+    if (wantedCommit) {
+      const present = await runGit(['--git-dir', mirrorDir, 'cat-file', '-e', `${wantedCommit}^{commit}`])
+        .then(() => true, () => false);
+      if (present) return mirrorDir;
+    }
+
+    let fetch = this.fetches.get(repo);
+    if (!fetch) {
+      fetch = this.fetchMirror(repo, mirrorDir);
+      this.fetches.set(repo, fetch);
+    }
+    return fetch;
+  }
+
+  /**
+   * Mirror directory for a repository, cloned into the cache if it is not there yet.
+   * A fresh clone counts as this run's fetch.
+   */
+  private async openMirror(repo: string): Promise<string> {
+    const location = this.repoLocation(repo);
+    const mirrorDir = path.join(this.cacheDir, `${crypto.createHash('sha256').update(location).digest('hex').substring(0, 16)}.git`);
+
+    if (fs.existsSync(path.join(mirrorDir, 'HEAD'))) {
+      markUsed(mirrorDir);
+      return mirrorDir;
+    }
+    if (this.offline) {
+      throw new Error(`Cannot read git repository ${repo} offline: it is not in the local cache. Run once without --offline to cache it.`);
+    }
+
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      fs.rmSync(mirrorDir, { recursive: true, force: true });
+      await runGit(['clone', '--quiet', '--mirror', location, mirrorDir]);
+    } catch (err: any) {
+      if (!err.gitFailed) throw err;
+      throw new Error(`Failed to fetch git repository ${repo}: ${err.message}`);
+    }
+    this.fetches.set(repo, Promise.resolve(mirrorDir));
+    return mirrorDir;
+  }
+
+  private async fetchMirror(repo: string, mirrorDir: string): Promise<string> {
+    try {
+      await runGit(['--git-dir', mirrorDir, 'fetch', '--quiet', '--prune', 'origin']);
+    } catch (err: any) {
+      if (!err.gitFailed) throw err;
+      throw new Error(`Failed to fetch git repository ${repo}: ${err.message}`);
+    }
+    markUsed(mirrorDir);
+    return mirrorDir;
+  }
+}
+
+/**
+ * Records a mirror's last use in its modification time, for cache listing and pruning
+ */
+function markUsed(mirrorDir: string): void {
+  try {
+    const now = new Date();
+    fs.utimesSync(mirrorDir, now, now);
+  } catch {
+    // Ignore
+  }
+}
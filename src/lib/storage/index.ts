@@ -1,3 +1,11 @@
 export * from './storage-backend';
 export * from './storage-error-handler';
 export * from './bucket-config-validator';
+export * from './s3-storage-backend';
+export * from './storage-provider';
+export * from './git-source';
+export * from './git-config-validator';
+export * from './cache-dir';
+export * from './content-cache';
+export * from './url-source';
+export * from './url-config-validator';
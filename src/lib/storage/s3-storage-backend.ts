@@ -0,0 +1,431 @@
+/**
+ * S3-compatible storage backend (AWS S3, MinIO, Cloudflare R2, ...)
+ *
+ * Talks to the S3 REST API directly with SigV4-signed requests, so no AWS SDK is needed.
+ * Credentials, region and endpoint come from the standard AWS environment variables or
+ * from a profile in ~/.aws/credentials and ~/.aws/config.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { warn } from '../shared/logger';
+import { StorageErrorHandler } from './storage-error-handler';
+import type { BucketConfig } from './storage-backend';
+import type { StorageObjectInfo, StorageProvider } from './storage-provider';
+
+export interface S3ConnectionOptions {
+  endpoint?: string; // Custom endpoint for MinIO, R2, etc.; defaults to AWS
+  region?: string;
+  profile?: string; // Profile in the AWS shared credentials/config files
+  forcePathStyle?: boolean; // Defaults to true when a custom endpoint is set
+}
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface S3SignableRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+}
+
+const DEFAULT_REGION = 'us-east-1';
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+/**
+ * Check if S3 credentials are available from the environment or a profile
+ */
+export function hasS3Config(env: NodeJS.ProcessEnv = process.env): boolean {
+  try {
+    resolveS3Credentials(undefined, env);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses an AWS shared config/credentials INI file into sections
+ */
+export function parseIniFile(content: string): Record<string, Record<string, string>> {
+  const sections: Record<string, Record<string, string>> = {};
+  let current: Record<string, string> | undefined;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+    const header = line.match(/^\[\s*(.+?)\s*\]$/);
+    if (header) {
+      current = sections[header[1]] = sections[header[1]] || {};
+      continue;
+    }
+    const separator = line.indexOf('=');
+    if (current && separator > 0) {
+      current[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  }
+  return sections;
+}
+
+function readIniFile(filePath: string): Record<string, Record<string, string>> {
+  return fs.existsSync(filePath) ? parseIniFile(fs.readFileSync(filePath, 'utf8')) : {};
+}
+
+function awsFilePaths(env: NodeJS.ProcessEnv): { credentials: string; config: string } {
+  return {
+    credentials: env.AWS_SHARED_CREDENTIALS_FILE || path.join(os.homedir(), '.aws', 'credentials'),
+    config: env.AWS_CONFIG_FILE || path.join(os.homedir(), '.aws', 'config')
+  };
+}
+
+/**
+ * Settings for a profile, merged from the credentials file and the config file
+ * (where non-default profiles are written as [profile name])
+ */
+function readProfile(profile: string, env: NodeJS.ProcessEnv): Record<string, string> {
+  const files = awsFilePaths(env);
+  const config = readIniFile(files.config);
+  const configSection = (profile === 'default' ? config.default : config[`profile ${profile}`]) || config[profile] || {};
+  return { ...configSection, ...(readIniFile(files.credentials)[profile] || {}) };
+}
+
+function profileName(profile: string | undefined, env: NodeJS.ProcessEnv): string {
+  return profile || env.AWS_PROFILE || 'default';
+}
+
+/**
+ * Resolves credentials: AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY first (unless a profile
+ * is named explicitly), then the profile from AWS_PROFILE or "default"
+ */
+export function resolveS3Credentials(profile?: string, env: NodeJS.ProcessEnv = process.env): S3Credentials {
+  if (!profile && env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY) {
+    return {
+      accessKeyId: env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+      ...(env.AWS_SESSION_TOKEN ? { sessionToken: env.AWS_SESSION_TOKEN } : {})
+    };
+  }
+
+  const name = profileName(profile, env);
+  const settings = readProfile(name, env);
+  if (settings.aws_access_key_id && settings.aws_secret_access_key) {
+    return {
+      accessKeyId: settings.aws_access_key_id,
+      secretAccessKey: settings.aws_secret_access_key,
+      ...(settings.aws_session_token ? { sessionToken: settings.aws_session_token } : {})
+    };
+  }
+
+  const files = awsFilePaths(env);
+  throw new Error(
+    `Missing S3 credentials. No access keys found for profile '${name}' in ${files.credentials} or ${files.config}.\n\n` +
+    'Set them with:\n' +
+    'export AWS_ACCESS_KEY_ID=your_access_key\n' +
+    'export AWS_SECRET_ACCESS_KEY=your_secret_key\n\n' +
+    'Or add a profile to ~/.aws/credentials and reference it with AWS_PROFILE or from_bucket.profile.'
+  );
+}
+
+/**
+ * Region from the bucket config, AWS_REGION/AWS_DEFAULT_REGION, the profile, then us-east-1
+ */
+export function resolveS3Region(options: S3ConnectionOptions = {}, env: NodeJS.ProcessEnv = process.env): string {
+  return options.region ||
+    env.AWS_REGION ||
+    env.AWS_DEFAULT_REGION ||
+    readProfile(profileName(options.profile, env), env).region ||
+    DEFAULT_REGION;
+}
+
+/**
+ * Custom endpoint from the bucket config, AWS_ENDPOINT_URL_S3/AWS_ENDPOINT_URL, or the
+ * profile's endpoint_url; undefined means AWS itself
+ */
+export function resolveS3Endpoint(options: S3ConnectionOptions = {}, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  return options.endpoint ||
+    env.AWS_ENDPOINT_URL_S3 ||
+    env.AWS_ENDPOINT_URL ||
+    readProfile(profileName(options.profile, env), env).endpoint_url ||
+    undefined;
+}
+
+// RFC 3986 encoding as required by SigV4
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(uriEncode).join('/');
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Signs a request with AWS Signature Version 4 and returns the headers to send,
+ * including x-amz-date, x-amz-content-sha256 and authorization
+ */
+export function signS3Request(
+  request: S3SignableRequest,
+  credentials: S3Credentials,
+  region: string,
+  date: Date = new Date()
+): Record<string, string> {
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const shortDate = amzDate.substring(0, 8);
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.url.host,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': amzDate
+  };
+  if (credentials.sessionToken) {
+    headers['x-amz-security-token'] = credentials.sessionToken;
+  }
+
+  const canonicalHeaders = Object.keys(headers)
+    .map(name => [name.toLowerCase(), String(headers[name]).trim().replace(/\s+/g, ' ')])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaders = canonicalHeaders.map(([name]) => name).join(';');
+  const canonicalQuery = Array.from(request.url.searchParams.entries())
+    .map(([key, value]) => [uriEncode(key), uriEncode(value)])
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname || '/',
+    canonicalQuery,
+    canonicalHeaders.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    request.payloadHash
+  ].join('\n');
+
+  const scope = `${shortDate}/${region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, shortDate), region), 's3'), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+export class S3StorageBackend {
+  private credentials?: S3Credentials;
+  private region: string;
+  private endpoint?: URL;
+  private forcePathStyle: boolean;
+
+  constructor(private options: S3ConnectionOptions = {}, private env: NodeJS.ProcessEnv = process.env) {
+    this.region = resolveS3Region(options, env);
+
+    const endpoint = resolveS3Endpoint(options, env);
+    if (endpoint) {
+      try {
+        this.endpoint = new URL(endpoint);
+      } catch {
+        throw new Error(
+          `Invalid S3 endpoint: ${endpoint}\n` +
+          'Expected a URL such as http://localhost:9000 or https://<account>.r2.cloudflarestorage.com'
+        );
+      }
+    }
+    this.forcePathStyle = options.forcePathStyle ?? Boolean(this.endpoint);
+  }
+
+  async readFromBucket(bucket: string, key: string): Promise<string> {
+    const body = await this.getObject(bucket, key);
+    if (body.length <= 40) {
+      warn(`Warning: File '${key}' in bucket '${bucket}' is very small (${body.length} bytes). Check file has meaningful content.`);
+    }
+    return body.toString('utf8');
+  }
+
+  async downloadBinaryFromBucket(bucket: string, key: string): Promise<Buffer> {
+    return this.getObject(bucket, key);
+  }
+
+  /**
+   * Lists objects under a prefix without descending into sub-folders, like the
+   * Supabase backend; follows continuation tokens past 1000 keys
+   */
+  async listFiles(bucket: string, pathPrefix: string = ''): Promise<string[]> {
+    return (await this.listObjects(bucket, pathPrefix)).map(object => object.path);
+  }
+
+  /**
+   * Same listing as listFiles, with each object's size, modification time and ETag
+   */
+  async listObjects(bucket: string, pathPrefix: string = ''): Promise<StorageObjectInfo[]> {
+    const objects: StorageObjectInfo[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const query: Record<string, string> = { 'list-type': '2', delimiter: '/', prefix: pathPrefix };
+      if (continuationToken) query['continuation-token'] = continuationToken;
+
+      const xml = (await this.send('GET', bucket, '', query, 'list', pathPrefix)).body.toString('utf8');
+      for (const contents of xml.match(/<Contents>[\s\S]*?<\/Contents>/g) || []) {
+        const key = xmlValue(contents, 'Key');
+        if (!key || key.endsWith('/')) continue;
+        const size = xmlValue(contents, 'Size');
+        const lastModified = xmlValue(contents, 'LastModified');
+        const etag = xmlValue(contents, 'ETag');
+        objects.push({
+          path: key,
+          ...(size !== undefined ? { size: Number(size) } : {}),
+          ...(lastModified ? { lastModified: new Date(lastModified) } : {}),
+          ...(etag ? { etag } : {})
+        });
+      }
+      continuationToken = xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') : undefined;
+    } while (continuationToken);
+    return objects;
+  }
+
+  /**
+   * URL for a bucket/key: path-style for custom endpoints and dotted bucket names
+   * (which break TLS on virtual hosts), virtual-hosted style on AWS otherwise
+   */
+  objectUrl(bucket: string, key: string = ''): URL {
+    const base = this.endpoint || new URL(`https://s3.${this.region}.amazonaws.com`);
+    const basePath = base.pathname.replace(/\/+$/, '');
+    const url = new URL(base.toString());
+    if (this.forcePathStyle || bucket.includes('.')) {
+      url.pathname = `${basePath}/${uriEncode(bucket)}/${encodeKey(key)}`;
+    } else {
+      url.hostname = `${bucket}.${url.hostname}`;
+      url.pathname = `${basePath}/${encodeKey(key)}`;
+    }
+    return url;
+  }
+
+  /**
+   * Object metadata from a HEAD request, without downloading the body
+   */
+  async statObject(bucket: string, key: string): Promise<StorageObjectInfo> {
+    const { headers } = await this.send('HEAD', bucket, key, {}, 'stat', key);
+    const size = headers.get('content-length');
+    const lastModified = headers.get('last-modified');
+    return {
+      path: key,
+      ...(size !== null ? { size: Number(size) } : {}),
+      ...(lastModified ? { lastModified: new Date(lastModified) } : {}),
+      ...(headers.get('etag') ? { etag: headers.get('etag')! } : {})
+    };
+  }
+
+  private async getObject(bucket: string, key: string): Promise<Buffer> {
+    return (await this.send('GET', bucket, key, {}, 'download', key)).body;
+  }
+
+  private async send(
+    method: string,
+    bucket: string,
+    key: string,
+    query: Record<string, string>,
+    operation: string,
+    filePath: string
+  ): Promise<{ body: Buffer; headers: Headers }> {
+    const context = { provider: 's3', operation, bucket, filePath };
+    if (!this.credentials) {
+      this.credentials = resolveS3Credentials(this.options.profile, this.env);
+    }
+
+    const url = this.objectUrl(bucket, key);
+    for (const [name, value] of Object.entries(query)) {
+      url.searchParams.set(name, value);
+    }
+    const headers = signS3Request({ method, url, headers: {}, payloadHash: EMPTY_PAYLOAD_HASH }, this.credentials, this.region);
+    delete headers.host; // Set by fetch from the URL
+
+    let response: Response;
+    try {
+      response = await fetch(url, { method, headers });
+    } catch (err: any) {
+      StorageErrorHandler.handleProviderError(err.cause || err, context);
+    }
+
+    const body = Buffer.from(await response.arrayBuffer());
+    if (!response.ok) {
+      const xml = body.toString('utf8');
+      StorageErrorHandler.handleProviderError({
+        status: response.status,
+        code: xmlValue(xml, 'Code'),
+        message: xmlValue(xml, 'Message') || response.statusText
+      }, context);
+    }
+    return { body, headers: response.headers };
+  }
+}
+
+/**
+ * from_bucket provider "s3": one backend per distinct connection setting
+ */
+export class S3StorageProvider implements StorageProvider {
+  private backends = new Map<string, S3StorageBackend>();
+
+  constructor(private env: NodeJS.ProcessEnv = process.env) {}
+
+  read(config: BucketConfig): Promise<string> {
+    return this.backend(config).readFromBucket(config.bucket, config.path);
+  }
+
+  readBinary(config: BucketConfig): Promise<Buffer> {
+    return this.backend(config).downloadBinaryFromBucket(config.bucket, config.path);
+  }
+
+  list(config: BucketConfig, prefix: string): Promise<string[]> {
+    return this.backend(config).listFiles(config.bucket, prefix);
+  }
+
+  stat(config: BucketConfig): Promise<StorageObjectInfo> {
+    return this.backend(config).statObject(config.bucket, config.path);
+  }
+
+  listObjects(config: BucketConfig, prefix: string): Promise<StorageObjectInfo[]> {
+    return this.backend(config).listObjects(config.bucket, prefix);
+  }
+
+  private backend(config: BucketConfig): S3StorageBackend {
+    const options: S3ConnectionOptions = {
+      endpoint: config.endpoint,
+      region: config.region,
+      profile: config.profile,
+      forcePathStyle: config.force_path_style
+    };
+    const key = JSON.stringify(options);
+    let backend = this.backends.get(key);
+    if (!backend) {
+      backend = new S3StorageBackend(options, this.env);
+      this.backends.set(key, backend);
+    }
+    return backend;
+  }
+}
@@ -11,9 +11,61 @@ export interface StorageBackend {
 }
 
 export interface BucketConfig {
-  provider: 'supabase'; // TODO: Add 's3' | 'gcs' support
+  provider: string; // supabase, s3, or a provider declared under storage_providers
   bucket: string;
   path: string;
+  // S3 only; each falls back to the AWS environment variables or profile
+  endpoint?: string;
+  region?: string;
+  profile?: string;
+  force_path_style?: boolean;
+  [option: string]: any; // Fields defined by custom providers
+}
+
+const LOCATION_FIELDS = ['provider', 'bucket', 'path'];
+
+/**
+ * Identifier for a bucket file in folder diffs. Supabase files keep the original
+ * "bucket:<bucket>/<path>" form; other providers are written as
+ * "bucket:<provider>://<bucket>/<path>" with their other fields (S3 connection
+ * settings, custom provider options) as a query string.
+ */
+export function formatBucketFileId(config: BucketConfig): string {
+  if (config.provider === 'supabase') {
+    return `bucket:${config.bucket}/${config.path}`;
+  }
+  const query = new URLSearchParams();
+  for (const [field, value] of Object.entries(config)) {
+    if (!LOCATION_FIELDS.includes(field) && value !== undefined) query.set(field, String(value));
+  }
+  const queryString = query.toString();
+  return `bucket:${config.provider}://${config.bucket}/${config.path}${queryString ? `?${queryString}` : ''}`;
+}
+
+/**
+ * Parses an identifier written by formatBucketFileId back into a bucket config
+ */
+export function parseBucketFileId(fileId: string): BucketConfig {
+  let rest = fileId.replace(/^bucket:/, '');
+  let provider = 'supabase';
+  const scheme = rest.match(/^([a-z][a-z0-9_-]*):\/\//);
+  const options: Record<string, string | boolean> = {};
+
+  if (scheme) {
+    provider = scheme[1];
+    rest = rest.substring(scheme[0].length);
+    const queryStart = rest.lastIndexOf('?');
+    if (queryStart !== -1) {
+      const query = new URLSearchParams(rest.substring(queryStart + 1));
+      rest = rest.substring(0, queryStart);
+      for (const [field, value] of query) {
+        options[field] = value === 'true' || value === 'false' ? value === 'true' : value;
+      }
+    }
+  }
+
+  const [bucket, ...pathParts] = rest.split('/');
+  return { provider, bucket, path: pathParts.join('/'), ...options };
 }
 
 /**
@@ -28,14 +80,71 @@ export function hasSupabaseConfig(): boolean {
  */
 export class StorageBackendManager {
   private backends: StorageBackend[] = [];
-  private supabaseBackend?: SupabaseStorageBackend;
+  private gitSourceManager?: GitSourceManager;
+  private urlSourceManager?: UrlSourceManager;
+  private cache?: ContentCache;
+  private offline: boolean; // Serve bucket and URL content from the cache only
+  private objectVersions = new Map<string, string | undefined>(); // bucket file id -> version seen this run
+  // from_bucket providers keyed by provider name; fleets register custom ones from storage_providers
+  readonly providers = new StorageProviderRegistry();
   
-  constructor(options: { supabaseBackend?: SupabaseStorageBackend } = {}) {
+  constructor(options: {
+    supabaseBackend?: SupabaseStorageBackend;
+    gitSources?: GitSourceManager;
+    contentCache?: ContentCache;
+    offline?: boolean;
+  } = {}) {
     // Always include filesystem backend
     this.backends.push(new FileSystemBackend());
     
-    // Store Supabase backend separately since it has different interface
-    this.supabaseBackend = options.supabaseBackend;
+    // Built-in bucket providers; Supabase credentials are only checked once a fleet reads from it
+    this.providers.register('supabase', () => new SupabaseStorageProvider(options.supabaseBackend || new SupabaseStorageBackend()));
+    this.providers.register('s3', () => new S3StorageProvider());
+    this.gitSourceManager = options.gitSources;
+    this.cache = options.contentCache;
+    this.offline = options.offline || false;
+  }
+
+  /**
+   * Git repository sources (from_git); local repository paths resolve against the
+   * working directory unless a manager with the fleet root was passed in
+   */
+  get gitSources(): GitSourceManager {
+    if (!this.gitSourceManager) {
+      this.gitSourceManager = new GitSourceManager();
+    }
+    return this.gitSourceManager;
+  }
+
+  /**
+   * Read text from an HTTP(S) URL, verifying its sha256 when one is pinned
+   */
+  async readFromUrl(config: UrlSourceConfig): Promise<string> {
+    return this.urlSources.readFile(config);
+  }
+
+  /**
+   * Download binary content from an HTTP(S) URL (for PDFs, images, etc.)
+   */
+  async downloadBinaryFromUrl(config: UrlSourceConfig): Promise<Buffer> {
+    return this.urlSources.readBinary(config);
+  }
+
+  private get urlSources(): UrlSourceManager {
+    if (!this.urlSourceManager) {
+      this.urlSourceManager = new UrlSourceManager({ cache: this.contentCache, offline: this.offline });
+    }
+    return this.urlSourceManager;
+  }
+
+  /**
+   * On-disk cache shared by bucket objects and URL responses
+   */
+  get contentCache(): ContentCache {
+    if (!this.cache) {
+      this.cache = new ContentCache();
+    }
+    return this.cache;
   }
   
   async readContent(uri: string): Promise<string> {
@@ -55,64 +164,138 @@ export class StorageBackendManager {
   }
   
   /**
-   * Convert bucket config to URI for backend routing
+   * Read text content from the config's bucket provider
    */
   async readFromBucket(config: BucketConfig): Promise<string> {
     // Validate bucket config structure
     this.validateBucketConfig(config);
+    const content = await this.readBucketObject(config, async provider => Buffer.from(await provider.read(config), 'utf8'));
+    return content.toString('utf8');
+  }
 
-    if (config.provider === 'supabase') {
-      if (!this.supabaseBackend) {
-        throw new Error('Supabase backend not configured');
-      }
-      return this.supabaseBackend.readFromBucket(config.bucket, config.path);
-    }
-    // Check for common typos
-    const provider = String(config.provider).toLowerCase();
-    if (provider.includes('supab') || provider.includes('suapb')) {
-      throw new Error(`Provider '${config.provider}' not recognized. Did you mean 'supabase'?`);
+  /**
+   * Download binary file from bucket (for PDFs, images, etc.)
+   */
+  async downloadBinaryFromBucket(config: BucketConfig): Promise<Buffer> {
+    this.validateBucketConfig(config);
+    return this.readBucketObject(config, provider => provider.readBinary(config));
+  }
+
+  /**
+   * List files in the config's bucket with optional prefix filter. Offline, lists the
+   * files under the prefix that are in the content cache.
+   */
+  async listBucketFiles(config: BucketConfig, prefix: string = ''): Promise<string[]> {
+    if (this.offline) {
+      return this.listCachedBucketFiles(config, prefix);
     }
 
-    // TODO: Add s3, gcs support
-    throw new Error(`Provider '${config.provider}' not yet supported. Supported: supabase. Coming soon: s3, gcs`);
+    return this.withProvider(config, 'list', prefix, async provider => {
+      if (!provider.listObjects) {
+        return provider.list(config, prefix);
+      }
+      // Versions from the listing spare a stat per file when the files are read
+      const objects = await provider.listObjects(config, prefix);
+      for (const object of objects) {
+        this.objectVersions.set(formatBucketFileId({ ...config, path: object.path }), storageObjectVersion(object));
+      }
+      return objects.map(object => object.path);
+    });
   }
 
   /**
-   * Download binary file from bucket (for PDFs, images, etc.)
+   * Size, modification time and ETag of a bucket file, without downloading it
    */
-  async downloadBinaryFromBucket(config: BucketConfig): Promise<Buffer> {
+  async statBucketFile(config: BucketConfig): Promise<StorageObjectInfo> {
     this.validateBucketConfig(config);
+    return this.withProvider(config, 'stat', config.path, provider => provider.stat(config));
+  }
 
-    if (config.provider === 'supabase') {
-      if (!this.supabaseBackend) {
-        throw new Error('Supabase backend not configured');
+  /**
+   * Download text content from bucket
+   */
+  async downloadFromBucket(config: BucketConfig): Promise<string> {
+    return this.readFromBucket(config);
+  }
+
+  /**
+   * Reads an object through the content cache: cached content is used while the
+   * object's version (ETag or modification time) is unchanged
+   */
+  private async readBucketObject(config: BucketConfig, download: (provider: StorageProvider) => Promise<Buffer>): Promise<Buffer> {
+    const key = formatBucketFileId(config);
+
+    if (this.offline) {
+      const cached = this.contentCache.get(key);
+      if (!cached) {
+        throw new Error(
+          `Cannot read ${config.bucket}/${config.path} (${config.provider}) offline: it is not in the local cache. ` +
+          'Run once without --offline to cache it.'
+        );
       }
-      return this.supabaseBackend.downloadBinaryFromBucket(config.bucket, config.path);
+      return cached;
     }
 
-    const provider = String(config.provider).toLowerCase();
-    if (provider.includes('supab') || provider.includes('suapb')) {
-      throw new Error(`Provider '${config.provider}' not recognized. Did you mean 'supabase'?`);
+    const version = await this.bucketObjectVersion(config, key);
+    const cached = version ? this.contentCache.get(key, version) : undefined;
+    if (cached) {
+      return cached;
     }
 
-    throw new Error(`Provider '${config.provider}' not yet supported. Supported: supabase. Coming soon: s3, gcs`);
+    const content = await this.withProvider(config, 'download', config.path, download);
+    if (version) {
+      this.contentCache.put(key, content, version);
+    }
+    return content;
   }
 
   /**
-   * List files in a bucket with optional prefix filter
+   * Current version of an object, looked up once per run. A failed lookup only skips
+   * the cache; the download then reports what is wrong.
    */
-  async listBucketFiles(bucket: string, prefix: string = ''): Promise<string[]> {
-    if (!this.supabaseBackend) {
-      throw new Error('Supabase backend not configured');
+  private async bucketObjectVersion(config: BucketConfig, key: string): Promise<string | undefined> {
+    if (!this.objectVersions.has(key)) {
+      try {
+        const info = await this.withProvider(config, 'stat', config.path, provider => provider.stat(config));
+        this.objectVersions.set(key, storageObjectVersion(info));
+      } catch {
+        this.objectVersions.set(key, undefined);
+      }
     }
-    return this.supabaseBackend.listFiles(bucket, prefix);
+    return this.objectVersions.get(key);
+  }
+
+  private listCachedBucketFiles(config: BucketConfig, prefix: string): string[] {
+    const dirLength = prefix.lastIndexOf('/') + 1;
+    return this.contentCache.list()
+      .filter(entry => entry.key.startsWith('bucket:'))
+      .map(entry => ({ key: entry.key, filePath: parseBucketFileId(entry.key).path }))
+      .filter(({ key, filePath }) =>
+        filePath.startsWith(prefix) &&
+        !filePath.substring(dirLength).includes('/') &&
+        formatBucketFileId({ ...config, path: filePath }) === key
+      )
+      .map(({ filePath }) => filePath)
+      .sort();
   }
 
   /**
-   * Download text content from bucket
+   * Runs an operation on the config's provider. Whatever a provider throws comes out
+   * as a StorageError with the same message format for every provider.
    */
-  async downloadFromBucket(config: BucketConfig): Promise<string> {
-    return this.readFromBucket(config);
+  private withProvider<T>(
+    config: BucketConfig,
+    operation: string,
+    filePath: string,
+    run: (provider: StorageProvider) => Promise<T>
+  ): Promise<T> {
+    const provider = this.providers.get(config.provider);
+    return StorageErrorHandler.wrapStorageOperation(() => run(provider), {
+      provider: config.provider,
+      operation,
+      bucket: config.bucket,
+      filePath
+    });
   }
 
   private validateBucketConfig(config: any): void {
@@ -198,6 +381,11 @@ export class FileSystemBackend implements StorageBackend {
  */
 import { createClient } from '@supabase/supabase-js'
 import { StorageErrorHandler } from './storage-error-handler'
+import { S3StorageProvider } from './s3-storage-backend'
+import { StorageObjectInfo, StorageProvider, StorageProviderRegistry, storageObjectVersion } from './storage-provider'
+import { ContentCache } from './content-cache'
+import { GitSourceManager } from './git-source'
+import { UrlSourceManager, UrlSourceConfig } from './url-source'
 
 export class SupabaseStorageBackend {
   private supabase: any
@@ -366,7 +554,41 @@ export class SupabaseStorageBackend {
     }
   }
 
+  async statFile(bucket: string, filePath: string): Promise<StorageObjectInfo> {
+    const context = { provider: 'supabase', operation: 'stat', bucket, filePath };
+    const pathParts = filePath.split('/');
+    const fileName = pathParts.pop();
+    const folder = pathParts.join('/') || '';
+
+    const { data, error } = await this.supabase.storage
+      .from(bucket)
+      .list(folder, { search: fileName, limit: 100 });
+
+    if (error) {
+      StorageErrorHandler.handleProviderError(error, context);
+    }
+
+    const fileInfo = (data || []).find((f: any) => f.name === fileName);
+    if (!fileInfo) {
+      StorageErrorHandler.handleHttpError({}, context, 404);
+    }
+
+    return {
+      path: filePath,
+      ...(fileInfo.metadata?.size !== undefined ? { size: fileInfo.metadata.size } : {}),
+      ...(fileInfo.updated_at ? { lastModified: new Date(fileInfo.updated_at) } : {}),
+      ...(fileInfo.metadata?.eTag ? { etag: fileInfo.metadata.eTag } : {})
+    };
+  }
+
   async listFiles(bucket: string, pathPrefix: string = ''): Promise<string[]> {
+    return (await this.listObjects(bucket, pathPrefix)).map(object => object.path)
+  }
+
+  /**
+   * Lists a folder with each file's size, modification time and ETag
+   */
+  async listObjects(bucket: string, pathPrefix: string = ''): Promise<StorageObjectInfo[]> {
     try {
       const { data, error } = await this.supabase.storage
         .from(bucket)
@@ -384,9 +606,12 @@ export class SupabaseStorageBackend {
         });
       }
       
-      return data?.map((file: any) => 
-        pathPrefix ? `${pathPrefix}/${file.name}` : file.name
-      ) || []
+      return data?.map((file: any) => ({
+        path: pathPrefix ? `${pathPrefix}/${file.name}` : file.name,
+        ...(file.metadata?.size !== undefined ? { size: file.metadata.size } : {}),
+        ...(file.updated_at ? { lastModified: new Date(file.updated_at) } : {}),
+        ...(file.metadata?.eTag ? { etag: file.metadata.eTag } : {})
+      })) || []
       
     } catch (err: any) {
       StorageErrorHandler.handleProviderError(err, {
@@ -397,4 +622,31 @@ export class SupabaseStorageBackend {
       });
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * from_bucket provider "supabase"
+ */
+export class SupabaseStorageProvider implements StorageProvider {
+  constructor(private backend: SupabaseStorageBackend) {}
+
+  read(config: BucketConfig): Promise<string> {
+    return this.backend.readFromBucket(config.bucket, config.path)
+  }
+
+  readBinary(config: BucketConfig): Promise<Buffer> {
+    return this.backend.downloadBinaryFromBucket(config.bucket, config.path)
+  }
+
+  list(config: BucketConfig, prefix: string): Promise<string[]> {
+    return this.backend.listFiles(config.bucket, prefix)
+  }
+
+  stat(config: BucketConfig): Promise<StorageObjectInfo> {
+    return this.backend.statFile(config.bucket, config.path)
+  }
+
+  listObjects(config: BucketConfig, prefix: string): Promise<StorageObjectInfo[]> {
+    return this.backend.listObjects(config.bucket, prefix)
+  }
+}
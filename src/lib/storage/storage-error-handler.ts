@@ -11,6 +11,53 @@ export interface StorageErrorContext {
   pattern?: string;
 }
 
+// Provider-independent failure categories, so callers never match on provider messages
+export type StorageErrorKind =
+  | 'not_found'
+  | 'bucket_not_found'
+  | 'unauthorized'
+  | 'access_denied'
+  | 'bad_request'
+  | 'rate_limited'
+  | 'unavailable'
+  | 'tls'
+  | 'unknown';
+
+/**
+ * Error raised for every storage provider failure. Messages always read
+ * "Failed to <operation> <bucket>/<path> (<provider>): <reason>".
+ */
+export class StorageError extends Error {
+  constructor(
+    public readonly kind: StorageErrorKind,
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+const STATUS_KINDS: Record<number, StorageErrorKind> = {
+  400: 'bad_request',
+  401: 'unauthorized',
+  403: 'access_denied',
+  404: 'not_found',
+  429: 'rate_limited'
+};
+
+// Node/filesystem style codes that custom providers commonly surface
+const CODE_STATUSES: Record<string, number> = {
+  ENOENT: 404,
+  NotFound: 404,
+  NoSuchKey: 404,
+  EACCES: 403,
+  EPERM: 403,
+  Forbidden: 403,
+  Unauthorized: 401
+};
+
 export class StorageErrorHandler {
   
   /**
@@ -21,12 +68,11 @@ export class StorageErrorHandler {
     context: StorageErrorContext,
     statusCode?: number
   ): never {
-    const { provider, operation, bucket, filePath } = context;
-    const resource = bucket && filePath ? `${bucket}/${filePath}` : bucket || filePath || 'resource';
+    const { provider, bucket, filePath } = context;
     
-    let errorMessage = `Failed to ${operation} ${resource} (${provider})`;
+    let errorMessage = this.messagePrefix(context);
     
-    const status = statusCode || err.status || err.originalError?.status;
+    const status = statusCode || err.status || err.statusCode || err.originalError?.status;
     
     switch (status) {
       case 400:
@@ -34,6 +80,7 @@ export class StorageErrorHandler {
           // Check if error indicates bucket doesn't exist
           if (err.message && (err.message.includes('bucket') || err.message.includes('not found'))) {
             errorMessage += `: Bucket '${bucket}' not found. Check: 1) bucket name is spelled correctly, 2) bucket exists in your Supabase project, 3) you're connected to the right project.`;
+            throw new StorageError('bucket_not_found', errorMessage, provider, status);
           } else {
             errorMessage += `: Bad request - this could be: 1) bucket '${bucket}' doesn't exist, 2) file '${filePath}' doesn't exist, 3) bucket is private (needs RLS policy or make bucket public), 4) wrong RLS policy configuration, 5) invalid file path '${filePath}', 6) malformed request, or 7) something else (Supabase error messages aren't clear here). Check: bucket exists, file exists, is public or has proper RLS, and file path is correct.`;
           }
@@ -73,7 +120,8 @@ export class StorageErrorHandler {
         }
     }
     
-    throw new Error(errorMessage);
+    const kind = STATUS_KINDS[status] || (status >= 500 && status < 600 ? 'unavailable' : 'unknown');
+    throw new StorageError(kind, errorMessage, provider, status);
   }
   
   /**
@@ -84,6 +132,10 @@ export class StorageErrorHandler {
     context: StorageErrorContext
   ): never {
     const { provider } = context;
+
+    if (err instanceof StorageError) {
+      throw err;
+    }
     
     switch (provider.toLowerCase()) {
       case 'supabase':
@@ -93,7 +145,7 @@ export class StorageErrorHandler {
       case 'gcs':
         return this.handleGCSError(err, context);
       default:
-        return this.handleGenericError(err, context);
+        return this.handleCustomProviderError(err, context);
     }
   }
   
@@ -107,17 +159,22 @@ export class StorageErrorHandler {
       const status = err.originalError?.status;
 
       if (status === 400) {
-        throw new Error(
-          `Failed to ${context.operation} ${context.bucket}/${context.filePath} (supabase): ` +
+        throw new StorageError(
+          'bucket_not_found',
+          `${this.messagePrefix(context)}: ` +
           `Bucket '${context.bucket}' not accessible. This could mean: 1) bucket doesn't exist, ` +
           `2) bucket is private and requires SUPABASE_SERVICE_ROLE_KEY instead of SUPABASE_ANON_KEY. ` +
-          `For private buckets, set SUPABASE_SERVICE_ROLE_KEY in your environment.`
+          `For private buckets, set SUPABASE_SERVICE_ROLE_KEY in your environment.`,
+          'supabase',
+          status
         );
       } else if (!err.originalError || Object.keys(err.originalError).length === 0) {
-        throw new Error(
-          `Failed to ${context.operation} ${context.bucket}/${context.filePath} (supabase): ` +
+        throw new StorageError(
+          'unauthorized',
+          `${this.messagePrefix(context)}: ` +
           'Authentication error. Check your Supabase credentials. ' +
-          'For private buckets, use SUPABASE_SERVICE_ROLE_KEY instead of SUPABASE_ANON_KEY.'
+          'For private buckets, use SUPABASE_SERVICE_ROLE_KEY instead of SUPABASE_ANON_KEY.',
+          'supabase'
         );
       }
     }
@@ -134,11 +191,13 @@ export class StorageErrorHandler {
         return this.handleHttpError(err, context, 404);
       }
       if (err.message.includes('Bucket not found') || err.message.includes('The resource you requested could not be found')) {
-        throw new Error(
-          `Failed to ${context.operation} ${context.bucket}/${context.filePath} (supabase): ` +
+        throw new StorageError(
+          'bucket_not_found',
+          `${this.messagePrefix(context)}: ` +
           `Bucket '${context.bucket}' not accessible. Check: 1) bucket name is correct, ` +
           `2) bucket exists in your Supabase project. If bucket is private, ` +
-          `use SUPABASE_SERVICE_ROLE_KEY instead of SUPABASE_ANON_KEY.`
+          `use SUPABASE_SERVICE_ROLE_KEY instead of SUPABASE_ANON_KEY.`,
+          'supabase'
         );
       }
     }
@@ -148,12 +207,47 @@ export class StorageErrorHandler {
   }
   
   /**
-   * Handle AWS S3-specific error patterns
-   * TODO: Implement when S3 backend is added
+   * Handle AWS S3-specific error patterns (error codes from the S3 XML error body)
    */
   private static handleS3Error(err: any, context: StorageErrorContext): never {
-    // S3-specific error handling will go here
-    // e.g., NoSuchBucket, NoSuchKey, AccessDenied, etc.
+    const prefix = this.messagePrefix(context);
+    const fail = (kind: StorageErrorKind, reason: string): never => {
+      throw new StorageError(kind, `${prefix}: ${reason}`, 's3', err.status);
+    };
+
+    switch (err.code) {
+      case 'NoSuchBucket':
+        return fail(
+          'bucket_not_found',
+          `Bucket '${context.bucket}' not found. Check: 1) bucket name is spelled correctly, ` +
+          `2) the region or endpoint points at the account that owns it.`
+        );
+      case 'NoSuchKey':
+        return this.handleHttpError(err, context, 404);
+      case 'AccessDenied':
+        return fail(
+          'access_denied',
+          `Access denied. Check the credentials have s3:GetObject and s3:ListBucket permissions on '${context.bucket}'.`
+        );
+      case 'InvalidAccessKeyId':
+      case 'SignatureDoesNotMatch':
+        return fail(
+          'unauthorized',
+          `Invalid credentials (${err.code}). Check AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY or the profile in ~/.aws/credentials.`
+        );
+      case 'ExpiredToken':
+        return fail('unauthorized', 'Session token expired. Refresh your AWS credentials and try again.');
+      case 'PermanentRedirect':
+      case 'AuthorizationHeaderMalformed':
+        return fail(
+          'bad_request',
+          `Bucket '${context.bucket}' is in a different region. Set region in from_bucket or AWS_REGION.`
+        );
+    }
+
+    if (err.status) {
+      return this.handleHttpError(err, context, err.status);
+    }
     return this.handleGenericError(err, context);
   }
   
@@ -165,36 +259,52 @@ export class StorageErrorHandler {
     // GCS-specific error handling will go here
     return this.handleGenericError(err, context);
   }
+
+  /**
+   * Handle errors from providers registered with storage_providers. They may throw
+   * anything, so HTTP statuses and common error codes are mapped onto the same kinds
+   * and messages as the built-in providers.
+   */
+  private static handleCustomProviderError(err: any, context: StorageErrorContext): never {
+    const status = err?.status || err?.statusCode || CODE_STATUSES[err?.code];
+    if (status) {
+      return this.handleHttpError(err, context, status);
+    }
+    return this.handleGenericError(err, context);
+  }
   
   /**
    * Generic error handling for unknown or unexpected errors
    */
   private static handleGenericError(err: any, context: StorageErrorContext): never {
-    const { provider, operation, bucket, filePath } = context;
-    const resource = bucket && filePath ? `${bucket}/${filePath}` : bucket || filePath || 'resource';
+    const { provider } = context;
+    const message = err?.message || (typeof err === 'string' ? err : JSON.stringify(err));
     
     // Handle SSL/certificate issues common in corporate environments
-    if (err.code === 'UNABLE_TO_VERIFY_LEAF_SIGNATURE' || 
-        err.code === 'CERT_UNTRUSTED' || 
-        err.code === 'SELF_SIGNED_CERT_IN_CHAIN' ||
-        err.message?.includes('certificate') ||
-        err.message?.includes('SSL') ||
-        err.message?.includes('TLS')) {
-      throw new Error(
-        `SSL/Certificate error connecting to ${provider}: ${err.message}. ` +
-        `If you're on a corporate network, try: 1) disconnect/reconnect VPN, 2) check with IT about certificate issues, 3) try from a different network.`
+    if (err?.code === 'UNABLE_TO_VERIFY_LEAF_SIGNATURE' || 
+        err?.code === 'CERT_UNTRUSTED' || 
+        err?.code === 'SELF_SIGNED_CERT_IN_CHAIN' ||
+        message.includes('certificate') ||
+        message.includes('SSL') ||
+        message.includes('TLS')) {
+      throw new StorageError(
+        'tls',
+        `${this.messagePrefix(context)}: SSL/Certificate error: ${message}. ` +
+        `If you're on a corporate network, try: 1) disconnect/reconnect VPN, 2) check with IT about certificate issues, 3) try from a different network.`,
+        provider
       );
     }
     
-    let errorMessage = `${provider} storage error while trying to ${operation} ${resource}`;
-    
-    if (err.message) {
-      errorMessage += `: ${err.message}`;
-    } else {
-      errorMessage += `: ${JSON.stringify(err)}`;
-    }
-    
-    throw new Error(errorMessage);
+    throw new StorageError('unknown', `${this.messagePrefix(context)}: ${message}`, provider);
+  }
+
+  /**
+   * Common start of every storage error message
+   */
+  private static messagePrefix(context: StorageErrorContext): string {
+    const { provider, operation, bucket, filePath } = context;
+    const resource = bucket && filePath ? `${bucket}/${filePath}` : bucket || filePath || 'resource';
+    return `Failed to ${operation} ${resource} (${provider})`;
   }
   
   /**
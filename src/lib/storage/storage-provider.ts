@@ -0,0 +1,137 @@
+/**
+ * Pluggable storage providers for from_bucket
+ *
+ * A provider reads objects addressed by a from_bucket config: bucket and path, plus any
+ * fields the provider defines. StorageBackendManager registers the built-in providers;
+ * fleets add their own under storage_providers, each backed by a local module.
+ */
+import * as path from 'path';
+import type { BucketConfig } from './storage-backend';
+
+export interface StorageObjectInfo {
+  path: string;
+  size?: number; // Bytes
+  lastModified?: Date;
+  etag?: string;
+}
+
+export interface StorageProvider {
+  read(config: BucketConfig): Promise<string>;
+  readBinary(config: BucketConfig): Promise<Buffer>;
+  list(config: BucketConfig, prefix: string): Promise<string[]>; // Object paths directly under the prefix's folder
+  stat(config: BucketConfig): Promise<StorageObjectInfo>;
+  // Optional: list with metadata, so cached objects are revalidated without a stat each
+  listObjects?(config: BucketConfig, prefix: string): Promise<StorageObjectInfo[]>;
+}
+
+// Fleet file entry under storage_providers
+export interface StorageProviderConfig {
+  name: string; // Value used in from_bucket.provider
+  module: string; // Local module path, relative to the fleet root
+  options?: Record<string, any>; // Passed to the module's factory
+}
+
+export type StorageProviderFactory = (options: Record<string, any>) => StorageProvider;
+
+export const BUILTIN_STORAGE_PROVIDERS = ['supabase', 's3'];
+
+export const STORAGE_PROVIDER_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+/**
+ * Version of an object for the content cache: its ETag, or its modification time and
+ * size. Undefined when the provider reports neither, so the object is never cached.
+ */
+export function storageObjectVersion(info: StorageObjectInfo): string | undefined {
+  if (info.etag) return `etag:${info.etag}`;
+  // Custom providers may hand back a string or epoch instead of a Date
+  const modified = info.lastModified !== undefined ? new Date(info.lastModified) : undefined;
+  if (modified && !isNaN(modified.getTime())) return `mtime:${modified.toISOString()}/${info.size ?? ''}`;
+  return undefined;
+}
+
+const PROVIDER_METHODS: Array<keyof StorageProvider> = ['read', 'readBinary', 'list', 'stat'];
+
+/**
+ * Storage providers keyed by from_bucket.provider. Providers are created on first use,
+ * so a fleet only needs credentials for the providers it reads from.
+ */
+export class StorageProviderRegistry {
+  private factories = new Map<string, () => StorageProvider>();
+  private instances = new Map<string, StorageProvider>();
+
+  register(name: string, factory: () => StorageProvider): void {
+    this.factories.set(name, factory);
+    this.instances.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  get names(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  get(name: string): StorageProvider {
+    let provider = this.instances.get(name);
+    if (!provider) {
+      const factory = this.factories.get(name);
+      if (!factory) {
+        throw new Error(unknownStorageProviderMessage(name, this.names));
+      }
+      provider = factory();
+      this.instances.set(name, provider);
+    }
+    return provider;
+  }
+}
+
+export function unknownStorageProviderMessage(name: string, registered: string[]): string {
+  // Check for common typos
+  const provider = String(name).toLowerCase();
+  if (provider.includes('supab') || provider.includes('suapb')) {
+    return `Provider '${name}' not recognized. Did you mean 'supabase'?`;
+  }
+  if (provider === 'aws' || provider === 'minio' || provider === 'r2') {
+    return `Provider '${name}' not recognized. Use 's3' for AWS S3, MinIO and R2.`;
+  }
+  return (
+    `Provider '${name}' not recognized. Available: ${registered.join(', ')}.\n` +
+    'Custom providers are declared in the fleet file:\n' +
+    'storage_providers:\n' +
+    `  - name: ${name}\n` +
+    `    module: ./storage/${name}.js`
+  );
+}
+
+/**
+ * Loads a custom provider module and returns a factory for the registry. The module
+ * must export a function (module.exports or default export) that takes the entry's
+ * options and returns a StorageProvider.
+ */
+export function loadStorageProvider(config: StorageProviderConfig, basePath: string): () => StorageProvider {
+  const modulePath = path.resolve(basePath, config.module);
+  let loaded: any;
+  try {
+    loaded = require(modulePath);
+  } catch (err: any) {
+    throw new Error(`Failed to load storage provider '${config.name}' from ${config.module}: ${err.message}`);
+  }
+
+  const factory: unknown = typeof loaded === 'function' ? loaded : loaded?.default;
+  if (typeof factory !== 'function') {
+    throw new Error(
+      `Storage provider module ${config.module} must export a function that returns a provider ` +
+      '(module.exports = (options) => ({ read, readBinary, list, stat })).'
+    );
+  }
+
+  return () => {
+    const provider = (factory as StorageProviderFactory)(config.options || {});
+    const missing = PROVIDER_METHODS.filter(method => typeof provider?.[method] !== 'function');
+    if (missing.length > 0) {
+      throw new Error(`Storage provider '${config.name}' from ${config.module} is missing methods: ${missing.join(', ')}`);
+    }
+    return provider;
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Validation for from_url configuration objects
+ */
+
+const URL_EXAMPLE =
+  'Example:\n' +
+  'from_url:\n' +
+  '  url: https://docs.example.com/policies/refunds.md\n' +
+  '  sha256: 9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08';
+
+export class UrlConfigValidator {
+
+  /**
+   * Validates a from_url config object and throws descriptive errors
+   */
+  static validate(config: any): void {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      throw new Error(`Invalid from_url configuration. Expected object with a url field.\n${URL_EXAMPLE}`);
+    }
+
+    if (typeof config.url !== 'string' || config.url.trim() === '') {
+      throw new Error(`from_url url must be a non-empty string.\n${URL_EXAMPLE}`);
+    }
+
+    let protocol: string;
+    try {
+      protocol = new URL(config.url).protocol;
+    } catch {
+      throw new Error(`Invalid from_url url '${config.url}'. Expected an http(s) URL.\n${URL_EXAMPLE}`);
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new Error(`Invalid from_url url '${config.url}'. Only http and https URLs are supported.`);
+    }
+
+    if (config.sha256 !== undefined && (typeof config.sha256 !== 'string' || !/^[0-9a-f]{64}$/i.test(config.sha256))) {
+      throw new Error(
+        `Invalid from_url sha256 for ${config.url}. Expected 64 hex characters.\n` +
+        'Compute it with: curl -sL <url> | sha256sum'
+      );
+    }
+
+    const unknown = Object.keys(config).filter(field => field !== 'url' && field !== 'sha256');
+    if (unknown.length > 0) {
+      throw new Error(`Unknown fields in from_url config: ${unknown.join(', ')}. Supported: url, sha256.`);
+    }
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * HTTP(S) URL content source (from_url)
+ *
+ * Responses are kept in the content cache with their ETag and revalidated with
+ * If-None-Match, so unchanged documents are not downloaded again. When a sha256 is
+ * pinned, the content must match it or the read fails.
+ */
+import * as crypto from 'crypto';
+import { ContentCache } from './content-cache';
+
+export interface UrlSourceConfig {
+  url: string;
+  sha256?: string; // Expected SHA-256 of the content, hex encoded
+}
+
+const SHA256_SUFFIX = /#sha256=([0-9a-f]{64})$/;
+
+/**
+ * Identifier for a URL file in folder diffs: url:<url>, with #sha256=<hex> when pinned.
+ * Fragments are never sent to the server, so the suffix cannot change the request.
+ */
+export function formatUrlFileId(config: UrlSourceConfig): string {
+  return `url:${config.url}${config.sha256 ? `#sha256=${config.sha256.toLowerCase()}` : ''}`;
+}
+
+export function parseUrlFileId(fileId: string): UrlSourceConfig {
+  const rest = fileId.replace(/^url:/, '');
+  const pinned = rest.match(SHA256_SUFFIX);
+  return pinned
+    ? { url: rest.substring(0, pinned.index), sha256: pinned[1] }
+    : { url: rest };
+}
+
+/**
+ * File name for a URL in a folder: the last path segment, or the host for bare URLs
+ */
+export function urlFileName(url: string): string {
+  const parsed = new URL(url);
+  const segment = parsed.pathname.split('/').filter(part => part).pop();
+  return segment ? decodeURIComponent(segment) : parsed.hostname;
+}
+
+export class UrlSourceManager {
+  private cache: ContentCache;
+  private offline: boolean; // Only read cached responses, never the network
+  private downloads = new Map<string, Promise<Buffer>>(); // url -> content, fetched once per run
+
+  constructor(options: { cache?: ContentCache; offline?: boolean } = {}) {
+    this.cache = options.cache || new ContentCache();
+    this.offline = options.offline || false;
+  }
+
+  async readFile(config: UrlSourceConfig): Promise<string> {
+    return (await this.readBinary(config)).toString('utf8');
+  }
+
+  async readBinary(config: UrlSourceConfig): Promise<Buffer> {
+    let download = this.downloads.get(config.url);
+    if (!download) {
+      download = this.download(config.url);
+      this.downloads.set(config.url, download);
+    }
+    const content = await download;
+
+    if (config.sha256) {
+      const actual = crypto.createHash('sha256').update(content).digest('hex');
+      if (actual !== config.sha256.toLowerCase()) {
+        throw new Error(
+          `Checksum mismatch for ${config.url}: expected sha256 ${config.sha256.toLowerCase()}, got ${actual}.\n` +
+          'The content changed since it was pinned. Review the new version and update sha256 to accept it.'
+        );
+      }
+    }
+    return content;
+  }
+
+  private async download(url: string): Promise<Buffer> {
+    const key = formatUrlFileId({ url });
+    const cached = this.cache.entry(key);
+
+    if (this.offline) {
+      const content = this.cache.get(key);
+      if (!content) {
+        throw new Error(`Cannot read ${url} offline: it is not in the local cache. Run once without --offline to cache it.`);
+      }
+      return content;
+    }
+
+    const headers: Record<string, string> = cached?.version ? { 'if-none-match': cached.version } : {};
+    let response: Response;
+    try {
+      response = await fetch(url, { headers });
+    } catch (err: any) {
+      throw new Error(`Failed to download ${url}: ${err.cause?.message || err.message}`);
+    }
+
+    if (response.status === 304 && cached) {
+      const content = this.cache.get(key, cached.version);
+      if (content) return content;
+      // The cached copy was lost (get drops its entry), so download without revalidating
+      return this.download(url);
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to download ${url}: HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}${describeHttpStatus(response.status)}`);
+    }
+
+    const content = Buffer.from(await response.arrayBuffer());
+    this.cache.put(key, content, response.headers.get('etag') || undefined);
+    return content;
+  }
+}
+
+function describeHttpStatus(status: number): string {
+  switch (status) {
+    case 401:
+    case 403:
+      return '. from_url only supports URLs that can be read without credentials.';
+    case 404:
+      return '. Check the URL is correct and the document is still published.';
+    default:
+      return status >= 500 ? '. The server failed; try again later.' : '';
+  }
+}
@@ -1,2 +1,5 @@
 export * from './builtin-tools';
 export * from './mcp-tools';
+export * from './tool-rules';
+export * from './python-tool-check';
+export * from './local-tools';
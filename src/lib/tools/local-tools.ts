@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+
+/**
+ * Local development of custom Python tools: discovery of tools/<name>.py, scaffolding
+ * new tool files and running a tool in a local Python subprocess with JSON args.
+ */
+
+export const TOOLS_DIR = 'tools';
+export const DEFAULT_TOOL_TIMEOUT_SECONDS = 60;
+
+const PYTHON_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PYTHON_TYPE = /^[A-Za-z_][A-Za-z0-9_.]*(\[[A-Za-z0-9_.,\[\] |]*\])?$/;
+
+export interface ToolParameterSpec {
+  name: string;
+  type: string;
+}
+
+export interface LocalToolRunResult {
+  status: 'success' | 'error';
+  returnValue?: any;
+  error?: string; // Python traceback when the tool raised
+  stdout: string; // What the tool printed
+  stderr: string;
+  exitCode: number | null;
+}
+
+/**
+ * Tool names found in <basePath>/tools, as expanded for the `tools/*` entry.
+ * __init__.py and files starting with _ are treated as helpers, not tools.
+ */
+export function discoverLocalTools(basePath: string): string[] {
+  const toolsDir = path.resolve(basePath, TOOLS_DIR);
+  if (!fs.existsSync(toolsDir)) {
+    return [];
+  }
+  return fs.readdirSync(toolsDir)
+    .filter(file => file.endsWith('.py') && file !== '__init__.py' && !file.startsWith('_'))
+    .map(file => path.basename(file, '.py'));
+}
+
+export function localToolPath(basePath: string, toolName: string): string {
+  return path.resolve(basePath, TOOLS_DIR, `${toolName}.py`);
+}
+
+/**
+ * Parses "city:str,days:int" into parameters; the type defaults to str
+ */
+export function parseToolParameters(spec: string | undefined): ToolParameterSpec[] {
+  if (!spec || !spec.trim()) {
+    return [];
+  }
+
+  // Split on commas outside brackets so "dict[str, int]" stays one type
+  const entries: string[] = [];
+  let depth = 0;
+  let entry = '';
+  for (const char of spec) {
+    if (char === '[') depth++;
+    if (char === ']') depth--;
+    if (char === ',' && depth === 0) {
+      entries.push(entry);
+      entry = '';
+    } else {
+      entry += char;
+    }
+  }
+  entries.push(entry);
+
+  const params = entries.map(entry => {
+    const [name, type = 'str'] = entry.split(':').map(part => part.trim());
+    if (!PYTHON_IDENTIFIER.test(name) || !PYTHON_TYPE.test(type)) {
+      throw new Error(
+        `Invalid parameter "${entry.trim()}". Use name:type with a Python identifier and type hint.\n` +
+        'Example:\n' +
+        '  --params "city:str,days:int"'
+      );
+    }
+    return { name, type };
+  });
+
+  const duplicate = params.find((param, index) => params.findIndex(other => other.name === param.name) !== index);
+  if (duplicate) {
+    throw new Error(`Parameter "${duplicate.name}" is listed more than once.`);
+  }
+  return params;
+}
+
+/**
+ * Python source for a new tool: a typed function named after the tool with a
+ * Google-style docstring documenting every parameter
+ */
+export function renderToolScaffold(toolName: string, params: ToolParameterSpec[], description?: string): string {
+  if (!PYTHON_IDENTIFIER.test(toolName) || toolName.startsWith('_')) {
+    throw new Error(
+      `Invalid tool name "${toolName}". Tool names must be Python identifiers and must not start with "_" ` +
+      '(files starting with "_" are skipped by tools/* discovery).'
+    );
+  }
+
+  const signature = params.map(param => `${param.name}: ${param.type}`).join(', ');
+  const lines = [
+    `def ${toolName}(${signature}) -> str:`,
+    '    """',
+    `    ${description || `TODO: describe what ${toolName} does.`}`,
+    ''
+  ];
+  if (params.length > 0) {
+    lines.push('    Args:');
+    for (const param of params) {
+      lines.push(`        ${param.name} (${param.type}): TODO: describe ${param.name}.`);
+    }
+    lines.push('');
+  }
+  lines.push(
+    '    Returns:',
+    '        str: TODO: describe the result.',
+    '    """',
+    '    # TODO: implement the tool',
+    `    return f"${toolName}(${params.map(param => `${param.name}={${param.name}!r}`).join(', ')})"`,
+    ''
+  );
+  return lines.join('\n');
+}
+
+// Loads the tool module, calls the function with JSON args from stdin and writes one
+// JSON result to the real stdout; the tool's own prints are captured separately
+const PYTHON_DRIVER = `
+import contextlib, importlib.util, inspect, io, json, os, sys, traceback
+path, name = sys.argv[1], sys.argv[2]
+args = json.load(sys.stdin)
+sys.path.insert(0, os.path.dirname(path))
+captured = io.StringIO()
+result = {}
+try:
+    with contextlib.redirect_stdout(captured):
+        spec = importlib.util.spec_from_file_location("lettactl_tool", path)
+        module = importlib.util.module_from_spec(spec)
+        spec.loader.exec_module(module)
+        fn = getattr(module, name)
+        if "agent_state" in inspect.signature(fn).parameters and "agent_state" not in args:
+            args["agent_state"] = None
+        value = fn(**args)
+    try:
+        json.dumps(value)
+        result["return_value"] = value
+    except (TypeError, ValueError):
+        result["return_value"] = repr(value)
+    result["status"] = "success"
+except BaseException:
+    result["status"] = "error"
+    result["error"] = traceback.format_exc()
+result["stdout"] = captured.getvalue()
+sys.__stdout__.write("\\n" + json.dumps(result) + "\\n")
+`;
+
+/**
+ * Runs a tool function in a local Python subprocess. Rejects when Python cannot be
+ * started, times out, or exits without reporting a result.
+ */
+export function runLocalTool(options: {
+  file: string;
+  toolName: string;
+  args: Record<string, any>;
+  python?: string;
+  timeoutSeconds?: number;
+}): Promise<LocalToolRunResult> {
+  const python = options.python || process.env.LETTACTL_PYTHON || 'python3';
+  const timeoutSeconds = options.timeoutSeconds ?? DEFAULT_TOOL_TIMEOUT_SECONDS;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(python, ['-c', PYTHON_DRIVER, options.file, options.toolName], {
+      cwd: path.dirname(options.file),
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutSeconds * 1000);
+
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+
+    child.on('error', (err: any) => {
+      clearTimeout(timer);
+      reject(err.code === 'ENOENT'
+        ? new Error(`Python interpreter "${python}" not found. Use --python or set LETTACTL_PYTHON.`)
+        : err);
+    });
+
+    child.on('close', exitCode => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new Error(`Tool ${options.toolName} did not finish within ${timeoutSeconds}s`));
+        return;
+      }
+
+      const lastLine = stdout.trimEnd().split('\n').pop() || '';
+      let result: any;
+      try {
+        result = JSON.parse(lastLine);
+      } catch {
+        reject(new Error(`Python exited with code ${exitCode} without a result${stderr ? `:\n${stderr.trimEnd()}` : ''}`));
+        return;
+      }
+
+      resolve({
+        status: result.status,
+        returnValue: result.return_value,
+        error: result.error,
+        stdout: result.stdout || '',
+        stderr,
+        exitCode
+      });
+    });
+
+    child.stdin.on('error', () => {
+      // Python exited before reading its args; reported through 'close'
+    });
+    child.stdin.end(JSON.stringify(options.args));
+  });
+}
@@ -0,0 +1,400 @@
+/**
+ * Static checks for custom Python tool source, run locally before anything is registered.
+ *
+ * Letta derives a tool's schema from its source: one function named after the tool, a
+ * Google-style docstring documenting every parameter, and type hints. Mistakes only
+ * surface as server errors mid-apply, so they are caught here instead. The source is
+ * parsed with Python's own ast module; when no interpreter is available a lightweight
+ * tokenizer is used instead, which finds unterminated strings, unbalanced brackets and
+ * indentation errors but not other syntax errors.
+ */
+
+import { spawnSync } from 'child_process';
+
+export interface PythonToolIssue {
+  line: number;
+  message: string;
+}
+
+export interface ToolSourceReport {
+  tool: string;
+  file: string; // Source path relative to the fleet root, or a label for inline source
+  issues: PythonToolIssue[];
+}
+
+interface ToolFunction {
+  name: string;
+  line: number;
+  parameters: Array<{ name: string; annotated: boolean }>;
+  docstring?: { value: string; line: number };
+}
+
+interface LogicalLine {
+  line: number;
+  indent: number;
+  text: string; // Code with comments removed and string literals replaced by ""
+  strings: Array<{ value: string; line: number }>;
+}
+
+// Parameters Letta injects itself; they need neither a type hint nor documentation
+const INJECTED_PARAMETERS = new Set(['agent_state']);
+const ARGS_SECTION_HEADERS = new Set(['Args:', 'Arguments:']);
+const CLOSING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+const PYTHON_TIMEOUT_MS = 10000;
+
+// Reads source on stdin and prints the top-level functions (or the syntax error) as JSON
+const PYTHON_OUTLINE_SCRIPT = `
+import ast, json, sys
+
+try:
+    tree = ast.parse(sys.stdin.read())
+except SyntaxError as err:
+    print(json.dumps({"error": {"line": err.lineno or 1, "message": err.msg}}))
+    sys.exit(0)
+
+functions = []
+for node in tree.body:
+    if not isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef)):
+        continue
+    args = node.args
+    params = list(getattr(args, "posonlyargs", [])) + args.args
+    params += [args.vararg] if args.vararg else []
+    params += args.kwonlyargs + ([args.kwarg] if args.kwarg else [])
+    first = node.body[0]
+    docstring = None
+    if isinstance(first, ast.Expr) and isinstance(first.value, ast.Constant) and isinstance(first.value.value, str):
+        docstring = {"value": first.value.value, "line": first.lineno}
+    functions.append({
+        "name": node.name,
+        "line": node.lineno,
+        "parameters": [{"name": arg.arg, "annotated": arg.annotation is not None} for arg in params],
+        "docstring": docstring,
+    })
+print(json.dumps({"functions": functions}))
+`;
+
+class PythonSyntaxError extends Error {
+  constructor(public line: number, message: string) {
+    super(message);
+  }
+}
+
+function measureIndent(whitespace: string): number {
+  let width = 0;
+  for (const char of whitespace) {
+    width = char === '\t' ? width + 8 - (width % 8) : width + 1;
+  }
+  return width;
+}
+
+/**
+ * Splits source into logical lines (joining bracketed and backslash continuations).
+ * Throws PythonSyntaxError for unterminated strings and unbalanced brackets.
+ */
+function scanLogicalLines(source: string): LogicalLine[] {
+  const lines: LogicalLine[] = [];
+  const brackets: Array<{ char: string; line: number }> = [];
+  let current: LogicalLine | null = null;
+  let continued = false;
+  let line = 1;
+  let i = 0;
+
+  const endLine = () => {
+    if (current && current.text.trim() !== '') {
+      current.text = current.text.trim();
+      lines.push(current);
+    }
+    current = null;
+  };
+
+  while (i < source.length) {
+    if (!current) {
+      const lineStart = source.slice(i).match(/^[ \t\f]*/)![0];
+      current = { line, indent: measureIndent(lineStart), text: '', strings: [] };
+      i += lineStart.length;
+      continue;
+    }
+
+    const char = source[i];
+    if (char === '#') {
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (char === '"' || char === "'") {
+      const triple = source.startsWith(char.repeat(3), i);
+      const quote = triple ? char.repeat(3) : char;
+      const startLine = line;
+      let value = '';
+      i += quote.length;
+      while (!source.startsWith(quote, i)) {
+        if (i >= source.length || (!triple && source[i] === '\n')) {
+          throw new PythonSyntaxError(startLine, 'unterminated string literal');
+        }
+        if (source[i] === '\\' && i + 1 < source.length) {
+          value += source.slice(i, i + 2);
+          if (source[i + 1] === '\n') line++;
+          i += 2;
+          continue;
+        }
+        if (source[i] === '\n') line++;
+        value += source[i];
+        i++;
+      }
+      i += quote.length;
+      current.text += '""';
+      current.strings.push({ value, line: startLine });
+    } else if (char === '(' || char === '[' || char === '{') {
+      brackets.push({ char, line });
+      current.text += char;
+      i++;
+    } else if (CLOSING_BRACKETS[char]) {
+      const open = brackets.pop();
+      if (!open || open.char !== CLOSING_BRACKETS[char]) {
+        throw new PythonSyntaxError(line, `unmatched '${char}'`);
+      }
+      current.text += char;
+      i++;
+    } else if (char === '\\' && source[i + 1] === '\n') {
+      continued = true;
+      current.text += ' ';
+      line++;
+      i += 2;
+    } else if (char === '\n' || (char === '\r' && source[i + 1] === '\n')) {
+      i += char === '\r' ? 2 : 1;
+      line++;
+      if (brackets.length > 0 || continued) {
+        current.text += ' ';
+        continued = false;
+      } else {
+        endLine();
+      }
+    } else {
+      current.text += char;
+      i++;
+    }
+  }
+
+  if (brackets.length > 0) {
+    const open = brackets[brackets.length - 1];
+    throw new PythonSyntaxError(open.line, `'${open.char}' was never closed`);
+  }
+  endLine();
+  return lines;
+}
+
+/**
+ * Checks block indentation the way Python's tokenizer does
+ */
+function checkIndentation(lines: LogicalLine[]): void {
+  const stack = [0];
+  let opensBlock = false;
+  for (const logical of lines) {
+    const top = stack[stack.length - 1];
+    if (opensBlock && logical.indent <= top) {
+      throw new PythonSyntaxError(logical.line, 'expected an indented block');
+    }
+    if (!opensBlock && logical.indent > top) {
+      throw new PythonSyntaxError(logical.line, 'unexpected indent');
+    }
+    if (logical.indent > top) {
+      stack.push(logical.indent);
+    }
+    while (logical.indent < stack[stack.length - 1]) {
+      stack.pop();
+    }
+    if (logical.indent !== stack[stack.length - 1]) {
+      throw new PythonSyntaxError(logical.line, 'unindent does not match any outer indentation level');
+    }
+    opensBlock = logical.text.endsWith(':');
+  }
+  if (opensBlock) {
+    throw new PythonSyntaxError(lines[lines.length - 1].line, 'expected an indented block');
+  }
+}
+
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let part = '';
+  for (const char of text) {
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(part);
+      part = '';
+    } else {
+      part += char;
+    }
+  }
+  parts.push(part);
+  return parts.map(entry => entry.trim()).filter(entry => entry !== '');
+}
+
+function parseParameters(paramText: string): Array<{ name: string; annotated: boolean }> {
+  return splitTopLevel(paramText)
+    .filter(param => param !== '*' && param !== '/')
+    .map(param => {
+      const match = param.replace(/^\*{1,2}/, '').match(/^([A-Za-z_]\w*)\s*(:)?/);
+      return { name: match ? match[1] : param, annotated: Boolean(match?.[2]) };
+    });
+}
+
+/**
+ * Index of the bracket closing the one at openIndex (string literals are already blanked)
+ */
+function findClosingBracket(text: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if ('([{'.includes(text[i])) depth++;
+    if (')]}'.includes(text[i]) && --depth === 0) return i;
+  }
+  return text.length;
+}
+
+/**
+ * Top-level functions found by the tokenizer; used when Python is not available
+ */
+function outlineWithTokenizer(source: string): ToolFunction[] {
+  const lines = scanLogicalLines(source);
+  checkIndentation(lines);
+
+  const functions: ToolFunction[] = [];
+  lines.forEach((def, index) => {
+    const match = def.text.match(/^(?:async\s+)?def\s+([A-Za-z_]\w*)\s*\(/);
+    if (def.indent !== 0 || !match) return;
+
+    const openParen = match[0].length - 1;
+    const paramText = def.text.slice(openParen + 1, findClosingBracket(def.text, openParen));
+    const body = lines[index + 1];
+    const hasDocstring = def.text.endsWith(':') && body && body.indent > 0 &&
+      /^[rRuU]?""$/.test(body.text) && body.strings.length === 1;
+    functions.push({
+      name: match[1],
+      line: def.line,
+      parameters: parseParameters(paramText),
+      docstring: hasDocstring ? body.strings[0] : undefined
+    });
+  });
+  return functions;
+}
+
+/**
+ * Top-level functions as parsed by Python's ast module, or null when the interpreter
+ * cannot be run
+ */
+function outlineWithPython(source: string, python: string): ToolFunction[] | null {
+  const result = spawnSync(python, ['-c', PYTHON_OUTLINE_SCRIPT], {
+    input: source,
+    encoding: 'utf8',
+    timeout: PYTHON_TIMEOUT_MS
+  });
+  if (result.error || result.status !== 0) {
+    return null;
+  }
+
+  let outline: any;
+  try {
+    outline = JSON.parse(result.stdout);
+  } catch {
+    return null;
+  }
+  if (outline.error) {
+    throw new PythonSyntaxError(outline.error.line, outline.error.message.replace(/ \(detected at line \d+\)$/, ''));
+  }
+  return outline.functions.map((fn: any) => ({ ...fn, docstring: fn.docstring || undefined }));
+}
+
+/**
+ * Names documented in the Args: section of a Google-style docstring
+ */
+function documentedParameters(docstring: string): Set<string> | null {
+  const docLines = docstring.split('\n');
+  const headerIndex = docLines.findIndex(docLine => ARGS_SECTION_HEADERS.has(docLine.trim()));
+  if (headerIndex === -1) {
+    return null;
+  }
+
+  const headerIndent = measureIndent(docLines[headerIndex].match(/^\s*/)![0]);
+  const names = new Set<string>();
+  let entryIndent: number | undefined;
+  for (const docLine of docLines.slice(headerIndex + 1)) {
+    if (!docLine.trim()) continue;
+    const indent = measureIndent(docLine.match(/^\s*/)![0]);
+    if (indent <= headerIndent) break;
+    entryIndent = entryIndent ?? indent;
+    if (indent !== entryIndent) continue; // Continuation of the previous description
+    const entry = docLine.trim().match(/^\*{0,2}([A-Za-z_]\w*)\s*(\([^)]*\))?\s*:/);
+    if (entry) names.add(entry[1]);
+  }
+  return names;
+}
+
+/**
+ * Checks that source defines exactly one top-level function named after the tool,
+ * with type hints and a Google-style docstring documenting every parameter.
+ * Python defaults to $LETTACTL_PYTHON or python3.
+ */
+export function checkPythonToolSource(source: string, toolName: string, options: { python?: string } = {}): PythonToolIssue[] {
+  const python = options.python || process.env.LETTACTL_PYTHON || 'python3';
+  let definitions: ToolFunction[];
+  try {
+    definitions = outlineWithPython(source, python) ?? outlineWithTokenizer(source);
+  } catch (err) {
+    if (err instanceof PythonSyntaxError) {
+      return [{ line: err.line, message: `syntax error: ${err.message}` }];
+    }
+    throw err;
+  }
+
+  const matching = definitions.filter(fn => fn.name === toolName);
+
+  if (matching.length === 0) {
+    const found = definitions.map(fn => fn.name);
+    return [{
+      line: 1,
+      message: `no top-level function named "${toolName}"` +
+        (found.length > 0 ? ` (found: ${found.join(', ')})` : '') +
+        '. The function name must match the tool name.'
+    }];
+  }
+  if (matching.length > 1) {
+    return [{
+      line: matching[1].line,
+      message: `function "${toolName}" is defined ${matching.length} times (lines ${matching.map(fn => fn.line).join(', ')})`
+    }];
+  }
+
+  const def = matching[0];
+  const issues: PythonToolIssue[] = [];
+  const parameters = def.parameters.filter(param => !INJECTED_PARAMETERS.has(param.name));
+
+  for (const param of parameters) {
+    if (!param.annotated) {
+      issues.push({ line: def.line, message: `parameter "${param.name}" has no type hint` });
+    }
+  }
+
+  const docstring = def.docstring;
+  if (!docstring) {
+    issues.push({ line: def.line, message: `function "${toolName}" has no docstring` });
+    return issues;
+  }
+
+  const documented = documentedParameters(docstring.value);
+  const undocumented = parameters.filter(param => !documented?.has(param.name)).map(param => param.name);
+  if (undocumented.length > 0) {
+    issues.push({
+      line: docstring.line,
+      message: documented
+        ? `docstring does not document ${undocumented.map(name => `"${name}"`).join(', ')} under Args:`
+        : `docstring has no Args: section documenting ${undocumented.map(name => `"${name}"`).join(', ')}`
+    });
+  }
+  return issues;
+}
+
+/**
+ * One "file:line: message" line per issue
+ */
+export function formatToolSourceIssues(reports: ToolSourceReport[]): string[] {
+  return reports.flatMap(report => report.issues.map(issue => `${report.file}:${issue.line}: ${issue.message}`));
+}
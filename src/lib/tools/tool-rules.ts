@@ -0,0 +1,80 @@
+/**
+ * Mapping between fleet YAML tool rules and Letta's tool_rules API format
+ *
+ * Only the rule types below are managed by lettactl. Other server rules (approval,
+ * continue_loop, conditional, ...) are left untouched when tool_rules are applied.
+ */
+
+import { ToolRuleConfig, ToolRuleType } from '../../types/fleet-config';
+
+const API_RULE_TYPES: Record<ToolRuleType, string> = {
+  terminal: 'exit_loop',
+  init: 'run_first',
+  children: 'constrain_child_tools',
+  max_count: 'max_count_per_step'
+};
+
+export const TOOL_RULE_TYPES = Object.keys(API_RULE_TYPES) as ToolRuleType[];
+
+/**
+ * Whether a server-side rule is one of the types lettactl manages
+ */
+export function isManagedToolRule(apiRule: any): boolean {
+  return Object.values(API_RULE_TYPES).includes(apiRule?.type);
+}
+
+/**
+ * Converts a fleet tool rule to the Letta API format
+ */
+export function toApiToolRule(rule: ToolRuleConfig): Record<string, any> {
+  const apiRule: Record<string, any> = { type: API_RULE_TYPES[rule.type], tool_name: rule.tool_name };
+  if (rule.type === 'children') {
+    apiRule.children = rule.children || [];
+  }
+  if (rule.type === 'max_count') {
+    apiRule.max_count_limit = rule.max_count;
+  }
+  return apiRule;
+}
+
+/**
+ * Converts a Letta API rule to the fleet format, or null when the type is not managed
+ */
+export function fromApiToolRule(apiRule: any): ToolRuleConfig | null {
+  const type = TOOL_RULE_TYPES.find(ruleType => API_RULE_TYPES[ruleType] === apiRule?.type);
+  if (!type || !apiRule.tool_name) return null;
+
+  const rule: ToolRuleConfig = { tool_name: apiRule.tool_name, type };
+  if (type === 'children') {
+    rule.children = [...(apiRule.children || [])];
+  }
+  if (type === 'max_count') {
+    rule.max_count = apiRule.max_count_limit;
+  }
+  return rule;
+}
+
+/**
+ * Stable identity for comparing rules (children order does not matter)
+ */
+export function toolRuleKey(rule: ToolRuleConfig): string {
+  return JSON.stringify({
+    type: rule.type,
+    tool_name: rule.tool_name,
+    children: rule.type === 'children' ? [...(rule.children || [])].sort() : undefined,
+    max_count: rule.type === 'max_count' ? rule.max_count : undefined
+  });
+}
+
+/**
+ * Short human-readable form, e.g. "children search -> summarize, send_message"
+ */
+export function describeToolRule(rule: ToolRuleConfig): string {
+  if (rule.type === 'children') {
+    return `children ${rule.tool_name} -> ${(rule.children || []).join(', ')}`;
+  }
+  if (rule.type === 'max_count') {
+    return `max_count ${rule.tool_name} <= ${rule.max_count}`;
+  }
+  return `${rule.type} ${rule.tool_name}`;
+}
@@ -55,6 +55,9 @@ export interface ToolDetailsData {
   created?: string;
   attachedAgents?: { name: string; id: string }[];
   sourceCode?: string;
+  pipRequirements?: string[];
+  tags?: string[];
+  argsSchema?: Record<string, any>;
 }
 
 export interface FolderDetailsData {
@@ -453,10 +456,26 @@ export function displayToolDetails(data: ToolDetailsData): string {
     { key: 'Name', value: data.name },
     { key: 'Description', value: data.description || '-' },
     { key: 'Module', value: data.module || '-' },
+    { key: 'Tags', value: data.tags && data.tags.length > 0 ? data.tags.join(', ') : '-' },
     { key: 'Created', value: formatDate(data.created) },
   ];
   lines.push(...createBox(`Tool: ${data.name}`, headerRows, width));
 
+  if (data.pipRequirements && data.pipRequirements.length > 0) {
+    lines.push('');
+    lines.push(...createBoxWithRows(
+      `Pip Requirements (${data.pipRequirements.length})`,
+      data.pipRequirements.map(req => chalk.white(req)),
+      width
+    ));
+  }
+
+  if (data.argsSchema) {
+    lines.push('');
+    const schemaLines = JSON.stringify(data.argsSchema, null, 2).split('\n').map(line => truncate(line, width - 4));
+    lines.push(...createBoxWithRows('Args Schema', schemaLines, width));
+  }
+
   lines.push('');
   if (data.attachedAgents && data.attachedAgents.length > 0) {
     const agentRows = data.attachedAgents.map(a =>
@@ -490,8 +509,23 @@ function displayToolDetailsPlain(data: ToolDetailsData): string {
   lines.push(`Name:          ${data.name}`);
   lines.push(`Description:   ${data.description || '-'}`);
   lines.push(`Module:        ${data.module || '-'}`);
+  lines.push(`Tags:          ${data.tags && data.tags.length > 0 ? data.tags.join(', ') : '-'}`);
   lines.push(`Created:       ${data.created || 'Unknown'}`);
 
+  if (data.pipRequirements && data.pipRequirements.length > 0) {
+    lines.push('');
+    lines.push(`Pip Requirements (${data.pipRequirements.length}):`);
+    for (const req of data.pipRequirements) {
+      lines.push(`  - ${req}`);
+    }
+  }
+
+  if (data.argsSchema) {
+    lines.push('');
+    lines.push('Args Schema:');
+    lines.push(JSON.stringify(data.argsSchema, null, 2));
+  }
+
   lines.push('');
   lines.push(`Attached Agents (${data.attachedAgents?.length || 0}):`);
   if (data.attachedAgents && data.attachedAgents.length > 0) {
@@ -592,7 +626,7 @@ function displayFolderDetailsPlain(data: FolderDetailsData): string {
 // File Details
 // ============================================================================
 
-function formatBytes(bytes: number): string {
+export function formatBytes(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
   if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
@@ -0,0 +1,90 @@
+import chalk from 'chalk';
+import { createBox, createBoxWithRows, BoxRow, shouldUseFancyUx } from '../box';
+import { FieldExplanation } from '../../validation/schema-explainer';
+
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && current.length + word.length + 1 > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+function formatDefault(value: any): string {
+  if (value === undefined) return '-';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export function displayFieldExplanation(data: FieldExplanation): string {
+  if (!shouldUseFancyUx()) {
+    return displayFieldExplanationPlain(data);
+  }
+
+  const width = 70;
+  const lines: string[] = [];
+
+  const headerRows: BoxRow[] = [
+    { key: 'Type', value: data.type },
+    { key: 'Required', value: data.required ? 'yes' : 'no' },
+    { key: 'Default', value: formatDefault(data.default) },
+  ];
+  if (data.allowedValues.length > 0) {
+    headerRows.push({ key: 'Allowed', value: data.allowedValues.join(', ') });
+  }
+  lines.push(...createBox(`Field: ${data.path || '(fleet)'}`, headerRows, width));
+
+  if (data.description) {
+    lines.push('');
+    lines.push(...createBoxWithRows('Description', wrapText(data.description, width - 4), width));
+  }
+
+  if (data.fields.length > 0) {
+    lines.push('');
+    const fieldRows = data.fields.map(field =>
+      chalk.white(field.name) + chalk.dim(` <${field.type}>`) + (field.required ? chalk.yellow(' required') : '')
+    );
+    lines.push(...createBoxWithRows(`Fields (${data.fields.length})`, fieldRows, width));
+  }
+
+  return lines.join('\n');
+}
+
+function displayFieldExplanationPlain(data: FieldExplanation): string {
+  const lines: string[] = [];
+
+  lines.push(`FIELD:    ${data.path || '(fleet)'} <${data.type}>${data.required ? ' (required)' : ''}`);
+  lines.push(`DEFAULT:  ${formatDefault(data.default)}`);
+  if (data.allowedValues.length > 0) {
+    lines.push(`ALLOWED:  ${data.allowedValues.join(', ')}`);
+  }
+
+  if (data.description) {
+    lines.push('');
+    lines.push('DESCRIPTION:');
+    for (const line of wrapText(data.description, 76)) {
+      lines.push(`  ${line}`);
+    }
+  }
+
+  if (data.fields.length > 0) {
+    lines.push('');
+    lines.push('FIELDS:');
+    for (const field of data.fields) {
+      lines.push(`  ${field.name} <${field.type}>${field.required ? ' (required)' : ''}`);
+      if (field.description) {
+        for (const line of wrapText(field.description, 72)) {
+          lines.push(`      ${line}`);
+        }
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -24,6 +24,7 @@ export {
   displayFolderDetails, FolderDetailsData,
   displayFileDetails, FileDetailsData,
   displayMcpServerDetails, McpServerDetailsData,
+  formatBytes,
 } from './details';
 
 // Shared entry list display (used by messages, archival)
@@ -40,3 +41,6 @@ export { displayOrphanedResources, displayCleanupNote, OrphanedItem } from './cl
 
 // Dry-run display
 export { displayDryRunHeader, displayDryRunSeparator, displayDryRunSummary, displayDryRunAction, DryRunSummaryData } from './dry-run';
+
+// Config field documentation display
+export { displayFieldExplanation } from './explain';
@@ -17,6 +17,10 @@ const COMMAND_GROUPS: CommandGroup[] = [
     commands: [
       { key: 'apply', value: 'Deploy agents from config' },
       { key: 'validate', value: 'Validate configuration' },
+      { key: 'test', value: 'Run a tool locally' },
+      { key: 'render', value: 'Print resolved config' },
+      { key: 'schema', value: 'Config JSON Schema' },
+      { key: 'explain', value: 'Document a field' },
       { key: 'export', value: 'Export agent to file' },
       { key: 'import', value: 'Import agent from file' },
       { key: 'config', value: 'Manage configuration' },
@@ -28,7 +32,7 @@ const COMMAND_GROUPS: CommandGroup[] = [
     commands: [
       { key: 'get', value: 'Display resources' },
       { key: 'describe', value: 'Show detailed info' },
-      { key: 'create', value: 'Create a new agent' },
+      { key: 'create', value: 'Create agent or tool' },
       { key: 'update', value: 'Update an agent' },
       { key: 'delete', value: 'Delete a resource' },
       { key: 'delete-all', value: 'Delete multiple agents' },
@@ -1,6 +1,7 @@
 import Table from 'cli-table3';
 import { AgentUpdateOperations } from '../apply/diff-engine';
 import { isBuiltinTool } from '../tools/builtin-tools';
+import { describeToolRule } from '../tools/tool-rules';
 import { log, output } from '../shared/logger';
 import {
   displayAgents,
@@ -249,24 +250,53 @@ export class OutputFormatter {
         const { from, to } = operations.updateFields.contextWindow;
         log(`  ~ Context window: ${from} → ${to}`);
       }
+      if (operations.updateFields.modelSettings !== undefined) {
+        log(`  ~ Model settings: ${operations.updateFields.modelSettings.changedPaths.join(', ')}`);
+      }
+      if (operations.updateFields.tags !== undefined) {
+        const { from, to } = operations.updateFields.tags;
+        log(`  ~ Tags: [${from.join(', ')}] → [${to.join(', ')}]`);
+      }
+      if (operations.updateFields.timezone !== undefined) {
+        const { from, to } = operations.updateFields.timezone;
+        log(`  ~ Timezone: ${from ?? 'none'} → ${to}`);
+      }
+      if (operations.updateFields.metadata !== undefined) {
+        const { from, to } = operations.updateFields.metadata;
+        const changedKeys = [...new Set([...Object.keys(from), ...Object.keys(to)])]
+          .filter(key => JSON.stringify(from[key]) !== JSON.stringify(to[key]));
+        log(`  ~ Metadata: ${changedKeys.join(', ')}`);
+      }
+      if (operations.updateFields.initialMessages !== undefined) {
+        const { to } = operations.updateFields.initialMessages;
+        log(`  ~ Initial messages replay: ${to ? `${to.length} messages` : 'removed'}`);
+      }
+      if (operations.updateFields.toolEnv !== undefined) {
+        const { added, changed, removed, digests } = operations.updateFields.toolEnv;
+        log(`  ~ Tool env: ${added.length + changed.length + removed.length} variables modified`);
+        added.forEach(key => log(`    + ${key} = ${digests.to[key]}`));
+        changed.forEach(key => log(`    ~ ${key}: ${digests.from[key]} → ${digests.to[key]}`));
+        removed.forEach(key => log(`    - ${key}`));
+      }
     } else {
       log(`  = Basic fields: unchanged`);
     }
 
     // Tools changes
     if (operations.tools) {
-      const { toAdd, toRemove, toUpdate, unchanged } = operations.tools;
+      const { toAdd, toRemove, toUpdate, unchanged, toUpdateApproval } = operations.tools;
 
       // Helper to get builtin tag
       const getBuiltinTag = (name: string) =>
         (builtinTools?.has(name) || isBuiltinTool(name)) ? ' [builtin]' : '';
 
-      if (toAdd.length > 0 || toRemove.length > 0 || toUpdate.length > 0) {
-        log(`  ~ Tools: ${unchanged.length} unchanged, ${toAdd.length + toRemove.length + toUpdate.length} modified`);
+      if (toAdd.length > 0 || toRemove.length > 0 || toUpdate.length > 0 || toUpdateApproval.length > 0) {
+        log(`  ~ Tools: ${unchanged.length} unchanged, ${toAdd.length + toRemove.length + toUpdate.length + toUpdateApproval.length} modified`);
 
         toAdd.forEach(tool => log(`    + Added tool: ${tool.name}${getBuiltinTag(tool.name)}`));
         toRemove.forEach(tool => log(`    - Removed tool: ${tool.name}${getBuiltinTag(tool.name)}`));
         toUpdate.forEach(tool => log(`    ~ Updated tool: ${tool.name} (${tool.reason})`));
+        toUpdateApproval.forEach(tool => log(`    ~ Tool approval: ${tool.name} (requires_approval: ${tool.requiresApproval})`));
       } else {
         log(`  = Tools: unchanged`);
       }
@@ -274,6 +304,14 @@ export class OutputFormatter {
       log(`  = Tools: unchanged`);
     }
 
+    // Tool rule changes (only analyzed when the config declares tool_rules)
+    if (operations.toolRules) {
+      const { toAdd, toRemove, unchanged } = operations.toolRules;
+      log(`  ~ Tool rules: ${unchanged.length} unchanged, ${toAdd.length + toRemove.length} modified`);
+      toAdd.forEach(rule => log(`    + Added rule: ${describeToolRule(rule)}`));
+      toRemove.forEach(rule => log(`    - Removed rule: ${describeToolRule(rule)}`));
+    }
+
     // Memory blocks changes
     if (operations.blocks) {
       const { toAdd, toRemove, toUpdate, toUpdateValue, unchanged } = operations.blocks;
@@ -316,13 +354,19 @@ export class OutputFormatter {
 
     // Archives changes
     if (operations.archives) {
-      const { toAttach, toDetach, toUpdate, unchanged } = operations.archives;
+      const { toAttach, toDetach, toUpdate, unchanged, passages } = operations.archives;
 
-      if (toAttach.length > 0 || toDetach.length > 0 || toUpdate.length > 0) {
+      if (toAttach.length > 0 || toDetach.length > 0 || toUpdate.length > 0 || passages) {
         log(`  ~ Archives: ${unchanged.length} unchanged, ${toAttach.length + toDetach.length + toUpdate.length} modified`);
         toAttach.forEach(archive => log(`    + Added archive: ${archive.name}`));
         toUpdate.forEach(archive => log(`    ~ Updated archive: ${archive.name}`));
         toDetach.forEach(archive => log(`    - Removed archive: ${archive.name} (requires --force)`));
+        if (passages?.toInsert.length) {
+          log(`    + Passages: ${passages.toInsert.length} new in ${passages.name}`);
+        }
+        if (passages?.toRemove.length) {
+          log(`    - Passages: ${passages.toRemove.length} stale in ${passages.name} (requires --force)`);
+        }
       } else {
         log(`  = Archives: unchanged`);
       }
@@ -4,6 +4,17 @@
  */
 
 import { BucketConfigValidator } from '../storage/bucket-config-validator';
+import { GitConfigValidator } from '../storage/git-config-validator';
+import { UrlConfigValidator } from '../storage/url-config-validator';
+import { BUILTIN_STORAGE_PROVIDERS, STORAGE_PROVIDER_NAME_PATTERN, unknownStorageProviderMessage } from '../storage/storage-provider';
+import { TOOL_RULE_TYPES } from '../tools/tool-rules';
+import { isLettactlMetadataKey, LETTACTL_METADATA_PREFIX } from '../apply/agent-metadata';
+import { TOOL_ENV_KEY_PATTERN } from '../apply/tool-env';
+import { isSecretRef } from '../apply/secret-refs';
+import { AGENT_TYPES } from '../shared/constants';
+import { getProviderType, REASONING_EFFORTS, ANTHROPIC_REASONING_EFFORTS } from '../apply/model-settings';
+import { DEFAULT_CHUNK_SIZE, DEFAULT_CHUNK_OVERLAP } from '../apply/archive-passages';
+import { INITIAL_MESSAGE_ROLES } from '../messaging/initial-messages';
 
 /**
  * Main orchestrator for fleet configuration validation
@@ -11,13 +22,23 @@ import { BucketConfigValidator } from '../storage/bucket-config-validator';
 export class FleetConfigValidator {
   static validate(config: any): void {
     this.validateStructure(config);
+
+    if (config.storage_providers !== undefined) {
+      StorageProvidersValidator.validate(config.storage_providers);
+    }
     
     if (config.shared_blocks) {
       SharedBlockValidator.validate(config.shared_blocks);
     }
+
+    if (config.shared_folders) {
+      SharedFoldersValidator.validate(config.shared_folders);
+    }
     
     if (config.agents) {
       this.validateAgents(config.agents);
+      SharedFoldersValidator.validateReferences(config.agents, config.shared_folders || []);
+      StorageProvidersValidator.validateReferences(config);
     }
   }
   
@@ -75,6 +96,13 @@ export class FleetConfigValidator {
  * Validator for individual agent configurations
  */
 export class AgentValidator {
+  static readonly ALLOWED_FIELDS = [
+    'name', 'description', 'system_prompt', 'llm_config',
+    'tools', 'mcp_tools', 'tool_rules', 'memory_blocks', 'archives', 'folders',
+    'embedding', 'embedding_config', 'shared_blocks', 'shared_folders',
+    'first_message', 'initial_messages', 'reasoning', 'tags', 'timezone', 'agent_type', 'metadata', 'tool_env'
+  ];
+
   static validate(agent: any): void {
     this.validateStructure(agent);
     this.validateUnknownFields(agent);
@@ -98,6 +126,17 @@ export class AgentValidator {
     if (agent.mcp_tools) {
       McpToolsValidator.validate(agent.mcp_tools);
     }
+
+    if (agent.tool_rules !== undefined) {
+      ToolRulesValidator.validate(agent.tool_rules);
+    }
+
+    if (agent.initial_messages !== undefined) {
+      InitialMessagesValidator.validate(agent.initial_messages);
+      if (agent.first_message !== undefined) {
+        throw new Error('Use either first_message or initial_messages, not both. Move first_message into initial_messages as a user message.');
+      }
+    }
     
     if (agent.folders) {
       FoldersValidator.validate(agent.folders);
@@ -118,6 +157,30 @@ export class AgentValidator {
     if (agent.shared_blocks) {
       this.validateSharedBlockReferences(agent.shared_blocks);
     }
+
+    if (agent.shared_folders) {
+      this.validateSharedFolderReferences(agent.shared_folders);
+    }
+
+    if (agent.tags !== undefined) {
+      this.validateTags(agent.tags);
+    }
+
+    if (agent.timezone !== undefined) {
+      this.validateTimezone(agent.timezone);
+    }
+
+    if (agent.agent_type !== undefined) {
+      this.validateAgentType(agent.agent_type);
+    }
+
+    if (agent.metadata !== undefined) {
+      this.validateMetadata(agent.metadata);
+    }
+
+    if (agent.tool_env !== undefined) {
+      ToolEnvValidator.validate(agent.tool_env);
+    }
   }
   
   private static validateStructure(agent: any): void {
@@ -162,12 +225,7 @@ export class AgentValidator {
   }
   
   private static validateUnknownFields(agent: any): void {
-    const allowedFields = [
-      'name', 'description', 'system_prompt', 'llm_config',
-      'tools', 'mcp_tools', 'memory_blocks', 'archives', 'folders',
-      'embedding', 'embedding_config', 'shared_blocks',
-      'first_message', 'reasoning'
-    ];
+    const allowedFields = this.ALLOWED_FIELDS;
     
     const unknownFields = Object.keys(agent).filter(field => !allowedFields.includes(field));
     
@@ -186,6 +244,51 @@ export class AgentValidator {
     }
   }
 
+  private static validateTags(tags: any): void {
+    if (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string' && tag.trim() !== '')) {
+      throw new Error(
+        'Tags must be an array of non-empty strings.\n' +
+        'Example:\n' +
+        'tags: [support, tier-1]'
+      );
+    }
+  }
+
+  private static validateTimezone(timezone: any): void {
+    if (!timezone || typeof timezone !== 'string' || timezone.trim() === '') {
+      throw new Error('Timezone must be a non-empty string (e.g. "America/New_York").');
+    }
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new Error(`Unknown timezone '${timezone}'. Use an IANA timezone name like "America/New_York" or "UTC".`);
+    }
+  }
+
+  private static validateAgentType(agentType: any): void {
+    if (!AGENT_TYPES.includes(agentType)) {
+      throw new Error(`Invalid agent_type '${agentType}'. Must be one of: ${AGENT_TYPES.join(', ')}.`);
+    }
+  }
+
+  private static validateMetadata(metadata: any): void {
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      throw new Error(
+        'Metadata must be a map of keys to values.\n' +
+        'Example:\n' +
+        'metadata:\n' +
+        '  team: support\n' +
+        '  owner: alice@example.com'
+      );
+    }
+    const reserved = Object.keys(metadata).filter(isLettactlMetadataKey);
+    if (reserved.length > 0) {
+      throw new Error(
+        `Metadata keys starting with "${LETTACTL_METADATA_PREFIX}" are reserved for lettactl: ${reserved.join(', ')}`
+      );
+    }
+  }
+
   private static validateEmbeddingConfig(embeddingConfig: any): void {
     if (!embeddingConfig || typeof embeddingConfig !== 'object' || Array.isArray(embeddingConfig)) {
       throw new Error('Embedding config must be an object.');
@@ -203,6 +306,18 @@ export class AgentValidator {
       }
     });
   }
+
+  private static validateSharedFolderReferences(sharedFolders: any): void {
+    if (!Array.isArray(sharedFolders)) {
+      throw new Error('Agent shared_folders must be an array.');
+    }
+
+    sharedFolders.forEach((folderName, index) => {
+      if (!folderName || typeof folderName !== 'string' || folderName.trim() === '') {
+        throw new Error(`Shared folder reference ${index + 1} must be a non-empty string (folder name).`);
+      }
+    });
+  }
 }
 
 /**
@@ -212,7 +327,7 @@ export class SystemPromptValidator {
   static validate(prompt: any): void {
     if (!prompt || typeof prompt !== 'object') {
       throw new Error(
-        'System prompt must be an object with value, from_file, or from_bucket.\n' +
+        'System prompt must be an object with value, from_file, from_bucket, from_git, or from_url.\n' +
         'Example:\n' +
         'system_prompt:\n' +
         '  value: "You are helpful"'
@@ -222,10 +337,12 @@ export class SystemPromptValidator {
     const hasValue = 'value' in prompt;
     const hasFile = 'from_file' in prompt;
     const hasBucket = 'from_bucket' in prompt;
+    const hasGit = 'from_git' in prompt;
+    const hasUrl = 'from_url' in prompt;
     
-    if (!hasValue && !hasFile && !hasBucket) {
+    if (!hasValue && !hasFile && !hasBucket && !hasGit && !hasUrl) {
       throw new Error(
-        'System prompt must have one of: value, from_file, or from_bucket.\n' +
+        'System prompt must have one of: value, from_file, from_bucket, from_git, or from_url.\n' +
         'Examples:\n' +
         'system_prompt:\n' +
         '  value: "You are helpful"\n' +
@@ -242,9 +359,9 @@ export class SystemPromptValidator {
     }
     
     // Only one source allowed
-    const sources = [hasValue, hasFile, hasBucket].filter(Boolean);
+    const sources = [hasValue, hasFile, hasBucket, hasGit, hasUrl].filter(Boolean);
     if (sources.length > 1) {
-      throw new Error('System prompt can only have one of: value, from_file, or from_bucket (not multiple).');
+      throw new Error('System prompt can only have one of: value, from_file, from_bucket, from_git, or from_url (not multiple).');
     }
     
     // Validate bucket config if present
@@ -252,6 +369,14 @@ export class SystemPromptValidator {
       BucketConfigValidator.validate(prompt.from_bucket);
     }
     
+    if (hasGit) {
+      GitConfigValidator.validate(prompt.from_git);
+    }
+
+    if (hasUrl) {
+      UrlConfigValidator.validate(prompt.from_url);
+    }
+    
     // Validate string values are non-empty
     if (hasValue && (!prompt.value || typeof prompt.value !== 'string' || prompt.value.trim() === '')) {
       throw new Error('System prompt value must be a non-empty string.');
@@ -320,17 +445,19 @@ export class MemoryBlockValidator {
     const hasValue = 'value' in block;
     const hasFile = 'from_file' in block;
     const hasBucket = 'from_bucket' in block;
+    const hasGit = 'from_git' in block;
+    const hasUrl = 'from_url' in block;
     
-    if (!hasValue && !hasFile && !hasBucket) {
+    if (!hasValue && !hasFile && !hasBucket && !hasGit && !hasUrl) {
       throw new Error(
-        `Memory block "${block.name}" must have one of: value, from_file, or from_bucket.`
+        `Memory block "${block.name}" must have one of: value, from_file, from_bucket, from_git, or from_url.`
       );
     }
     
     // Only one content source allowed
-    const sources = [hasValue, hasFile, hasBucket].filter(Boolean);
+    const sources = [hasValue, hasFile, hasBucket, hasGit, hasUrl].filter(Boolean);
     if (sources.length > 1) {
-      throw new Error(`Memory block "${block.name}" can only have one of: value, from_file, or from_bucket (not multiple).`);
+      throw new Error(`Memory block "${block.name}" can only have one of: value, from_file, from_bucket, from_git, or from_url (not multiple).`);
     }
     
     // Validate string values are non-empty
@@ -346,6 +473,14 @@ export class MemoryBlockValidator {
     if (hasBucket) {
       BucketConfigValidator.validate(block.from_bucket);
     }
+    
+    if (hasGit) {
+      GitConfigValidator.validate(block.from_git);
+    }
+
+    if (hasUrl) {
+      UrlConfigValidator.validate(block.from_url);
+    }
   }
 }
 
@@ -400,6 +535,61 @@ export class ArchiveValidator {
     if (archive.embedding_config !== undefined && (typeof archive.embedding_config !== 'object' || Array.isArray(archive.embedding_config))) {
       throw new Error(`Archive "${archive.name}" embedding_config must be an object.`);
     }
+
+    if (archive.passages !== undefined) {
+      if (!Array.isArray(archive.passages)) {
+        throw new Error(
+          `Archive "${archive.name}" passages must be an array.\n` +
+          'Example:\n' +
+          'passages:\n' +
+          '  - from_file: knowledge/*.md\n' +
+          '    chunk_size: 1000'
+        );
+      }
+      archive.passages.forEach((passage: any, index: number) => {
+        this.validatePassageSource(passage, `Archive "${archive.name}" passages ${index + 1}`);
+      });
+    }
+  }
+
+  private static validatePassageSource(passage: any, label: string): void {
+    if (!passage || typeof passage !== 'object' || Array.isArray(passage)) {
+      throw new Error(`${label} must be an object with from_file or from_bucket.`);
+    }
+
+    const sources = ['from_file', 'from_bucket'].filter(field => passage[field] !== undefined);
+    if (sources.length !== 1) {
+      throw new Error(
+        `${label} must have exactly one of from_file or from_bucket.\n` +
+        'Example:\n' +
+        'passages:\n' +
+        '  - from_file: knowledge/*.md\n' +
+        '  - from_bucket:\n' +
+        '      provider: supabase\n' +
+        '      bucket: docs\n' +
+        '      path: handbook/*'
+      );
+    }
+
+    if (passage.from_file !== undefined && (typeof passage.from_file !== 'string' || passage.from_file.trim() === '')) {
+      throw new Error(`${label} from_file must be a non-empty string.`);
+    }
+
+    if (passage.from_bucket !== undefined) {
+      BucketConfigValidator.validate(passage.from_bucket);
+    }
+
+    for (const field of ['chunk_size', 'chunk_overlap']) {
+      const value = passage[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < (field === 'chunk_size' ? 1 : 0))) {
+        throw new Error(`${label} ${field} must be a ${field === 'chunk_size' ? 'positive' : 'non-negative'} integer.`);
+      }
+    }
+
+    const chunkSize = passage.chunk_size ?? DEFAULT_CHUNK_SIZE;
+    if ((passage.chunk_overlap ?? DEFAULT_CHUNK_OVERLAP) >= chunkSize) {
+      throw new Error(`${label} chunk_overlap must be smaller than chunk_size (${chunkSize}).`);
+    }
   }
 }
 
@@ -467,6 +657,63 @@ export class ToolsValidator {
         if (tool.from_bucket) {
           BucketConfigValidator.validate(tool.from_bucket);
         }
+
+        if (tool.from_git) {
+          GitConfigValidator.validate(tool.from_git);
+        }
+
+        if (tool.from_url) {
+          UrlConfigValidator.validate(tool.from_url);
+        }
+
+        if (tool.requires_approval !== undefined && typeof tool.requires_approval !== 'boolean') {
+          throw new Error(
+            `Tool ${index + 1} ('${tool.name}') requires_approval must be true or false.\n` +
+            'Example:\n' +
+            'tools:\n' +
+            '  - name: send_email\n' +
+            '    requires_approval: true'
+          );
+        }
+
+        if (tool.pip_requirements !== undefined) {
+          const validRequirements = typeof tool.pip_requirements === 'string'
+            ? tool.pip_requirements.trim() !== ''
+            : Array.isArray(tool.pip_requirements) && tool.pip_requirements.every((req: any) =>
+                (typeof req === 'string' && req.trim() !== '') ||
+                (req && typeof req === 'object' && typeof req.name === 'string' && req.name.trim() !== '' &&
+                  (req.version === undefined || typeof req.version === 'string')));
+          if (!validRequirements) {
+            throw new Error(
+              `Tool ${index + 1} ('${tool.name}') pip_requirements must be a list of package specifiers or a requirements file path.\n` +
+              'Example:\n' +
+              'tools:\n' +
+              '  - name: fetch_weather\n' +
+              '    pip_requirements: ["requests==2.31.0", "pydantic>=2"]\n' +
+              '  - name: summarize_pdf\n' +
+              '    pip_requirements: requirements.txt  # next to tools/summarize_pdf.py'
+            );
+          }
+        }
+
+        if (tool.args_json_schema !== undefined &&
+            (!tool.args_json_schema || typeof tool.args_json_schema !== 'object' || Array.isArray(tool.args_json_schema) ||
+              (tool.args_json_schema.type !== undefined && tool.args_json_schema.type !== 'object'))) {
+          throw new Error(
+            `Tool ${index + 1} ('${tool.name}') args_json_schema must be a JSON schema object describing the arguments.\n` +
+            'Example:\n' +
+            '    args_json_schema:\n' +
+            '      type: object\n' +
+            '      properties:\n' +
+            '        city: { type: string }\n' +
+            '      required: [city]'
+          );
+        }
+
+        if (tool.tags !== undefined &&
+            (!Array.isArray(tool.tags) || !tool.tags.every((tag: any) => typeof tag === 'string' && tag.trim() !== ''))) {
+          throw new Error(`Tool ${index + 1} ('${tool.name}') tags must be a list of non-empty strings.`);
+        }
       } else {
         throw new Error(`Tool ${index + 1} must be a string (tool name) or object (tool configuration).`);
       }
@@ -474,6 +721,145 @@ export class ToolsValidator {
   }
 }
 
+/**
+ * Validator for tool rules (terminal, init, children, max_count)
+ */
+export class ToolRulesValidator {
+  static validate(rules: any): void {
+    if (!Array.isArray(rules)) {
+      throw new Error('tool_rules must be an array.');
+    }
+
+    rules.forEach((rule, index) => {
+      if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+        throw new Error(`Tool rule ${index + 1} must be an object.`);
+      }
+
+      if (!rule.tool_name || typeof rule.tool_name !== 'string' || rule.tool_name.trim() === '') {
+        throw new Error(`Tool rule ${index + 1} must have a non-empty 'tool_name'.`);
+      }
+
+      if (!TOOL_RULE_TYPES.includes(rule.type)) {
+        throw new Error(
+          `Tool rule ${index + 1} ('${rule.tool_name}') has invalid type '${rule.type}'. ` +
+          `Must be one of: ${TOOL_RULE_TYPES.join(', ')}.\n` +
+          'Example:\n' +
+          'tool_rules:\n' +
+          '  - tool_name: send_message\n' +
+          '    type: terminal'
+        );
+      }
+
+      if (rule.type === 'children') {
+        const validChildren = Array.isArray(rule.children) && rule.children.length > 0 &&
+          rule.children.every((child: any) => typeof child === 'string' && child.trim() !== '');
+        if (!validChildren) {
+          throw new Error(
+            `Tool rule ${index + 1} ('${rule.tool_name}') of type 'children' needs a non-empty 'children' list of tool names.\n` +
+            'Example:\n' +
+            'tool_rules:\n' +
+            '  - tool_name: search_docs\n' +
+            '    type: children\n' +
+            '    children: [summarize, send_message]'
+          );
+        }
+      } else if (rule.children !== undefined) {
+        throw new Error(`Tool rule ${index + 1} ('${rule.tool_name}') sets 'children', which only applies to type 'children'.`);
+      }
+
+      if (rule.type === 'max_count') {
+        if (!Number.isInteger(rule.max_count) || rule.max_count < 1) {
+          throw new Error(
+            `Tool rule ${index + 1} ('${rule.tool_name}') of type 'max_count' needs 'max_count' as a positive integer.\n` +
+            'Example:\n' +
+            'tool_rules:\n' +
+            '  - tool_name: web_search\n' +
+            '    type: max_count\n' +
+            '    max_count: 3'
+          );
+        }
+      } else if (rule.max_count !== undefined) {
+        throw new Error(`Tool rule ${index + 1} ('${rule.tool_name}') sets 'max_count', which only applies to type 'max_count'.`);
+      }
+    });
+  }
+}
+
+/**
+ * Validator for scripted initial messages
+ */
+export class InitialMessagesValidator {
+  static validate(initialMessages: any): void {
+    const example =
+      'Example:\n' +
+      'initial_messages:\n' +
+      '  replay_on_reset: true\n' +
+      '  messages:\n' +
+      '    - role: system\n' +
+      '      content: "You are onboarding a new customer."\n' +
+      '    - role: user\n' +
+      '      content: "Hi, I just signed up."';
+
+    if (!initialMessages || typeof initialMessages !== 'object' || Array.isArray(initialMessages)) {
+      throw new Error(`initial_messages must be an object with a messages list.\n${example}`);
+    }
+
+    const unknown = Object.keys(initialMessages).filter(key => !['messages', 'replay_on_reset'].includes(key));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown initial_messages fields: ${unknown.join(', ')}\n${example}`);
+    }
+
+    if (!Array.isArray(initialMessages.messages) || initialMessages.messages.length === 0) {
+      throw new Error(`initial_messages.messages must be a non-empty array.\n${example}`);
+    }
+
+    if (initialMessages.replay_on_reset !== undefined && typeof initialMessages.replay_on_reset !== 'boolean') {
+      throw new Error('initial_messages.replay_on_reset must be a boolean.');
+    }
+
+    initialMessages.messages.forEach((message: any, index: number) => {
+      if (!message || typeof message !== 'object' || Array.isArray(message)) {
+        throw new Error(`Initial message ${index + 1} must be an object with role and content.`);
+      }
+      if (!INITIAL_MESSAGE_ROLES.includes(message.role)) {
+        throw new Error(`Initial message ${index + 1} has invalid role '${message.role}'. Must be one of: ${INITIAL_MESSAGE_ROLES.join(', ')}.`);
+      }
+      if (!message.content || typeof message.content !== 'string' || message.content.trim() === '') {
+        throw new Error(`Initial message ${index + 1} must have non-empty string content.`);
+      }
+    });
+  }
+}
+
+/**
+ * Validator for tool execution environment variables
+ */
+export class ToolEnvValidator {
+  static validate(toolEnv: any): void {
+    const example =
+      'Example:\n' +
+      'tool_env:\n' +
+      '  CRM_API_URL: "https://crm.example.com/api"\n' +
+      '  CRM_API_KEY:\n' +
+      '    secret_ref: crm-api-key';
+
+    if (!toolEnv || typeof toolEnv !== 'object' || Array.isArray(toolEnv)) {
+      throw new Error(`tool_env must be a map of variable names to values.\n${example}`);
+    }
+
+    for (const [key, value] of Object.entries(toolEnv)) {
+      if (!TOOL_ENV_KEY_PATTERN.test(key)) {
+        throw new Error(`Invalid tool_env variable name '${key}'. Use letters, numbers and underscores, not starting with a number.`);
+      }
+      if (typeof value === 'string') continue;
+      if (!isSecretRef(value) || Object.keys(value).length !== 1 ||
+          typeof value.secret_ref !== 'string' || value.secret_ref.trim() === '') {
+        throw new Error(`tool_env.${key} must be a string or a secret reference.\n${example}`);
+      }
+    }
+  }
+}
+
 /**
  * Validator for folders configuration
  */
@@ -518,9 +904,13 @@ export class FoldersValidator {
       } else if (typeof file === 'object' && 'from_bucket' in file) {
         // from_bucket config
         BucketConfigValidator.validate(file.from_bucket);
+      } else if (typeof file === 'object' && 'from_git' in file) {
+        GitConfigValidator.validate(file.from_git);
+      } else if (typeof file === 'object' && 'from_url' in file) {
+        UrlConfigValidator.validate(file.from_url);
       } else {
         throw new Error(
-          `Folder "${folder.name}" file ${index + 1} must be a string (file path) or object with from_bucket.\n` +
+          `Folder "${folder.name}" file ${index + 1} must be a string (file path) or object with from_bucket, from_git or from_url.\n` +
           'Examples:\n' +
           'files:\n' +
           '  - files/doc.pdf\n' +
@@ -534,6 +924,62 @@ export class FoldersValidator {
   }
 }
 
+/**
+ * Validator for fleet-level shared folders and the agents that reference them
+ */
+export class SharedFoldersValidator {
+  static validate(folders: any): void {
+    if (!Array.isArray(folders)) {
+      throw new Error('shared_folders must be an array.');
+    }
+
+    try {
+      FoldersValidator.validate(folders);
+    } catch (err: any) {
+      throw new Error(`shared_folders: ${err.message}`);
+    }
+
+    const seen = new Set<string>();
+    for (const folder of folders) {
+      if (seen.has(folder.name)) {
+        throw new Error(`Duplicate shared folder name "${folder.name}". Shared folder names must be unique.`);
+      }
+      seen.add(folder.name);
+    }
+  }
+
+  static validateReferences(agents: any[], sharedFolders: any[]): void {
+    const sharedNames = new Set(sharedFolders.map((folder: any) => folder.name));
+
+    for (const agent of agents) {
+      for (const folderName of agent.shared_folders || []) {
+        if (!sharedNames.has(folderName)) {
+          throw new Error(
+            `Agent "${agent.name}" references unknown shared folder "${folderName}".\n` +
+            (sharedNames.size > 0
+              ? `Available shared folders: ${[...sharedNames].join(', ')}`
+              : 'Define it in the top-level shared_folders section:\n' +
+                'shared_folders:\n' +
+                `  - name: ${folderName}\n` +
+                '    files:\n' +
+                '      - files/handbook.md')
+          );
+        }
+      }
+
+      // A folder is either owned by one agent or shared by name, never both
+      for (const folder of agent.folders || []) {
+        if (sharedNames.has(folder?.name)) {
+          throw new Error(
+            `Agent "${agent.name}" defines folder "${folder.name}", which is also a shared folder. ` +
+            `Reference it with shared_folders: [${folder.name}] instead.`
+          );
+        }
+      }
+    }
+  }
+}
+
 /**
  * Validator for shared blocks configuration
  */
@@ -553,6 +999,88 @@ export class SharedBlockValidator {
   }
 }
 
+/**
+ * Validator for custom storage providers (storage_providers)
+ */
+export class StorageProvidersValidator {
+  static validate(providers: any): void {
+    if (!Array.isArray(providers)) {
+      throw new Error(
+        'storage_providers must be an array.\n' +
+        'Example:\n' +
+        'storage_providers:\n' +
+        '  - name: gcs\n' +
+        '    module: ./storage/gcs.js'
+      );
+    }
+
+    const names = new Set<string>();
+    providers.forEach((provider, index) => {
+      try {
+        this.validateProvider(provider);
+      } catch (err: any) {
+        throw new Error(`Storage provider ${index + 1}: ${err.message}`);
+      }
+
+      if (names.has(provider.name)) {
+        throw new Error(`Duplicate storage provider name "${provider.name}". Storage provider names must be unique.`);
+      }
+      names.add(provider.name);
+    });
+  }
+
+  private static validateProvider(provider: any): void {
+    if (!provider || typeof provider !== 'object' || Array.isArray(provider)) {
+      throw new Error('Storage provider must be an object with name and module.');
+    }
+
+    if (typeof provider.name !== 'string' || !STORAGE_PROVIDER_NAME_PATTERN.test(provider.name)) {
+      throw new Error(`Invalid storage provider name "${provider.name}". Use lowercase letters, digits, - and _, starting with a letter.`);
+    }
+
+    if (BUILTIN_STORAGE_PROVIDERS.includes(provider.name)) {
+      throw new Error(`Storage provider "${provider.name}" is built in and cannot be replaced.`);
+    }
+
+    if (typeof provider.module !== 'string' || provider.module.trim() === '') {
+      throw new Error(`Storage provider "${provider.name}" must have a non-empty module path.`);
+    }
+
+    if (provider.options !== undefined && (!provider.options || typeof provider.options !== 'object' || Array.isArray(provider.options))) {
+      throw new Error(`Storage provider "${provider.name}" options must be an object.`);
+    }
+
+    const allowed = ['name', 'module', 'options'];
+    const unknown = Object.keys(provider).filter(key => !allowed.includes(key));
+    if (unknown.length > 0) {
+      throw new Error(`Storage provider "${provider.name}" has unknown fields: ${unknown.join(', ')}. Allowed: ${allowed.join(', ')}.`);
+    }
+  }
+
+  /**
+   * Every from_bucket provider must be built in or declared under storage_providers
+   */
+  static validateReferences(config: any): void {
+    const declared = new Set<string>((config.storage_providers || []).map((provider: any) => provider.name));
+
+    const check = (node: any): void => {
+      if (Array.isArray(node)) {
+        node.forEach(check);
+        return;
+      }
+      if (!node || typeof node !== 'object') return;
+
+      const provider = node.from_bucket?.provider;
+      if (typeof provider === 'string' && !BUILTIN_STORAGE_PROVIDERS.includes(provider) && !declared.has(provider)) {
+        throw new Error(unknownStorageProviderMessage(provider, [...BUILTIN_STORAGE_PROVIDERS, ...declared]));
+      }
+      Object.values(node).forEach(check);
+    };
+
+    check([config.shared_blocks, config.shared_folders, config.agents]);
+  }
+}
+
 /**
  * Validator for LLM configuration
  */
@@ -594,5 +1122,48 @@ export class LLMConfigValidator {
     if (config.context_window > 200000) {
       throw new Error('LLM config context_window cannot exceed 200000.');
     }
+
+    this.validateModelSettings(config);
+  }
+
+  private static validateModelSettings(config: any): void {
+    if (config.temperature !== undefined &&
+        (typeof config.temperature !== 'number' || config.temperature < 0 || config.temperature > 2)) {
+      throw new Error('LLM config temperature must be a number between 0 and 2.');
+    }
+
+    if (config.max_output_tokens !== undefined &&
+        (!Number.isInteger(config.max_output_tokens) || config.max_output_tokens <= 0)) {
+      throw new Error('LLM config max_output_tokens must be a positive integer.');
+    }
+
+    if (config.parallel_tool_calls !== undefined && typeof config.parallel_tool_calls !== 'boolean') {
+      throw new Error('LLM config parallel_tool_calls must be true or false.');
+    }
+
+    if (config.reasoning_effort !== undefined) {
+      const providerType = getProviderType(config.model);
+      const allowed = providerType === 'anthropic' ? ANTHROPIC_REASONING_EFFORTS : REASONING_EFFORTS;
+      if (providerType !== 'openai' && providerType !== 'anthropic') {
+        throw new Error(
+          `LLM config reasoning_effort is only supported for openai/ and anthropic/ models (got '${config.model}').\n` +
+          'Use provider_options for other providers, e.g.:\n' +
+          'llm_config:\n' +
+          '  model: "google_ai/gemini-2.5-pro"\n' +
+          '  context_window: 32000\n' +
+          '  provider_options:\n' +
+          '    thinking_config:\n' +
+          '      thinking_budget: 1024'
+        );
+      }
+      if (!allowed.includes(config.reasoning_effort)) {
+        throw new Error(`LLM config reasoning_effort must be one of: ${allowed.join(', ')}.`);
+      }
+    }
+
+    if (config.provider_options !== undefined &&
+        (!config.provider_options || typeof config.provider_options !== 'object' || Array.isArray(config.provider_options))) {
+      throw new Error('LLM config provider_options must be an object of model settings.');
+    }
   }
 }
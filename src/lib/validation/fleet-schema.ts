@@ -0,0 +1,748 @@
+/**
+ * JSON Schema for fleet configuration files (agents.yml)
+ * Mirrors the rules enforced by config-validators.ts so editors can flag the same
+ * problems inline. Descriptions and defaults are also the source for `lettactl explain`.
+ */
+
+import { DEFAULT_CONTEXT_WINDOW, DEFAULT_MODEL, DEFAULT_EMBEDDING, DEFAULT_REASONING, AGENT_TYPES } from '../shared/constants';
+import { REASONING_EFFORTS } from '../apply/model-settings';
+import { DEFAULT_CHUNK_SIZE, DEFAULT_CHUNK_OVERLAP } from '../apply/archive-passages';
+import { INITIAL_MESSAGE_ROLES } from '../messaging/initial-messages';
+import { BUILTIN_STORAGE_PROVIDERS, STORAGE_PROVIDER_NAME_PATTERN } from '../storage/storage-provider';
+
+export const FLEET_SCHEMA_ID = 'https://github.com/nouamanecodes/lettactl/fleet-config.schema.json';
+
+const nonEmptyString = (description: string) => ({
+  type: 'string',
+  minLength: 1,
+  pattern: '\\S',
+  description
+});
+
+// Plain string or a secret_ref resolved at apply time
+const secretValue = (description: string) => ({
+  description,
+  oneOf: [{ type: 'string' }, { $ref: '#/definitions/SecretRef' }]
+});
+
+const contentSourceOneOf = [
+  { required: ['value'] },
+  { required: ['from_file'] },
+  { required: ['from_bucket'] },
+  { required: ['from_git'] },
+  { required: ['from_url'] }
+];
+
+const agentProperties: Record<string, any> = {
+  name: {
+    type: 'string',
+    pattern: '^[a-zA-Z0-9_-]+$',
+    description: 'Agent name, unique in the fleet. Letters, numbers, hyphens, and underscores only.'
+  },
+  description: nonEmptyString('What this agent does.'),
+  system_prompt: { $ref: '#/definitions/PromptConfig' },
+  llm_config: { $ref: '#/definitions/LLMConfig' },
+  tools: {
+    type: 'array',
+    description: 'Tools attached to the agent.',
+    items: { $ref: '#/definitions/ToolEntry' }
+  },
+  mcp_tools: {
+    type: 'array',
+    description: 'Tools attached from MCP servers.',
+    items: { $ref: '#/definitions/McpToolConfig' }
+  },
+  tool_rules: {
+    type: 'array',
+    description: 'Constraints on tool call order and counts. When set, replaces the agent\'s terminal, init, children and max_count rules on apply.',
+    items: { $ref: '#/definitions/ToolRule' }
+  },
+  shared_blocks: {
+    type: 'array',
+    description: 'Names of shared blocks (from the top-level shared_blocks) attached to the agent.',
+    items: nonEmptyString('Shared block name.')
+  },
+  shared_folders: {
+    type: 'array',
+    description: 'Names of shared folders (from the top-level shared_folders) attached to the agent.',
+    items: nonEmptyString('Shared folder name.')
+  },
+  memory_blocks: {
+    type: 'array',
+    description: 'Agent-specific memory blocks.',
+    items: { $ref: '#/definitions/MemoryBlock' }
+  },
+  archives: {
+    type: 'array',
+    description: 'Archival memory stores. Only one archive is supported per agent.',
+    maxItems: 1,
+    items: { $ref: '#/definitions/ArchiveConfig' }
+  },
+  folders: {
+    type: 'array',
+    description: 'Folders of files attached to the agent.',
+    items: { $ref: '#/definitions/FolderConfig' }
+  },
+  embedding: {
+    ...nonEmptyString('Embedding model handle. Required on self-hosted Letta unless embedding_config is set.'),
+    default: DEFAULT_EMBEDDING
+  },
+  embedding_config: {
+    type: 'object',
+    description: 'Full embedding configuration object (e.g. embedding_model, embedding_endpoint_type).'
+  },
+  first_message: {
+    type: 'string',
+    description: 'Message sent to the agent once, right after it is created, for auto-calibration.'
+  },
+  initial_messages: {
+    type: 'object',
+    description: 'Scripted conversation sent after the agent is created. System and assistant messages go out with the next user turn; each step waits for its run, and a failed run fails the apply. Cannot be combined with first_message.',
+    required: ['messages'],
+    additionalProperties: false,
+    properties: {
+      messages: {
+        type: 'array',
+        minItems: 1,
+        items: { $ref: '#/definitions/InitialMessage' }
+      },
+      replay_on_reset: {
+        type: 'boolean',
+        default: false,
+        description: 'Also replay the messages after `lettactl reset-messages` (skip with --no-replay).'
+      }
+    }
+  },
+  reasoning: {
+    type: 'boolean',
+    default: DEFAULT_REASONING,
+    description: 'Enable reasoning for models that support it.'
+  },
+  tags: {
+    type: 'array',
+    description: 'Tags attached to the agent. When set, apply keeps the agent\'s tags in sync.',
+    items: nonEmptyString('Tag.')
+  },
+  timezone: nonEmptyString('IANA timezone for the agent, e.g. "America/New_York".'),
+  agent_type: {
+    type: 'string',
+    enum: AGENT_TYPES,
+    description: 'Letta agent type. Only used when the agent is created; it cannot be changed in place.'
+  },
+  metadata: {
+    type: 'object',
+    description: 'User metadata stored on the agent. Keys starting with "lettactl." are reserved.',
+    propertyNames: { not: { pattern: '^lettactl\\.' } }
+  },
+  tool_env: {
+    type: 'object',
+    description: 'Tool execution environment variables for this agent. Owns every variable on the agent when set; values are shown only as masked digests.',
+    propertyNames: { pattern: '^[A-Za-z_][A-Za-z0-9_]*$' },
+    additionalProperties: secretValue('Variable value.')
+  },
+  extends: nonEmptyString('Name of an agent_templates entry to inherit fields from.')
+};
+
+const definitions: Record<string, any> = {
+  BucketConfig: {
+    type: 'object',
+    description: 'Reads content from a cloud storage bucket.',
+    required: ['provider', 'bucket', 'path'],
+    properties: {
+      provider: {
+        type: 'string',
+        anyOf: [
+          { enum: BUILTIN_STORAGE_PROVIDERS },
+          { pattern: STORAGE_PROVIDER_NAME_PATTERN.source }
+        ],
+        description: 'Storage provider. supabase requires SUPABASE_URL and SUPABASE_ANON_KEY (or SUPABASE_SERVICE_ROLE_KEY for private buckets). s3 covers AWS S3, MinIO and R2, with credentials from AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY or an AWS profile. Any other name must be declared in storage_providers; its extra fields are passed to the provider.'
+      },
+      bucket: nonEmptyString('Bucket name.'),
+      path: nonEmptyString('Object path inside the bucket. Folder files and archive passages also accept globs such as docs/*.pdf.'),
+      endpoint: {
+        type: 'string',
+        pattern: '^https?://',
+        description: 's3 only. Custom endpoint such as http://localhost:9000 for MinIO. Defaults to AWS_ENDPOINT_URL_S3, AWS_ENDPOINT_URL or AWS itself.'
+      },
+      region: nonEmptyString('s3 only. Bucket region. Defaults to AWS_REGION, AWS_DEFAULT_REGION, the profile region or us-east-1.'),
+      profile: nonEmptyString('s3 only. Profile in ~/.aws/credentials to read credentials and region from.'),
+      force_path_style: {
+        type: 'boolean',
+        description: 's3 only. Address buckets as <endpoint>/<bucket>. Defaults to true when an endpoint is set.'
+      }
+    }
+  },
+
+  StorageProviderConfig: {
+    type: 'object',
+    description: 'Custom from_bucket provider loaded from a local module.',
+    required: ['name', 'module'],
+    additionalProperties: false,
+    properties: {
+      name: {
+        type: 'string',
+        pattern: STORAGE_PROVIDER_NAME_PATTERN.source,
+        not: { enum: BUILTIN_STORAGE_PROVIDERS },
+        description: 'Provider name used in from_bucket.provider.'
+      },
+      module: nonEmptyString('Module path relative to the fleet root. It exports a function that takes options and returns { read, readBinary, list, stat }.'),
+      options: {
+        type: 'object',
+        description: 'Passed to the module\'s function as-is.'
+      }
+    }
+  },
+
+  GitConfig: {
+    type: 'object',
+    description: 'Reads content from a git repository at a pinned commit.',
+    required: ['repo', 'path'],
+    additionalProperties: false,
+    properties: {
+      repo: nonEmptyString('Repository URL (https://, ssh://, git@host:path) or local repository path relative to the fleet root.'),
+      ref: nonEmptyString('Branch, tag or commit SHA. Defaults to the repository HEAD. The resolved commit is recorded in agent metadata and the manifest.'),
+      path: nonEmptyString('File path inside the repository. Folder files also accept globs such as docs/*.pdf.')
+    }
+  },
+
+  UrlConfig: {
+    type: 'object',
+    description: 'Reads content from an HTTP(S) URL. Cached between applies and revalidated with its ETag.',
+    required: ['url'],
+    additionalProperties: false,
+    properties: {
+      url: {
+        ...nonEmptyString('http or https URL of the document.'),
+        pattern: '^https?://'
+      },
+      sha256: {
+        type: 'string',
+        pattern: '^[0-9a-fA-F]{64}$',
+        description: 'Expected SHA-256 of the content (hex). Apply fails when the published content no longer matches.'
+      }
+    }
+  },
+
+  PromptConfig: {
+    type: 'object',
+    description: 'System prompt for the agent. Exactly one of value, from_file, from_bucket, from_git, or from_url.',
+    oneOf: contentSourceOneOf,
+    properties: {
+      value: nonEmptyString('Inline system prompt text.'),
+      from_file: nonEmptyString('Path to a prompt file, relative to the fleet root.'),
+      from_bucket: { $ref: '#/definitions/BucketConfig' },
+      from_git: { $ref: '#/definitions/GitConfig' },
+      from_url: { $ref: '#/definitions/UrlConfig' },
+      disable_base_prompt: {
+        type: 'boolean',
+        default: false,
+        description: 'When false, config/base-letta-system.md (if present) is prepended to the prompt during apply. Set true to send the prompt exactly as written.'
+      }
+    }
+  },
+
+  LLMConfig: {
+    type: 'object',
+    description: 'Model settings for the agent.',
+    required: ['model', 'context_window'],
+    properties: {
+      model: {
+        ...nonEmptyString('Model handle in provider/model form, e.g. google_ai/gemini-2.5-pro or openai/gpt-4o.'),
+        default: DEFAULT_MODEL
+      },
+      context_window: {
+        type: 'integer',
+        minimum: 1000,
+        maximum: 200000,
+        default: DEFAULT_CONTEXT_WINDOW,
+        description: 'Context window size in tokens. Changing it updates the agent in place.'
+      },
+      temperature: {
+        type: 'number',
+        minimum: 0,
+        maximum: 2,
+        description: 'Sampling temperature. Lower is more deterministic.'
+      },
+      max_output_tokens: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Maximum tokens the model may generate per response.'
+      },
+      reasoning_effort: {
+        type: 'string',
+        enum: REASONING_EFFORTS,
+        description: 'Reasoning effort for openai/ models (anthropic/ models accept low, medium, high).'
+      },
+      parallel_tool_calls: {
+        type: 'boolean',
+        description: 'Allow the model to call several tools in one response.'
+      },
+      provider_options: {
+        type: 'object',
+        description: 'Extra provider-specific model settings passed through as-is (e.g. thinking, verbosity, thinking_config).'
+      }
+    }
+  },
+
+  MemoryBlock: {
+    type: 'object',
+    description: 'Agent-specific core memory block. Exactly one of value, from_file, from_bucket, from_git, or from_url.',
+    required: ['name', 'description', 'limit'],
+    oneOf: contentSourceOneOf,
+    properties: {
+      name: nonEmptyString('Block label, unique within the agent.'),
+      description: nonEmptyString('What the block stores. Shown to the agent alongside the block.'),
+      limit: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Maximum number of characters the block can hold.'
+      },
+      value: nonEmptyString('Inline block content.'),
+      from_file: nonEmptyString('Path to a file with the block content, relative to the fleet root.'),
+      from_bucket: { $ref: '#/definitions/BucketConfig' },
+      from_git: { $ref: '#/definitions/GitConfig' },
+      from_url: { $ref: '#/definitions/UrlConfig' },
+      version: {
+        type: 'string',
+        description: 'Optional user-defined version tag. Informational only; it is not used for change detection.'
+      },
+      mutable: {
+        type: 'boolean',
+        default: true,
+        description: 'When true, the YAML value only seeds the block and the agent owns it afterwards (apply never overwrites it). When false, the block value is re-synced from YAML on every apply.'
+      }
+    }
+  },
+
+  SharedBlock: {
+    type: 'object',
+    description: 'Memory block shared by every agent that lists it in shared_blocks.',
+    required: ['name', 'description', 'limit'],
+    oneOf: contentSourceOneOf,
+    properties: {
+      name: nonEmptyString('Block label referenced from agents.shared_blocks.'),
+      description: nonEmptyString('What the block stores.'),
+      limit: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Maximum number of characters the block can hold.'
+      },
+      value: nonEmptyString('Inline block content.'),
+      from_file: nonEmptyString('Path to a file with the block content, relative to the fleet root.'),
+      from_bucket: { $ref: '#/definitions/BucketConfig' },
+      from_git: { $ref: '#/definitions/GitConfig' },
+      from_url: { $ref: '#/definitions/UrlConfig' },
+      version: {
+        type: 'string',
+        description: 'Optional user-defined version tag. Informational only; it is not used for change detection.'
+      },
+      mutable: {
+        type: 'boolean',
+        default: true,
+        description: 'When true, an existing shared block is reused as-is. When false, its value is updated in place from YAML whenever the content changes.'
+      }
+    }
+  },
+
+  ArchiveConfig: {
+    type: 'object',
+    description: 'Archival memory store attached to the agent.',
+    required: ['name'],
+    properties: {
+      name: nonEmptyString('Archive name, unique within the agent.'),
+      description: nonEmptyString('What the archive contains.'),
+      embedding: nonEmptyString('Embedding model handle for the archive. Defaults to the agent embedding.'),
+      embedding_config: {
+        type: 'object',
+        description: 'Full embedding configuration object (overrides embedding).'
+      },
+      passages: {
+        type: 'array',
+        description: 'Sources chunked into archival passages on apply. Re-apply inserts only new or changed chunks; --force removes stale ones.',
+        items: { $ref: '#/definitions/ArchivePassageSource' }
+      }
+    }
+  },
+
+  InitialMessage: {
+    type: 'object',
+    required: ['role', 'content'],
+    properties: {
+      role: {
+        type: 'string',
+        enum: INITIAL_MESSAGE_ROLES,
+        description: 'user turns start a run; system notes and assistant examples are sent with the next user turn.'
+      },
+      content: nonEmptyString('Message text.')
+    }
+  },
+
+  ArchivePassageSource: {
+    type: 'object',
+    description: 'Text seeded into the archive. Exactly one of from_file or from_bucket.',
+    oneOf: [
+      { required: ['from_file'] },
+      { required: ['from_bucket'] }
+    ],
+    properties: {
+      from_file: nonEmptyString('File path or glob (e.g. knowledge/**/*.md), relative to the fleet root.'),
+      from_bucket: { $ref: '#/definitions/BucketConfig' },
+      chunk_size: {
+        type: 'integer',
+        minimum: 1,
+        default: DEFAULT_CHUNK_SIZE,
+        description: 'Maximum characters per passage.'
+      },
+      chunk_overlap: {
+        type: 'integer',
+        minimum: 0,
+        default: DEFAULT_CHUNK_OVERLAP,
+        description: 'Characters repeated between consecutive passages. Must be smaller than chunk_size.'
+      }
+    }
+  },
+
+  ToolConfig: {
+    type: 'object',
+    description: 'Tool with an explicit source, definition fields (pip_requirements, args_json_schema, tags) and/or approval setting. Without a source, the tool is resolved like a plain tool name.',
+    required: ['name'],
+    properties: {
+      name: nonEmptyString('Tool name. Must match the Python function name.'),
+      from_file: nonEmptyString('Path to the Python source file, relative to the fleet root.'),
+      from_bucket: { $ref: '#/definitions/BucketConfig' },
+      from_git: { $ref: '#/definitions/GitConfig' },
+      from_url: { $ref: '#/definitions/UrlConfig' },
+      source_code: nonEmptyString('Inline Python source code.'),
+      requires_approval: {
+        type: 'boolean',
+        description: 'Pause runs for human approval before this tool executes. Only tools that set this field have their approval managed by apply.'
+      },
+      pip_requirements: {
+        description: 'Python packages the tool needs. Changes re-register the tool.',
+        oneOf: [
+          {
+            type: 'array',
+            description: 'Requirement specifiers ("requests==2.31.0", "pydantic>=2") or { name, version } objects.',
+            items: {
+              oneOf: [
+                nonEmptyString('Requirement specifier.'),
+                {
+                  type: 'object',
+                  required: ['name'],
+                  properties: {
+                    name: nonEmptyString('Package name.'),
+                    version: nonEmptyString('Exact version to install.')
+                  }
+                }
+              ]
+            }
+          },
+          nonEmptyString('Path to a requirements.txt file, relative to the tool source file (tools/ by default; the fleet root for inline or bucket sources).')
+        ]
+      },
+      args_json_schema: {
+        type: 'object',
+        description: 'JSON schema for the tool arguments, overriding the one Letta derives from the source.'
+      },
+      tags: {
+        type: 'array',
+        description: 'Tags set on the registered tool.',
+        items: nonEmptyString('Tag.')
+      }
+    }
+  },
+
+  ToolEntry: {
+    description: 'Tool name (built-in, MCP, or tools/<name>.py), "tools/*" to auto-discover every tool in tools/, or a tool configuration object.',
+    oneOf: [
+      nonEmptyString('Tool name.'),
+      { $ref: '#/definitions/ToolConfig' }
+    ]
+  },
+
+  ToolRule: {
+    type: 'object',
+    description: 'Letta tool rule for a single tool.',
+    required: ['tool_name', 'type'],
+    properties: {
+      tool_name: nonEmptyString('Tool the rule applies to.'),
+      type: {
+        type: 'string',
+        enum: ['terminal', 'init', 'children', 'max_count'],
+        description: 'terminal: ends the agent step after running. init: must run first. children: only the listed tools may run next. max_count: limits calls per step.'
+      },
+      children: {
+        type: 'array',
+        minItems: 1,
+        description: 'Tools allowed to run after this one (type: children only).',
+        items: nonEmptyString('Tool name.')
+      },
+      max_count: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Maximum calls per step (type: max_count only).'
+      }
+    }
+  },
+
+  McpToolConfig: {
+    type: 'object',
+    description: 'Selects tools from an MCP server defined in mcp_servers.',
+    required: ['server'],
+    properties: {
+      server: nonEmptyString('MCP server name (from mcp_servers).'),
+      tools: {
+        description: '"all" to attach every tool from the server, or a list of tool names.',
+        default: 'all',
+        oneOf: [
+          { type: 'string', enum: ['all'] },
+          { type: 'array', items: nonEmptyString('MCP tool name.') }
+        ]
+      }
+    }
+  },
+
+  FolderFileConfig: {
+    description: 'Local file path (relative to the fleet root; "files/*" adds everything in files/), a bucket file, a git file or a URL.',
+    oneOf: [
+      nonEmptyString('Local file path.'),
+      {
+        type: 'object',
+        required: ['from_bucket'],
+        properties: {
+          from_bucket: { $ref: '#/definitions/BucketConfig' }
+        }
+      },
+      {
+        type: 'object',
+        required: ['from_git'],
+        properties: {
+          from_git: { $ref: '#/definitions/GitConfig' }
+        }
+      },
+      {
+        type: 'object',
+        required: ['from_url'],
+        properties: {
+          from_url: { $ref: '#/definitions/UrlConfig' }
+        }
+      }
+    ]
+  },
+
+  FolderConfig: {
+    type: 'object',
+    description: 'Folder of files attached to the agent for file search.',
+    required: ['name', 'files'],
+    properties: {
+      name: nonEmptyString('Folder name.'),
+      files: {
+        type: 'array',
+        description: 'Files uploaded into the folder.',
+        items: { $ref: '#/definitions/FolderFileConfig' }
+      }
+    }
+  },
+
+  SecretRef: {
+    type: 'object',
+    description: 'Credential resolved at apply time from .lettactl/secrets.yml (or --secrets-file), .env, or ~/.lettactl/keyring.json. Never written to manifests and masked in output.',
+    required: ['secret_ref'],
+    additionalProperties: false,
+    properties: {
+      secret_ref: nonEmptyString('Secret name. Prefix with secrets:, dotenv: or keyring: to read only that source.')
+    }
+  },
+
+  McpServerConfig: {
+    type: 'object',
+    description: 'MCP server registered before agents are applied. ${VAR} references are expanded from the environment.',
+    required: ['name', 'type'],
+    properties: {
+      name: nonEmptyString('Server name referenced from agents.mcp_tools.'),
+      type: {
+        type: 'string',
+        enum: ['sse', 'stdio', 'streamable_http'],
+        description: 'Transport type.'
+      },
+      server_url: nonEmptyString('Server URL (sse and streamable_http).'),
+      auth_header: secretValue('Auth header name, e.g. Authorization (sse and streamable_http).'),
+      auth_token: secretValue('Auth header value (sse and streamable_http).'),
+      custom_headers: {
+        type: 'object',
+        description: 'Extra HTTP headers (sse and streamable_http).',
+        additionalProperties: secretValue('Header value.')
+      },
+      command: nonEmptyString('Executable to launch (stdio).'),
+      args: {
+        type: 'array',
+        description: 'Command arguments (stdio).',
+        items: { type: 'string' }
+      },
+      env: {
+        type: 'object',
+        description: 'Environment variables for the process (stdio).',
+        additionalProperties: secretValue('Variable value.')
+      }
+    },
+    allOf: [
+      { if: { properties: { type: { enum: ['sse', 'streamable_http'] } } }, then: { required: ['server_url'] } },
+      { if: { properties: { type: { const: 'stdio' } } }, then: { required: ['command'] } }
+    ]
+  },
+
+  FleetDefaults: {
+    type: 'object',
+    description: 'Fields merged into every agent before validation. Agent and template fields win.',
+    additionalProperties: false,
+    properties: {
+      llm_config: {
+        type: 'object',
+        description: 'Default model settings.',
+        properties: {
+          model: { $ref: '#/definitions/LLMConfig/properties/model' },
+          context_window: { $ref: '#/definitions/LLMConfig/properties/context_window' }
+        }
+      },
+      embedding: { $ref: '#/definitions/AgentConfig/properties/embedding' },
+      tools: { $ref: '#/definitions/AgentConfig/properties/tools' },
+      shared_blocks: { $ref: '#/definitions/AgentConfig/properties/shared_blocks' },
+      shared_folders: { $ref: '#/definitions/AgentConfig/properties/shared_folders' }
+    }
+  }
+};
+
+definitions.AgentConfig = {
+  type: 'object',
+  description: 'Agent definition. description, system_prompt, and llm_config may come from extends or defaults.',
+  required: ['name'],
+  additionalProperties: false,
+  properties: agentProperties,
+  if: { not: { required: ['extends'] } },
+  then: { required: ['name', 'description', 'system_prompt'] }
+};
+
+definitions.AgentTemplate = {
+  type: 'object',
+  description: 'Partial agent definition that agents (or other templates) inherit with extends.',
+  required: ['name'],
+  additionalProperties: false,
+  properties: {
+    ...Object.fromEntries(
+      Object.keys(agentProperties).map(key => [key, { $ref: `#/definitions/AgentConfig/properties/${key}` }])
+    ),
+    name: nonEmptyString('Template name referenced by extends.')
+  }
+};
+
+definitions.InstanceSet = {
+  type: 'object',
+  description: 'One agent per record, extending an agent template. String fields take {{field}} placeholders filled from each record.',
+  required: ['name', 'template'],
+  additionalProperties: false,
+  properties: {
+    name: nonEmptyString('Agent name pattern, e.g. "support-{{id}}". Must render to a unique agent name per record.'),
+    template: nonEmptyString('Name of the agent_templates entry every instance extends.'),
+    records: {
+      type: 'array',
+      description: 'Inline instance records.',
+      items: { type: 'object' }
+    },
+    from_file: {
+      type: 'string',
+      pattern: '\\.(csv|jsonl|ndjson)$',
+      description: 'Instance records file relative to the fleet root: .csv with a header row, or .jsonl / .ndjson.'
+    },
+    description: { type: 'string', description: 'Agent description pattern.' },
+    tags: {
+      type: 'array',
+      description: 'Agent tag patterns.',
+      items: { type: 'string' }
+    },
+    block_values: {
+      type: 'object',
+      description: 'Memory block name -> value pattern, for blocks the template declares.',
+      additionalProperties: { type: 'string' }
+    }
+  },
+  oneOf: [{ required: ['records'] }, { required: ['from_file'] }]
+};
+
+/**
+ * Builds the JSON Schema (draft-07) for fleet configuration files
+ */
+export function buildFleetConfigSchema(): Record<string, any> {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: FLEET_SCHEMA_ID,
+    title: 'lettactl fleet configuration',
+    description: 'Declarative configuration for a fleet of Letta agents.',
+    type: 'object',
+    properties: {
+      root_path: {
+        type: 'string',
+        description: 'Directory used to resolve relative file paths, relative to this file. Defaults to the directory of the config file.'
+      },
+      include: {
+        description: 'Other fleet files or directories merged into this one, relative to this file.',
+        oneOf: [
+          nonEmptyString('Path to a fleet file or directory.'),
+          { type: 'array', items: nonEmptyString('Path to a fleet file or directory.') }
+        ]
+      },
+      defaults: { $ref: '#/definitions/FleetDefaults' },
+      agent_templates: {
+        type: 'array',
+        description: 'Reusable partial agent definitions.',
+        items: { $ref: '#/definitions/AgentTemplate' }
+      },
+      shared_blocks: {
+        type: 'array',
+        description: 'Memory blocks that several agents can attach by name.',
+        items: { $ref: '#/definitions/SharedBlock' }
+      },
+      shared_folders: {
+        type: 'array',
+        description: 'Folders uploaded once and attached to every agent that lists them in shared_folders. Never deleted with an agent.',
+        items: { $ref: '#/definitions/FolderConfig' }
+      },
+      storage_providers: {
+        type: 'array',
+        description: 'Custom from_bucket providers, each backed by a local module.',
+        items: { $ref: '#/definitions/StorageProviderConfig' }
+      },
+      mcp_servers: {
+        type: 'array',
+        description: 'MCP servers registered before agents are applied.',
+        items: { $ref: '#/definitions/McpServerConfig' }
+      },
+      instances: {
+        type: 'array',
+        description: 'Agents expanded from a template over a list of records, e.g. one per customer.',
+        items: { $ref: '#/definitions/InstanceSet' }
+      },
+      agents: {
+        type: 'array',
+        description: 'Agents in the fleet.',
+        items: { $ref: '#/definitions/AgentConfig' }
+      }
+    },
+    allOf: [
+      {
+        // Without fleet defaults, every agent without extends needs its own llm_config
+        if: { not: { required: ['defaults'] } },
+        then: {
+          properties: {
+            agents: {
+              items: {
+                if: { not: { required: ['extends'] } },
+                then: { required: ['llm_config'] }
+              }
+            }
+          }
+        }
+      }
+    ],
+    definitions: JSON.parse(JSON.stringify(definitions))
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Field documentation for fleet config paths (lettactl explain)
+ * Walks the fleet JSON Schema so explanations stay in sync with validation.
+ */
+
+import { buildFleetConfigSchema } from './fleet-schema';
+
+export interface ExplainedField {
+  name: string;
+  type: string;
+  required: boolean;
+  description?: string;
+}
+
+export interface FieldExplanation {
+  path: string;
+  type: string;
+  required: boolean;
+  default?: any;
+  allowedValues: string[];
+  description?: string;
+  fields: ExplainedField[];
+}
+
+// Generic non-empty check used by the schema; not worth showing as a pattern
+const NON_EMPTY_PATTERN = '\\S';
+
+function resolveRef(schema: Record<string, any>, node: any): any {
+  let current = node;
+  const seen = new Set<string>();
+  while (current && typeof current.$ref === 'string') {
+    if (seen.has(current.$ref)) break;
+    seen.add(current.$ref);
+    current = current.$ref
+      .replace(/^#\//, '')
+      .split('/')
+      .reduce((target: any, key: string) => target?.[key], schema);
+  }
+  return current || {};
+}
+
+/**
+ * Returns the schema variants of a node (oneOf / anyOf alternatives, which inherit the
+ * node's own keywords, or the node itself)
+ */
+function variants(schema: Record<string, any>, node: any): any[] {
+  const resolved = resolveRef(schema, node);
+  const { oneOf, anyOf, ...shared } = resolved;
+  const alternatives = oneOf || anyOf;
+  if (Array.isArray(alternatives) && !resolved.properties) {
+    return alternatives.map((entry: any) => ({ ...shared, ...resolveRef(schema, entry) }));
+  }
+  return [resolved];
+}
+
+/**
+ * Object schemas reachable from a node, looking through arrays and oneOf / anyOf alternatives
+ */
+function objectVariants(schema: Record<string, any>, node: any): any[] {
+  const result: any[] = [];
+  for (const variant of variants(schema, node)) {
+    if (variant.type === 'array' && variant.items) {
+      result.push(...objectVariants(schema, variant.items));
+    } else if (variant.properties) {
+      result.push(variant);
+    }
+  }
+  return result;
+}
+
+function describeType(schema: Record<string, any>, node: any): string {
+  const types = variants(schema, node).map(variant => {
+    if (variant.type === 'array') {
+      const itemType = variant.items ? describeType(schema, variant.items) : 'any';
+      return itemType.includes('|') ? `[](${itemType})` : `[]${itemType}`;
+    }
+    if (variant.type) return variant.type;
+    if (variant.properties) return 'object';
+    return 'any';
+  });
+  return [...new Set(types)].join(' | ');
+}
+
+function describeAllowedValues(schema: Record<string, any>, node: any): string[] {
+  const allowed: string[] = [];
+
+  for (const variant of variants(schema, node)) {
+    if (Array.isArray(variant.enum)) {
+      allowed.push(...variant.enum.map((value: any) => JSON.stringify(value)));
+    }
+    if (variant.const !== undefined) {
+      allowed.push(JSON.stringify(variant.const));
+    }
+    if (variant.minimum !== undefined && variant.maximum !== undefined) {
+      allowed.push(`${variant.minimum} to ${variant.maximum}`);
+    } else if (variant.minimum !== undefined) {
+      allowed.push(`>= ${variant.minimum}`);
+    } else if (variant.maximum !== undefined) {
+      allowed.push(`<= ${variant.maximum}`);
+    }
+    if (variant.pattern && variant.pattern !== NON_EMPTY_PATTERN) {
+      allowed.push(`matches ${variant.pattern}`);
+    }
+    if (variant.maxItems !== undefined) {
+      allowed.push(`at most ${variant.maxItems} item${variant.maxItems === 1 ? '' : 's'}`);
+    }
+  }
+
+  return allowed;
+}
+
+function describeFields(schema: Record<string, any>, node: any): ExplainedField[] {
+  const fields = new Map<string, ExplainedField>();
+
+  for (const variant of objectVariants(schema, node)) {
+    const required: string[] = variant.required || [];
+    for (const [name, child] of Object.entries<any>(variant.properties)) {
+      if (fields.has(name)) continue;
+      fields.set(name, {
+        name,
+        type: describeType(schema, child),
+        required: required.includes(name),
+        description: resolveRef(schema, child).description
+      });
+    }
+  }
+
+  return Array.from(fields.values());
+}
+
+/**
+ * Parses a field path like agents.memory_blocks.mutable (array indexes such as [0] are ignored)
+ */
+function parseFieldPath(fieldPath: string): string[] {
+  return fieldPath
+    .replace(/\[[^\]]*\]/g, '')
+    .split('.')
+    .map(segment => segment.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Explains a fleet config path: type, default, allowed values, description, and child fields
+ */
+export function explainFleetPath(
+  fieldPath: string,
+  schema: Record<string, any> = buildFleetConfigSchema()
+): FieldExplanation {
+  const segments = parseFieldPath(fieldPath);
+  let node: any = schema;
+  let required = false;
+  const visited: string[] = [];
+
+  for (const segment of segments) {
+    const parents = objectVariants(schema, node);
+    const parent = parents.find(variant => variant.properties[segment] !== undefined);
+
+    if (!parent) {
+      const available = describeFields(schema, node).map(field => field.name);
+      const location = visited.length > 0 ? visited.join('.') : 'the fleet config';
+      throw new Error(
+        `Field "${segment}" does not exist in ${location}.` +
+        (available.length > 0 ? `\nAvailable fields: ${available.join(', ')}` : '')
+      );
+    }
+
+    required = (parent.required || []).includes(segment);
+    node = parent.properties[segment];
+    visited.push(segment);
+  }
+
+  const resolved = resolveRef(schema, node);
+  const defaultValue = variants(schema, node).find(variant => variant.default !== undefined)?.default
+    ?? resolved.default;
+
+  return {
+    path: visited.join('.'),
+    type: describeType(schema, node),
+    required,
+    default: defaultValue,
+    allowedValues: describeAllowedValues(schema, node),
+    description: resolved.description,
+    fields: describeFields(schema, node)
+  };
+}
@@ -1,6 +1,8 @@
 import { FleetParser } from './lib/apply/fleet-parser';
+import { resolveAgentInheritance } from './lib/apply/agent-inheritance';
+import { expandInstances } from './lib/apply/fleet-instances';
 import { SupabaseStorageBackend } from './lib/storage/storage-backend';
-import { FleetConfig, AgentConfig } from './types/fleet-config';
+import { FleetConfig, AgentConfig, AgentTemplate, InstanceSetConfig } from './types/fleet-config';
 import { FleetConfigValidator } from './lib/validation/config-validators';
 import { applyCommand } from './commands/apply';
 import { deleteAgentWithCleanup } from './commands/delete';
@@ -11,7 +13,6 @@ import { Run } from './types/run';
 import * as yaml from 'js-yaml';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 
 export interface LettaCtlOptions {
   lettaBaseUrl?: string;
@@ -64,41 +65,27 @@ export class LettaCtl {
   }
 
   async deployFleet(config: FleetConfig, options?: { dryRun?: boolean; agentPattern?: string; match?: string }): Promise<void> {
-    FleetConfigValidator.validate(config);
+    FleetConfigValidator.validate(resolveAgentInheritance(expandInstances(config, this.root)));
 
-    const tempDir = path.join(os.tmpdir(), `lettactl-${Date.now()}`);
-    const tempFile = path.join(tempDir, 'fleet.yaml');
-
-    try {
-      fs.mkdirSync(tempDir, { recursive: true });
-      const yamlContent = yaml.dump(config);
-      fs.writeFileSync(tempFile, yamlContent);
-
-      await applyCommand(
-        {
-          file: tempFile,
-          agent: options?.agentPattern,
-          match: options?.match,
-          dryRun: options?.dryRun || false,
-          root: this.root
-        },
-        {
-          parent: {
-            opts: () => ({ verbose: false })
-          }
+    // Applied from memory: no temp YAML to write and re-parse per call
+    await applyCommand(
+      {
+        file: this.fleetFilePath,
+        config,
+        agent: options?.agentPattern,
+        match: options?.match,
+        dryRun: options?.dryRun || false,
+        root: this.root
+      },
+      {
+        parent: {
+          opts: () => ({ verbose: false })
         }
-      );
-
-      if (!options?.dryRun) {
-        this.writeFleetFile(config);
-      }
-    } finally {
-      if (fs.existsSync(tempFile)) {
-        fs.unlinkSync(tempFile);
-      }
-      if (fs.existsSync(tempDir)) {
-        fs.rmdirSync(tempDir);
       }
+    );
+
+    if (!options?.dryRun) {
+      this.writeFleetFile(config);
     }
   }
 
@@ -134,7 +121,7 @@ export class LettaCtl {
 
   validateFleet(config: FleetConfig): boolean {
     try {
-      FleetConfigValidator.validate(config);
+      FleetConfigValidator.validate(resolveAgentInheritance(expandInstances(config, this.root)));
       return true;
     } catch {
       return false;
@@ -216,11 +203,30 @@ export class FleetConfigBuilder {
     return this;
   }
 
+  addTemplate(template: AgentTemplate): this {
+    if (!this.config.agent_templates) {
+      this.config.agent_templates = [];
+    }
+    this.config.agent_templates.push(template);
+    return this;
+  }
+
+  /**
+   * Adds one agent per record, extending a template (see `instances` in the README)
+   */
+  addInstances(instanceSet: InstanceSetConfig): this {
+    if (!this.config.instances) {
+      this.config.instances = [];
+    }
+    this.config.instances.push(instanceSet);
+    return this;
+  }
+
   build(): FleetConfig {
     return this.config;
   }
 }
 
-export { FleetConfig, AgentConfig } from './types/fleet-config';
+export { FleetConfig, AgentConfig, AgentTemplate, InstanceSetConfig } from './types/fleet-config';
 export { Run } from './types/run';
 export { isRunTerminal, getEffectiveRunStatus } from './lib/messaging/run-utils';
\ No newline at end of file
@@ -2,6 +2,7 @@ export interface AgentConfigHashes {
   overall: string;           // Combined hash for quick comparison
   systemPrompt: string;      // System prompt hash
   tools: string;             // Tools configuration hash
+  toolRules: string;         // Tool rules hash
   model: string;             // Model + embedding + context window hash
   memoryBlocks: string;      // Memory blocks hash
   folders: string;           // Folders hash
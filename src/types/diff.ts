@@ -1,8 +1,20 @@
+import type { InitialMessageConfig, ToolRuleConfig } from './fleet-config';
+import type { ArchivePassageChunk } from '../lib/apply/archive-passages';
+import type { ToolEnvChange } from '../lib/apply/tool-env';
+
 export interface ToolDiff {
   toAdd: Array<{ name: string; id: string }>;
   toRemove: Array<{ name: string; id: string }>;
   toUpdate: Array<{ name: string; currentId: string; newId: string; reason: string }>;
   unchanged: Array<{ name: string; id: string }>;
+  toUpdateApproval: Array<{ name: string; requiresApproval: boolean }>;
+}
+
+export interface ToolRuleDiff {
+  toAdd: ToolRuleConfig[];
+  toRemove: ToolRuleConfig[];
+  unchanged: ToolRuleConfig[];
+  rules: Array<Record<string, any>>; // Full tool_rules list to send (unmanaged server rules + desired rules)
 }
 
 export interface BlockDiff {
@@ -31,6 +43,16 @@ export interface ArchiveDiff {
   toDetach: Array<{ name: string; id: string }>;
   toUpdate: Array<{ name: string; id: string; description?: string | null }>;
   unchanged: Array<{ name: string; id: string }>;
+  passages?: ArchivePassageDiff; // Only when the archive declares passages and some differ
+}
+
+export interface ArchivePassageDiff {
+  name: string;
+  id: string;
+  chunks: ArchivePassageChunk[]; // Every desired chunk, re-synced against the archive on apply
+  toInsert: ArchivePassageChunk[];
+  toRemove: Array<{ id: string; source: string }>; // Removed only with --force
+  unchanged: number;
 }
 
 export interface FieldChange<T> {
@@ -48,10 +70,17 @@ export interface AgentUpdateOperations {
     embeddingConfig?: FieldChange<Record<string, any> | null>;
     contextWindow?: FieldChange<number>;
     reasoning?: FieldChange<boolean>;
+    modelSettings?: FieldChange<Record<string, any>> & { changedPaths: string[] }; // Full settings before/after
+    tags?: FieldChange<string[]>;
+    timezone?: FieldChange<string | null>;
+    metadata?: FieldChange<Record<string, any>>; // User-owned keys only
+    initialMessages?: FieldChange<InitialMessageConfig[] | null>; // Script replayed after reset-messages
+    toolEnv?: ToolEnvChange; // Values only as masked digests, except the resolved `to`
   };
 
   // Resource management operations
   tools?: ToolDiff;
+  toolRules?: ToolRuleDiff;
   blocks?: BlockDiff;
   folders?: FolderDiff;
   archives?: ArchiveDiff;
@@ -1,7 +1,13 @@
 export interface FleetConfig {
   root_path?: string;
+  include?: string | string[]; // Other fleet files or directories merged into this one
+  defaults?: FleetDefaults;
+  agent_templates?: AgentTemplate[];
   shared_blocks?: SharedBlock[];
+  shared_folders?: FolderConfig[]; // Folders uploaded once and attached to every agent that references them
   mcp_servers?: McpServerConfig[];
+  storage_providers?: StorageProviderConfig[]; // Custom from_bucket providers loaded from local modules
+  instances?: InstanceSetConfig[]; // Agents expanded from a template, one per record
   agents: AgentConfig[];
 }
 
@@ -10,21 +16,30 @@ export interface McpServerConfig {
   type: 'sse' | 'stdio' | 'streamable_http';
   // SSE / Streamable HTTP
   server_url?: string;
-  auth_header?: string;
-  auth_token?: string;
-  custom_headers?: Record<string, string>;
+  auth_header?: SecretValue;
+  auth_token?: SecretValue;
+  custom_headers?: Record<string, SecretValue>;
   // Stdio
   command?: string;
   args?: string[];
-  env?: Record<string, string>;
+  env?: Record<string, SecretValue>;
 }
 
+// Credential resolved at apply time from a secrets file, .env or the keyring stand-in
+export interface SecretRef {
+  secret_ref: string; // Secret name, optionally prefixed with its source ("keyring:github-token")
+}
+
+export type SecretValue = string | SecretRef;
+
 export interface SharedBlock {
   name: string;
   description: string;
   limit: number;
   value?: string;
   from_file?: string;
+  from_git?: FromGitConfig;
+  from_url?: FromUrlConfig;
   version?: string; // Optional user-defined version tag
   mutable?: boolean; // Default: true. If false, value syncs from YAML on every apply
 }
@@ -36,14 +51,64 @@ export interface AgentConfig {
   llm_config: LLMConfig;
   tools?: string[];
   mcp_tools?: McpToolConfig[];
+  tool_rules?: ToolRuleConfig[]; // When set, owns the agent's terminal/init/children/max_count rules
   shared_blocks?: string[];
+  shared_folders?: string[]; // Names of top-level shared_folders attached to this agent
   memory_blocks?: MemoryBlock[];
   archives?: ArchiveConfig[];
   folders?: FolderConfig[];
   embedding?: string;
   embedding_config?: Record<string, any>;
   first_message?: string; // Message sent to agent on first creation for auto-calibration
+  initial_messages?: InitialMessagesConfig; // Scripted conversation sent after creation
   reasoning?: boolean; // Enable reasoning for models that support it (default: true)
+  tags?: string[];
+  timezone?: string; // IANA timezone, e.g. "Europe/Paris"
+  agent_type?: string; // Set at creation only; Letta cannot change it in place
+  metadata?: Record<string, any>; // User metadata; keys starting with "lettactl." are reserved
+  tool_env?: Record<string, SecretValue>; // Tool execution environment variables for this agent
+  extends?: string; // Name of an agent template to inherit fields from
+}
+
+// Fleet-wide values merged into every agent (agent fields win)
+export interface FleetDefaults {
+  llm_config?: Partial<LLMConfig>;
+  embedding?: string;
+  tools?: string[];
+  shared_blocks?: string[];
+  shared_folders?: string[];
+}
+
+// Partial agent config that agents (or other templates) can extend by name
+export type AgentTemplate = Partial<AgentConfig> & { name: string };
+
+// One agent per record, extending an agent template. String fields take {{field}} placeholders.
+export interface InstanceSetConfig {
+  name: string; // Agent name pattern, e.g. "support-{{id}}"
+  template: string; // Name of an agent_templates entry
+  records?: Record<string, any>[];
+  from_file?: string; // .csv with a header row, or .jsonl / .ndjson
+  description?: string;
+  tags?: string[];
+  block_values?: Record<string, string>; // Memory block name -> value, for blocks the template declares
+}
+
+// Environment overlay (overlays/<env>/*.yml) patching base agents by name
+export interface FleetOverlay {
+  patches: OverlayPatch[];
+}
+
+export interface OverlayPatch {
+  agent: string; // Agent name or glob pattern
+  patch?: Record<string, any>; // Strategic merge patch
+  json_patch?: JsonPatchOperation[]; // RFC 6902 operations
+}
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  from?: string;
+  value?: any;
 }
 
 export interface McpToolConfig {
@@ -51,22 +116,64 @@ export interface McpToolConfig {
   tools?: string[] | 'all';
 }
 
+export type ToolRuleType = 'terminal' | 'init' | 'children' | 'max_count';
+
+export interface ToolRuleConfig {
+  tool_name: string;
+  type: ToolRuleType;
+  children?: string[]; // type: children - tools allowed to run after this one
+  max_count?: number; // type: max_count - max invocations per step
+}
+
 export interface ToolConfig {
   name: string;
-  from_bucket: {
-    provider: string;
-    bucket: string;
-    path: string;
-  };
+  from_file?: string;
+  from_bucket?: FromBucketConfig;
+  from_git?: FromGitConfig;
+  from_url?: FromUrlConfig;
+  source_code?: string;
+  requires_approval?: boolean; // Pause runs for human approval before the tool executes
+  pip_requirements?: PipRequirementConfig[] | string; // Specifiers, or a requirements file next to the tool source
+  args_json_schema?: Record<string, any>; // Overrides the args schema Letta derives from the source
+  tags?: string[];
 }
 
+export type PipRequirementConfig = string | { name: string; version?: string };
+
 export interface FromBucketConfig {
-  provider: 'supabase'; // Matches BucketConfig from storage-backend
+  provider: string; // supabase, s3, or a name from storage_providers; matches BucketConfig from storage-backend
   bucket: string;
   path: string;
+  endpoint?: string; // s3 only: MinIO, R2 or other S3-compatible endpoint
+  region?: string; // s3 only
+  profile?: string; // s3 only: profile in ~/.aws/credentials
+  force_path_style?: boolean; // s3 only
+  [option: string]: any; // Fields defined by custom providers
+}
+
+export interface StorageProviderConfig {
+  name: string; // Used as from_bucket.provider
+  module: string; // Local module exporting a provider factory, relative to the fleet root
+  options?: Record<string, any>; // Passed to the factory
+}
+
+export interface FromGitConfig {
+  repo: string; // Remote URL, or a local repository path relative to the fleet root
+  ref?: string; // Branch, tag or commit SHA; defaults to the repository's HEAD
+  path: string; // Folder files accept a * glob, like from_bucket
+  commit?: string; // Pinned commit, set by the parser once the ref is resolved
 }
 
-export type FolderFileConfig = string | { from_bucket: FromBucketConfig };
+export interface FromUrlConfig {
+  url: string; // http(s) URL; fetched once per apply and revalidated with its ETag
+  sha256?: string; // Pinned checksum; the apply fails when the content no longer matches
+}
+
+export type FolderFileConfig =
+  | string
+  | { from_bucket: FromBucketConfig }
+  | { from_git: FromGitConfig }
+  | { from_url: FromUrlConfig };
 
 export interface FolderConfig {
   name: string;
@@ -76,6 +183,8 @@ export interface FolderConfig {
 export interface PromptConfig {
   value?: string;
   from_file?: string;
+  from_git?: FromGitConfig;
+  from_url?: FromUrlConfig;
   disable_base_prompt?: boolean; // Optional: skip base Letta system instructions combination
 }
 
@@ -85,6 +194,8 @@ export interface MemoryBlock {
   limit: number;
   value?: string;
   from_file?: string;
+  from_git?: FromGitConfig;
+  from_url?: FromUrlConfig;
   version?: string; // Optional user-defined version tag
   mutable?: boolean; // Default: true. If false, value syncs from YAML on every apply
 }
@@ -94,9 +205,34 @@ export interface ArchiveConfig {
   description?: string;
   embedding?: string;
   embedding_config?: Record<string, any>;
+  passages?: ArchivePassageConfig[]; // Sources seeded into archival memory on apply
+}
+
+export type InitialMessageRole = 'user' | 'assistant' | 'system';
+
+export interface InitialMessageConfig {
+  role: InitialMessageRole;
+  content: string;
+}
+
+export interface InitialMessagesConfig {
+  messages: InitialMessageConfig[];
+  replay_on_reset?: boolean; // Also replay after `lettactl reset-messages` (default: create only)
+}
+
+export interface ArchivePassageConfig {
+  from_file?: string; // File path or glob, relative to the fleet root
+  from_bucket?: FromBucketConfig; // A path containing * matches every object under its prefix
+  chunk_size?: number; // Characters per passage (default 1000)
+  chunk_overlap?: number; // Characters repeated between consecutive passages (default 100)
 }
 
 export interface LLMConfig {
   model: string;
   context_window: number;
+  temperature?: number;
+  max_output_tokens?: number;
+  reasoning_effort?: 'none' | 'minimal' | 'low' | 'medium' | 'high' | 'xhigh';
+  parallel_tool_calls?: boolean;
+  provider_options?: Record<string, any>; // Extra provider-specific model_settings (e.g. thinking, verbosity)
 }
@@ -0,0 +1,71 @@
+import { applyCommand } from '../../../src/commands/apply/apply';
+import { LettaClientWrapper } from '../../../src/lib/client/letta-client';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+jest.mock('../../../src/lib/client/letta-client');
+
+const MockedLettaClient = LettaClientWrapper as jest.MockedClass<typeof LettaClientWrapper>;
+
+describe('apply template mode', () => {
+  let tempDir: string;
+  let fleetPath: string;
+  let mockClient: jest.Mocked<LettaClientWrapper>;
+  const command = { parent: { opts: () => ({ verbose: false, noSpinner: true }) } };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lettactl-template-'));
+    fleetPath = path.join(tempDir, 'fleet.yml');
+    fs.writeFileSync(fleetPath, [
+      'agents:',
+      '  - name: support-template',
+      '    description: Support agent',
+      '    embedding: openai/text-embedding-3-small',
+      '    llm_config:',
+      '      model: openai/gpt-4o',
+      '      context_window: 128000',
+      '    system_prompt:',
+      '      value: You help customers.',
+      '    tool_env:',
+      '      CRM_API_KEY:',
+      '        secret_ref: crm-key',
+      ''
+    ].join('\n'));
+
+    jest.clearAllMocks();
+    mockClient = new MockedLettaClient() as jest.Mocked<LettaClientWrapper>;
+    MockedLettaClient.mockImplementation(() => mockClient);
+    const agent = { id: 'agent-1', name: 'support-acme', system: 'You help customers.', metadata: {} };
+    mockClient.listAgents.mockResolvedValue([agent] as any);
+    mockClient.getAgent.mockResolvedValue(agent as any);
+    mockClient.getAgentWithSecrets.mockResolvedValue({ ...agent, secrets: [{ key: 'CRM_API_KEY', value: 'old' }] } as any);
+    for (const method of ['listAgentTools', 'listAgentBlocks', 'listAgentFolders', 'listAgentArchives', 'listBlocks', 'listArchives', 'listTools', 'listMcpServers'] as const) {
+      (mockClient[method] as jest.Mock).mockResolvedValue([]);
+    }
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should fail on a missing tool_env secret before looking up agents', async () => {
+    await expect(applyCommand({ file: fleetPath, match: 'support-*' } as any, command))
+      .rejects.toThrow('Agent support-template: tool_env: Secret "crm-key" not found');
+    expect(mockClient.listAgents).not.toHaveBeenCalled();
+  });
+
+  it('should set the template tool_env on matched agents', async () => {
+    fs.mkdirSync(path.join(tempDir, '.lettactl'));
+    fs.writeFileSync(path.join(tempDir, '.lettactl', 'secrets.yml'), 'crm-key: crm_value\n');
+
+    await applyCommand({ file: fleetPath, match: 'support-*' } as any, command);
+
+    expect(mockClient.updateAgent).toHaveBeenCalledWith('agent-1', expect.objectContaining({
+      secrets: { CRM_API_KEY: 'crm_value' }
+    }));
+  });
+});
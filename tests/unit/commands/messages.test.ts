@@ -1,6 +1,9 @@
 import { listMessagesCommand, sendMessageCommand } from '../../../src/commands/messages';
 import { LettaClientWrapper } from '../../../src/lib/client/letta-client';
 import { AgentResolver } from '../../../src/lib/client/agent-resolver';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock dependencies
 jest.mock('../../../src/lib/client/letta-client');
@@ -147,5 +150,53 @@ describe('messages commands', () => {
         streaming: true
       });
     });
+
+    describe('with a fleet config (-f)', () => {
+      let tempDir: string;
+      let fleetPath: string;
+      const mockConsoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lettactl-send-'));
+        fleetPath = path.join(tempDir, 'fleet.yml');
+        fs.writeFileSync(fleetPath, [
+          'agents:',
+          '  - name: support-${env}',
+          '    description: Support agent',
+          '    llm_config:',
+          '      model: "${MODEL}"',
+          '      context_window: 128000',
+          ''
+        ].join('\n'));
+        mockResolver.getAllAgents.mockResolvedValue([
+          { id: 'agent-1', name: 'support-prod' },
+          { id: 'agent-2', name: 'support-dev' }
+        ] as any);
+        mockClient.createAsyncMessage.mockResolvedValue({ id: 'run-1' } as any);
+        mockClient.getRun.mockResolvedValue({ id: 'run-1', status: 'completed' } as any);
+      });
+
+      afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      afterAll(() => {
+        mockConsoleError.mockRestore();
+      });
+
+      it('should resolve ${var} placeholders from --set when targeting agents', async () => {
+        await sendMessageCommand('Hello fleet', undefined, { file: [fleetPath], set: ['env=prod', 'MODEL=openai/gpt-4o'], confirm: true }, mockCommand);
+
+        expect(mockClient.createAsyncMessage).toHaveBeenCalledTimes(1);
+        expect(mockClient.createAsyncMessage).toHaveBeenCalledWith('agent-1', {
+          messages: [{ role: 'user', content: 'Hello fleet' }]
+        });
+      });
+
+      it('should report variables missing from --values and --set', async () => {
+        await expect(sendMessageCommand('Hello fleet', undefined, { file: [fleetPath], confirm: true }, mockCommand))
+          .rejects.toThrow('${MODEL} at agents[0].llm_config.model');
+      });
+    });
   });
 });
\ No newline at end of file
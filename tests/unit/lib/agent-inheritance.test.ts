@@ -0,0 +1,173 @@
+import { resolveAgentInheritance, deepMerge } from '../../../src/lib/apply/agent-inheritance';
+import { FleetConfigValidator } from '../../../src/lib/validation/config-validators';
+
+describe('agent inheritance', () => {
+  const baseAgent = {
+    name: 'agent-a',
+    description: 'Agent A',
+    system_prompt: { value: 'You are A' }
+  };
+
+  describe('deepMerge', () => {
+    it('should merge nested objects with override winning', () => {
+      const result = deepMerge(
+        { llm_config: { model: 'base', context_window: 32000 } },
+        { llm_config: { context_window: 64000 } }
+      );
+
+      expect(result).toEqual({ llm_config: { model: 'base', context_window: 64000 } });
+    });
+
+    it('should union named lists and replace other lists', () => {
+      const result = deepMerge(
+        { tools: ['a', 'b'], memory_blocks: [{ name: 'x', limit: 1 }], mcp_tools: [{ server: 'one' }] },
+        { tools: ['b', 'c'], memory_blocks: [{ name: 'x', limit: 2 }], mcp_tools: [{ server: 'two' }] }
+      );
+
+      expect(result.tools).toEqual(['a', 'b', 'c']);
+      expect(result.memory_blocks).toEqual([{ name: 'x', limit: 2 }]);
+      expect(result.mcp_tools).toEqual([{ server: 'two' }]);
+    });
+
+    it('should remove inherited list entries with patch directives', () => {
+      const result = deepMerge(
+        { tools: ['a', 'b'], memory_blocks: [{ name: 'x', limit: 1 }, { name: 'y', limit: 1 }] },
+        { '$deleteFromPrimitiveList/tools': ['a'], tools: ['c'], memory_blocks: [{ name: 'x', $patch: 'delete' }] }
+      );
+
+      expect(result).toEqual({ tools: ['b', 'c'], memory_blocks: [{ name: 'y', limit: 1 }] });
+    });
+
+    it('should not mutate its inputs', () => {
+      const base = { llm_config: { model: 'base' }, tools: ['a'] };
+      deepMerge(base, { llm_config: { model: 'other' }, tools: ['b'] });
+
+      expect(base).toEqual({ llm_config: { model: 'base' }, tools: ['a'] });
+    });
+  });
+
+  describe('resolveAgentInheritance', () => {
+    it('should return configs without inheritance unchanged', () => {
+      const config = { agents: [baseAgent] } as any;
+
+      expect(resolveAgentInheritance(config)).toBe(config);
+    });
+
+    it('should apply fleet defaults to every agent', () => {
+      const config = {
+        defaults: {
+          llm_config: { model: 'google_ai/gemini-2.5-pro', context_window: 32000 },
+          embedding: 'openai/text-embedding-3-small',
+          tools: ['archival_memory_search'],
+          shared_blocks: ['brand']
+        },
+        agents: [
+          baseAgent,
+          { ...baseAgent, name: 'agent-b', llm_config: { context_window: 64000 }, tools: ['web_search'] }
+        ]
+      } as any;
+
+      const result = resolveAgentInheritance(config);
+
+      expect(result.defaults).toBeUndefined();
+      expect(result.agents[0].llm_config).toEqual({ model: 'google_ai/gemini-2.5-pro', context_window: 32000 });
+      expect(result.agents[0].shared_blocks).toEqual(['brand']);
+      expect(result.agents[1].llm_config).toEqual({ model: 'google_ai/gemini-2.5-pro', context_window: 64000 });
+      expect(result.agents[1].tools).toEqual(['archival_memory_search', 'web_search']);
+    });
+
+    it('should resolve extends chains with defaults applied first', () => {
+      const config = {
+        defaults: { llm_config: { model: 'default-model', context_window: 16000 } },
+        agent_templates: [
+          { name: 'base', description: 'Base', llm_config: { context_window: 32000 }, tools: ['a'] },
+          { name: 'support', extends: 'base', tools: ['b'], reasoning: false }
+        ],
+        agents: [{ name: 'agent-a', extends: 'support', system_prompt: { value: 'Hi' } }]
+      } as any;
+
+      const result = resolveAgentInheritance(config);
+      const agent = result.agents[0];
+
+      expect(result.agent_templates).toBeUndefined();
+      expect(agent.extends).toBeUndefined();
+      expect(agent.name).toBe('agent-a');
+      expect(agent.description).toBe('Base');
+      expect(agent.llm_config).toEqual({ model: 'default-model', context_window: 32000 });
+      expect(agent.tools).toEqual(['a', 'b']);
+      expect(agent.reasoning).toBe(false);
+      expect(() => FleetConfigValidator.validate(result)).not.toThrow();
+    });
+
+    it('should let agents drop inherited tools, blocks and folders', () => {
+      const config = {
+        defaults: { tools: ['archival_memory_search', 'web_search'], shared_blocks: ['brand', 'pricing'] },
+        agent_templates: [
+          { name: 'base', folders: [{ name: 'docs', files: ['docs/*'] }, { name: 'faq', files: ['faq/*'] }] }
+        ],
+        agents: [{
+          ...baseAgent,
+          extends: 'base',
+          '$deleteFromPrimitiveList/tools': ['web_search'],
+          '$deleteFromPrimitiveList/shared_blocks': 'pricing',
+          folders: [{ name: 'faq', $patch: 'delete' }]
+        }]
+      } as any;
+
+      const agent = resolveAgentInheritance(config).agents[0];
+
+      expect(agent.tools).toEqual(['archival_memory_search']);
+      expect(agent.shared_blocks).toEqual(['brand']);
+      expect(agent.folders).toEqual([{ name: 'docs', files: ['docs/*'] }]);
+      expect(Object.keys(agent).filter(key => key.startsWith('$'))).toEqual([]);
+    });
+
+    it('should not modify the input config', () => {
+      const config = {
+        agent_templates: [{ name: 'base', tools: ['a'] }],
+        agents: [{ ...baseAgent, extends: 'base' }]
+      } as any;
+
+      resolveAgentInheritance(config);
+
+      expect(config.agents[0].extends).toBe('base');
+      expect(config.agent_templates).toHaveLength(1);
+    });
+
+    it('should reject unknown templates', () => {
+      const config = {
+        agent_templates: [{ name: 'base' }],
+        agents: [{ ...baseAgent, extends: 'missing' }]
+      } as any;
+
+      expect(() => resolveAgentInheritance(config)).toThrow('Agent 1: Unknown agent template "missing". Available templates: base');
+    });
+
+    it('should reject circular templates', () => {
+      const config = {
+        agent_templates: [{ name: 'a', extends: 'b' }, { name: 'b', extends: 'a' }],
+        agents: [{ ...baseAgent, extends: 'a' }]
+      } as any;
+
+      expect(() => resolveAgentInheritance(config)).toThrow('Circular agent template inheritance: a -> b -> a');
+    });
+
+    it('should reject duplicate template names', () => {
+      const config = {
+        agent_templates: [{ name: 'a' }, { name: 'a' }],
+        agents: [baseAgent]
+      } as any;
+
+      expect(() => resolveAgentInheritance(config)).toThrow('Duplicate agent template name "a"');
+    });
+
+    it('should reject unsupported defaults fields', () => {
+      const config = {
+        defaults: { system_prompt: { value: 'x' } },
+        agents: [baseAgent]
+      } as any;
+
+      expect(() => resolveAgentInheritance(config)).toThrow('Unknown fields in defaults: system_prompt');
+    });
+  });
+});
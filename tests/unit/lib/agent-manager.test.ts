@@ -49,6 +49,21 @@ describe('AgentManager', () => {
       expect(gen({ systemPrompt: 's', tools: [], archives: [{ name: 'a' }] }).archives)
         .not.toBe(gen({ systemPrompt: 's', tools: [], archives: [{ name: 'b' }] }).archives);
     });
+
+    it('hashes tool rules independent of order', () => {
+      const rules = [
+        { tool_name: 'send_message', type: 'terminal' },
+        { tool_name: 'search', type: 'children', children: ['a', 'b'] }
+      ];
+      const reordered = [
+        { tool_name: 'search', type: 'children', children: ['b', 'a'] },
+        { tool_name: 'send_message', type: 'terminal' }
+      ];
+      expect(gen({ systemPrompt: 's', tools: [], toolRules: rules }).toolRules)
+        .toBe(gen({ systemPrompt: 's', tools: [], toolRules: reordered }).toolRules);
+      expect(gen({ systemPrompt: 's', tools: [], toolRules: rules }).toolRules)
+        .not.toBe(gen({ systemPrompt: 's', tools: [], toolRules: [{ tool_name: 'search', type: 'max_count', max_count: 2 }] }).toolRules);
+    });
   });
 
   describe('getConfigChanges', () => {
@@ -61,6 +76,9 @@ describe('AgentManager', () => {
 
       expect(manager.getConfigChanges(existing, config).hasChanges).toBe(false);
       expect(manager.getConfigChanges(existing, { systemPrompt: 'new', tools: [] }).hasChanges).toBe(true);
+      expect(manager.getConfigChanges(existing, {
+        systemPrompt: 'p', tools: [], toolRules: [{ tool_name: 'send_message', type: 'terminal' }]
+      }).changedComponents).toEqual(['toolRules']);
     });
   });
 
@@ -0,0 +1,74 @@
+import { chunkText, buildPassageChunks, diffArchivePassages } from '../../../src/lib/apply/archive-passages';
+
+describe('archive-passages', () => {
+  describe('chunkText', () => {
+    it('returns a single chunk for short text', () => {
+      expect(chunkText('  hello world  ', 100, 10)).toEqual(['hello world']);
+    });
+
+    it('returns no chunks for blank text', () => {
+      expect(chunkText('\n  \n', 100, 10)).toEqual([]);
+    });
+
+    it('splits long text on word boundaries with overlap', () => {
+      const text = Array.from({ length: 40 }, (_, i) => `word${i}`).join(' ');
+      const chunks = chunkText(text, 60, 15);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.length).toBeLessThanOrEqual(60);
+        expect(chunk).toMatch(/^\S.*\S$/);
+      }
+      // Consecutive chunks share text
+      const lastWord = chunks[0].split(' ').pop()!;
+      expect(chunks[1]).toContain(lastWord);
+      expect(chunks[chunks.length - 1].endsWith('word39')).toBe(true);
+    });
+
+    it('prefers paragraph breaks', () => {
+      const text = `${'a'.repeat(40)}\n\n${'b'.repeat(40)}`;
+      expect(chunkText(text, 60, 0)).toEqual(['a'.repeat(40), 'b'.repeat(40)]);
+    });
+  });
+
+  describe('buildPassageChunks', () => {
+    it('hashes chunks per source and drops duplicates', () => {
+      const chunks = buildPassageChunks('kb.md', 'same\n\nsame', 5, 0);
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0]).toMatchObject({ source: 'kb.md', text: 'same' });
+
+      const other = buildPassageChunks('other.md', 'same', 5, 0);
+      expect(other[0].hash).not.toBe(chunks[0].hash);
+    });
+
+    it('produces stable hashes for unchanged content', () => {
+      expect(buildPassageChunks('kb.md', 'content')).toEqual(buildPassageChunks('kb.md', 'content'));
+    });
+  });
+
+  describe('diffArchivePassages', () => {
+    const desired = [
+      { source: 'kb.md', text: 'one', hash: 'h1' },
+      { source: 'kb.md', text: 'two', hash: 'h2' }
+    ];
+
+    it('inserts everything when the archive is not attached yet', () => {
+      const result = diffArchivePassages([], null, desired);
+      expect(result.toInsert).toEqual(desired);
+      expect(result.toRemove).toEqual([]);
+      expect(result.unchanged).toBe(0);
+    });
+
+    it('ignores passages from other archives and unmanaged passages', () => {
+      const result = diffArchivePassages([
+        { id: 'p1', archive_id: 'archive-2', metadata: { 'lettactl.chunkHash': 'h9' } },
+        { id: 'p2', archive_id: 'archive-1', metadata: { note: 'agent memory' } },
+        { id: 'p3', archive_id: 'archive-1', metadata: { 'lettactl.chunkHash': 'h1', 'lettactl.source': 'kb.md' } }
+      ], 'archive-1', desired);
+
+      expect(result.toInsert.map(chunk => chunk.hash)).toEqual(['h2']);
+      expect(result.toRemove).toEqual([]);
+      expect(result.unchanged).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { mapWithConcurrency, resolveConcurrency } from '../../../src/lib/shared/concurrency';
+import { bufferLogs, flushLogs, log, warn, BufferedLogLine } from '../../../src/lib/shared/logger';
+import { ArchiveManager } from '../../../src/lib/managers/archive-manager';
+import { computeDryRunDiffs } from '../../../src/lib/apply/dry-run';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('concurrency', () => {
+  describe('mapWithConcurrency', () => {
+    it('should run at most the limit at once and keep results in order', async () => {
+      let running = 0;
+      let peak = 0;
+      const delays = [30, 5, 20, 1, 10];
+
+      const results = await mapWithConcurrency(delays, 2, async (delay, index) => {
+        running++;
+        peak = Math.max(peak, running);
+        await sleep(delay);
+        running--;
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2, 3, 4]);
+      expect(peak).toBe(2);
+    });
+
+    it('should report results in item order as they complete', async () => {
+      const reported: number[] = [];
+      const finished: number[] = [];
+
+      await mapWithConcurrency([30, 1, 1], 3, async (delay, index) => {
+        await sleep(delay);
+        finished.push(index);
+        return index;
+      }, result => reported.push(result));
+
+      expect(finished).toEqual([1, 2, 0]);
+      expect(reported).toEqual([0, 1, 2]);
+    });
+  });
+
+  it('should validate concurrency values', () => {
+    expect(resolveConcurrency(undefined)).toBe(1);
+    expect(resolveConcurrency(8)).toBe(8);
+    expect(() => resolveConcurrency(0)).toThrow("Invalid concurrency '0'");
+    expect(() => resolveConcurrency(NaN)).toThrow("Invalid concurrency 'NaN'");
+  });
+
+  it('should buffer logs per task and print them when flushed', async () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const first: BufferedLogLine[] = [];
+      const second: BufferedLogLine[] = [];
+
+      await Promise.all([
+        bufferLogs(first, async () => {
+          log('first: start');
+          await sleep(10);
+          warn('first: done');
+        }),
+        bufferLogs(second, async () => {
+          log('second: start');
+          log('second: done');
+        })
+      ]);
+
+      expect(logSpy).not.toHaveBeenCalled();
+      flushLogs(first);
+      flushLogs(second);
+      expect(logSpy.mock.calls).toEqual([['first: start'], ['second: start'], ['second: done']]);
+      expect(warnSpy.mock.calls).toEqual([['first: done']]);
+    } finally {
+      logSpy.mockRestore();
+      warnSpy.mockRestore();
+    }
+  });
+
+  it('should print dry-run warnings in config order when agents are diffed in parallel', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const delays: Record<string, number> = { first: 30, second: 1, third: 10 };
+    try {
+      const results = await computeDryRunDiffs({ agents: Object.keys(delays).map(name => ({ name })) }, {
+        client: { listTools: async () => [], listFolders: async () => [], listMcpServers: async () => [] } as any,
+        blockManager: {} as any,
+        archiveManager: {} as any,
+        agentManager: {
+          getOrCreateAgentName: async (name: string) => {
+            warn(`${name}: start`);
+            await sleep(delays[name]);
+            warn(`${name}: done`);
+            return { shouldCreate: true };
+          }
+        } as any,
+        diffEngine: {} as any,
+        fileTracker: {
+          generateFolderFileHashes: async () => new Map(),
+          generateToolSourceHashes: () => ({}),
+          generateMemoryBlockFileHashes: async () => ({})
+        } as any,
+        parser: { toolConfigs: new Map(), toolApprovals: new Map(), archivePassages: new Map(), resolveToolEnv: () => undefined } as any,
+        verbose: false,
+        concurrency: 3
+      });
+
+      expect(results.map(result => result.name)).toEqual(['first', 'second', 'third']);
+      expect(warnSpy.mock.calls).toEqual([
+        ['first: start'], ['first: done'],
+        ['second: start'], ['second: done'],
+        ['third: start'], ['third: done']
+      ]);
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+
+  it('should create an archive once when agents request it at the same time', async () => {
+    const client: any = {
+      createArchive: jest.fn(async (config: any) => {
+        await sleep(5);
+        return { id: 'archive-1', name: config.name, embedding_config: { embedding_model: 'openai/text-embedding-3-small' } };
+      })
+    };
+    const archiveManager = new ArchiveManager(client);
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    try {
+      const ids = await Promise.all([
+        archiveManager.getOrCreateArchive({ name: 'kb' }),
+        archiveManager.getOrCreateArchive({ name: 'kb' })
+      ]);
+
+      expect(ids).toEqual(['archive-1', 'archive-1']);
+      expect(client.createArchive).toHaveBeenCalledTimes(1);
+    } finally {
+      logSpy.mockRestore();
+    }
+  });
+});
@@ -1,4 +1,4 @@
-import { ArchiveValidator, McpToolsValidator } from '../../../src/lib/validation/config-validators';
+import { AgentValidator, ArchiveValidator, InitialMessagesValidator, LLMConfigValidator, McpToolsValidator, SharedFoldersValidator, ToolRulesValidator, ToolsValidator } from '../../../src/lib/validation/config-validators';
 
 describe('ArchiveValidator', () => {
   it('rejects more than one archive per agent', () => {
@@ -13,6 +13,26 @@ describe('ArchiveValidator', () => {
       { name: 'a', description: 'test archive' }
     ])).not.toThrow();
   });
+
+  it('accepts passage sources with chunking options', () => {
+    expect(() => ArchiveValidator.validate([{
+      name: 'kb',
+      passages: [
+        { from_file: 'knowledge/*.md', chunk_size: 500, chunk_overlap: 50 },
+        { from_bucket: { provider: 'supabase', bucket: 'docs', path: 'handbook/*' } }
+      ]
+    }])).not.toThrow();
+  });
+
+  it('rejects passage sources without exactly one source', () => {
+    expect(() => ArchiveValidator.validate([{ name: 'kb', passages: [{ chunk_size: 500 }] }]))
+      .toThrow('must have exactly one of from_file or from_bucket');
+  });
+
+  it('rejects an overlap that is not smaller than the chunk size', () => {
+    expect(() => ArchiveValidator.validate([{ name: 'kb', passages: [{ from_file: 'a.md', chunk_size: 100, chunk_overlap: 100 }] }]))
+      .toThrow('chunk_overlap must be smaller than chunk_size (100)');
+  });
 });
 
 describe('McpToolsValidator', () => {
@@ -38,3 +58,164 @@ describe('McpToolsValidator', () => {
     ])).toThrow('mcp_tools 1 tools must be an array or "all".');
   });
 });
+
+describe('ToolsValidator', () => {
+  it('accepts pip requirements, an args schema and tags', () => {
+    expect(() => ToolsValidator.validate([
+      { name: 'fetch_weather', pip_requirements: ['requests==2.31.0', { name: 'pydantic', version: '2.7.0' }], tags: ['weather'] },
+      { name: 'summarize_pdf', pip_requirements: 'requirements.txt', args_json_schema: { type: 'object', properties: {} } }
+    ])).not.toThrow();
+  });
+
+  it('rejects malformed definition fields', () => {
+    expect(() => ToolsValidator.validate([{ name: 'a', pip_requirements: [''] }]))
+      .toThrow("Tool 1 ('a') pip_requirements must be a list of package specifiers or a requirements file path.");
+    expect(() => ToolsValidator.validate([{ name: 'a', args_json_schema: { type: 'string' } }]))
+      .toThrow("Tool 1 ('a') args_json_schema must be a JSON schema object");
+    expect(() => ToolsValidator.validate([{ name: 'a', tags: 'weather' }]))
+      .toThrow("Tool 1 ('a') tags must be a list of non-empty strings.");
+  });
+});
+
+describe('ToolRulesValidator', () => {
+  it('accepts each rule type', () => {
+    expect(() => ToolRulesValidator.validate([
+      { tool_name: 'send_message', type: 'terminal' },
+      { tool_name: 'load_context', type: 'init' },
+      { tool_name: 'search', type: 'children', children: ['summarize'] },
+      { tool_name: 'search', type: 'max_count', max_count: 2 }
+    ])).not.toThrow();
+  });
+
+  it('rejects invalid rules', () => {
+    expect(() => ToolRulesValidator.validate({} as any)).toThrow('tool_rules must be an array.');
+    expect(() => ToolRulesValidator.validate([
+      { type: 'terminal' }
+    ])).toThrow("Tool rule 1 must have a non-empty 'tool_name'.");
+    expect(() => ToolRulesValidator.validate([
+      { tool_name: 'a', type: 'exit' }
+    ])).toThrow("has invalid type 'exit'");
+    expect(() => ToolRulesValidator.validate([
+      { tool_name: 'a', type: 'children', children: [] }
+    ])).toThrow("needs a non-empty 'children' list");
+    expect(() => ToolRulesValidator.validate([
+      { tool_name: 'a', type: 'max_count', max_count: 0 }
+    ])).toThrow("needs 'max_count' as a positive integer");
+    expect(() => ToolRulesValidator.validate([
+      { tool_name: 'a', type: 'terminal', max_count: 2 }
+    ])).toThrow("only applies to type 'max_count'");
+  });
+});
+
+describe('AgentValidator', () => {
+  const agent = (fields: Record<string, any>) => ({
+    name: 'support',
+    description: 'Support agent',
+    system_prompt: { value: 'You help customers' },
+    llm_config: { model: 'google_ai/gemini-2.5-pro', context_window: 32000 },
+    ...fields
+  });
+
+  it('accepts tags, timezone, agent_type and metadata', () => {
+    expect(() => AgentValidator.validate(agent({
+      tags: ['support', 'tier-1'],
+      timezone: 'Europe/Paris',
+      agent_type: 'letta_v1_agent',
+      metadata: { team: 'cx' }
+    }))).not.toThrow();
+  });
+
+  it('rejects invalid tags, timezone and agent_type', () => {
+    expect(() => AgentValidator.validate(agent({ tags: 'support' }))).toThrow('Tags must be an array of non-empty strings.');
+    expect(() => AgentValidator.validate(agent({ timezone: 'Mars/Olympus' }))).toThrow("Unknown timezone 'Mars/Olympus'");
+    expect(() => AgentValidator.validate(agent({ agent_type: 'robot' }))).toThrow("Invalid agent_type 'robot'");
+  });
+
+  it('reserves lettactl.* metadata keys', () => {
+    expect(() => AgentValidator.validate(agent({ metadata: ['a'] }))).toThrow('Metadata must be a map of keys to values.');
+    expect(() => AgentValidator.validate(agent({
+      metadata: { 'lettactl.lastApplied': {} }
+    }))).toThrow('reserved for lettactl: lettactl.lastApplied');
+  });
+
+  it('accepts tool_env with plain values and secret references', () => {
+    expect(() => AgentValidator.validate(agent({
+      tool_env: { CRM_API_URL: 'https://crm.example.com', CRM_API_KEY: { secret_ref: 'crm-key' } }
+    }))).not.toThrow();
+  });
+
+  it('rejects invalid tool_env names and values', () => {
+    expect(() => AgentValidator.validate(agent({ tool_env: ['A'] }))).toThrow('tool_env must be a map');
+    expect(() => AgentValidator.validate(agent({ tool_env: { '1BAD': 'x' } }))).toThrow("Invalid tool_env variable name '1BAD'");
+    expect(() => AgentValidator.validate(agent({ tool_env: { PORT: 8080 } }))).toThrow('tool_env.PORT must be a string or a secret reference.');
+  });
+});
+
+describe('LLMConfigValidator', () => {
+  const base = { model: 'openai/gpt-4o', context_window: 32000 };
+
+  it('accepts model settings', () => {
+    expect(() => LLMConfigValidator.validate({
+      ...base, temperature: 0.3, max_output_tokens: 2048, parallel_tool_calls: true, reasoning_effort: 'medium'
+    })).not.toThrow();
+  });
+
+  it('rejects invalid model settings', () => {
+    expect(() => LLMConfigValidator.validate({ ...base, temperature: 3 }))
+      .toThrow('temperature must be a number between 0 and 2');
+    expect(() => LLMConfigValidator.validate({ ...base, max_output_tokens: 1.5 }))
+      .toThrow('max_output_tokens must be a positive integer');
+    expect(() => LLMConfigValidator.validate({ ...base, model: 'anthropic/claude-sonnet-4', reasoning_effort: 'xhigh' }))
+      .toThrow('reasoning_effort must be one of: low, medium, high');
+    expect(() => LLMConfigValidator.validate({ ...base, model: 'google_ai/gemini-2.5-pro', reasoning_effort: 'low' }))
+      .toThrow('only supported for openai/ and anthropic/ models');
+  });
+});
+
+describe('SharedFoldersValidator', () => {
+  const shared = [{ name: 'handbook', files: ['docs/handbook.md'] }];
+
+  it('rejects duplicate shared folder names', () => {
+    expect(() => SharedFoldersValidator.validate([...shared, ...shared]))
+      .toThrow('Duplicate shared folder name "handbook"');
+  });
+
+  it('checks agent references', () => {
+    expect(() => SharedFoldersValidator.validateReferences([{ name: 'a', shared_folders: ['handbook'] }], shared)).not.toThrow();
+    expect(() => SharedFoldersValidator.validateReferences([{ name: 'a', shared_folders: ['faq'] }], shared))
+      .toThrow('Agent "a" references unknown shared folder "faq".\nAvailable shared folders: handbook');
+    expect(() => SharedFoldersValidator.validateReferences([{ name: 'a', folders: [{ name: 'handbook', files: [] }] }], shared))
+      .toThrow('defines folder "handbook", which is also a shared folder');
+  });
+});
+
+describe('InitialMessagesValidator', () => {
+  it('accepts a scripted conversation', () => {
+    expect(() => InitialMessagesValidator.validate({
+      replay_on_reset: true,
+      messages: [
+        { role: 'system', content: 'note' },
+        { role: 'user', content: 'hi' },
+        { role: 'assistant', content: 'hello' }
+      ]
+    })).not.toThrow();
+  });
+
+  it('rejects unknown roles and empty scripts', () => {
+    expect(() => InitialMessagesValidator.validate({ messages: [{ role: 'tool', content: 'x' }] }))
+      .toThrow("Initial message 1 has invalid role 'tool'");
+    expect(() => InitialMessagesValidator.validate({ messages: [] }))
+      .toThrow('initial_messages.messages must be a non-empty array.');
+  });
+
+  it('rejects combining initial_messages with first_message', () => {
+    expect(() => AgentValidator.validate({
+      name: 'agent',
+      description: 'test',
+      system_prompt: { value: 'You are helpful' },
+      llm_config: { model: 'openai/gpt-4o', context_window: 32000 },
+      first_message: 'hello',
+      initial_messages: { messages: [{ role: 'user', content: 'hi' }] }
+    })).toThrow('Use either first_message or initial_messages, not both.');
+  });
+});
@@ -0,0 +1,153 @@
+import { ContentCache, parseByteSize, parseDuration } from '../../../src/lib/storage/content-cache';
+import { StorageBackendManager } from '../../../src/lib/storage/storage-backend';
+import { StorageProvider } from '../../../src/lib/storage/storage-provider';
+import { UrlSourceManager } from '../../../src/lib/storage/url-source';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('content-cache', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lettactl-content-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('ContentCache', () => {
+    it('should only return content stored at the requested version', () => {
+      new ContentCache({ root: tempDir }).put('url:https://example.com/a.md', Buffer.from('alpha'), 'etag:"1"');
+      const cache = new ContentCache({ root: tempDir });
+
+      expect(cache.get('url:https://example.com/a.md', 'etag:"1"')?.toString()).toBe('alpha');
+      expect(cache.get('url:https://example.com/a.md', 'etag:"2"')).toBeUndefined();
+      expect(cache.get('url:https://example.com/a.md')?.toString()).toBe('alpha');
+      expect(cache.get('url:https://example.com/b.md')).toBeUndefined();
+    });
+
+    it('should drop entries whose content was corrupted', () => {
+      const cache = new ContentCache({ root: tempDir });
+      cache.put('url:https://example.com/a.md', Buffer.from('alpha'));
+      const objectsDir = path.join(tempDir, 'objects');
+      const [shard] = fs.readdirSync(objectsDir);
+      const [object] = fs.readdirSync(path.join(objectsDir, shard));
+      fs.writeFileSync(path.join(objectsDir, shard, object), 'tampered');
+
+      expect(cache.get('url:https://example.com/a.md')).toBeUndefined();
+      expect(cache.list()).toEqual([]);
+    });
+
+    it('should evict the least recently used entries over the size limit', () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      try {
+        const cache = new ContentCache({ root: tempDir, maxSize: 10 });
+        cache.put('url:a', Buffer.from('aaaa'));
+        jest.advanceTimersByTime(1000);
+        cache.put('url:b', Buffer.from('bbbb'));
+        jest.advanceTimersByTime(1000);
+        cache.get('url:a');
+        jest.advanceTimersByTime(1000);
+        cache.put('url:c', Buffer.from('cccc'));
+
+        expect(cache.list().map(entry => entry.key)).toEqual(['url:c', 'url:a']);
+        expect(cache.totalSize).toBe(8);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should count and remove shared content once', () => {
+      const cache = new ContentCache({ root: tempDir });
+      cache.put('url:a', Buffer.from('same'));
+      cache.put('url:b', Buffer.from('same'));
+
+      expect(cache.totalSize).toBe(4);
+      expect(cache.prune({ all: true })).toEqual({ removed: 2, freed: 4 });
+      expect(new ContentCache({ root: tempDir }).list()).toEqual([]);
+    });
+
+    it('should prune entries not used within a duration', () => {
+      const cache = new ContentCache({ root: tempDir });
+      cache.put('url:old', Buffer.from('old'));
+      cache.put('url:new', Buffer.from('new'));
+      const oldEntry = path.join(tempDir, 'index', fs.readdirSync(path.join(tempDir, 'index'))
+        .find(file => fs.readFileSync(path.join(tempDir, 'index', file), 'utf8').includes('url:old'))!);
+      const entry = JSON.parse(fs.readFileSync(oldEntry, 'utf8'));
+      fs.writeFileSync(oldEntry, JSON.stringify({ ...entry, usedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString() }));
+
+      const result = new ContentCache({ root: tempDir }).prune({ olderThan: parseDuration('7d') });
+
+      expect(result).toEqual({ removed: 1, freed: 3 });
+      expect(new ContentCache({ root: tempDir }).list().map(e => e.key)).toEqual(['url:new']);
+    });
+  });
+
+  it('should parse sizes and durations', () => {
+    expect(parseByteSize('1024')).toBe(1024);
+    expect(parseByteSize('500MB')).toBe(500 * 1024 * 1024);
+    expect(parseByteSize('2g')).toBe(2 * 1024 * 1024 * 1024);
+    expect(() => parseByteSize('lots')).toThrow("Invalid size 'lots'");
+    expect(parseDuration('12h')).toBe(12 * 60 * 60 * 1000);
+    expect(parseDuration('2w')).toBe(14 * 24 * 60 * 60 * 1000);
+    expect(() => parseDuration('7 days')).toThrow("Invalid duration '7 days'");
+  });
+
+  describe('StorageBackendManager', () => {
+    let objects: Record<string, string>;
+    let provider: StorageProvider & Record<'read' | 'readBinary' | 'list' | 'stat', jest.Mock>;
+
+    beforeEach(() => {
+      objects = { 'docs/a.md': 'alpha', 'docs/guides/b.md': 'beta' };
+      const get = (config: any) => objects[`${config.bucket}/${config.path}`];
+      provider = {
+        read: jest.fn(async config => get(config)),
+        readBinary: jest.fn(async config => Buffer.from(get(config))),
+        list: jest.fn(async (config, prefix) => Object.keys(objects)
+          .filter(key => key.startsWith(`${config.bucket}/${prefix}`))
+          .map(key => key.substring(config.bucket.length + 1))),
+        stat: jest.fn(async config => ({ path: config.path, etag: `"${get(config)}"` }))
+      };
+    });
+
+    const createManager = (offline = false) => {
+      const manager = new StorageBackendManager({ contentCache: new ContentCache({ root: tempDir }), offline });
+      manager.providers.register('memory', () => provider);
+      return manager;
+    };
+
+    it('should reuse cached objects while their version is unchanged', async () => {
+      const config = { provider: 'memory', bucket: 'docs', path: 'a.md' };
+
+      expect(await createManager().readFromBucket(config)).toBe('alpha');
+      expect(await createManager().readFromBucket(config)).toBe('alpha');
+      expect(provider.read).toHaveBeenCalledTimes(1);
+      expect(provider.stat).toHaveBeenCalledTimes(2);
+
+      objects['docs/a.md'] = 'alpha v2';
+      expect(await createManager().readFromBucket(config)).toBe('alpha v2');
+      expect(provider.read).toHaveBeenCalledTimes(2);
+    });
+
+    it('should read and list cached objects offline without the provider', async () => {
+      await createManager().readFromBucket({ provider: 'memory', bucket: 'docs', path: 'guides/b.md' });
+      provider.stat.mockClear();
+      provider.read.mockClear();
+
+      const offline = createManager(true);
+      expect(await offline.readFromBucket({ provider: 'memory', bucket: 'docs', path: 'guides/b.md' })).toBe('beta');
+      expect(await offline.listBucketFiles({ provider: 'memory', bucket: 'docs', path: 'guides/*' }, 'guides/')).toEqual(['guides/b.md']);
+      expect(provider.stat).not.toHaveBeenCalled();
+      expect(provider.read).not.toHaveBeenCalled();
+      await expect(offline.readFromBucket({ provider: 'memory', bucket: 'docs', path: 'a.md' }))
+        .rejects.toThrow('Cannot read docs/a.md (memory) offline: it is not in the local cache.');
+    });
+  });
+
+  it('should fail offline URL reads that are not cached', async () => {
+    await expect(new UrlSourceManager({ cache: new ContentCache({ root: tempDir }), offline: true }).readFile({ url: 'https://example.com/a.md' }))
+      .rejects.toThrow('Cannot read https://example.com/a.md offline: it is not in the local cache.');
+  });
+});
@@ -1,7 +1,8 @@
 import { BlockManager } from '../../../src/lib/managers/block-manager';
 import { ArchiveManager } from '../../../src/lib/managers/archive-manager';
 import { LettaClientWrapper } from '../../../src/lib/client/letta-client';
-import { analyzeToolChanges, analyzeBlockChanges, analyzeFolderChanges, analyzeArchiveChanges } from '../../../src/lib/apply/diff-analyzers';
+import { DiffEngine } from '../../../src/lib/apply/diff-engine';
+import { analyzeToolChanges, analyzeToolRuleChanges, analyzeBlockChanges, analyzeFolderChanges, analyzeArchiveChanges, getToolsRequiringApproval } from '../../../src/lib/apply/diff-analyzers';
 
 jest.mock('../../../src/lib/client/letta-client');
 jest.mock('../../../src/lib/managers/block-manager');
@@ -18,6 +19,89 @@ describe('DiffEngine', () => {
     mockArchiveManager = new (ArchiveManager as any)(mockClient);
   });
 
+  describe('generateUpdateOperations', () => {
+    const existing = {
+      id: 'agent-1', name: 'support', baseName: 'support', version: 'latest', lastUpdated: '',
+      configHashes: {} as any
+    };
+
+    beforeEach(() => {
+      mockClient.getAgent.mockResolvedValue({
+        system: 'prompt',
+        model: 'google_ai/gemini-2.5-pro',
+        embedding: 'openai/text-embedding-3-small',
+        tags: ['support'],
+        timezone: 'UTC',
+        metadata: { team: 'cx', 'lettactl.lastApplied': { tools: [] } }
+      } as any);
+      mockClient.listAgentTools.mockResolvedValue([] as any);
+      mockClient.listAgentBlocks.mockResolvedValue([] as any);
+      mockClient.listAgentFolders.mockResolvedValue([] as any);
+      mockClient.listAgentArchives.mockResolvedValue([] as any);
+    });
+
+    const generate = (desired: Record<string, any>) => {
+      const engine = new DiffEngine(mockClient, mockBlockManager, mockArchiveManager);
+      return engine.generateUpdateOperations(existing, { systemPrompt: 'prompt', tools: [], ...desired }, new Map(), new Map());
+    };
+
+    it('ignores tags, timezone and metadata when not declared', async () => {
+      const ops = await generate({});
+      expect(ops.updateFields?.tags).toBeUndefined();
+      expect(ops.updateFields?.timezone).toBeUndefined();
+      expect(ops.updateFields?.metadata).toBeUndefined();
+    });
+
+    it('detects tag, timezone and user metadata drift', async () => {
+      const ops = await generate({ tags: ['support', 'vip'], timezone: 'Europe/Paris', metadata: { team: 'cx', tier: 1 } });
+      expect(ops.updateFields?.tags).toEqual({ from: ['support'], to: ['support', 'vip'] });
+      expect(ops.updateFields?.timezone).toEqual({ from: 'UTC', to: 'Europe/Paris' });
+      expect(ops.updateFields?.metadata).toEqual({ from: { team: 'cx' }, to: { team: 'cx', tier: 1 } });
+    });
+
+    it('diffs declared model settings field by field', async () => {
+      mockClient.getAgent.mockResolvedValue({
+        system: 'prompt',
+        model: 'openai/gpt-4o',
+        embedding: 'openai/text-embedding-3-small',
+        model_settings: { provider_type: 'openai', temperature: 0.7, max_output_tokens: 2048 }
+      } as any);
+
+      const ops = await generate({
+        model: 'openai/gpt-4o',
+        modelSettings: { provider_type: 'openai', temperature: 0.2, max_output_tokens: 2048 }
+      });
+      expect(ops.updateFields?.modelSettings?.changedPaths).toEqual(['temperature']);
+      expect(ops.updateFields?.modelSettings?.to).toEqual({ provider_type: 'openai', temperature: 0.2, max_output_tokens: 2048 });
+    });
+
+    it('does not count lettactl metadata keys as drift', async () => {
+      const ops = await generate({ tags: ['support'], metadata: { team: 'cx' } });
+      expect(ops.updateFields?.tags).toBeUndefined();
+      expect(ops.updateFields?.metadata).toBeUndefined();
+    });
+
+    it('only fetches tool env when declared', async () => {
+      await generate({});
+      expect(mockClient.getAgentWithSecrets).not.toHaveBeenCalled();
+    });
+
+    it('diffs tool env by key without exposing values', async () => {
+      mockClient.getAgentWithSecrets.mockResolvedValue({
+        secrets: [{ key: 'API_URL', value: 'https://old' }, { key: 'API_KEY', value: 'k1' }, { key: 'STALE', value: 'x' }]
+      } as any);
+
+      const ops = await generate({ toolEnv: { API_URL: 'https://new', API_KEY: 'k1', REGION: 'eu' } });
+      const toolEnv = ops.updateFields?.toolEnv;
+      expect(toolEnv?.added).toEqual(['REGION']);
+      expect(toolEnv?.changed).toEqual(['API_URL']);
+      expect(toolEnv?.removed).toEqual(['STALE']);
+      expect(toolEnv?.digests.to.API_URL).toMatch(/^sha256:[0-9a-f]{8}$/);
+      expect(JSON.stringify(toolEnv?.digests)).not.toContain('https://new');
+      expect(toolEnv?.to).toEqual({ API_URL: 'https://new', API_KEY: 'k1', REGION: 'eu' });
+    });
+  });
+
   describe('analyzeToolChanges', () => {
     it('identifies tools to add', async () => {
       const result = await analyzeToolChanges([], ['new-tool'], new Map([['new-tool', 'id-1']]));
@@ -54,6 +138,70 @@ describe('DiffEngine', () => {
       );
       expect(result.toUpdate).toEqual([]);
     });
+
+    it('reconciles approval only for tools that declare requires_approval', async () => {
+      const result = await analyzeToolChanges(
+        [{ name: 'send_email', id: 'id-1' }, { name: 'lookup', id: 'id-2' }, { name: 'manual', id: 'id-3' }],
+        ['send_email', 'lookup', 'manual', 'refund'],
+        new Map([['send_email', 'id-1'], ['lookup', 'id-2'], ['manual', 'id-3'], ['refund', 'id-4']]),
+        {},
+        undefined,
+        { send_email: true, lookup: false, refund: true },
+        new Set(['lookup', 'manual'])
+      );
+
+      expect(result.toUpdateApproval).toEqual([
+        { name: 'send_email', requiresApproval: true },
+        { name: 'lookup', requiresApproval: false },
+        { name: 'refund', requiresApproval: true }
+      ]);
+    });
+
+    it('skips approval for tools that cannot be attached', async () => {
+      const result = await analyzeToolChanges([], ['missing'], new Map(), {}, undefined, { missing: true });
+      expect(result.toUpdateApproval).toEqual([]);
+    });
+
+    it('reads approval tools from requires_approval tool rules', () => {
+      const approvals = getToolsRequiringApproval({
+        tool_rules: [
+          { type: 'requires_approval', tool_name: 'send_email' },
+          { type: 'terminal', tool_name: 'send_message' }
+        ]
+      });
+      expect([...approvals]).toEqual(['send_email']);
+    });
+  });
+
+  describe('analyzeToolRuleChanges', () => {
+    const current = [
+      { type: 'exit_loop', tool_name: 'send_message' },
+      { type: 'constrain_child_tools', tool_name: 'search', children: ['summarize', 'send_message'] },
+      { type: 'requires_approval', tool_name: 'send_email' }
+    ];
+
+    it('leaves rules alone when tool_rules is not declared', () => {
+      const result = analyzeToolRuleChanges(current, undefined);
+      expect(result.toAdd).toEqual([]);
+      expect(result.toRemove).toEqual([]);
+      expect(result.rules).toEqual(current);
+    });
+
+    it('diffs managed rules and keeps unmanaged ones', () => {
+      const result = analyzeToolRuleChanges(current, [
+        { tool_name: 'search', type: 'children', children: ['send_message', 'summarize'] },
+        { tool_name: 'search', type: 'max_count', max_count: 3 }
+      ]);
+
+      expect(result.unchanged.map(r => r.tool_name)).toEqual(['search']);
+      expect(result.toAdd).toEqual([{ tool_name: 'search', type: 'max_count', max_count: 3 }]);
+      expect(result.toRemove).toEqual([{ tool_name: 'send_message', type: 'terminal' }]);
+      expect(result.rules).toEqual([
+        { type: 'requires_approval', tool_name: 'send_email' },
+        { type: 'constrain_child_tools', tool_name: 'search', children: ['send_message', 'summarize'] },
+        { type: 'max_count_per_step', tool_name: 'search', max_count_limit: 3 }
+      ]);
+    });
   });
 
   describe('analyzeBlockChanges', () => {
@@ -109,5 +257,38 @@ describe('DiffEngine', () => {
       const result = await analyzeArchiveChanges([{ name: 'archive', id: 'archive-1' }], [{ name: 'archive' }], mockArchiveManager);
       expect(result.unchanged).toEqual([{ name: 'archive', id: 'archive-1' }]);
     });
+
+    it('reports passages missing from an attached archive', async () => {
+      const chunks = [
+        { source: 'kb.md', text: 'one', hash: 'h1' },
+        { source: 'kb.md', text: 'two', hash: 'h2' }
+      ];
+      const currentPassages = [
+        { id: 'passage-1', archive_id: 'archive-1', metadata: { 'lettactl.source': 'kb.md', 'lettactl.chunkHash': 'h1' } },
+        { id: 'passage-2', archive_id: 'archive-1', metadata: { 'lettactl.source': 'old.md', 'lettactl.chunkHash': 'h0' } },
+        { id: 'passage-3', archive_id: 'archive-1', metadata: null }
+      ];
+      const result = await analyzeArchiveChanges(
+        [{ name: 'archive', id: 'archive-1' }],
+        [{ name: 'archive', passages: chunks }],
+        mockArchiveManager,
+        false,
+        currentPassages
+      );
+      expect(result.passages?.toInsert.map(chunk => chunk.hash)).toEqual(['h2']);
+      expect(result.passages?.toRemove).toEqual([{ id: 'passage-2', source: 'old.md' }]);
+      expect(result.passages?.unchanged).toBe(1);
+    });
+
+    it('omits passages when the archive already holds every chunk', async () => {
+      const result = await analyzeArchiveChanges(
+        [{ name: 'archive', id: 'archive-1' }],
+        [{ name: 'archive', passages: [{ source: 'kb.md', text: 'one', hash: 'h1' }] }],
+        mockArchiveManager,
+        false,
+        [{ id: 'passage-1', archive_id: 'archive-1', metadata: { 'lettactl.chunkHash': 'h1' } }]
+      );
+      expect(result.passages).toBeUndefined();
+    });
   });
 });
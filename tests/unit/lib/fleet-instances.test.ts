@@ -0,0 +1,168 @@
+import {
+  expandInstances,
+  parseCsvRecords,
+  parseJsonlRecords,
+  renderInstanceValue
+} from '../../../src/lib/apply/fleet-instances';
+import { resolveAgentInheritance } from '../../../src/lib/apply/agent-inheritance';
+import { FleetConfigValidator } from '../../../src/lib/validation/config-validators';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('fleet-instances', () => {
+  const template = {
+    name: 'support',
+    description: 'Support agent',
+    system_prompt: { value: 'You help customers' },
+    llm_config: { model: 'openai/gpt-4o', context_window: 32000 },
+    memory_blocks: [{ name: 'customer', description: 'Who we serve', limit: 2000, value: 'unknown' }]
+  };
+
+  describe('parseCsvRecords', () => {
+    it('should map rows onto the header', () => {
+      expect(parseCsvRecords('id,company\nacme,Acme Corp\nglobex,Globex\n')).toEqual([
+        { id: 'acme', company: 'Acme Corp' },
+        { id: 'globex', company: 'Globex' }
+      ]);
+    });
+
+    it('should handle quoted fields, escaped quotes, line breaks and CRLF', () => {
+      const csv = 'id,notes\r\nacme,"Says ""hi"", often"\r\n\r\nglobex,"line one\nline two"\r\n';
+
+      expect(parseCsvRecords(csv)).toEqual([
+        { id: 'acme', notes: 'Says "hi", often' },
+        { id: 'globex', notes: 'line one\nline two' }
+      ]);
+    });
+
+    it('should report rows with the wrong number of columns', () => {
+      expect(() => parseCsvRecords('id,company\nacme\n', 'tenants.csv'))
+        .toThrow('tenants.csv line 2: expected 2 columns, found 1');
+    });
+
+    it('should reject duplicate header columns', () => {
+      expect(() => parseCsvRecords('id,id\na,b\n')).toThrow('duplicate column "id"');
+    });
+  });
+
+  describe('parseJsonlRecords', () => {
+    it('should parse one object per line and skip blank lines', () => {
+      expect(parseJsonlRecords('{"id":"acme"}\n\n{"id":"globex","plan":{"tier":"pro"}}\n')).toEqual([
+        { id: 'acme' },
+        { id: 'globex', plan: { tier: 'pro' } }
+      ]);
+    });
+
+    it('should report invalid lines', () => {
+      expect(() => parseJsonlRecords('{"id":"acme"}\n[1]\n', 'tenants.jsonl'))
+        .toThrow('tenants.jsonl line 2: each line must be a JSON object');
+    });
+  });
+
+  describe('renderInstanceValue', () => {
+    it('should fill placeholders, including nested fields', () => {
+      expect(renderInstanceValue('{{ id }}-{{plan.tier}}', { id: 'acme', plan: { tier: 'pro' } })).toBe('acme-pro');
+    });
+
+    it('should fail on fields the record lacks', () => {
+      expect(() => renderInstanceValue('support-{{tenant}}', { id: 'acme' }))
+        .toThrow('missing field "tenant" (used in "support-{{tenant}}")');
+    });
+  });
+
+  describe('expandInstances', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lettactl-fleet-instances-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should return configs without instances unchanged', () => {
+      const config = { agents: [] };
+      expect(expandInstances(config)).toBe(config);
+    });
+
+    it('should append one agent per record that resolves through its template', () => {
+      const config: any = {
+        agent_templates: [template],
+        instances: [{
+          name: 'support-{{id}}',
+          template: 'support',
+          description: 'Support for {{company}}',
+          tags: ['tenant:{{id}}'],
+          block_values: { customer: 'Company: {{company}}' },
+          records: [{ id: 'acme', company: 'Acme Corp' }, { id: 'globex', company: 'Globex' }]
+        }],
+        agents: []
+      };
+
+      const resolved = resolveAgentInheritance(expandInstances(config));
+
+      expect(config.agents).toEqual([]);
+      expect(resolved.agents.map(agent => agent.name)).toEqual(['support-acme', 'support-globex']);
+      expect(resolved.agents[0].description).toBe('Support for Acme Corp');
+      expect(resolved.agents[0].tags).toEqual(['tenant:acme']);
+      expect(resolved.agents[0].memory_blocks).toEqual([
+        { name: 'customer', description: 'Who we serve', limit: 2000, value: 'Company: Acme Corp' }
+      ]);
+      expect(() => FleetConfigValidator.validate(resolved)).not.toThrow();
+    });
+
+    it('should read records from a CSV file relative to the base path', () => {
+      fs.writeFileSync(path.join(tempDir, 'tenants.csv'), 'id\nacme\nglobex\n');
+      const config: any = {
+        agent_templates: [template],
+        instances: [{ name: 'support-{{id}}', template: 'support', from_file: 'tenants.csv' }]
+      };
+
+      const expanded = expandInstances(config, tempDir);
+
+      expect(expanded.instances).toBeUndefined();
+      expect(expanded.agents).toEqual([
+        { name: 'support-acme', extends: 'support' },
+        { name: 'support-globex', extends: 'support' }
+      ]);
+    });
+
+    it('should report the record that failed to render', () => {
+      const config: any = {
+        agent_templates: [template],
+        instances: [{ name: 'support-{{id}}', template: 'support', records: [{ id: 'acme' }, { name: 'globex' }] }],
+        agents: []
+      };
+
+      expect(() => expandInstances(config)).toThrow('Instance set "support-{{id}}" record 2: missing field "id"');
+    });
+
+    it('should require a known template and exactly one record source', () => {
+      const unknownTemplate: any = {
+        agent_templates: [template],
+        instances: [{ name: 'a-{{id}}', template: 'sales', records: [] }],
+        agents: []
+      };
+      const twoSources: any = {
+        agent_templates: [template],
+        instances: [{ name: 'a-{{id}}', template: 'support', records: [], from_file: 'tenants.csv' }],
+        agents: []
+      };
+
+      expect(() => expandInstances(unknownTemplate)).toThrow('Available templates: support');
+      expect(() => expandInstances(twoSources)).toThrow('exactly one of records or from_file');
+    });
+
+    it('should require a placeholder in the name pattern', () => {
+      const config: any = {
+        agent_templates: [template],
+        instances: [{ name: 'support', template: 'support', records: [{ id: 'acme' }] }],
+        agents: []
+      };
+
+      expect(() => expandInstances(config)).toThrow('{{field}} placeholder');
+    });
+  });
+});
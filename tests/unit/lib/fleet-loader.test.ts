@@ -0,0 +1,147 @@
+import { loadFleetConfig, normalizeFleetInputs, getFleetBaseDir } from '../../../src/lib/apply/fleet-loader';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('fleet-loader', () => {
+  let tempDir: string;
+
+  const writeFile = (relativePath: string, content: string): string => {
+    const fullPath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+    return fullPath;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lettactl-fleet-loader-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('normalizeFleetInputs', () => {
+    it('should wrap single paths and fall back to agents.yml', () => {
+      expect(normalizeFleetInputs('fleet.yml')).toEqual(['fleet.yml']);
+      expect(normalizeFleetInputs(['a.yml', 'b.yml'])).toEqual(['a.yml', 'b.yml']);
+      expect(normalizeFleetInputs(undefined)).toEqual(['agents.yml']);
+    });
+  });
+
+  describe('getFleetBaseDir', () => {
+    it('should use the directory itself for directory inputs', () => {
+      const file = writeFile('fleet/agents.yml', 'agents: []');
+
+      expect(getFleetBaseDir(path.join(tempDir, 'fleet'))).toBe(path.join(tempDir, 'fleet'));
+      expect(getFleetBaseDir([file])).toBe(path.join(tempDir, 'fleet'));
+    });
+  });
+
+  describe('loadFleetConfig', () => {
+    it('should merge several files passed as inputs', () => {
+      const a = writeFile('a.yml', 'agents:\n  - name: agent-a\nshared_blocks:\n  - name: brand\n');
+      const b = writeFile('b.yml', 'agents:\n  - name: agent-b\nmcp_servers:\n  - name: search\n');
+
+      const { config, files } = loadFleetConfig([a, b]);
+
+      expect(config.agents.map(agent => agent.name)).toEqual(['agent-a', 'agent-b']);
+      expect(config.shared_blocks?.map(block => block.name)).toEqual(['brand']);
+      expect(config.mcp_servers?.map(server => server.name)).toEqual(['search']);
+      expect(files).toEqual([a, b]);
+    });
+
+    it('should load every YAML file in a directory in name order', () => {
+      writeFile('fleet/20-support.yaml', 'agents:\n  - name: support\n');
+      writeFile('fleet/10-sales.yml', 'agents:\n  - name: sales\n');
+      writeFile('fleet/README.md', '# not a fleet file');
+
+      const { config } = loadFleetConfig(path.join(tempDir, 'fleet'));
+
+      expect(config.agents.map(agent => agent.name)).toEqual(['sales', 'support']);
+    });
+
+    it('should follow include directives relative to the including file', () => {
+      writeFile('shared/blocks.yml', 'shared_blocks:\n  - name: brand\n');
+      writeFile('teams/support/agents.yml', 'agents:\n  - name: support\n');
+      const main = writeFile('fleet.yml', 'include:\n  - shared/blocks.yml\n  - teams/support\nagents:\n  - name: main\n');
+
+      const { config } = loadFleetConfig(main);
+
+      expect(config.agents.map(agent => agent.name)).toEqual(['support', 'main']);
+      expect(config.shared_blocks?.map(block => block.name)).toEqual(['brand']);
+      expect((config as any).include).toBeUndefined();
+    });
+
+    it('should load files included by a sibling only once', () => {
+      writeFile('fleet/shared.yml', 'shared_blocks:\n  - name: brand\n');
+      writeFile('fleet/main.yml', 'include: shared.yml\nagents:\n  - name: main\n');
+
+      const { config, files } = loadFleetConfig(path.join(tempDir, 'fleet'));
+
+      expect(config.shared_blocks).toHaveLength(1);
+      expect(files).toHaveLength(2);
+    });
+
+    it('should report duplicate names with both source files', () => {
+      const a = writeFile('a.yml', 'agents:\n  - name: dup\n');
+      const b = writeFile('b.yml', 'agents:\n  - name: dup\n');
+
+      expect(() => loadFleetConfig([a, b])).toThrow(`Duplicate agent "dup" in ${b} (already defined in ${a}).`);
+    });
+
+    it('should merge defaults and agent templates from included files', () => {
+      writeFile('base.yml', [
+        'defaults:',
+        '  embedding: openai/text-embedding-3-small',
+        'agent_templates:',
+        '  - name: base',
+        ''
+      ].join('\n'));
+      const main = writeFile('fleet.yml', 'include: base.yml\ndefaults:\n  timezone: UTC\nagents:\n  - name: a\n');
+
+      const { config } = loadFleetConfig(main);
+
+      expect(config.defaults).toEqual({ embedding: 'openai/text-embedding-3-small', timezone: 'UTC' });
+      expect(config.agent_templates?.map(template => template.name)).toEqual(['base']);
+    });
+
+    it('should reject unknown top-level fields with the file that has them', () => {
+      const included = writeFile('blocks.yml', 'shared_block:\n  - name: brand\n');
+      const main = writeFile('fleet.yml', 'include: blocks.yml\nagents:\n  - name: a\n');
+
+      expect(() => loadFleetConfig(main)).toThrow(`Unknown top-level field in ${included}: shared_block`);
+    });
+
+    it('should reject circular includes', () => {
+      writeFile('a.yml', 'include: b.yml\n');
+      writeFile('b.yml', 'include: a.yml\n');
+
+      expect(() => loadFleetConfig(path.join(tempDir, 'a.yml'))).toThrow('Circular include');
+    });
+
+    it('should report missing includes with the including file', () => {
+      const main = writeFile('fleet.yml', 'include: missing.yml\n');
+
+      expect(() => loadFleetConfig(main)).toThrow(`(included from ${main})`);
+    });
+
+    it('should interpolate variables in every file', () => {
+      const a = writeFile('a.yml', 'include: b.yml\nagents:\n  - name: a-${env}\n');
+      writeFile('b.yml', 'agents:\n  - name: b-${env}\n');
+
+      const { config } = loadFleetConfig(a, { env: 'prod' });
+
+      expect(config.agents.map(agent => agent.name)).toEqual(['b-prod', 'a-prod']);
+    });
+
+    it('should resolve root_path relative to the entry file', () => {
+      writeFile('nested/other.yml', 'root_path: ../elsewhere\n');
+      const main = writeFile('fleet.yml', 'root_path: ./assets\ninclude: nested/other.yml\nagents:\n  - name: a\n');
+
+      const { config } = loadFleetConfig(main);
+
+      expect(config.root_path).toBe(path.join(tempDir, 'assets'));
+    });
+  });
+});
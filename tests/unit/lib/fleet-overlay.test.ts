@@ -0,0 +1,150 @@
+import {
+  strategicMerge,
+  applyJsonPatch,
+  applyOverlay,
+  loadOverlay,
+  resolveOverlayPath
+} from '../../../src/lib/apply/fleet-overlay';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('fleet-overlay', () => {
+  const baseConfig = () => ({
+    agents: [
+      {
+        name: 'support-agent',
+        description: 'Support',
+        system_prompt: { value: 'You help customers' },
+        llm_config: { model: 'google_ai/gemini-2.5-flash', context_window: 32000 },
+        tools: ['archival_memory_search', 'web_search'],
+        memory_blocks: [
+          { name: 'policy', description: 'Policy', limit: 2000, value: 'x' },
+          { name: 'notes', description: 'Notes', limit: 1000, value: 'y' }
+        ]
+      },
+      {
+        name: 'sales-agent',
+        description: 'Sales',
+        system_prompt: { value: 'You sell' },
+        llm_config: { model: 'google_ai/gemini-2.5-flash', context_window: 32000 }
+      }
+    ]
+  });
+
+  describe('strategicMerge', () => {
+    it('should merge nested fields and named list entries', () => {
+      const agent: any = baseConfig().agents[0];
+
+      const result = strategicMerge(agent, {
+        llm_config: { model: 'openai/gpt-4o' },
+        tools: ['send_email'],
+        memory_blocks: [{ name: 'policy', limit: 4000 }]
+      });
+
+      expect(result.llm_config).toEqual({ model: 'openai/gpt-4o', context_window: 32000 });
+      expect(result.tools).toEqual(['archival_memory_search', 'web_search', 'send_email']);
+      expect(result.memory_blocks[0]).toEqual({ name: 'policy', description: 'Policy', limit: 4000, value: 'x' });
+      expect(agent.llm_config.model).toBe('google_ai/gemini-2.5-flash');
+    });
+
+    it('should support delete, replace and primitive list removal directives', () => {
+      const result = strategicMerge(baseConfig().agents[0], {
+        '$deleteFromPrimitiveList/tools': ['web_search'],
+        memory_blocks: [{ name: 'notes', $patch: 'delete' }],
+        system_prompt: { $patch: 'replace', from_file: 'prompts/prod.md' },
+        description: null
+      });
+
+      expect(result.tools).toEqual(['archival_memory_search']);
+      expect(result.memory_blocks.map((block: any) => block.name)).toEqual(['policy']);
+      expect(result.system_prompt).toEqual({ from_file: 'prompts/prod.md' });
+      expect(result.description).toBeUndefined();
+    });
+  });
+
+  describe('applyJsonPatch', () => {
+    it('should apply RFC 6902 operations', () => {
+      const agent: any = baseConfig().agents[0];
+
+      const result = applyJsonPatch(agent, [
+        { op: 'replace', path: '/llm_config/context_window', value: 64000 },
+        { op: 'add', path: '/tools/-', value: 'send_email' },
+        { op: 'remove', path: '/tools/1' },
+        { op: 'copy', from: '/memory_blocks/0/limit', path: '/memory_blocks/1/limit' },
+        { op: 'test', path: '/name', value: 'support-agent' }
+      ]);
+
+      expect(result.llm_config.context_window).toBe(64000);
+      expect(result.tools).toEqual(['archival_memory_search', 'send_email']);
+      expect(result.memory_blocks[1].limit).toBe(2000);
+      expect(agent.tools).toEqual(['archival_memory_search', 'web_search']);
+    });
+
+    it('should report failing operations with their index', () => {
+      expect(() => applyJsonPatch(baseConfig().agents[0], [{ op: 'replace', path: '/missing/field', value: 1 }]))
+        .toThrow('JSON Patch operation 1 (replace /missing/field)');
+      expect(() => applyJsonPatch(baseConfig().agents[0], [{ op: 'test', path: '/name', value: 'other' }]))
+        .toThrow('test failed');
+    });
+  });
+
+  describe('applyOverlay', () => {
+    it('should patch agents by name and glob pattern', () => {
+      const result = applyOverlay(baseConfig() as any, {
+        patches: [
+          { agent: 'support-agent', patch: { llm_config: { context_window: 64000 } } },
+          { agent: '*-agent', json_patch: [{ op: 'replace', path: '/llm_config/model', value: 'openai/gpt-4o' }] }
+        ]
+      });
+
+      expect(result.agents[0].llm_config).toEqual({ model: 'openai/gpt-4o', context_window: 64000 });
+      expect(result.agents[1].llm_config).toEqual({ model: 'openai/gpt-4o', context_window: 32000 });
+    });
+
+    it('should reject patches that match no agent', () => {
+      expect(() => applyOverlay(baseConfig() as any, { patches: [{ agent: 'missing', patch: { description: 'x' } }] }))
+        .toThrow('Overlay patch targets agent "missing", which is not in the base config');
+    });
+  });
+
+  describe('loading overlays', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lettactl-overlay-'));
+      fs.mkdirSync(path.join(tempDir, 'base'));
+      fs.mkdirSync(path.join(tempDir, 'overlays', 'prod'), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, 'base', 'agents.yml'), 'agents: []\n');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should find overlays next to a base directory', () => {
+      expect(resolveOverlayPath('prod', path.join(tempDir, 'base')))
+        .toBe(path.join(tempDir, 'overlays', 'prod'));
+      expect(() => resolveOverlayPath('staging', path.join(tempDir, 'base'))).toThrow('Overlay "staging" not found');
+    });
+
+    it('should load and validate overlay patches', () => {
+      const overlayDir = path.join(tempDir, 'overlays', 'prod');
+      fs.writeFileSync(
+        path.join(overlayDir, 'overlay.yml'),
+        'patches:\n  - agent: support-agent\n    patch:\n      llm_config:\n        model: ${model}\n        context_window: ${ctx}\n'
+      );
+
+      const overlay = loadOverlay(overlayDir, { model: 'openai/gpt-4o', ctx: '64000' });
+
+      expect(overlay.patches).toEqual([{ agent: 'support-agent', patch: { llm_config: { model: 'openai/gpt-4o', context_window: 64000 } } }]);
+    });
+
+    it('should reject patches without a patch body', () => {
+      const overlayFile = path.join(tempDir, 'overlays', 'prod', 'overlay.yml');
+      fs.writeFileSync(overlayFile, 'patches:\n  - agent: support-agent\n');
+
+      expect(() => loadOverlay(overlayFile)).toThrow('must define "patch" (strategic merge) or "json_patch"');
+    });
+  });
+});
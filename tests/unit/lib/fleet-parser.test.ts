@@ -139,6 +139,74 @@ agents:
       expect(config.agents[0].tools).toEqual(['tool1', 'tool2']);
     });
 
+    it('should normalize tools with requires_approval to names and record the approval per agent', async () => {
+      const yamlContent = `
+agents:
+  - name: test-agent
+    description: "Test agent"
+    llm_config:
+      model: "google_ai/gemini-2.5-pro"
+      context_window: 32000
+    system_prompt:
+      value: "Test prompt"
+    tools:
+      - archival_memory_insert
+      - name: send_email
+        requires_approval: true
+      - name: lookup_order
+        requires_approval: false
+`;
+      const configPath = '/test/path/fleet.yaml';
+
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(yamlContent);
+
+      const config = await parser.parseFleetConfig(configPath);
+
+      expect(config.agents[0].tools).toEqual(['archival_memory_insert', 'send_email', 'lookup_order']);
+      expect(parser.toolApprovals.get('test-agent')).toEqual({ send_email: true, lookup_order: false });
+      expect(parser.toolConfigs.has('send_email')).toBe(false);
+    });
+
+    it('should attach referenced shared folders to each agent', async () => {
+      const yamlContent = `
+shared_folders:
+  - name: handbook
+    files:
+      - docs/handbook.md
+agents:
+  - name: agent-a
+    description: "Agent A"
+    llm_config:
+      model: "google_ai/gemini-2.5-pro"
+      context_window: 32000
+    system_prompt:
+      value: "Test prompt"
+    shared_folders: [handbook]
+    folders:
+      - name: agent-a-notes
+        files:
+          - docs/notes.md
+  - name: agent-b
+    description: "Agent B"
+    llm_config:
+      model: "google_ai/gemini-2.5-pro"
+      context_window: 32000
+    system_prompt:
+      value: "Test prompt"
+`;
+      const configPath = '/test/path/fleet.yaml';
+
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue(yamlContent);
+
+      const config = await parser.parseFleetConfig(configPath);
+
+      expect(config.agents[0].folders?.map(f => f.name)).toEqual(['agent-a-notes', 'handbook']);
+      expect(config.agents[0].folders?.[1].files).toEqual(['docs/handbook.md']);
+      expect(config.agents[1].folders).toBeUndefined();
+    });
+
     it('should throw error for invalid YAML', async () => {
       const invalidYaml = `
 agents:
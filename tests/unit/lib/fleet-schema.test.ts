@@ -0,0 +1,67 @@
+import { buildFleetConfigSchema } from '../../../src/lib/validation/fleet-schema';
+import { AgentValidator, LLMConfigValidator } from '../../../src/lib/validation/config-validators';
+import { BucketConfigValidator } from '../../../src/lib/storage/bucket-config-validator';
+import { DEFAULT_CONTEXT_WINDOW, DEFAULT_MODEL } from '../../../src/lib/shared/constants';
+
+describe('fleet JSON schema', () => {
+  const schema = buildFleetConfigSchema();
+
+  const resolvePointer = (pointer: string): any =>
+    pointer.replace(/^#\//, '').split('/').reduce((node: any, key) => node?.[key], schema);
+
+  const collectRefs = (node: any, refs: string[] = []): string[] => {
+    if (Array.isArray(node)) {
+      node.forEach(entry => collectRefs(entry, refs));
+    } else if (node && typeof node === 'object') {
+      if (typeof node.$ref === 'string') refs.push(node.$ref);
+      Object.values(node).forEach(entry => collectRefs(entry, refs));
+    }
+    return refs;
+  };
+
+  it('should be a draft-07 schema for the fleet sections', () => {
+    expect(schema.$schema).toBe('http://json-schema.org/draft-07/schema#');
+    expect(Object.keys(schema.properties)).toEqual(
+      expect.arrayContaining(['root_path', 'include', 'defaults', 'agent_templates', 'shared_blocks', 'mcp_servers', 'agents'])
+    );
+  });
+
+  it('should resolve every $ref', () => {
+    const unresolved = collectRefs(schema).filter(ref => resolvePointer(ref) === undefined);
+
+    expect(unresolved).toEqual([]);
+  });
+
+  it('should allow exactly the agent fields accepted by AgentValidator (plus extends)', () => {
+    const agentFields = Object.keys(schema.definitions.AgentConfig.properties).filter(field => field !== 'extends');
+
+    expect(agentFields.sort()).toEqual([...AgentValidator.ALLOWED_FIELDS].sort());
+    expect(schema.definitions.AgentConfig.additionalProperties).toBe(false);
+  });
+
+  it('should use the same context_window bounds as LLMConfigValidator', () => {
+    const contextWindow = schema.definitions.LLMConfig.properties.context_window;
+    const validate = (value: number) => () => LLMConfigValidator.validate({ model: 'm', context_window: value });
+
+    expect(validate(contextWindow.minimum)).not.toThrow();
+    expect(validate(contextWindow.maximum)).not.toThrow();
+    expect(validate(contextWindow.minimum - 1)).toThrow();
+    expect(validate(contextWindow.maximum + 1)).toThrow();
+  });
+
+  it('should only list bucket providers the validator accepts', () => {
+    for (const provider of schema.definitions.BucketConfig.properties.provider.anyOf[0].enum) {
+      expect(() => BucketConfigValidator.validateProvider({ provider, bucket: 'b', path: 'p' } as any)).not.toThrow();
+    }
+  });
+
+  it('should document defaults from shared constants', () => {
+    expect(schema.definitions.LLMConfig.properties.model.default).toBe(DEFAULT_MODEL);
+    expect(schema.definitions.LLMConfig.properties.context_window.default).toBe(DEFAULT_CONTEXT_WINDOW);
+    expect(schema.definitions.MemoryBlock.properties.mutable.default).toBe(true);
+  });
+
+  it('should limit agents to one archive like ArchiveValidator', () => {
+    expect(schema.definitions.AgentConfig.properties.archives.maxItems).toBe(1);
+  });
+});
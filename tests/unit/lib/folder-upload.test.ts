@@ -0,0 +1,47 @@
+import { DiffApplier } from '../../../src/lib/apply/diff-applier';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const readStream = async (stream: fs.ReadStream): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString();
+};
+
+describe('folder-upload', () => {
+  it('should keep parallel uploads of files with the same name apart', async () => {
+    const uploads: Record<string, string> = {};
+    const tempPaths: string[] = [];
+    const client: any = {
+      uploadFileToFolder: jest.fn(async (stream: fs.ReadStream, folderId: string) => {
+        tempPaths.push(stream.path as string);
+        // Let the other upload write its temp file before this one is read
+        await sleep(folderId === 'folder-a' ? 20 : 1);
+        uploads[folderId] = await readStream(stream);
+      })
+    };
+    const storageManager: any = {
+      downloadBinaryFromUrl: async (config: { url: string }) => Buffer.from(`content of ${config.url}`)
+    };
+    const applier = new DiffApplier(client, '', storageManager) as any;
+
+    await Promise.all([
+      applier.addFileToFolder('folder-a', 'url:https://a.example.com/guide.md'),
+      applier.addFileToFolder('folder-b', 'url:https://b.example.com/guide.md')
+    ]);
+
+    expect(uploads).toEqual({
+      'folder-a': 'content of https://a.example.com/guide.md',
+      'folder-b': 'content of https://b.example.com/guide.md'
+    });
+    expect(client.uploadFileToFolder.mock.calls.map((call: any[]) => call[2])).toEqual(['guide.md', 'guide.md']);
+    expect(tempPaths[0]).not.toBe(tempPaths[1]);
+    tempPaths.forEach(tempPath => {
+      expect(path.dirname(tempPath).startsWith(path.join(os.tmpdir(), 'lettactl-'))).toBe(true);
+      expect(fs.existsSync(path.dirname(tempPath))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import {
+  GitSourceManager,
+  formatGitFileId,
+  parseGitFileId,
+  isRemoteGitUrl
+} from '../../../src/lib/storage/git-source';
+import { GitConfigValidator } from '../../../src/lib/storage/git-config-validator';
+import { FleetParser } from '../../../src/lib/apply/fleet-parser';
+import { execFileSync, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const hasGit = spawnSync('git', ['--version']).status === 0;
+const describeWithGit = hasGit ? describe : describe.skip;
+
+describe('git-source', () => {
+  describe('git file identifiers', () => {
+    it('should round-trip repo, ref and path', () => {
+      const config = { repo: 'git@github.com:acme/prompts.git', ref: 'release/v1', path: 'support/system.md' };
+      expect(formatGitFileId(config)).toBe('git:git@github.com:acme/prompts.git#release/v1:support/system.md');
+      expect(parseGitFileId(formatGitFileId(config))).toEqual(config);
+    });
+
+    it('should prefer the pinned commit and read it back', () => {
+      const commit = 'a'.repeat(40);
+      const fileId = formatGitFileId({ repo: '../prompts', ref: 'main', path: 'a.md', commit });
+      expect(fileId).toBe(`git:../prompts#${commit}:a.md`);
+      expect(parseGitFileId(fileId)).toEqual({ repo: '../prompts', ref: commit, path: 'a.md', commit });
+    });
+
+    it('should tell remote URLs from local paths', () => {
+      expect(isRemoteGitUrl('https://github.com/acme/prompts.git')).toBe(true);
+      expect(isRemoteGitUrl('git@github.com:acme/prompts.git')).toBe(true);
+      expect(isRemoteGitUrl('file:///srv/prompts.git')).toBe(true);
+      expect(isRemoteGitUrl('../prompts')).toBe(false);
+      expect(isRemoteGitUrl('/srv/prompts.git')).toBe(false);
+    });
+  });
+
+  describe('GitConfigValidator', () => {
+    it('should accept repo, ref and path', () => {
+      expect(() => GitConfigValidator.validate({ repo: '../prompts', ref: 'v1.0', path: 'a.md' })).not.toThrow();
+      expect(() => GitConfigValidator.validate({ repo: '../prompts', path: 'a.md' })).not.toThrow();
+    });
+
+    it('should reject missing fields, invalid refs and a user-set commit', () => {
+      expect(() => GitConfigValidator.validate({ repo: '../prompts' })).toThrow('Missing required fields in from_git config: path');
+      expect(() => GitConfigValidator.validate({ repo: '', path: 'a.md' })).toThrow('from_git repo must be a non-empty string');
+      expect(() => GitConfigValidator.validate({ repo: 'r', ref: 'main..dev', path: 'a.md' })).toThrow("Invalid from_git ref 'main..dev'");
+      expect(() => GitConfigValidator.validate({ repo: 'r', path: 'a.md', commit: 'abc' })).toThrow('from_git commit is set by lettactl');
+    });
+  });
+
+  describeWithGit('GitSourceManager', () => {
+    let tempDir: string;
+    let repoDir: string;
+    let cacheDir: string;
+    let firstCommit: string;
+    let secondCommit: string;
+
+    const git = (...args: string[]) =>
+      execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args], {
+        cwd: repoDir,
+        encoding: 'utf8'
+      }).trim();
+
+    const commitFile = (file: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(repoDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(repoDir, file), content);
+      git('add', '-A');
+      git('commit', '--quiet', '-m', `update ${file}`);
+      return git('rev-parse', 'HEAD');
+    };
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lettactl-git-'));
+      repoDir = path.join(tempDir, 'prompts');
+      cacheDir = path.join(tempDir, 'cache');
+      fs.mkdirSync(repoDir);
+      git('init', '--quiet', '--initial-branch=main');
+      commitFile('prompts/system.md', 'v1 prompt');
+      commitFile('docs/guide.md', 'guide');
+      firstCommit = commitFile('docs/faq.md', 'faq');
+      git('tag', 'v1');
+      secondCommit = commitFile('prompts/system.md', 'v2 prompt');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should resolve branches, tags and SHAs to commits', async () => {
+      const manager = new GitSourceManager({ basePath: tempDir, cacheDir });
+
+      expect(await manager.resolveCommit({ repo: 'prompts', ref: 'main', path: 'x' })).toBe(secondCommit);
+      expect(await manager.resolveCommit({ repo: 'prompts', ref: 'v1', path: 'x' })).toBe(firstCommit);
+      expect(await manager.resolveCommit({ repo: 'prompts', ref: firstCommit, path: 'x' })).toBe(firstCommit);
+      expect(await manager.resolveCommit({ repo: 'prompts', path: 'x' })).toBe(secondCommit);
+      expect(manager.pins).toContainEqual({ repo: 'prompts', ref: 'v1', commit: firstCommit });
+    });
+
+    it('should read files at the resolved ref', async () => {
+      const manager = new GitSourceManager({ basePath: tempDir, cacheDir });
+
+      expect(await manager.readFile({ repo: 'prompts', ref: 'main', path: 'prompts/system.md' })).toBe('v2 prompt');
+      expect(await manager.readFile({ repo: 'prompts', ref: 'v1', path: './prompts/system.md' })).toBe('v1 prompt');
+    });
+
+    it('should keep reading the pinned commit after the branch moves', async () => {
+      const manager = new GitSourceManager({ basePath: tempDir, cacheDir });
+      const config = { repo: 'prompts', ref: 'main', path: 'prompts/system.md' };
+      expect(await manager.resolveCommit(config)).toBe(secondCommit);
+
+      commitFile('prompts/system.md', 'v3 prompt');
+
+      expect(await manager.readFile(config)).toBe('v2 prompt');
+      const nextRun = new GitSourceManager({ basePath: tempDir, cacheDir });
+      expect(await nextRun.readFile(config)).toBe('v3 prompt');
+    });
+
+    it('should fetch for branches even when an earlier SHA lookup used the cached mirror', async () => {
+      await new GitSourceManager({ basePath: tempDir, cacheDir }).resolveCommit({ repo: 'prompts', ref: 'main', path: 'x' });
+      const thirdCommit = commitFile('prompts/system.md', 'v3 prompt');
+
+      const manager = new GitSourceManager({ basePath: tempDir, cacheDir });
+      expect(await manager.resolveCommit({ repo: 'prompts', ref: firstCommit, path: 'x' })).toBe(firstCommit);
+      expect(await manager.resolveCommit({ repo: 'prompts', ref: 'main', path: 'x' })).toBe(thirdCommit);
+    });
+
+    it('should list files matching a prefix', async () => {
+      const manager = new GitSourceManager({ basePath: tempDir, cacheDir });
+
+      expect(await manager.listFiles({ repo: 'prompts', ref: 'main', path: 'docs/*' }, 'docs/')).toEqual(['docs/faq.md', 'docs/guide.md']);
+      expect(await manager.listFiles({ repo: 'prompts', ref: 'main', path: 'docs/g*' }, 'docs/g')).toEqual(['docs/guide.md']);
+    });
+
+    it('should read from a local bare repository', async () => {
+      execFileSync('git', ['clone', '--quiet', '--bare', repoDir, path.join(tempDir, 'prompts.git')]);
+      const manager = new GitSourceManager({ basePath: tempDir, cacheDir });
+
+      expect(await manager.readFile({ repo: 'prompts.git', ref: 'v1', path: 'docs/faq.md' })).toBe('faq');
+    });
+
+    it('should report missing files, refs and repositories', async () => {
+      const manager = new GitSourceManager({ basePath: tempDir, cacheDir });
+
+      await expect(manager.readFile({ repo: 'prompts', ref: 'main', path: 'missing.md' }))
+        .rejects.toThrow('File missing.md does not exist in prompts at main');
+      await expect(manager.resolveCommit({ repo: 'prompts', ref: 'nope', path: 'a.md' }))
+        .rejects.toThrow('Ref "nope" does not exist in prompts');
+      await expect(manager.resolveCommit({ repo: 'missing-repo', ref: 'main', path: 'a.md' }))
+        .rejects.toThrow('Failed to fetch git repository missing-repo');
+    });
+
+    it('should pin from_git sources when parsing a fleet', async () => {
+      const fleetPath = path.join(tempDir, 'fleet.yaml');
+      fs.writeFileSync(fleetPath, [
+        'agents:',
+        '  - name: support',
+        '    description: Support agent',
+        '    llm_config:',
+        '      model: openai/gpt-4o',
+        '      context_window: 128000',
+        '    system_prompt:',
+        '      from_git:',
+        '        repo: prompts',
+        '        ref: v1',
+        '        path: prompts/system.md',
+        '    memory_blocks:',
+        '      - name: faq',
+        '        description: FAQ',
+        '        limit: 2000',
+        '        from_git:',
+        '          repo: prompts',
+        '          path: docs/faq.md',
+        ''
+      ].join('\n'));
+      const previousCacheDir = process.env.LETTACTL_CACHE_DIR;
+      process.env.LETTACTL_CACHE_DIR = cacheDir;
+
+      try {
+        const parser = new FleetParser(fleetPath);
+        const config = await parser.parseFleetConfig(fleetPath);
+        const agent = config.agents[0];
+
+        expect(agent.system_prompt.value).toContain('v1 prompt');
+        expect(agent.memory_blocks![0].value).toBe('faq');
+        expect(parser.getAgentGitSources(agent, config)).toEqual([
+          { repo: 'prompts', ref: 'HEAD', commit: secondCommit },
+          { repo: 'prompts', ref: 'v1', commit: firstCommit }
+        ]);
+      } finally {
+        if (previousCacheDir === undefined) delete process.env.LETTACTL_CACHE_DIR;
+        else process.env.LETTACTL_CACHE_DIR = previousCacheDir;
+      }
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  groupInitialMessageSteps,
+  sendInitialMessages,
+  readReplayableInitialMessages,
+  withReplayableInitialMessages,
+  INITIAL_MESSAGES_METADATA_KEY
+} from '../../../src/lib/messaging/initial-messages';
+import { InitialMessageConfig } from '../../../src/types/fleet-config';
+
+const script: InitialMessageConfig[] = [
+  { role: 'system', content: 'Customer is on the Pro plan.' },
+  { role: 'user', content: 'How do I export?' },
+  { role: 'assistant', content: 'Settings > Data > Export.' },
+  { role: 'user', content: 'Thanks!' },
+  { role: 'system', content: 'Onboarding done.' }
+];
+
+describe('initial-messages', () => {
+  describe('groupInitialMessageSteps', () => {
+    it('ends each step with a user turn and keeps trailing messages as a last step', () => {
+      const steps = groupInitialMessageSteps(script);
+      expect(steps.map(step => step.map(message => message.role))).toEqual([
+        ['system', 'user'],
+        ['assistant', 'user'],
+        ['system']
+      ]);
+    });
+  });
+
+  describe('sendInitialMessages', () => {
+    const createClient = (statuses: any[]) => {
+      let run = 0;
+      return {
+        createAsyncMessage: jest.fn().mockImplementation(async () => ({ id: `run-${++run}` })),
+        getRun: jest.fn().mockImplementation(async (id: string) => ({ id, ...statuses[Number(id.split('-')[1]) - 1] }))
+      };
+    };
+
+    it('sends one run per step in order', async () => {
+      const client = createClient([{ status: 'completed' }, { status: 'completed' }, { status: 'completed' }]);
+      const steps = await sendInitialMessages(client as any, 'agent-1', script);
+
+      expect(steps).toBe(3);
+      expect(client.createAsyncMessage).toHaveBeenCalledTimes(3);
+      expect(client.createAsyncMessage.mock.calls[0]).toEqual(['agent-1', {
+        messages: [
+          { role: 'system', content: 'Customer is on the Pro plan.' },
+          { role: 'user', content: 'How do I export?' }
+        ]
+      }]);
+    });
+
+    it('stops and throws when a run fails', async () => {
+      const client = createClient([{ status: 'completed' }, { status: 'failed', stop_reason: 'llm_api_error' }]);
+
+      await expect(sendInitialMessages(client as any, 'agent-1', script))
+        .rejects.toThrow('Initial messages step 2/3 failed: llm_api_error (run: run-2)');
+      expect(client.createAsyncMessage).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('replayable script metadata', () => {
+    it('stores and removes the script alongside other metadata', () => {
+      const stored = withReplayableInitialMessages({ team: 'support' }, script);
+      expect(stored).toEqual({ team: 'support', [INITIAL_MESSAGES_METADATA_KEY]: script });
+      expect(readReplayableInitialMessages(stored)).toEqual(script);
+
+      const removed = withReplayableInitialMessages(stored, null);
+      expect(removed).toEqual({ team: 'support' });
+      expect(readReplayableInitialMessages(removed)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  discoverLocalTools,
+  parseToolParameters,
+  renderToolScaffold,
+  runLocalTool
+} from '../../../src/lib/tools/local-tools';
+import { checkPythonToolSource } from '../../../src/lib/tools/python-tool-check';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const hasPython = spawnSync('python3', ['--version']).status === 0;
+const itWithPython = hasPython ? it : it.skip;
+
+describe('local-tools', () => {
+  let tempDir: string;
+
+  const writeTool = (name: string, source: string): string => {
+    const filePath = path.join(tempDir, 'tools', `${name}.py`);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, source);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lettactl-local-tools-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('discoverLocalTools', () => {
+    it('should skip __init__.py, helpers and non-Python files', () => {
+      ['get_weather', '__init__', '_helpers'].forEach(name => writeTool(name, ''));
+      fs.writeFileSync(path.join(tempDir, 'tools', 'README.md'), '');
+
+      expect(discoverLocalTools(tempDir)).toEqual(['get_weather']);
+      expect(discoverLocalTools(path.join(tempDir, 'missing'))).toEqual([]);
+    });
+  });
+
+  describe('parseToolParameters', () => {
+    it('should default types to str and keep bracketed types together', () => {
+      expect(parseToolParameters('city, days:int, filters:dict[str, int]')).toEqual([
+        { name: 'city', type: 'str' },
+        { name: 'days', type: 'int' },
+        { name: 'filters', type: 'dict[str, int]' }
+      ]);
+      expect(parseToolParameters(undefined)).toEqual([]);
+    });
+
+    it('should reject invalid and duplicate parameters', () => {
+      expect(() => parseToolParameters('2city:str')).toThrow('Invalid parameter "2city:str"');
+      expect(() => parseToolParameters('city,city')).toThrow('Parameter "city" is listed more than once.');
+    });
+  });
+
+  describe('renderToolScaffold', () => {
+    it('should produce source that passes the tool source checks', () => {
+      const source = renderToolScaffold('get_weather', parseToolParameters('city:str,days:int'), 'Looks up the weather.');
+
+      expect(source).toContain('def get_weather(city: str, days: int) -> str:');
+      expect(source).toContain('        days (int): TODO: describe days.');
+      expect(checkPythonToolSource(source, 'get_weather')).toEqual([]);
+      expect(checkPythonToolSource(renderToolScaffold('ping', []), 'ping')).toEqual([]);
+    });
+
+    it('should reject names that tools/* discovery would skip', () => {
+      expect(() => renderToolScaffold('_private', [])).toThrow('Invalid tool name "_private"');
+    });
+  });
+
+  describe('runLocalTool', () => {
+    itWithPython('should return the value and capture prints separately', async () => {
+      const file = writeTool('add', [
+        'import sys',
+        'def add(a: int, b: int) -> dict:',
+        '    """Adds numbers."""',
+        '    print("adding")',
+        '    print("debug", file=sys.stderr)',
+        '    return {"sum": a + b}'
+      ].join('\n'));
+
+      const result = await runLocalTool({ file, toolName: 'add', args: { a: 2, b: 3 } });
+
+      expect(result.status).toBe('success');
+      expect(result.returnValue).toEqual({ sum: 5 });
+      expect(result.stdout).toBe('adding\n');
+      expect(result.stderr).toBe('debug\n');
+    });
+
+    itWithPython('should report exceptions with their traceback', async () => {
+      const file = writeTool('fail', 'def fail(reason: str) -> str:\n    """Fails."""\n    raise ValueError(reason)\n');
+
+      const result = await runLocalTool({ file, toolName: 'fail', args: { reason: 'boom' } });
+
+      expect(result.status).toBe('error');
+      expect(result.error).toContain('ValueError: boom');
+    });
+
+    it('should explain a missing interpreter', async () => {
+      const file = writeTool('ping', 'def ping() -> str:\n    """Pings."""\n    return "pong"\n');
+
+      await expect(runLocalTool({ file, toolName: 'ping', args: {}, python: 'lettactl-no-such-python' }))
+        .rejects.toThrow('Python interpreter "lettactl-no-such-python" not found');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { buildModelSettings, diffModelSettings, mergeModelSettings, getProviderType } from '../../../src/lib/apply/model-settings';
+
+describe('model-settings', () => {
+  describe('buildModelSettings', () => {
+    it('returns undefined when no settings are declared', () => {
+      expect(buildModelSettings({ model: 'openai/gpt-4o', context_window: 32000 })).toBeUndefined();
+      expect(buildModelSettings(undefined)).toBeUndefined();
+    });
+
+    it('maps llm_config fields for openai models', () => {
+      expect(buildModelSettings({
+        model: 'openai/o3',
+        context_window: 32000,
+        temperature: 0.2,
+        max_output_tokens: 4096,
+        parallel_tool_calls: false,
+        reasoning_effort: 'high'
+      })).toEqual({
+        provider_type: 'openai',
+        temperature: 0.2,
+        max_output_tokens: 4096,
+        parallel_tool_calls: false,
+        reasoning: { reasoning_effort: 'high' }
+      });
+    });
+
+    it('uses effort for anthropic and passes provider_options through', () => {
+      expect(buildModelSettings({
+        model: 'anthropic/claude-sonnet-4',
+        context_window: 32000,
+        reasoning_effort: 'low',
+        provider_options: { thinking: { type: 'enabled', budget_tokens: 2048 } }
+      })).toEqual({
+        provider_type: 'anthropic',
+        effort: 'low',
+        thinking: { type: 'enabled', budget_tokens: 2048 }
+      });
+    });
+
+    it('omits provider_type for unknown handles', () => {
+      expect(getProviderType('letta/letta-free')).toBeUndefined();
+      expect(buildModelSettings({ model: 'letta/letta-free', context_window: 32000, temperature: 1 })).toEqual({ temperature: 1 });
+    });
+  });
+
+  describe('diffModelSettings', () => {
+    it('reports only declared paths that differ', () => {
+      const current = { provider_type: 'openai', temperature: 0.7, max_output_tokens: 4096, reasoning: { reasoning_effort: 'low' } };
+      expect(diffModelSettings(current, { provider_type: 'openai', temperature: 0.7 })).toEqual([]);
+      expect(diffModelSettings(current, { temperature: 0.2, reasoning: { reasoning_effort: 'high' } }))
+        .toEqual(['temperature', 'reasoning.reasoning_effort']);
+      expect(diffModelSettings(null, { parallel_tool_calls: true })).toEqual(['parallel_tool_calls']);
+    });
+  });
+
+  describe('mergeModelSettings', () => {
+    it('keeps undeclared settings from the same provider', () => {
+      expect(mergeModelSettings(
+        { provider_type: 'openai', temperature: 0.7, reasoning: { reasoning_effort: 'low' } },
+        { provider_type: 'openai', temperature: 0.2 }
+      )).toEqual({ provider_type: 'openai', temperature: 0.2, reasoning: { reasoning_effort: 'low' } });
+    });
+
+    it('drops settings from a different provider', () => {
+      expect(mergeModelSettings(
+        { provider_type: 'openai', reasoning: { reasoning_effort: 'low' } },
+        { provider_type: 'anthropic', temperature: 0.2 }
+      )).toEqual({ provider_type: 'anthropic', temperature: 0.2 });
+    });
+  });
+});
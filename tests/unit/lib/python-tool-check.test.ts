@@ -0,0 +1,120 @@
+import { checkPythonToolSource, formatToolSourceIssues } from '../../../src/lib/tools/python-tool-check';
+import { spawnSync } from 'child_process';
+
+const hasPython = spawnSync('python3', ['--version']).status === 0;
+const itWithPython = hasPython ? it : it.skip;
+
+describe('python-tool-check', () => {
+  // An interpreter that cannot be started, so the tokenizer fallback is used
+  const withoutPython = { python: 'lettactl-missing-python' };
+
+  const validTool = [
+    'import requests',
+    '',
+    'def _helper(value):',
+    '    return value',
+    '',
+    'def get_weather(city: str, units: str = "metric", agent_state: "AgentState" = None) -> str:',
+    '    """',
+    '    Looks up the weather.',
+    '',
+    '    Args:',
+    '        city (str): City to look up,',
+    '            for example "Paris".',
+    '        units: metric or imperial',
+    '',
+    '    Returns:',
+    '        str: The forecast',
+    '    """',
+    '    data = {',
+    '        "city": city,  # trailing comment',
+    '    }',
+    '    return _helper(data)',
+    ''
+  ].join('\n');
+
+  it('should accept a documented, annotated tool function', () => {
+    expect(checkPythonToolSource(validTool, 'get_weather')).toEqual([]);
+  });
+
+  it('should require exactly one top-level function named after the tool', () => {
+    expect(checkPythonToolSource(validTool, 'get_forecast')).toEqual([{
+      line: 1,
+      message: 'no top-level function named "get_forecast" (found: _helper, get_weather). The function name must match the tool name.'
+    }]);
+    expect(checkPythonToolSource('def a():\n    """A."""\n\ndef a():\n    """A."""\n', 'a')).toEqual([
+      { line: 4, message: 'function "a" is defined 2 times (lines 1, 4)' }
+    ]);
+  });
+
+  it('should report missing type hints and undocumented parameters', () => {
+    const source = [
+      'def notify(user, message: str):',
+      '    """Sends a message.',
+      '',
+      '    Args:',
+      '        message: Text to send',
+      '    """',
+      '    pass'
+    ].join('\n');
+
+    expect(checkPythonToolSource(source, 'notify')).toEqual([
+      { line: 1, message: 'parameter "user" has no type hint' },
+      { line: 2, message: 'docstring does not document "user" under Args:' }
+    ]);
+  });
+
+  it('should report a missing docstring or Args section', () => {
+    expect(checkPythonToolSource('def ping(host: str):\n    return host\n', 'ping')).toEqual([
+      { line: 1, message: 'function "ping" has no docstring' }
+    ]);
+    expect(checkPythonToolSource("def ping(host: str):\n    '''Pings a host.'''\n    return host\n", 'ping')).toEqual([
+      { line: 2, message: 'docstring has no Args: section documenting "host"' }
+    ]);
+  });
+
+  it('should match the closing bracket of the signature', () => {
+    const source = [
+      'def describe(x: int) -> Annotated[str, Field(description="d")]:',
+      '    """Describes x.',
+      '',
+      '    Args:',
+      '        x: Value to describe',
+      '    """',
+      '    return str(x)'
+    ].join('\n');
+
+    expect(checkPythonToolSource(source, 'describe')).toEqual([]);
+    expect(checkPythonToolSource(source, 'describe', withoutPython)).toEqual([]);
+  });
+
+  it('should report syntax errors with their line without Python', () => {
+    expect(checkPythonToolSource('def ping(host: str:\n    """Pings."""\n', 'ping', withoutPython)).toEqual([
+      { line: 1, message: "syntax error: '(' was never closed" }
+    ]);
+    expect(checkPythonToolSource('def ping():\n    """Pings."""\n      return 1\n', 'ping', withoutPython)).toEqual([
+      { line: 3, message: 'syntax error: unexpected indent' }
+    ]);
+    expect(checkPythonToolSource('def ping():\n    """Pings.\n', 'ping', withoutPython)).toEqual([
+      { line: 2, message: 'syntax error: unterminated string literal' }
+    ]);
+    expect(checkPythonToolSource('def ping():\n\nx = 1\n', 'ping', withoutPython)).toEqual([
+      { line: 3, message: 'syntax error: expected an indented block' }
+    ]);
+  });
+
+  itWithPython('should report any syntax error Python finds', () => {
+    expect(checkPythonToolSource('def add(x: int) -> int:\n    """Adds."""\n    return x +\n', 'add')).toEqual([
+      { line: 3, message: 'syntax error: invalid syntax' }
+    ]);
+    expect(checkPythonToolSource('def ping():\n    """Pings."""\n      return 1\n', 'ping')).toEqual([
+      { line: 3, message: 'syntax error: unexpected indent' }
+    ]);
+  });
+
+  it('should format issues as file:line', () => {
+    expect(formatToolSourceIssues([
+      { tool: 'ping', file: 'tools/ping.py', issues: [{ line: 3, message: 'syntax error: unexpected indent' }] }
+    ])).toEqual(['tools/ping.py:3: syntax error: unexpected indent']);
+  });
+});
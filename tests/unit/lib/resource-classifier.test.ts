@@ -13,11 +13,16 @@ describe('ResourceClassifier', () => {
   });
 
   describe('isSharedFolder', () => {
-    it('identifies shared vs non-shared folders', () => {
-      expect(classifier.isSharedFolder({ name: 'shared-docs' })).toBe(true);
-      expect(classifier.isSharedFolder({ name: 'private-docs' })).toBe(false);
+    it('identifies folders marked as shared in their metadata', () => {
+      expect(classifier.isSharedFolder({ name: 'docs', metadata: { 'lettactl.shared': true } })).toBe(true);
+      expect(classifier.isSharedFolder({ name: 'docs' })).toBe(false);
       expect(classifier.isSharedFolder({})).toBe(false);
     });
+
+    it('keeps legacy shared folders without the metadata flag shared', () => {
+      expect(classifier.isSharedFolder({ name: 'shared-docs' })).toBe(true);
+      expect(classifier.isSharedFolder({ name: 'team_shared_kb', metadata: {} })).toBe(true);
+    });
   });
 
   describe('isSharedBlock', () => {
@@ -30,7 +35,7 @@ describe('ResourceClassifier', () => {
 
   describe('isFolderUsedByOtherAgents', () => {
     it('checks if folder is used by other agents', async () => {
-      mockClient.getAgent.mockResolvedValueOnce({ folders: [{ id: 'folder-1' }] } as any);
+      mockClient.listAgentFolders.mockResolvedValueOnce([{ id: 'folder-1' }] as any);
 
       const result = await classifier.isFolderUsedByOtherAgents('folder-1', 'agent-1', [{ id: 'agent-1' }, { id: 'agent-2' }]);
       expect(result).toBe(true);
@@ -0,0 +1,48 @@
+import { explainFleetPath } from '../../../src/lib/validation/schema-explainer';
+import { DEFAULT_CONTEXT_WINDOW } from '../../../src/lib/shared/constants';
+
+describe('schema-explainer', () => {
+  it('should explain a nested field with its default', () => {
+    const explanation = explainFleetPath('agents.memory_blocks.mutable');
+
+    expect(explanation.path).toBe('agents.memory_blocks.mutable');
+    expect(explanation.type).toBe('boolean');
+    expect(explanation.default).toBe(true);
+    expect(explanation.description).toContain('re-synced from YAML');
+  });
+
+  it('should ignore array indexes and report bounds as allowed values', () => {
+    const explanation = explainFleetPath('agents[0].llm_config.context_window');
+
+    expect(explanation.path).toBe('agents.llm_config.context_window');
+    expect(explanation.type).toBe('integer');
+    expect(explanation.default).toBe(DEFAULT_CONTEXT_WINDOW);
+    expect(explanation.allowedValues).toEqual(['1000 to 200000']);
+  });
+
+  it('should list enum values', () => {
+    const explanation = explainFleetPath('agents.folders.files.from_bucket.provider');
+
+    expect(explanation.type).toBe('string');
+    expect(explanation.allowedValues).toEqual(expect.arrayContaining(['"supabase"', '"s3"']));
+  });
+
+  it('should look through oneOf alternatives for child fields', () => {
+    const explanation = explainFleetPath('agents.tools');
+
+    expect(explanation.type).toBe('[](string | object)');
+    expect(explanation.fields.map(field => field.name)).toEqual(expect.arrayContaining(['name', 'from_file']));
+    expect(explainFleetPath('agents.tools.from_file').type).toBe('string');
+  });
+
+  it('should list top-level fleet fields for an empty path', () => {
+    const explanation = explainFleetPath('');
+
+    expect(explanation.fields.map(field => field.name)).toEqual(expect.arrayContaining(['agents', 'shared_blocks']));
+  });
+
+  it('should reject unknown fields and list the available ones', () => {
+    expect(() => explainFleetPath('agents.bogus'))
+      .toThrow(/Field "bogus" does not exist in agents\.\nAvailable fields: name, description/);
+  });
+});
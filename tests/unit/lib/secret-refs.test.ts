@@ -0,0 +1,255 @@
+import {
+  SecretStore,
+  parseDotenv,
+  secretDigest,
+  maskMcpServerSecrets,
+  maskAgentSecrets,
+  SECRET_MASK
+} from '../../../src/lib/apply/secret-refs';
+import { FleetParser } from '../../../src/lib/apply/fleet-parser';
+import { renderCommand } from '../../../src/commands/render/render';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('secret-refs', () => {
+  let tempDir: string;
+
+  const writeFile = (relativePath: string, content: string): string => {
+    const fullPath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+    return fullPath;
+  };
+
+  const createStore = () => new SecretStore({
+    basePath: tempDir,
+    keyringFile: path.join(tempDir, 'keyring.json')
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lettactl-secrets-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseDotenv', () => {
+    it('should parse assignments, quotes, export and comments', () => {
+      const content = [
+        '# comment',
+        'PLAIN=value # trailing',
+        'export EXPORTED=yes',
+        'DOUBLE="line\\nbreak"',
+        "SINGLE='keep # this'",
+        'not a line'
+      ].join('\n');
+
+      expect(parseDotenv(content)).toEqual({
+        PLAIN: 'value',
+        EXPORTED: 'yes',
+        DOUBLE: 'line\nbreak',
+        SINGLE: 'keep # this'
+      });
+    });
+  });
+
+  describe('SecretStore', () => {
+    it('should look in the secrets file, then .env, then the keyring', () => {
+      writeFile('.lettactl/secrets.yml', 'shared: from-secrets\n');
+      writeFile('.env', 'shared=from-dotenv\nDOTENV_ONLY=dotenv-value\n');
+      writeFile('keyring.json', JSON.stringify({ shared: 'from-keyring', keyring_only: 'keyring-value' }));
+      const store = createStore();
+
+      expect(store.resolve({ secret_ref: 'shared' })).toBe('from-secrets');
+      expect(store.resolve({ secret_ref: 'DOTENV_ONLY' })).toBe('dotenv-value');
+      expect(store.resolve({ secret_ref: 'keyring_only' })).toBe('keyring-value');
+      expect(store.resolve({ secret_ref: 'keyring:shared' })).toBe('from-keyring');
+    });
+
+    it('should name every place it looked when a secret is missing', () => {
+      const store = createStore();
+
+      expect(() => store.resolve({ secret_ref: 'dotenv:MISSING' }))
+        .toThrow(`Secret "dotenv:MISSING" not found. Looked in: ${path.join(tempDir, '.env')} (dotenv)`);
+    });
+
+    it('should reject malformed references', () => {
+      expect(() => createStore().resolve({ secret_ref: '' })).toThrow('Invalid secret reference');
+    });
+
+    it('should resolve references deeply without touching plain values', () => {
+      writeFile('.env', 'TOKEN=abc\n');
+
+      expect(createStore().resolveAll({
+        name: 'github',
+        auth_token: { secret_ref: 'TOKEN' },
+        custom_headers: { 'X-Key': { secret_ref: 'TOKEN' }, 'X-Plain': 'plain' }
+      })).toEqual({
+        name: 'github',
+        auth_token: 'abc',
+        custom_headers: { 'X-Key': 'abc', 'X-Plain': 'plain' }
+      });
+    });
+  });
+
+  describe('secretDigest', () => {
+    it('should ignore key order and distinguish values', () => {
+      expect(secretDigest({ a: '1', b: '2' })).toBe(secretDigest({ b: '2', a: '1' }));
+      expect(secretDigest('token-a')).not.toBe(secretDigest('token-b'));
+      expect(secretDigest(undefined)).toBe(secretDigest(null));
+    });
+  });
+
+  describe('masking', () => {
+    it('should mask MCP server credentials but keep header names', () => {
+      const masked = maskMcpServerSecrets({
+        server_name: 'github',
+        auth_header: 'Authorization',
+        auth_token: 'Bearer abc',
+        custom_headers: { 'X-Key': 'abc' },
+        env: { TOKEN: 'abc' }
+      });
+
+      expect(masked).toEqual({
+        server_name: 'github',
+        auth_header: 'Authorization',
+        auth_token: SECRET_MASK,
+        custom_headers: { 'X-Key': SECRET_MASK },
+        env: { TOKEN: SECRET_MASK }
+      });
+    });
+
+    it('should mask agent environment variable values', () => {
+      const masked = maskAgentSecrets({ name: 'a', secrets: [{ key: 'TOKEN', value: 'abc' }] });
+
+      expect(masked.secrets).toEqual([{ key: 'TOKEN', value: SECRET_MASK }]);
+    });
+  });
+
+  describe('environment variables in credential fields', () => {
+    const writeFleet = () => writeFile('mcp.yml', [
+      'mcp_servers:',
+      '  - name: github',
+      '    type: streamable_http',
+      '    server_url: https://mcp.example.com/api',
+      '    auth_header: Authorization',
+      '    auth_token: "${LETTACTL_TEST_TOKEN}"',
+      'agents:',
+      '  - name: support',
+      '    description: Support agent',
+      '    llm_config:',
+      '      model: openai/gpt-4o',
+      '      context_window: 128000',
+      '    system_prompt:',
+      '      value: You help customers.',
+      '    tool_env:',
+      '      GITHUB_TOKEN: "${LETTACTL_TEST_TOKEN}"',
+      '      API_URL: "${api_url}"',
+      ''
+    ].join('\n'));
+
+    beforeEach(() => {
+      process.env.LETTACTL_TEST_TOKEN = 'ghp_supersecret';
+    });
+
+    afterEach(() => {
+      delete process.env.LETTACTL_TEST_TOKEN;
+    });
+
+    it('should keep environment credentials out of render output', async () => {
+      const fleetPath = writeFleet();
+      const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+      try {
+        await renderCommand({ file: fleetPath, set: ['api_url=https://crm.example.com'] });
+        const rendered = logSpy.mock.calls.map(call => call.join(' ')).join('\n');
+
+        expect(rendered).not.toContain('ghp_supersecret');
+        expect(rendered).toContain('auth_token: ${LETTACTL_TEST_TOKEN}');
+        expect(rendered).toContain('API_URL: https://crm.example.com');
+      } finally {
+        logSpy.mockRestore();
+      }
+    });
+
+    it('should expand them when they are sent to Letta', async () => {
+      const fleetPath = writeFleet();
+      const parser = new FleetParser(fleetPath, { values: { api_url: 'https://crm.example.com' } });
+      const config = await parser.parseFleetConfig(fleetPath);
+      const client = {
+        listMcpServers: jest.fn().mockResolvedValue([]),
+        createMcpServer: jest.fn().mockResolvedValue({ id: 'mcp-1' }),
+        refreshMcpServer: jest.fn().mockResolvedValue(undefined)
+      };
+
+      await parser.registerMcpServers(config, client);
+
+      expect(JSON.stringify(client.createMcpServer.mock.calls[0][0])).toContain('ghp_supersecret');
+      expect(parser.resolveToolEnv(config.agents[0])).toEqual({
+        GITHUB_TOKEN: 'ghp_supersecret',
+        API_URL: 'https://crm.example.com'
+      });
+    });
+  });
+
+  describe('FleetParser.resolveCredentials', () => {
+    const writeFleet = () => writeFile('fleet.yml', [
+      'mcp_servers:',
+      '  - name: github',
+      '    type: streamable_http',
+      '    server_url: https://mcp.example.com/api',
+      '    auth_header: Authorization',
+      '    auth_token:',
+      '      secret_ref: github-token',
+      'agents:',
+      '  - name: support',
+      '    description: Support agent',
+      '    llm_config:',
+      '      model: openai/gpt-4o',
+      '      context_window: 128000',
+      '    system_prompt:',
+      '      value: You help customers.',
+      '    tool_env:',
+      '      CRM_API_KEY:',
+      '        secret_ref: crm-key',
+      ''
+    ].join('\n'));
+
+    it('should fail on a missing secret before the server is called', async () => {
+      const fleetPath = writeFleet();
+      const parser = new FleetParser(fleetPath);
+      const config = await parser.parseFleetConfig(fleetPath);
+
+      expect(() => parser.resolveCredentials(config)).toThrow('MCP server github: Secret "github-token" not found');
+    });
+
+    it('should fail on a missing tool_env secret of any agent', async () => {
+      const fleetPath = writeFleet();
+      writeFile('.lettactl/secrets.yml', 'github-token: ghp_fromfile\n');
+      const parser = new FleetParser(fleetPath);
+      const config = await parser.parseFleetConfig(fleetPath);
+
+      expect(() => parser.resolveCredentials(config)).toThrow('Agent support: tool_env: Secret "crm-key" not found');
+    });
+
+    it('should use the credentials it resolved', async () => {
+      const fleetPath = writeFleet();
+      writeFile('.lettactl/secrets.yml', 'github-token: ghp_fromfile\ncrm-key: crm_fromfile\n');
+      const parser = new FleetParser(fleetPath);
+      const config = await parser.parseFleetConfig(fleetPath);
+      const client = {
+        listMcpServers: jest.fn().mockResolvedValue([]),
+        createMcpServer: jest.fn().mockResolvedValue({ id: 'mcp-1' }),
+        refreshMcpServer: jest.fn().mockResolvedValue(undefined)
+      };
+
+      parser.resolveCredentials(config);
+      fs.rmSync(path.join(tempDir, '.lettactl'), { recursive: true });
+      await parser.registerMcpServers(config, client);
+
+      expect(client.createMcpServer.mock.calls[0][0].config.auth_token).toBe('ghp_fromfile');
+      expect(parser.resolveToolEnv(config.agents[0])).toEqual({ CRM_API_KEY: 'crm_fromfile' });
+    });
+  });
+});
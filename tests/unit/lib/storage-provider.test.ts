@@ -0,0 +1,171 @@
+import {
+  StorageProviderRegistry,
+  loadStorageProvider
+} from '../../../src/lib/storage/storage-provider';
+import { StorageBackendManager } from '../../../src/lib/storage/storage-backend';
+import { StorageError } from '../../../src/lib/storage/storage-error-handler';
+import { BucketConfigValidator } from '../../../src/lib/storage/bucket-config-validator';
+import { FleetConfigValidator } from '../../../src/lib/validation/config-validators';
+import { FleetParser } from '../../../src/lib/apply/fleet-parser';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// In-memory provider module: objects come from options.objects, keyed by "bucket/path"
+const MEMORY_PROVIDER = `
+module.exports = (options) => {
+  const objects = options.objects || {};
+  const key = (config) => config.bucket + '/' + config.path;
+  const get = (config) => {
+    if (!(key(config) in objects)) throw Object.assign(new Error('no such object'), { status: 404 });
+    return objects[key(config)];
+  };
+  return {
+    read: async (config) => (config.upper ? get(config).toUpperCase() : get(config)),
+    readBinary: async (config) => Buffer.from(get(config)),
+    list: async (config, prefix) => Object.keys(objects)
+      .filter(k => k.startsWith(config.bucket + '/' + prefix))
+      .map(k => k.substring(config.bucket.length + 1)),
+    stat: async (config) => ({ path: config.path, size: Buffer.byteLength(get(config)) })
+  };
+};
+`;
+
+describe('storage-provider', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lettactl-provider-'));
+    fs.mkdirSync(path.join(tempDir, 'storage'));
+    fs.writeFileSync(path.join(tempDir, 'storage', 'memory.js'), MEMORY_PROVIDER);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const registerMemory = (manager: StorageBackendManager, objects: Record<string, string>) =>
+    manager.providers.register('memory', loadStorageProvider(
+      { name: 'memory', module: './storage/memory.js', options: { objects } },
+      tempDir
+    ));
+
+  describe('StorageProviderRegistry', () => {
+    it('should list registered providers for unknown names', () => {
+      const registry = new StorageProviderRegistry();
+      registry.register('memory', () => ({} as any));
+
+      expect(() => registry.get('gcs')).toThrow("Provider 'gcs' not recognized. Available: memory.");
+      expect(() => registry.get('supabse')).toThrow("Did you mean 'supabase'?");
+    });
+
+    it('should include the built-in providers in every manager', () => {
+      expect(new StorageBackendManager().providers.names).toEqual(['supabase', 's3']);
+    });
+  });
+
+  describe('custom provider modules', () => {
+    it('should read, list and stat through the manager', async () => {
+      const manager = new StorageBackendManager();
+      registerMemory(manager, { 'docs/a.md': 'alpha', 'docs/guides/b.md': 'beta' });
+
+      expect(await manager.readFromBucket({ provider: 'memory', bucket: 'docs', path: 'a.md' })).toBe('alpha');
+      expect(await manager.readFromBucket({ provider: 'memory', bucket: 'docs', path: 'a.md', upper: true })).toBe('ALPHA');
+      expect((await manager.downloadBinaryFromBucket({ provider: 'memory', bucket: 'docs', path: 'a.md' })).toString()).toBe('alpha');
+      expect(await manager.listBucketFiles({ provider: 'memory', bucket: 'docs', path: 'guides/*' }, 'guides/')).toEqual(['guides/b.md']);
+      expect(await manager.statBucketFile({ provider: 'memory', bucket: 'docs', path: 'a.md' })).toEqual({ path: 'a.md', size: 5 });
+    });
+
+    it('should normalize provider errors to StorageError', async () => {
+      const manager = new StorageBackendManager();
+      registerMemory(manager, {});
+
+      const err = await manager.readFromBucket({ provider: 'memory', bucket: 'docs', path: 'missing.md' }).catch(e => e);
+      expect(err).toBeInstanceOf(StorageError);
+      expect(err.kind).toBe('not_found');
+      expect(err.provider).toBe('memory');
+      expect(err.message).toContain('Failed to download docs/missing.md (memory)');
+    });
+
+    it('should reject modules that do not export a complete provider', () => {
+      fs.writeFileSync(path.join(tempDir, 'storage', 'partial.js'), 'module.exports = () => ({ read: async () => "" });');
+      fs.writeFileSync(path.join(tempDir, 'storage', 'object.js'), 'module.exports = { read: async () => "" };');
+      const factory = loadStorageProvider({ name: 'partial', module: './storage/partial.js' }, tempDir);
+
+      expect(() => factory()).toThrow("Storage provider 'partial' from ./storage/partial.js is missing methods: readBinary, list, stat");
+      expect(() => loadStorageProvider({ name: 'object', module: './storage/object.js' }, tempDir))
+        .toThrow('must export a function that returns a provider');
+      expect(() => loadStorageProvider({ name: 'gone', module: './storage/gone.js' }, tempDir))
+        .toThrow("Failed to load storage provider 'gone' from ./storage/gone.js");
+    });
+  });
+
+  describe('validation', () => {
+    const agent = (fromBucket: Record<string, any>) => ({
+      name: 'support',
+      description: 'Support agent',
+      llm_config: { model: 'openai/gpt-4o', context_window: 128000 },
+      system_prompt: { from_bucket: fromBucket }
+    });
+
+    it('should accept custom provider names and their fields', () => {
+      expect(() => BucketConfigValidator.validate({ provider: 'gcs', bucket: 'b', path: 'p', region: 'eu' })).not.toThrow();
+      expect(() => BucketConfigValidator.validate({ provider: 'GCS!', bucket: 'b', path: 'p' })).toThrow("Provider 'GCS!' not supported");
+    });
+
+    it('should require custom providers to be declared', () => {
+      const fromBucket = { provider: 'memory', bucket: 'docs', path: 'a.md' };
+
+      expect(() => FleetConfigValidator.validate({ agents: [agent(fromBucket)] }))
+        .toThrow("Provider 'memory' not recognized. Available: supabase, s3.");
+      expect(() => FleetConfigValidator.validate({
+        storage_providers: [{ name: 'memory', module: './storage/memory.js' }],
+        agents: [agent(fromBucket)]
+      })).not.toThrow();
+    });
+
+    it('should reject invalid storage_providers entries', () => {
+      const validate = (storage_providers: any) => () => FleetConfigValidator.validate({ storage_providers, agents: [agent({ provider: 's3', bucket: 'b', path: 'p' })] });
+
+      expect(validate({ name: 'memory' })).toThrow('storage_providers must be an array');
+      expect(validate([{ name: 's3', module: './s3.js' }])).toThrow('Storage provider "s3" is built in and cannot be replaced');
+      expect(validate([{ name: 'memory' }])).toThrow('must have a non-empty module path');
+      expect(validate([{ name: 'memory', module: 'a.js' }, { name: 'memory', module: 'b.js' }])).toThrow('Duplicate storage provider name "memory"');
+    });
+  });
+
+  it('should read from_bucket sources through providers declared in the fleet', async () => {
+    fs.writeFileSync(path.join(tempDir, 'storage', 'objects.json'), JSON.stringify({ 'docs/system.md': 'You help customers.' }));
+    fs.writeFileSync(path.join(tempDir, 'storage', 'json.js'),
+      "const fs = require('fs'); const path = require('path');\n" +
+      "const memory = require('./memory.js');\n" +
+      "module.exports = (options) => memory({ objects: JSON.parse(fs.readFileSync(path.join(__dirname, options.file), 'utf8')) });\n"
+    );
+    const fleetPath = path.join(tempDir, 'fleet.yaml');
+    fs.writeFileSync(fleetPath, [
+      'storage_providers:',
+      '  - name: json',
+      '    module: ./storage/json.js',
+      '    options:',
+      '      file: objects.json',
+      'agents:',
+      '  - name: support',
+      '    description: Support agent',
+      '    llm_config:',
+      '      model: openai/gpt-4o',
+      '      context_window: 128000',
+      '    system_prompt:',
+      '      from_bucket:',
+      '        provider: json',
+      '        bucket: docs',
+      '        path: system.md',
+      ''
+    ].join('\n'));
+
+    const parser = new FleetParser(fleetPath);
+    const config = await parser.parseFleetConfig(fleetPath);
+
+    expect(config.agents[0].system_prompt.value).toContain('You help customers.');
+    expect(parser.storageBackend.providers.has('json')).toBe(true);
+  });
+});
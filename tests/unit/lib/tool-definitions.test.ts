@@ -0,0 +1,109 @@
+import {
+  buildToolDefinition,
+  diffToolDefinition,
+  parsePipRequirement,
+  parseRequirementsFile,
+  toolDefinitionFingerprint
+} from '../../../src/lib/apply/tool-definitions';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('tool-definitions', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lettactl-tool-definitions-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parsePipRequirement', () => {
+    it('should split exact pins and pass other specifiers through', () => {
+      expect(parsePipRequirement('requests==2.31.0')).toEqual({ name: 'requests', version: '2.31.0' });
+      expect(parsePipRequirement(' pydantic>=2 ')).toEqual({ name: 'pydantic>=2' });
+      expect(parsePipRequirement('pandas')).toEqual({ name: 'pandas' });
+    });
+
+    it('should reject specifiers without a package name', () => {
+      expect(() => parsePipRequirement('>=2')).toThrow('Invalid pip requirement ">=2"');
+    });
+  });
+
+  describe('parseRequirementsFile', () => {
+    it('should skip comments and blank lines', () => {
+      const content = '# deps\nrequests==2.31.0  # http\n\npydantic>=2\n';
+
+      expect(parseRequirementsFile(content)).toEqual([
+        { name: 'requests', version: '2.31.0' },
+        { name: 'pydantic>=2' }
+      ]);
+    });
+
+    it('should reject pip options', () => {
+      expect(() => parseRequirementsFile('requests\n-r base.txt\n', 'tools/requirements.txt'))
+        .toThrow('tools/requirements.txt line 2: pip options like "-r" are not supported');
+    });
+  });
+
+  describe('buildToolDefinition', () => {
+    it('should read a requirements file next to the tool source', () => {
+      fs.mkdirSync(path.join(tempDir, 'tools'));
+      fs.writeFileSync(path.join(tempDir, 'tools', 'requirements.txt'), 'requests==2.31.0\n');
+
+      const definition = buildToolDefinition(
+        { name: 'fetch_weather', pip_requirements: 'requirements.txt', tags: ['weather'] },
+        'def fetch_weather(): pass',
+        tempDir
+      );
+
+      expect(definition).toEqual({
+        source_code: 'def fetch_weather(): pass',
+        pip_requirements: [{ name: 'requests', version: '2.31.0' }],
+        tags: ['weather']
+      });
+    });
+
+    it('should only include declared fields', () => {
+      expect(buildToolDefinition(undefined, 'code', tempDir)).toEqual({ source_code: 'code' });
+    });
+  });
+
+  describe('diffToolDefinition', () => {
+    const registered = {
+      source_code: 'code',
+      pip_requirements: [{ name: 'pydantic>=2' }, { name: 'requests', version: '2.31.0' }],
+      tags: ['b', 'a'],
+      args_json_schema: { type: 'object', properties: { city: { type: 'string' } } }
+    };
+
+    it('should ignore order and undeclared fields', () => {
+      expect(diffToolDefinition(registered, {
+        source_code: 'code',
+        pip_requirements: [{ name: 'requests', version: '2.31.0' }, { name: 'pydantic>=2' }],
+        tags: ['a', 'b']
+      })).toEqual([]);
+    });
+
+    it('should report requirement, schema and tag changes', () => {
+      expect(diffToolDefinition(registered, {
+        source_code: 'code',
+        pip_requirements: [{ name: 'requests', version: '2.32.0' }],
+        args_json_schema: { type: 'object', properties: {} },
+        tags: ['a']
+      })).toEqual(['pip_requirements', 'args_json_schema', 'tags']);
+    });
+  });
+
+  describe('toolDefinitionFingerprint', () => {
+    it('should change with requirements and be empty without definition fields', () => {
+      const pinned = toolDefinitionFingerprint({ name: 't', pip_requirements: ['requests==2.31.0'] }, tempDir);
+      const bumped = toolDefinitionFingerprint({ name: 't', pip_requirements: ['requests==2.32.0'] }, tempDir);
+
+      expect(pinned).not.toBe(bumped);
+      expect(toolDefinitionFingerprint({ name: 't' }, tempDir)).toBe('');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { UrlSourceManager, formatUrlFileId, parseUrlFileId, urlFileName } from '../../../src/lib/storage/url-source';
+import { ContentCache } from '../../../src/lib/storage/content-cache';
+import { UrlConfigValidator } from '../../../src/lib/storage/url-config-validator';
+import { FleetParser } from '../../../src/lib/apply/fleet-parser';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('url-source', () => {
+  const sha256 = (content: string) => crypto.createHash('sha256').update(content).digest('hex');
+
+  describe('url file identifiers', () => {
+    it('should round-trip the url and pinned checksum', () => {
+      const pinned = { url: 'https://docs.example.com/a.md?v=2#intro', sha256: sha256('a') };
+      expect(formatUrlFileId(pinned)).toBe(`url:https://docs.example.com/a.md?v=2#intro#sha256=${pinned.sha256}`);
+      expect(parseUrlFileId(formatUrlFileId(pinned))).toEqual(pinned);
+      expect(parseUrlFileId('url:https://docs.example.com/a.md')).toEqual({ url: 'https://docs.example.com/a.md' });
+    });
+
+    it('should name files after the last path segment', () => {
+      expect(urlFileName('https://docs.example.com/policies/refund%20policy.pdf?download=1')).toBe('refund policy.pdf');
+      expect(urlFileName('https://docs.example.com/guides/')).toBe('guides');
+      expect(urlFileName('https://docs.example.com')).toBe('docs.example.com');
+    });
+  });
+
+  describe('UrlConfigValidator', () => {
+    it('should accept http(s) urls with an optional checksum', () => {
+      expect(() => UrlConfigValidator.validate({ url: 'https://docs.example.com/a.md' })).not.toThrow();
+      expect(() => UrlConfigValidator.validate({ url: 'http://localhost:8080/a.md', sha256: sha256('a').toUpperCase() })).not.toThrow();
+    });
+
+    it('should reject invalid urls, checksums and unknown fields', () => {
+      expect(() => UrlConfigValidator.validate({})).toThrow('from_url url must be a non-empty string');
+      expect(() => UrlConfigValidator.validate({ url: 'docs/a.md' })).toThrow('Expected an http(s) URL');
+      expect(() => UrlConfigValidator.validate({ url: 'ftp://docs.example.com/a.md' })).toThrow('Only http and https URLs are supported');
+      expect(() => UrlConfigValidator.validate({ url: 'https://x.dev/a', sha256: 'abc' })).toThrow('Expected 64 hex characters');
+      expect(() => UrlConfigValidator.validate({ url: 'https://x.dev/a', checksum: 'abc' })).toThrow('Unknown fields in from_url config: checksum');
+    });
+  });
+
+  describe('UrlSourceManager', () => {
+    let tempDir: string;
+    let server: http.Server;
+    let baseUrl: string;
+    let documents: Record<string, string>;
+    let requests: { path: string; ifNoneMatch?: string }[];
+
+    beforeEach(async () => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lettactl-url-'));
+      documents = { '/policies/refunds.md': 'Refunds within 30 days.' };
+      requests = [];
+      server = http.createServer((req, res) => {
+        const ifNoneMatch = req.headers['if-none-match'];
+        requests.push({ path: req.url!, ifNoneMatch });
+        const body = documents[req.url!];
+        if (body === undefined) {
+          res.writeHead(404).end('missing');
+          return;
+        }
+        const etag = `"${sha256(body).substring(0, 8)}"`;
+        if (ifNoneMatch === etag) {
+          res.writeHead(304).end();
+          return;
+        }
+        res.writeHead(200, { etag }).end(body);
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as any).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should download once per run and revalidate with the cached ETag', async () => {
+      const url = `${baseUrl}/policies/refunds.md`;
+      const cacheDir = path.join(tempDir, 'cache');
+
+      const firstRun = new UrlSourceManager({ cache: new ContentCache({ root: cacheDir }) });
+      expect(await firstRun.readFile({ url })).toBe('Refunds within 30 days.');
+      expect(await firstRun.readFile({ url })).toBe('Refunds within 30 days.');
+      expect(requests).toHaveLength(1);
+
+      const secondRun = new UrlSourceManager({ cache: new ContentCache({ root: cacheDir }) });
+      expect(await secondRun.readFile({ url, sha256: sha256('Refunds within 30 days.') })).toBe('Refunds within 30 days.');
+      expect(requests).toHaveLength(2);
+      expect(requests[1].ifNoneMatch).toBe(`"${sha256('Refunds within 30 days.').substring(0, 8)}"`);
+    });
+
+    it('should fail when the content no longer matches the pinned checksum', async () => {
+      const url = `${baseUrl}/policies/refunds.md`;
+      const pinned = sha256(documents['/policies/refunds.md']);
+      documents['/policies/refunds.md'] = 'Refunds within 14 days.';
+
+      await expect(new UrlSourceManager({ cache: new ContentCache({ root: tempDir }) }).readFile({ url, sha256: pinned }))
+        .rejects.toThrow(`Checksum mismatch for ${url}: expected sha256 ${pinned}, got ${sha256('Refunds within 14 days.')}`);
+    });
+
+    it('should explain HTTP errors', async () => {
+      await expect(new UrlSourceManager({ cache: new ContentCache({ root: tempDir }) }).readFile({ url: `${baseUrl}/missing.md` }))
+        .rejects.toThrow(`Failed to download ${baseUrl}/missing.md: HTTP 404 Not Found. Check the URL is correct`);
+    });
+
+    it('should resolve from_url sources and verify pinned checksums when parsing a fleet', async () => {
+      const fleetPath = path.join(tempDir, 'fleet.yaml');
+      const writeFleet = (fileChecksum: string) => fs.writeFileSync(fleetPath, [
+        'agents:',
+        '  - name: support',
+        '    description: Support agent',
+        '    llm_config:',
+        '      model: openai/gpt-4o',
+        '      context_window: 128000',
+        '    system_prompt:',
+        '      from_url:',
+        `        url: ${baseUrl}/policies/refunds.md`,
+        '    folders:',
+        '      - name: policies',
+        '        files:',
+        '          - from_url:',
+        `              url: ${baseUrl}/policies/refunds.md`,
+        `              sha256: ${fileChecksum}`,
+        ''
+      ].join('\n'));
+      const previousCacheDir = process.env.LETTACTL_CACHE_DIR;
+      process.env.LETTACTL_CACHE_DIR = path.join(tempDir, 'cache');
+
+      try {
+        writeFleet(sha256(documents['/policies/refunds.md']));
+        const config = await new FleetParser(fleetPath).parseFleetConfig(fleetPath);
+        expect(config.agents[0].system_prompt.value).toContain('Refunds within 30 days.');
+
+        writeFleet(sha256('an older version'));
+        await expect(new FleetParser(fleetPath).parseFleetConfig(fleetPath)).rejects.toThrow('Checksum mismatch');
+      } finally {
+        if (previousCacheDir === undefined) delete process.env.LETTACTL_CACHE_DIR;
+        else process.env.LETTACTL_CACHE_DIR = previousCacheDir;
+      }
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  interpolateVariables,
+  parseSetValues,
+  buildFleetValues
+} from '../../../src/lib/apply/variable-interpolation';
+import * as fs from 'fs';
+
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('variable interpolation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.LETTACTL_TEST_MODEL;
+  });
+
+  describe('interpolateVariables', () => {
+    it('should replace placeholders inside strings', () => {
+      const config = { agents: [{ name: 'support-${env}', description: 'Agent for ${env}' }] };
+
+      const result = interpolateVariables(config, { env: 'prod' });
+
+      expect(result.agents[0].name).toBe('support-prod');
+      expect(result.agents[0].description).toBe('Agent for prod');
+    });
+
+    it('should resolve dotted paths into nested values', () => {
+      const result = interpolateVariables({ name: '${customer.name}' }, { customer: { name: 'acme' } });
+
+      expect(result.name).toBe('acme');
+    });
+
+    it('should coerce whole-field placeholders to numbers and booleans in numeric and boolean fields', () => {
+      const config = {
+        agents: [{
+          name: 'ctx-${ctx}',
+          llm_config: { context_window: '${ctx}' },
+          memory_blocks: [{ name: 'notes', mutable: '${flag}' }]
+        }]
+      };
+
+      const result = interpolateVariables(config, { ctx: '64000', flag: 'false' });
+
+      expect(result.agents[0].llm_config.context_window).toBe(64000);
+      expect(result.agents[0].memory_blocks[0].mutable).toBe(false);
+      expect(result.agents[0].name).toBe('ctx-64000');
+    });
+
+    it('should keep whole-field placeholders as strings in string and free-form fields', () => {
+      const config = {
+        agents: [{
+          name: '${tenant}',
+          description: '${d}',
+          metadata: { version: '${v}' }
+        }]
+      };
+
+      const result = interpolateVariables(config, { tenant: '1234', d: 'true', v: '1.10' });
+
+      expect(result.agents[0].name).toBe('1234');
+      expect(result.agents[0].description).toBe('true');
+      expect(result.agents[0].metadata.version).toBe('1.10');
+    });
+
+    it('should turn numbers from values files into strings in string fields', () => {
+      const result = interpolateVariables({ agents: [{ name: '${tenant}', llm_config: { context_window: '${ctx}' } }] }, { tenant: 1234, ctx: 64000 });
+
+      expect(result.agents[0].name).toBe('1234');
+      expect(result.agents[0].llm_config.context_window).toBe(64000);
+    });
+
+    it('should fall back to environment variables', () => {
+      process.env.LETTACTL_TEST_MODEL = 'openai/gpt-4o';
+
+      const result = interpolateVariables({ model: '${LETTACTL_TEST_MODEL}' }, {});
+
+      expect(result.model).toBe('openai/gpt-4o');
+    });
+
+    it('should prefer values over environment variables', () => {
+      process.env.LETTACTL_TEST_MODEL = 'openai/gpt-4o';
+
+      const result = interpolateVariables({ model: '${LETTACTL_TEST_MODEL}' }, { LETTACTL_TEST_MODEL: 'google_ai/gemini-2.5-pro' });
+
+      expect(result.model).toBe('google_ai/gemini-2.5-pro');
+    });
+
+    it('should keep escaped placeholders as literals', () => {
+      const result = interpolateVariables({ value: 'Use $${name} in templates' }, {});
+
+      expect(result.value).toBe('Use ${name} in templates');
+    });
+
+    it('should report every unresolved variable with its field path', () => {
+      const config = {
+        agents: [{ name: 'a', llm_config: { model: '${model}' } }, { name: '${missing}' }]
+      };
+
+      expect(() => interpolateVariables(config, {})).toThrow(/\$\{model\} at agents\[0\]\.llm_config\.model/);
+      expect(() => interpolateVariables(config, {})).toThrow(/\$\{missing\} at agents\[1\]\.name/);
+    });
+
+    it('should reject object values embedded in a larger string', () => {
+      expect(() => interpolateVariables({ name: 'x-${customer}' }, { customer: { name: 'acme' } }))
+        .toThrow(/value is not a scalar/);
+    });
+  });
+
+  describe('parseSetValues', () => {
+    it('should parse key=value pairs and keep = in values', () => {
+      expect(parseSetValues(['env=prod', 'query=a=b'])).toEqual({ env: 'prod', query: 'a=b' });
+    });
+
+    it('should reject entries without a key', () => {
+      expect(() => parseSetValues(['=prod'])).toThrow('Expected format: key=value');
+      expect(() => parseSetValues(['prod'])).toThrow('Expected format: key=value');
+    });
+  });
+
+  describe('buildFleetValues', () => {
+    it('should let later values files and --set flags take precedence', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockImplementation((filePath: any) =>
+        filePath === 'base.yml' ? 'env: dev\nmodel: base-model\n' : 'env: prod\n'
+      );
+
+      const values = buildFleetValues({ valuesFiles: ['base.yml', 'prod.yml'], set: ['model=override'] });
+
+      expect(values).toEqual({ env: 'prod', model: 'override' });
+    });
+
+    it('should fail when a values file is missing', () => {
+      mockedFs.existsSync.mockReturnValue(false);
+
+      expect(() => buildFleetValues({ valuesFiles: ['missing.yml'] })).toThrow('Values file not found: missing.yml');
+    });
+
+    it('should reject values files that are not mappings', () => {
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockReturnValue('- a\n- b\n');
+
+      expect(() => buildFleetValues({ valuesFiles: ['list.yml'] })).toThrow('must contain a YAML mapping');
+    });
+  });
+});